@@ -0,0 +1,222 @@
+import {
+  DependencyResolver,
+  GraphQLRequester,
+  ISSUES_WITH_RELATIONS_PAGE_SIZE,
+  RELATIONS_PER_ISSUE,
+} from "../modules/DependencyResolver";
+import { scanPaginated } from "../utils/linear-pagination";
+
+interface FakeIssue {
+  id: string;
+  number: number;
+  title: string;
+  priority: number;
+  url: string;
+  state: { name: string; type: string };
+  labels: { nodes: Array<{ name: string }> };
+  relations: { nodes: Array<{ type: string; relatedIssue: FakeIssue }> };
+}
+
+/**
+ * Stub GraphQL client over an in-memory issue list that counts requests.
+ * Every third issue is blocked by an incomplete issue, every fifth by a
+ * completed one.
+ */
+function createStubClient(total: number) {
+  const done: FakeIssue = makeIssue(-1, "Done", "completed");
+  const open: FakeIssue = makeIssue(-2, "Todo", "unstarted");
+  const issues = Array.from({ length: total }, (_, i) => {
+    const issue = makeIssue(i, "Backlog", "backlog");
+    if (i % 3 === 0) {
+      issue.relations.nodes.push({ type: "blocks", relatedIssue: open });
+    } else if (i % 5 === 0) {
+      issue.relations.nodes.push({ type: "blocks", relatedIssue: done });
+    }
+    issue.relations.nodes.push({ type: "related", relatedIssue: open });
+    return issue;
+  });
+
+  let requests = 0;
+  const client: GraphQLRequester = {
+    async request<Data>(document: string, variables?: any): Promise<Data> {
+      requests++;
+      if (document.includes("issue(id:")) {
+        return {
+          issue: issues.find((i) => i.id === variables.id) ?? null,
+        } as Data;
+      }
+      const start = variables.after ? Number(variables.after) + 1 : 0;
+      const nodes = issues.slice(start, start + variables.first);
+      return {
+        issues: {
+          nodes,
+          pageInfo: {
+            hasNextPage: start + nodes.length < issues.length,
+            endCursor: String(start + nodes.length - 1),
+          },
+        },
+      } as Data;
+    },
+  };
+
+  return { client, requests: () => requests };
+}
+
+/**
+ * Stub GraphQL client for one issue blocked by `total` issues, which
+ * pages the issue's relations and inverse relations by offset
+ */
+function createManyRelationsClient(total: number) {
+  const issue = makeIssue(0, "Backlog", "backlog");
+  const others = Array.from({ length: total }, (_, i) => {
+    const other = makeIssue(i + 1, "Todo", "unstarted");
+    other.relations.nodes.push({ type: "blocks", relatedIssue: issue });
+    return other;
+  });
+  issue.relations.nodes = others.map((other) => ({
+    type: "blocks",
+    relatedIssue: other,
+  }));
+
+  const page = <T>(nodes: T[], after?: string) => {
+    const start = after ? Number(after) : 0;
+    const end = start + RELATIONS_PER_ISSUE;
+    return {
+      nodes: nodes.slice(start, end),
+      pageInfo: { hasNextPage: end < nodes.length, endCursor: String(end) },
+    };
+  };
+  const inverse = others.map((other) => ({ type: "blocks", issue: other }));
+
+  let requests = 0;
+  const client: GraphQLRequester = {
+    async request<Data>(document: string, variables?: any): Promise<Data> {
+      requests++;
+      const after = variables.after;
+      if (document.includes("inverseRelations")) {
+        return {
+          issue: { ...issue, inverseRelations: page(inverse, after) },
+        } as Data;
+      }
+      return {
+        issue: { ...issue, relations: page(issue.relations.nodes, after) },
+      } as Data;
+    },
+  };
+
+  return { client, requests: () => requests };
+}
+
+function makeIssue(i: number, stateName: string, stateType: string) {
+  return {
+    id: `issue-${i}`,
+    number: i,
+    title: `Issue ${i}`,
+    priority: 2,
+    url: `https://linear.app/test/issue/${i}`,
+    state: { name: stateName, type: stateType },
+    labels: { nodes: [{ name: "backend" }] },
+    relations: { nodes: [] },
+  } as FakeIssue;
+}
+
+describe("DependencyResolver", () => {
+  it("should report incomplete blockers for a single issue in one request", async () => {
+    const { client, requests } = createStubClient(10);
+    const resolver = new DependencyResolver(client);
+
+    const issue = await resolver.fetchIssueWithRelations("issue-3");
+
+    expect(requests()).toBe(1);
+    expect(DependencyResolver.isBlocked(issue)).toBe(true);
+    expect(DependencyResolver.incompleteBlockers(issue)).toEqual([
+      expect.objectContaining({ id: "issue--2", state: expect.anything() }),
+    ]);
+  });
+
+  it("should not treat completed blockers or related issues as blocking", async () => {
+    const { client } = createStubClient(10);
+    const resolver = new DependencyResolver(client);
+
+    const issue = await resolver.fetchIssueWithRelations("issue-5");
+
+    expect(DependencyResolver.isBlocked(issue)).toBe(false);
+  });
+
+  it("should page through relations past the first page", async () => {
+    const total = RELATIONS_PER_ISSUE * 2 + 10;
+    const { client, requests } = createManyRelationsClient(total);
+    const resolver = new DependencyResolver(client);
+
+    const issue = await resolver.fetchIssueWithRelations("issue-0");
+
+    expect(issue.relations).toHaveLength(total);
+    expect(DependencyResolver.incompleteBlockers(issue)).toHaveLength(total);
+    expect(requests()).toBe(3);
+  });
+
+  it("should page through the issues an issue blocks", async () => {
+    const total = RELATIONS_PER_ISSUE + 5;
+    const { client } = createManyRelationsClient(total);
+    const resolver = new DependencyResolver(client);
+
+    const { blocked } = await resolver.fetchIssuesBlockedBy("issue-0");
+
+    expect(blocked.map((issue) => issue.id)).toEqual(
+      Array.from({ length: total }, (_, i) => `issue-${i + 1}`),
+    );
+  });
+
+  it("should throw for an unknown issue", async () => {
+    const { client } = createStubClient(1);
+    const resolver = new DependencyResolver(client);
+
+    await expect(resolver.fetchIssueWithRelations("missing")).rejects.toThrow(
+      "Issue not found",
+    );
+  });
+
+  describe("benchmark: requests for a 600-issue team", () => {
+    const total = 600;
+
+    it("should resolve readiness with one request per page", async () => {
+      const { client, requests } = createStubClient(total);
+      const resolver = new DependencyResolver(client);
+
+      const result = await scanPaginated(
+        (page) => resolver.fetchIssuesWithRelations({}, page),
+        { fetchAll: true },
+        async (issues) =>
+          issues.map((issue) => !DependencyResolver.isBlocked(issue)),
+        20,
+        ISSUES_WITH_RELATIONS_PAGE_SIZE,
+      );
+
+      const pages = Math.ceil(total / ISSUES_WITH_RELATIONS_PAGE_SIZE);
+      // The previous per-issue implementation needed 1 + N * (1 + 2R)
+      // requests: ~3,000 here versus one per page
+      expect(requests()).toBe(pages);
+      expect(result.nodes).toHaveLength(total - total / 3);
+      expect(result.nodes.every((issue) => issue.labels.length === 1)).toBe(
+        true,
+      );
+    });
+
+    it("should stop fetching once enough ready issues are found", async () => {
+      const { client, requests } = createStubClient(total);
+      const resolver = new DependencyResolver(client);
+
+      const result = await scanPaginated(
+        (page) => resolver.fetchIssuesWithRelations({}, page),
+        { limit: 20 },
+        async (issues) =>
+          issues.map((issue) => !DependencyResolver.isBlocked(issue)),
+        20,
+        ISSUES_WITH_RELATIONS_PAGE_SIZE,
+      );
+
+      expect(result.nodes).toHaveLength(20);
+      expect(requests()).toBe(1);
+    });
+  });
+});
@@ -0,0 +1,147 @@
+import * as path from "path";
+import { HttpFixtures, RecordedRequest } from "../utils/http-fixtures";
+
+/**
+ * Replays the OpenAI and Linear responses recorded under fixtures/http for
+ * a small end-user analysis, so issues, projects and milestones are created
+ * without network access or real keys
+ */
+describe("analysis", () => {
+  const env = { ...process.env };
+  const analysisData = {
+    projectName: "dj-recorder",
+    mode: "end-user",
+    languages: ["TypeScript"],
+    frameworks: ["Electron", "React"],
+    dependencies: ["typeorm", "winston"],
+    patterns: [
+      {
+        type: "Unhandled async errors",
+        description: "Async functions in Session.ts have no error handling",
+        severity: "high",
+        files: ["electron/src/database/entities/Session.ts"],
+      },
+    ],
+    issues: [
+      {
+        title: "AI Detected: Error Handling",
+        description:
+          "Session.save() rejects without a catch when the database is locked",
+        type: "bug",
+        priority: "high",
+        files: ["electron/src/database/entities/Session.ts"],
+        category: "Error Handling",
+      },
+      {
+        title: "AI Detected: Performance",
+        description: "CameraStream re-creates its MediaStream on every render",
+        type: "improvement",
+        priority: "medium",
+        files: ["src/components/CameraStream.tsx"],
+        category: "Performance",
+      },
+    ],
+    suggestions: [],
+    detailedFeatures: [],
+    fileStructure: [
+      { path: "electron/src/database/entities/Session.ts", lines: 212 },
+      { path: "src/components/CameraStream.tsx", lines: 148 },
+    ],
+  };
+  let analysis: typeof import("../analysis");
+  let sent: jest.SpyInstance;
+
+  /** The inputs of the mutations sent to Linear, by mutation */
+  const mutationInputs = (mutation: string) =>
+    sent.mock.results
+      .map((result) => result.value as RecordedRequest)
+      .filter((request) =>
+        new RegExp(`${mutation}\\(`).test((request.body as any)?.query),
+      )
+      .map((request) => (request.body as any).variables.input);
+
+  beforeAll(async () => {
+    process.env.OPENAI_API_KEY = "sk-replayed-openai-key";
+    process.env.LINEAR_API_KEY = "lin_api_replayed_key";
+    process.env.DUPLICATE_ACTION = "off";
+    process.env.HTTP_FIXTURES = "replay";
+    process.env.HTTP_FIXTURES_DIR = path.join(__dirname, "fixtures", "http");
+    process.env.API_RETRY_ATTEMPTS = "1";
+    analysis = await import("../analysis");
+  });
+
+  beforeEach(() => {
+    jest.spyOn(console, "log").mockImplementation(() => {});
+    // Milestone target dates are counted from now, as when recorded
+    jest.spyOn(Date, "now").mockReturnValue(Date.parse("2026-10-19T09:00:00Z"));
+    sent = jest.spyOn(HttpFixtures.prototype, "describe");
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  afterAll(() => {
+    process.env = env;
+  });
+
+  it("should create issues from the analysis in the matching projects", async () => {
+    const issues = await analysis.generateDetailedIssuesFromAnalysis(
+      analysisData,
+      ["error-handling", "performance"],
+    );
+    const created = await analysis.createDetailedLinearIssues(
+      issues,
+      "team-mobile",
+      "dj-recorder",
+      "end-user",
+    );
+
+    expect(created.map((issue) => issue.identifier)).toEqual([
+      "MOB-1",
+      "MOB-2",
+    ]);
+    expect(mutationInputs("projectCreate").map(({ name }) => name)).toEqual([
+      "dj-recorder - Core System",
+      "dj-recorder - Integration System",
+      "dj-recorder - Performance & Export",
+      "dj-recorder - UI & Navigation",
+    ]);
+    expect(mutationInputs("projectMilestoneCreate")[0]).toMatchObject({
+      name: "Session Management",
+      projectId: "project-1",
+      targetDate: "2026-11-02T09:00:00.000Z",
+    });
+
+    const inputs = mutationInputs("issueCreate");
+    expect(
+      inputs.map(({ title, priority, labelIds, projectId }) => ({
+        title,
+        priority,
+        labelIds,
+        projectId,
+      })),
+    ).toEqual([
+      {
+        title: "Fix: Session Management Error Handling",
+        priority: 3,
+        labelIds: [
+          "label-end-user-review",
+          "label-bug",
+          "label-session-management",
+          "label-recording",
+        ],
+        projectId: "project-1",
+      },
+      {
+        title: "Stop re-creating the camera stream on every render",
+        priority: 2,
+        labelIds: ["label-end-user-review", "label-ui", "label-recording"],
+        projectId: "project-2",
+      },
+    ]);
+    expect(inputs[0].description).toContain(
+      "## 📋 Milestone Assignment\nThis issue should be manually assigned to the appropriate milestone in the **dj-recorder - Core System** project",
+    );
+  }, 15000);
+});
@@ -0,0 +1,299 @@
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { LinearClient } from "@linear/sdk";
+import {
+  AuditJournal,
+  MutationEntry,
+  selectEntries,
+  touchedIssueFields,
+  undoEntries,
+} from "../utils/audit-journal";
+
+interface FakeIssue {
+  id: string;
+  identifier: string;
+  priority: number;
+  assigneeId: string | null;
+  labelIds: string[];
+}
+
+function fakeLinear(issues: FakeIssue[]) {
+  const byId = new Map(issues.map((issue) => [issue.id, issue]));
+  const archived: string[] = [];
+  const find = (id: string) =>
+    byId.get(id) ?? issues.find((issue) => issue.identifier === id)!;
+
+  const linear = {
+    client: {
+      request: async (_query: string, variables: { id: string }) => {
+        const issue = find(variables.id);
+        return {
+          issue: {
+            id: issue.id,
+            identifier: issue.identifier,
+            title: issue.identifier,
+            priority: issue.priority,
+            assignee: issue.assigneeId ? { id: issue.assigneeId } : null,
+            labels: { nodes: issue.labelIds.map((id) => ({ id })) },
+          },
+        };
+      },
+    },
+    updateIssue: jest.fn(async (id: string, input: any) => {
+      const issue = find(id);
+      if ("priority" in input) issue.priority = input.priority;
+      if ("assigneeId" in input) issue.assigneeId = input.assigneeId;
+      if (input.labelIds) issue.labelIds = [...input.labelIds];
+      if (input.addedLabelIds) issue.labelIds.push(...input.addedLabelIds);
+      return { success: true };
+    }),
+    createComment: jest.fn(async () => ({ success: true, commentId: "c-1" })),
+    deleteComment: jest.fn(async () => ({ success: true })),
+    createIssue: jest.fn(async () => ({ success: true, issueId: "new-1" })),
+    archiveIssue: jest.fn(async (id: string) => {
+      archived.push(id);
+      return { success: true };
+    }),
+    deleteProjectMilestone: jest.fn(async () => ({ success: true })),
+    issues: jest.fn(async () => ({ nodes: [] })),
+  };
+
+  return { linear: linear as unknown as LinearClient, raw: linear, archived };
+}
+
+describe("audit-journal", () => {
+  let dir: string;
+  let journal: AuditJournal;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), "audit-journal-"));
+    journal = new AuditJournal(path.join(dir, "journal.jsonl"), "session-1");
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  describe("touchedIssueFields", () => {
+    it("should map label and project inputs to the fields they change", () => {
+      expect(
+        touchedIssueFields({
+          addedLabelIds: ["l"],
+          projectId: "p",
+          sortOrder: 1,
+        }),
+      ).toEqual(["labelIds", "projectId", "projectMilestoneId"]);
+    });
+  });
+
+  describe("track", () => {
+    it("should journal mutations with before and after values", async () => {
+      const { linear } = fakeLinear([
+        {
+          id: "i-1",
+          identifier: "ENG-1",
+          priority: 3,
+          assigneeId: null,
+          labelIds: ["l-b"],
+        },
+      ]);
+      const client = journal.wrap(linear);
+
+      await journal.track("update_issue", { issueId: "ENG-1" }, async () => {
+        await client.issues();
+        await client.updateIssue("ENG-1", {
+          priority: 1,
+          addedLabelIds: ["l-a"],
+        });
+        await client.createComment({ issueId: "i-1", body: "hi" });
+      });
+
+      const [entry] = journal.read() as MutationEntry[];
+      expect(entry).toMatchObject({
+        type: "mutation",
+        sessionId: "session-1",
+        tool: "update_issue",
+        args: { issueId: "ENG-1" },
+        changes: [
+          {
+            kind: "issue_update",
+            issueId: "i-1",
+            identifier: "ENG-1",
+            before: { priority: 3, labelIds: ["l-b"] },
+            after: { priority: 1, labelIds: ["l-a", "l-b"] },
+          },
+          { kind: "created", resource: "comment", id: "c-1" },
+        ],
+      });
+    });
+
+    it("should journal calls under the session they came in on", async () => {
+      const { linear } = fakeLinear([]);
+      const client = journal.wrap(linear);
+      const create = () => client.createIssue({ teamId: "t", title: "A" });
+
+      await journal.track("create_issue", {}, create, "transport-1");
+      await journal.track("create_issue", {}, create);
+
+      expect(journal.pending().map((entry) => entry.sessionId)).toEqual([
+        "transport-1",
+        "session-1",
+      ]);
+    });
+
+    it("should not journal calls without mutations or outside a tool call", async () => {
+      const { linear } = fakeLinear([]);
+      const client = journal.wrap(linear);
+
+      await journal.track("search_issues", {}, async () => {
+        await client.issues();
+      });
+      await client.createComment({ issueId: "i-1", body: "hi" });
+
+      expect(journal.read()).toEqual([]);
+    });
+
+    it("should journal changes made before a tool call failed", async () => {
+      const { linear } = fakeLinear([]);
+      const client = journal.wrap(linear);
+
+      await expect(
+        journal.track("create_bulk_issues", {}, async () => {
+          await client.createIssue({ teamId: "t", title: "A" });
+          throw new Error("boom");
+        }),
+      ).rejects.toThrow("boom");
+
+      expect(journal.pending()[0].changes).toEqual([
+        { kind: "created", resource: "issue", id: "new-1" },
+      ]);
+    });
+  });
+
+  describe("selectEntries", () => {
+    const entry = (id: string, sessionId: string) =>
+      ({ id, sessionId, tool: "t", changes: [] }) as unknown as MutationEntry;
+    const pending = [entry("a", "s1"), entry("b", "s2"), entry("c", "s2")];
+
+    it("should default to the newest entry", () => {
+      expect(selectEntries(pending, {}).map((e) => e.id)).toEqual(["c"]);
+    });
+
+    it("should select the last session newest first", () => {
+      expect(
+        selectEntries(pending, { sessionId: "last" }).map((e) => e.id),
+      ).toEqual(["c", "b"]);
+    });
+
+    it("should refuse unknown entries", () => {
+      expect(() => selectEntries(pending, { entryId: "zzz" })).toThrow(
+        "No pending journal entry zzz",
+      );
+    });
+  });
+
+  describe("undoEntries", () => {
+    it("should revert changes and mark the entry undone", async () => {
+      const issue = {
+        id: "i-1",
+        identifier: "ENG-1",
+        priority: 3,
+        assigneeId: "u-1",
+        labelIds: [],
+      };
+      const { linear, archived } = fakeLinear([issue]);
+      const client = journal.wrap(linear);
+
+      await journal.track("create_and_assign", {}, async () => {
+        await client.createIssue({ teamId: "t", title: "A" });
+        await client.updateIssue("i-1", { assigneeId: null, priority: 1 });
+      });
+
+      const results = await undoEntries(linear, journal, journal.pending());
+
+      expect(results[0]).toMatchObject({ undone: true, skipped: [] });
+      expect(issue).toMatchObject({ priority: 3, assigneeId: "u-1" });
+      expect(archived).toEqual(["new-1"]);
+      expect(journal.pending()).toEqual([]);
+      expect(journal.read()[1]).toMatchObject({
+        type: "undo",
+        undoes: [results[0].entryId],
+      });
+    });
+
+    it("should leave fields that changed again since alone unless forced", async () => {
+      const issue = {
+        id: "i-1",
+        identifier: "ENG-1",
+        priority: 3,
+        assigneeId: null,
+        labelIds: [],
+      };
+      const { linear } = fakeLinear([issue]);
+      const client = journal.wrap(linear);
+
+      await journal.track("update_issue", {}, async () => {
+        await client.updateIssue("i-1", { priority: 1 });
+      });
+      issue.priority = 2;
+
+      const [result] = await undoEntries(linear, journal, journal.pending());
+      expect(result.undone).toBe(false);
+      expect(result.skipped[0]).toContain("changed again since");
+      expect(issue.priority).toBe(2);
+      expect(journal.pending()).toHaveLength(1);
+
+      await undoEntries(linear, journal, journal.pending(), true);
+      expect(issue.priority).toBe(3);
+      expect(journal.pending()).toEqual([]);
+    });
+
+    it("should not revert a partly undone entry's changes twice", async () => {
+      const issue = {
+        id: "i-1",
+        identifier: "ENG-1",
+        priority: 3,
+        assigneeId: null,
+        labelIds: [],
+      };
+      const { linear, archived } = fakeLinear([issue]);
+      const client = journal.wrap(linear);
+
+      await journal.track("create_and_update", {}, async () => {
+        await client.createIssue({ teamId: "t", title: "A" });
+        await client.updateIssue("i-1", { priority: 1 });
+      });
+      issue.priority = 2;
+
+      const [first] = await undoEntries(linear, journal, journal.pending());
+      expect(first).toMatchObject({ undone: false, reverted: ["issue new-1"] });
+      expect(journal.pending()[0].reverted).toEqual([0]);
+
+      const [second] = await undoEntries(linear, journal, journal.pending());
+      expect(second.reverted).toEqual([]);
+      expect(archived).toEqual(["new-1"]);
+
+      await undoEntries(linear, journal, journal.pending(), true);
+      expect(archived).toEqual(["new-1"]);
+      expect(journal.pending()).toEqual([]);
+    });
+
+    it("should mark entries undone when only irreversible changes are left", async () => {
+      const { linear, archived } = fakeLinear([]);
+      const client = journal.wrap(linear);
+
+      await journal.track("replace_milestone", {}, async () => {
+        await client.deleteProjectMilestone("m-1");
+        await client.createIssue({ teamId: "t", title: "A" });
+      });
+
+      const [result] = await undoEntries(linear, journal, journal.pending());
+
+      expect(result.undone).toBe(true);
+      expect(result.skipped[0]).toContain("can't be restored");
+      expect(archived).toEqual(["new-1"]);
+      expect(journal.pending()).toEqual([]);
+    });
+  });
+});
@@ -0,0 +1,298 @@
+import { LinearClient } from "@linear/sdk";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import {
+  AutomationRule,
+  applyRuleMatch,
+  createRulesHandler,
+  loadAutomationRules,
+  matchAutomationRules,
+  parseAutomationRules,
+} from "../utils/automation-rules";
+import { LinearWebhookPayload } from "../utils/linear-webhooks";
+
+const bug = { id: "l-bug", name: "Bug" };
+const frontend = { id: "l-fe", name: "Frontend" };
+
+const issueData = {
+  id: "issue-1",
+  identifier: "ENG-1",
+  title: "Checkout crashes",
+  teamId: "team-1",
+  team: { id: "team-1", key: "ENG", name: "Engineering" },
+  priority: 1,
+  stateId: "s-todo",
+  state: { id: "s-todo", name: "Todo", type: "unstarted" },
+  assigneeId: null,
+  labelIds: [bug.id, frontend.id],
+  labels: [bug, frontend],
+};
+
+function payload(
+  action: string,
+  updatedFrom?: Record<string, any>,
+): LinearWebhookPayload {
+  return { action, type: "Issue", data: issueData, updatedFrom };
+}
+
+const [urgentBugs] = parseAutomationRules({
+  rules: [
+    {
+      name: "Urgent bugs go to on-call",
+      when: { labels: ["bug"], priority: "urgent" },
+      then: {
+        assign: "oncall@example.com",
+        addToCurrentCycle: true,
+        comment: "{{identifier}} paged by {{rule}}",
+      },
+    },
+  ],
+});
+
+describe("automation-rules", () => {
+  describe("parseAutomationRules", () => {
+    it("should report every problem in the rules", () => {
+      expect(() =>
+        parseAutomationRules(
+          {
+            rules: [
+              { name: "a", when: { priority: "critical" }, then: {} },
+              { name: "b", on: "issue.delete", then: { moveTo: "Done" } },
+            ],
+          },
+          "rules file rules.yaml",
+        ),
+      ).toThrow(
+        "Invalid rules file rules.yaml: rules.0.when.priority: must be one of: none, urgent, high, medium, normal, low; rules.0.then: needs at least one action; rules.1.on: Invalid input",
+      );
+    });
+
+    it("should reject title patterns that aren't regular expressions", () => {
+      expect(() =>
+        parseAutomationRules({
+          rules: [
+            {
+              name: "broken",
+              when: { titleMatches: "crash(" },
+              then: { setPriority: 1 },
+            },
+          ],
+        }),
+      ).toThrow(
+        "Invalid rules: rules.0.when.titleMatches: is not a valid regular expression",
+      );
+    });
+
+    it("should load YAML and JSON files", () => {
+      const dir = fs.mkdtempSync(path.join(os.tmpdir(), "automation-rules-"));
+      const yamlFile = path.join(dir, "rules.yaml");
+      const jsonFile = path.join(dir, "rules.json");
+      fs.writeFileSync(
+        yamlFile,
+        "rules:\n  - name: Close dupes\n    when:\n      labels: duplicate\n    then:\n      moveTo: canceled\n",
+      );
+      fs.writeFileSync(
+        jsonFile,
+        JSON.stringify({
+          rules: [
+            {
+              name: "Close dupes",
+              when: { labels: "duplicate" },
+              then: { moveTo: "canceled" },
+            },
+          ],
+        }),
+      );
+
+      try {
+        const fromYaml = loadAutomationRules(yamlFile);
+        expect(fromYaml).toEqual(loadAutomationRules(jsonFile));
+        expect(fromYaml[0]).toMatchObject({
+          enabled: true,
+          on: ["issue.create", "issue.update"],
+        });
+      } finally {
+        fs.rmSync(dir, { recursive: true, force: true });
+      }
+    });
+  });
+
+  describe("matchAutomationRules", () => {
+    it("should fire on create when the issue matches", () => {
+      expect(matchAutomationRules([urgentBugs], payload("create"))).toEqual([
+        {
+          rule: urgentBugs,
+          event: "issue.create",
+          issue: {
+            id: "issue-1",
+            identifier: "ENG-1",
+            title: "Checkout crashes",
+            teamId: "team-1",
+          },
+        },
+      ]);
+    });
+
+    it("should fire on the update that made the issue match", () => {
+      const gotLabel = payload("update", { labelIds: [frontend.id] });
+      const gotPriority = payload("update", { priority: 3 });
+
+      expect(matchAutomationRules([urgentBugs], gotLabel)).toHaveLength(1);
+      expect(matchAutomationRules([urgentBugs], gotPriority)).toHaveLength(1);
+    });
+
+    it("should not fire again for issues that already matched", () => {
+      const retitled = payload("update", { title: "Checkout crash" });
+      const removed = payload("remove");
+
+      expect(matchAutomationRules([urgentBugs], retitled)).toEqual([]);
+      expect(matchAutomationRules([urgentBugs], removed)).toEqual([]);
+    });
+
+    it("should check team, state, assignee and title", () => {
+      const rules = parseAutomationRules({
+        rules: [
+          {
+            name: "matches",
+            on: "issue.create",
+            when: {
+              team: "eng",
+              state: ["unstarted", "Backlog"],
+              assigned: false,
+              titleMatches: "crash",
+            },
+            then: { setPriority: 1 },
+          },
+          {
+            name: "other team",
+            when: { team: "OPS" },
+            then: { setPriority: 1 },
+          },
+          {
+            name: "disabled",
+            enabled: false,
+            then: { setPriority: 1 },
+          },
+        ],
+      });
+
+      expect(
+        matchAutomationRules(rules, payload("create")).map((m) => m.rule.name),
+      ).toEqual(["matches"]);
+      expect(matchAutomationRules(rules, payload("update", {}))).toEqual([]);
+    });
+  });
+
+  describe("applyRuleMatch", () => {
+    function fakeLinear(activeCycle: { id: string; number: number } | null) {
+      const linear = {
+        users: jest.fn(async () => ({ nodes: [{ id: "user-oncall" }] })),
+        team: jest.fn(async () => ({
+          activeCycle: Promise.resolve(activeCycle),
+        })),
+        updateIssue: jest.fn(async () => ({ success: true })),
+        createComment: jest.fn(async () => ({ success: true })),
+      };
+      return { linear, client: linear as unknown as LinearClient };
+    }
+
+    it("should assign, add to the cycle and comment", async () => {
+      const { linear, client } = fakeLinear({ id: "cycle-7", number: 7 });
+      const [match] = matchAutomationRules([urgentBugs], payload("create"));
+
+      const done = await applyRuleMatch(client, match);
+
+      expect(linear.users).toHaveBeenCalledWith({
+        filter: {
+          or: [
+            { email: { eqIgnoreCase: "oncall@example.com" } },
+            { name: { eqIgnoreCase: "oncall@example.com" } },
+            { displayName: { eqIgnoreCase: "oncall@example.com" } },
+          ],
+        },
+      });
+      expect(linear.updateIssue).toHaveBeenCalledWith("issue-1", {
+        assigneeId: "user-oncall",
+        cycleId: "cycle-7",
+      });
+      expect(linear.createComment).toHaveBeenCalledWith({
+        issueId: "issue-1",
+        body: "ENG-1 paged by Urgent bugs go to on-call",
+      });
+      expect(done).toEqual([
+        "assigned to oncall@example.com",
+        "added to cycle 7",
+        "commented",
+      ]);
+    });
+
+    it("should resolve label names for the issue's team", async () => {
+      const issueLabels = jest.fn(async () => ({
+        nodes: [
+          { id: "l-other", name: "Security", teamId: "team-2" },
+          { id: "l-workspace", name: "security", teamId: undefined },
+          { id: "l-triage", name: "Needs Triage", teamId: "team-1" },
+        ],
+      }));
+      const updateIssue = jest.fn(async () => ({ success: true }));
+      const client = { issueLabels, updateIssue } as unknown as LinearClient;
+      const [rule] = parseAutomationRules({
+        rules: [
+          {
+            name: "label",
+            then: { addLabels: "Security", removeLabels: ["needs triage"] },
+          },
+        ],
+      });
+
+      await applyRuleMatch(client, {
+        rule,
+        event: "issue.create",
+        issue: { id: "issue-1", title: "", teamId: "team-1" },
+      });
+
+      expect(updateIssue).toHaveBeenCalledWith("issue-1", {
+        addedLabelIds: ["l-workspace"],
+        removedLabelIds: ["l-triage"],
+      });
+    });
+  });
+
+  describe("createRulesHandler", () => {
+    let consoleLog: jest.SpyInstance;
+
+    beforeEach(() => {
+      consoleLog = jest.spyOn(console, "log").mockImplementation(() => {});
+    });
+
+    afterEach(() => consoleLog.mockRestore());
+
+    const rules: AutomationRule[] = [urgentBugs];
+
+    it("should only log in dry-run mode", async () => {
+      const linear = { updateIssue: jest.fn() } as unknown as LinearClient;
+
+      await createRulesHandler(linear, rules, { dryRun: true })(
+        payload("create"),
+      );
+
+      expect(linear.updateIssue).not.toHaveBeenCalled();
+      expect(consoleLog).toHaveBeenCalledWith(
+        '🔎 Rule "Urgent bugs go to on-call" would assign to oncall@example.com, add to the current cycle, comment on ENG-1',
+      );
+    });
+
+    it("should ignore its own changes", async () => {
+      const linear = { users: jest.fn() } as unknown as LinearClient;
+
+      await createRulesHandler(linear, rules, { ignoreActorId: "bot" })({
+        ...payload("create"),
+        actor: { id: "bot" },
+      });
+
+      expect(linear.users).not.toHaveBeenCalled();
+      expect(consoleLog).not.toHaveBeenCalled();
+    });
+  });
+});
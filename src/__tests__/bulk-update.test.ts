@@ -0,0 +1,263 @@
+import { createHash } from "crypto";
+import {
+  BulkUpdateIssue,
+  CONFIRMATION_TTL_MS,
+  ResolvedPatch,
+  buildIssueSearchFilter,
+  checkConfirmationToken,
+  createConfirmationToken,
+  planBulkUpdate,
+  validateBulkPatch,
+} from "../utils/bulk-update";
+
+const bug = { id: "l-bug", name: "Bug" };
+const ui = { id: "l-ui", name: "UI" };
+const todo = { id: "s-todo", name: "Todo", type: "unstarted" };
+const doing = { id: "s-doing", name: "In Progress", type: "started" };
+
+function issue(
+  id: string,
+  overrides: Partial<BulkUpdateIssue> = {},
+): BulkUpdateIssue {
+  return {
+    id,
+    identifier: `ENG-${id}`,
+    title: id,
+    priority: 0,
+    state: todo,
+    assignee: null,
+    labels: [],
+    project: null,
+    milestone: null,
+    ...overrides,
+  };
+}
+
+function patch(overrides: Partial<ResolvedPatch>): ResolvedPatch {
+  return { addLabels: [], removeLabels: [], ...overrides };
+}
+
+describe("bulk-update", () => {
+  describe("buildIssueSearchFilter", () => {
+    it("should build the same filter search_issues uses", () => {
+      expect(
+        buildIssueSearchFilter({
+          teamId: "team-1",
+          query: "login",
+          labelNames: ["Bug"],
+          stateType: "started",
+        }),
+      ).toEqual({
+        team: { id: { eq: "team-1" } },
+        or: [
+          { title: { containsIgnoreCase: "login" } },
+          { description: { containsIgnoreCase: "login" } },
+        ],
+        labels: { some: { name: { in: ["Bug"] } } },
+        state: { type: { eq: "started" } },
+      });
+    });
+  });
+
+  describe("validateBulkPatch", () => {
+    it("should reject an empty patch", () => {
+      expect(() => validateBulkPatch({})).toThrow("Patch is empty");
+      expect(() => validateBulkPatch({ addLabels: [] })).toThrow(
+        "Patch is empty",
+      );
+    });
+
+    it("should reject out-of-range priorities", () => {
+      expect(() => validateBulkPatch({ priority: 7 })).toThrow(
+        "Invalid priority",
+      );
+    });
+
+    it("should reject labels that are both added and removed", () => {
+      expect(() =>
+        validateBulkPatch({ addLabels: ["Bug"], removeLabels: ["bug"] }),
+      ).toThrow("both added and removed: Bug");
+    });
+
+    it("should accept null to clear a field", () => {
+      expect(() => validateBulkPatch({ assigneeId: null })).not.toThrow();
+    });
+  });
+
+  describe("planBulkUpdate", () => {
+    it("should only include issues the patch changes", () => {
+      const plans = planBulkUpdate(
+        [issue("1"), issue("2", { state: doing })],
+        patch({ state: doing }),
+      );
+
+      expect(plans).toEqual([
+        {
+          issueId: "1",
+          identifier: "ENG-1",
+          title: "1",
+          changes: { state: { from: "Todo", to: "In Progress" } },
+          input: { stateId: "s-doing" },
+        },
+      ]);
+    });
+
+    it("should add and remove only the labels that differ", () => {
+      const [plan] = planBulkUpdate(
+        [issue("1", { labels: [bug] })],
+        patch({ addLabels: [bug, ui], removeLabels: [] }),
+      );
+
+      expect(plan.input).toEqual({ addedLabelIds: ["l-ui"] });
+      expect(plan.changes.labels).toEqual({
+        from: ["Bug"],
+        to: ["Bug", "UI"],
+      });
+
+      const [removal] = planBulkUpdate(
+        [issue("1", { labels: [bug, ui] })],
+        patch({ removeLabels: [bug] }),
+      );
+      expect(removal.input).toEqual({ removedLabelIds: ["l-bug"] });
+    });
+
+    it("should unassign and reprioritize", () => {
+      const [plan] = planBulkUpdate(
+        [issue("1", { assignee: { id: "u-1", name: "Sam" }, priority: 3 })],
+        patch({ assignee: null, priority: 1 }),
+      );
+
+      expect(plan.changes).toEqual({
+        assignee: { from: "Sam", to: null },
+        priority: { from: 3, to: 1 },
+      });
+      expect(plan.input).toEqual({ assigneeId: null, priority: 1 });
+    });
+
+    it("should clear the old milestone when moving to another project", () => {
+      const [plan] = planBulkUpdate(
+        [
+          issue("1", {
+            project: { id: "p-1", name: "Alpha" },
+            milestone: { id: "m-1", name: "1.0" },
+          }),
+        ],
+        patch({ project: { id: "p-2", name: "Beta" } }),
+      );
+
+      expect(plan.input).toEqual({
+        projectId: "p-2",
+        projectMilestoneId: null,
+      });
+      expect(plan.changes.milestone).toEqual({ from: "1.0", to: null });
+    });
+
+    it("should set a milestone within the issue's current project", () => {
+      const [plan] = planBulkUpdate(
+        [issue("1", { project: { id: "p-1", name: "Alpha" } })],
+        patch({
+          project: { id: "p-1", name: "Alpha" },
+          milestone: { id: "m-2", name: "2.0" },
+        }),
+      );
+
+      expect(plan.input).toEqual({ projectMilestoneId: "m-2" });
+    });
+  });
+
+  describe("confirmation tokens", () => {
+    const filter = { teamId: "team-1", labelNames: ["Bug", "UI"] };
+    const plans = planBulkUpdate([issue("1")], patch({ priority: 2 }));
+    const issuedAt = 1_700_000_000_000;
+
+    it("should accept the token for the previewed update", () => {
+      const token = createConfirmationToken(filter, plans, issuedAt);
+
+      expect(
+        checkConfirmationToken(token, filter, plans, issuedAt + 1000),
+      ).toBeNull();
+      expect(
+        checkConfirmationToken(
+          token,
+          { teamId: "team-1", labelNames: ["UI", "Bug"] },
+          plans,
+          issuedAt,
+        ),
+      ).toBeNull();
+    });
+
+    it("should reject the token when the planned changes differ", () => {
+      const token = createConfirmationToken(filter, plans, issuedAt);
+      const changed = planBulkUpdate(
+        [issue("1"), issue("2")],
+        patch({ priority: 2 }),
+      );
+
+      expect(checkConfirmationToken(token, filter, changed, issuedAt)).toBe(
+        "The matching issues or their planned changes differ from the preview",
+      );
+      expect(
+        checkConfirmationToken(
+          token,
+          { ...filter, query: "login" },
+          plans,
+          issuedAt,
+        ),
+      ).not.toBeNull();
+    });
+
+    it("should reject expired and malformed tokens", () => {
+      const token = createConfirmationToken(filter, plans, issuedAt);
+
+      expect(
+        checkConfirmationToken(
+          token,
+          filter,
+          plans,
+          issuedAt + CONFIRMATION_TTL_MS + 1,
+        ),
+      ).toBe("Confirmation token has expired");
+      expect(checkConfirmationToken("nope", filter, plans, issuedAt)).toBe(
+        "Confirmation token is malformed",
+      );
+    });
+
+    it("should reject tokens that weren't handed out by a preview", () => {
+      const token = createConfirmationToken(filter, plans, issuedAt);
+      const [issuedPart] = token.split(".");
+      // The fingerprint as anyone could compute it, without the signing key
+      const minted = createHash("sha256")
+        .update(
+          JSON.stringify({
+            issuedAt,
+            filter: [filter.teamId, null, ["Bug", "UI"], null, null],
+            plans: plans.map((plan) => [
+              plan.issueId,
+              Object.entries(plan.input),
+            ]),
+          }),
+        )
+        .digest("hex")
+        .slice(0, 32);
+
+      expect(
+        checkConfirmationToken(
+          `${issuedPart}.${minted}`,
+          filter,
+          plans,
+          issuedAt,
+        ),
+      ).toBe(
+        "The matching issues or their planned changes differ from the preview",
+      );
+      expect(
+        checkConfirmationToken(
+          `${issuedPart}.${"0".repeat(32)}`,
+          filter,
+          plans,
+          issuedAt,
+        ),
+      ).not.toBeNull();
+    });
+  });
+});
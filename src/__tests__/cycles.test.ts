@@ -0,0 +1,141 @@
+import {
+  buildCycleFilter,
+  parseCycleDates,
+  toCycleSummary,
+  CycleLike,
+} from "../utils/cycles";
+import { ProgressIssue, summarizeProgress } from "../utils/issue-progress";
+
+function cycle(overrides: Partial<CycleLike> = {}): CycleLike {
+  return {
+    id: "cycle-1",
+    number: 7,
+    name: null,
+    startsAt: new Date("2025-03-03T00:00:00Z"),
+    endsAt: new Date("2025-03-17T00:00:00Z"),
+    progress: 0.425,
+    isActive: false,
+    isNext: false,
+    isFuture: false,
+    isPast: true,
+    ...overrides,
+  };
+}
+
+function issue(
+  stateType: string,
+  estimate: number | null,
+  id = stateType,
+): ProgressIssue {
+  return {
+    id,
+    identifier: `ENG-${id}`,
+    title: id,
+    priority: 0,
+    estimate,
+    url: "",
+    state: { name: stateType, type: stateType },
+    assignee: null,
+    milestoneId: null,
+    parentId: null,
+  };
+}
+
+describe("cycles", () => {
+  describe("buildCycleFilter", () => {
+    it("should filter by team and status", () => {
+      expect(buildCycleFilter("t1")).toEqual({ team: { id: { eq: "t1" } } });
+      expect(buildCycleFilter("t1", "active")).toEqual({
+        team: { id: { eq: "t1" } },
+        isActive: { eq: true },
+      });
+      expect(buildCycleFilter("t1", "upcoming")).toMatchObject({
+        isFuture: { eq: true },
+      });
+    });
+  });
+
+  describe("parseCycleDates", () => {
+    it("should parse ISO dates", () => {
+      const dates = parseCycleDates("2025-03-03", "2025-03-17");
+
+      expect(dates.startsAt.toISOString()).toBe("2025-03-03T00:00:00.000Z");
+    });
+
+    it("should reject invalid or reversed dates", () => {
+      expect(() => parseCycleDates("soon", "2025-03-17")).toThrow(
+        "Invalid startsAt",
+      );
+      expect(() => parseCycleDates("2025-03-17", "2025-03-03")).toThrow(
+        "endsAt must be after startsAt",
+      );
+    });
+  });
+
+  describe("toCycleSummary", () => {
+    it("should name unnamed cycles and report status and progress", () => {
+      const summary = toCycleSummary(cycle());
+
+      expect(summary).toMatchObject({
+        name: "Cycle 7",
+        status: "past",
+        progress: 43,
+        daysRemaining: 0,
+      });
+    });
+
+    it("should count days remaining in an active cycle", () => {
+      const summary = toCycleSummary(
+        cycle({ isActive: true, isPast: false }),
+        new Date("2025-03-10T12:00:00Z"),
+      );
+
+      expect(summary.status).toBe("active");
+      expect(summary.daysRemaining).toBe(7);
+    });
+
+    it("should distinguish the next cycle from later ones", () => {
+      expect(
+        toCycleSummary(cycle({ isNext: true, isFuture: true, isPast: false }))
+          .status,
+      ).toBe("next");
+      expect(
+        toCycleSummary(cycle({ isFuture: true, isPast: false })).status,
+      ).toBe("upcoming");
+    });
+  });
+});
+
+describe("summarizeProgress", () => {
+  it("should bucket issues by state type and exclude canceled from scope", () => {
+    const progress = summarizeProgress([
+      issue("completed", 3, "a"),
+      issue("completed", 2, "b"),
+      issue("started", 3, "c"),
+      issue("unstarted", 2, "d"),
+      issue("canceled", 5, "e"),
+    ]);
+
+    expect(progress.scope).toEqual({ issues: 4, points: 10 });
+    expect(progress.completed).toEqual({ issues: 2, points: 5 });
+    expect(progress.started).toEqual({ issues: 1, points: 3 });
+    expect(progress.remaining).toEqual({ issues: 2, points: 5 });
+    expect(progress.canceled).toEqual({ issues: 1, points: 5 });
+    expect(progress.percentComplete).toBe(50);
+  });
+
+  it("should fall back to issue counts when nothing is estimated", () => {
+    const progress = summarizeProgress([
+      issue("completed", null, "a"),
+      issue("backlog", null, "b"),
+      issue("backlog", null, "c"),
+    ]);
+
+    expect(progress.percentComplete).toBe(33);
+    expect(progress.unestimated).toBe(3);
+  });
+
+  it("should report zero progress for an empty set", () => {
+    expect(summarizeProgress([]).percentComplete).toBe(0);
+  });
+});
@@ -0,0 +1,148 @@
+import { IssueWithRelations } from "../modules/DependencyResolver";
+import {
+  buildDependencyGraph,
+  buildScopeFilter,
+  renderDependencyGraph,
+  renderDot,
+  renderMermaid,
+  withoutIsolatedNodes,
+} from "../utils/dependency-graph";
+
+function issue(
+  id: string,
+  stateType: string,
+  blockers: IssueWithRelations[] = [],
+): IssueWithRelations {
+  return {
+    id,
+    identifier: `ENG-${id}`,
+    number: Number(id),
+    title: `Issue "${id}"`,
+    url: `https://linear.app/test/issue/ENG-${id}`,
+    state: {
+      name: stateType === "started" ? "In Progress" : "Todo",
+      type: stateType,
+    },
+    labels: [],
+    relations: blockers.map((blocker) => ({
+      type: "blocks",
+      relatedIssue: blocker,
+    })),
+  };
+}
+
+describe("dependency-graph", () => {
+  const setup = issue("1", "started");
+  const schema = issue("2", "unstarted", [setup]);
+  const auth = issue("3", "unstarted", [schema]);
+  const docs = issue("4", "unstarted");
+
+  describe("buildDependencyGraph", () => {
+    it("should create an edge from each blocker to the blocked issue", () => {
+      const graph = buildDependencyGraph([setup, schema, auth, docs]);
+
+      expect(graph.nodes).toHaveLength(4);
+      expect(graph.edges).toEqual([
+        { from: "1", to: "2" },
+        { from: "2", to: "3" },
+      ]);
+    });
+
+    it("should keep blockers outside the set as external nodes", () => {
+      const graph = buildDependencyGraph([auth]);
+
+      expect(graph.nodes.find((n) => n.id === "2")?.external).toBe(true);
+      expect(graph.nodes.find((n) => n.id === "3")?.external).toBe(false);
+    });
+
+    it("should ignore non-blocking relations and duplicate edges", () => {
+      const related = issue("5", "unstarted");
+      related.relations.push(
+        { type: "related", relatedIssue: setup },
+        { type: "blocks", relatedIssue: schema },
+        { type: "blocks", relatedIssue: schema },
+      );
+
+      const graph = buildDependencyGraph([related]);
+
+      expect(graph.edges).toEqual([{ from: "2", to: "5" }]);
+    });
+
+    it("should color nodes by state, preferring Linear's state color", () => {
+      const colored = issue("6", "started");
+      colored.state = { name: "In Review", type: "started", color: "#123456" };
+
+      const graph = buildDependencyGraph([colored, docs]);
+
+      expect(graph.nodes[0].color).toBe("#123456");
+      expect(graph.nodes[1].color).toMatch(/^#[0-9a-f]{6}$/);
+    });
+  });
+
+  describe("withoutIsolatedNodes", () => {
+    it("should drop issues with no dependencies", () => {
+      const graph = withoutIsolatedNodes(
+        buildDependencyGraph([setup, schema, docs]),
+      );
+
+      expect(graph.nodes.map((n) => n.id)).toEqual(["1", "2"]);
+    });
+  });
+
+  describe("renderers", () => {
+    const graph = buildDependencyGraph([setup, schema, auth]);
+
+    it("should render a Mermaid flowchart with a class per state", () => {
+      const output = renderMermaid(graph);
+
+      expect(output.startsWith("graph TD")).toBe(true);
+      expect(output).toContain(
+        'n0["ENG-1: Issue #quot;1#quot;<br/>In Progress"]',
+      );
+      expect(output).toContain("n0 --> n1");
+      expect(output).toContain("classDef state_in_progress");
+      expect(output).toContain("class n1,n2 state_todo");
+    });
+
+    it("should render Graphviz DOT with escaped labels", () => {
+      const output = renderDot(graph);
+
+      expect(output.startsWith("digraph dependencies {")).toBe(true);
+      expect(output).toContain('label="ENG-1: Issue \\"1\\"\\nIn Progress"');
+      expect(output).toContain("n1 -> n2;");
+      expect(output.trim().endsWith("}")).toBe(true);
+    });
+
+    it("should render JSON", () => {
+      const parsed = JSON.parse(renderDependencyGraph(graph, "json"));
+
+      expect(parsed.edges).toHaveLength(2);
+    });
+  });
+
+  describe("buildScopeFilter", () => {
+    it("should require a team or project", () => {
+      expect(() => buildScopeFilter({})).toThrow("teamId or projectId");
+    });
+
+    it("should exclude canceled issues by default", () => {
+      expect(buildScopeFilter({ projectId: "p1" })).toEqual({
+        project: { id: { eq: "p1" } },
+        state: { type: { nin: ["canceled"] } },
+      });
+    });
+
+    it("should exclude completed issues when asked", () => {
+      expect(
+        buildScopeFilter({
+          teamId: "t1",
+          includeCompleted: false,
+          includeCanceled: true,
+        }),
+      ).toEqual({
+        team: { id: { eq: "t1" } },
+        state: { type: { nin: ["completed"] } },
+      });
+    });
+  });
+});
@@ -0,0 +1,156 @@
+import {
+  describeProblems,
+  validateDependencyEdges,
+  validateDependencyMap,
+  validateIndexedDependencies,
+} from "../utils/dependency-validation";
+
+describe("dependency-validation", () => {
+  describe("validateIndexedDependencies", () => {
+    it("should accept a valid chain", () => {
+      const result = validateIndexedDependencies([
+        { title: "Setup" },
+        { title: "Schema", blockedBy: [0] },
+        { title: "Auth", blockedBy: [1, 0] },
+      ]);
+
+      expect(result.valid).toBe(true);
+      expect(result.problems).toEqual([]);
+      expect(result.acceptedEdges).toHaveLength(3);
+    });
+
+    it("should report out-of-range and non-integer indexes", () => {
+      const result = validateIndexedDependencies([
+        { title: "Setup", blockedBy: [3] },
+        { title: "Schema", blockedBy: [-1, 0.5, "0"] },
+      ]);
+
+      expect(result.valid).toBe(false);
+      expect(result.problems.map((p) => p.kind)).toEqual([
+        "out_of_range",
+        "out_of_range",
+        "out_of_range",
+        "out_of_range",
+      ]);
+      expect(result.problems[0].message).toContain("index 3 is out of range");
+    });
+
+    it("should report a blockedBy that isn't an array", () => {
+      const result = validateIndexedDependencies([
+        { title: "Setup", blockedBy: 1 },
+        { title: "Schema" },
+      ]);
+
+      expect(result.valid).toBe(false);
+      expect(result.problems[0].message).toContain("must be an array");
+    });
+
+    it("should report self-references", () => {
+      const result = validateIndexedDependencies([
+        { title: "Setup", blockedBy: [0] },
+      ]);
+
+      expect(result.valid).toBe(false);
+      expect(result.problems[0]).toMatchObject({
+        kind: "self_reference",
+        node: "0",
+      });
+    });
+
+    it("should explain cycles with the full path", () => {
+      const result = validateIndexedDependencies([
+        { title: "A", blockedBy: [2] },
+        { title: "B", blockedBy: [0] },
+        { title: "C", blockedBy: [1] },
+      ]);
+
+      expect(result.valid).toBe(false);
+      expect(result.problems).toHaveLength(1);
+      expect(result.problems[0].kind).toBe("cycle");
+      expect(result.problems[0].message).toContain("#2 C → #0 A → #1 B → #2 C");
+      expect(result.acceptedEdges).toHaveLength(2);
+      expect(result.rejectedEdges).toEqual([{ blocker: "1", blocked: "2" }]);
+    });
+  });
+
+  describe("validateDependencyEdges", () => {
+    it("should ignore duplicate edges", () => {
+      const result = validateDependencyEdges([
+        { blocker: "a", blocked: "b" },
+        { blocker: "a", blocked: "b" },
+      ]);
+
+      expect(result.valid).toBe(true);
+      expect(result.acceptedEdges).toHaveLength(1);
+    });
+
+    it("should detect cycles through existing edges", () => {
+      const result = validateDependencyEdges(
+        [{ blocker: "c", blocked: "a" }],
+        (node) => node.toUpperCase(),
+        [
+          { blocker: "a", blocked: "b" },
+          { blocker: "b", blocked: "c" },
+        ],
+      );
+
+      expect(result.valid).toBe(false);
+      expect(result.problems[0].cycle).toEqual(["a", "b", "c", "a"]);
+      expect(result.problems[0].message).toContain("A → B → C → A");
+    });
+  });
+
+  describe("validateDependencyMap", () => {
+    it("should report unknown references and keep valid edges", () => {
+      const titles: Record<string, string> = { "1": "Setup", "2": "Schema" };
+      const result = validateDependencyMap(
+        { "2": ["1", "99"] },
+        Object.keys(titles),
+        (id) => titles[id] ?? id,
+      );
+
+      expect(result.valid).toBe(false);
+      expect(result.problems[0]).toMatchObject({
+        kind: "unknown_reference",
+        message: '"Schema" depends on unknown issue "99"',
+      });
+      expect(result.acceptedEdges).toEqual([{ blocker: "1", blocked: "2" }]);
+    });
+
+    it("should drop only the edge that closes a cycle", () => {
+      const result = validateDependencyMap(
+        {
+          "Setup Database Schema": ["Setup Development Environment"],
+          "Setup Development Environment": ["Setup Database Schema"],
+        },
+        ["Setup Database Schema", "Setup Development Environment"],
+      );
+
+      expect(result.acceptedEdges).toHaveLength(1);
+      expect(result.rejectedEdges).toHaveLength(1);
+      expect(describeProblems(result.problems)).toMatch(
+        /^- .*would create a cycle/,
+      );
+    });
+
+    it("should reject dependencies that close a cycle with existing ones", () => {
+      const result = validateDependencyMap(
+        { Setup: ["Auth"] },
+        ["Setup", "Schema", "Auth"],
+        undefined,
+        [
+          { blocker: "Setup", blocked: "Schema" },
+          { blocker: "Schema", blocked: "Auth" },
+        ],
+      );
+
+      expect(result.acceptedEdges).toEqual([]);
+      expect(result.problems[0].cycle).toEqual([
+        "Setup",
+        "Schema",
+        "Auth",
+        "Setup",
+      ]);
+    });
+  });
+});
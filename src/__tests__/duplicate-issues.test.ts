@@ -0,0 +1,273 @@
+import {
+  DuplicateGuard,
+  DuplicateIndex,
+  ExistingIssue,
+  findDuplicateIssues,
+  readDuplicateCheckOptions,
+  scoreIssueSimilarity,
+  tokenizeIssueText,
+} from "../utils/duplicate-issues";
+
+function existing(
+  id: string,
+  title: string,
+  description: string | null = null,
+): ExistingIssue {
+  return {
+    id,
+    identifier: `ENG-${id}`,
+    title,
+    description,
+    url: `https://linear.app/eng/issue/ENG-${id}`,
+    state: { name: "Todo", type: "unstarted" },
+  };
+}
+
+const teamIssues = [
+  existing("1", "Add dark mode toggle to settings page"),
+  existing("2", "Fix login redirect loop on Safari"),
+  existing("3", "Export session analytics as CSV"),
+];
+
+describe("duplicate-issues", () => {
+  describe("tokenizeIssueText", () => {
+    it("should drop stop words, links and suffixes", () => {
+      expect(
+        tokenizeIssueText("Fixing the logins for https://example.com users"),
+      ).toEqual(["fix", "login", "user"]);
+    });
+  });
+
+  describe("scoreIssueSimilarity", () => {
+    it("should score reworded titles above unrelated ones", () => {
+      const reworded = scoreIssueSimilarity(
+        { title: "Dark mode toggle in settings" },
+        teamIssues[0],
+      );
+      const unrelated = scoreIssueSimilarity(
+        { title: "Dark mode toggle in settings" },
+        teamIssues[2],
+      );
+
+      expect(reworded).toBeGreaterThan(0.7);
+      expect(unrelated).toBe(0);
+    });
+
+    it("should blend in descriptions when both issues have one", () => {
+      const title = { title: "Improve upload" };
+      const same = scoreIssueSimilarity(
+        { ...title, description: "Retry failed video uploads" },
+        { ...title, description: "Retry failed video uploads" },
+      );
+      const different = scoreIssueSimilarity(
+        { ...title, description: "Retry failed video uploads" },
+        { ...title, description: "Show a progress bar" },
+      );
+
+      expect(same).toBeCloseTo(1);
+      expect(different).toBeCloseTo(0.7);
+    });
+  });
+
+  describe("findDuplicateIssues", () => {
+    it("should return matches above the threshold, best first", async () => {
+      const [matches, none] = await findDuplicateIssues(
+        [
+          { title: "Fix the login redirect loop in Safari" },
+          { title: "Keyboard shortcuts" },
+        ],
+        [...teamIssues, existing("4", "Safari login broken")],
+      );
+
+      expect(matches.map((m) => m.issue.identifier)).toEqual([
+        "ENG-2",
+        "ENG-4",
+      ]);
+      expect(matches[0].score).toBe(1);
+      expect(none).toEqual([]);
+    });
+
+    it("should skip excluded issues", async () => {
+      const [matches] = await findDuplicateIssues(
+        [{ title: "Fix login redirect loop on Safari" }],
+        teamIssues,
+        { excludeIds: ["2"] },
+      );
+
+      expect(matches).toEqual([]);
+    });
+
+    it("should match reworded issues by embedding", async () => {
+      const vectors: Record<string, number[]> = {
+        "Night theme": [1, 0.1],
+        [teamIssues[0].title]: [0.95, 0.15],
+      };
+      const embed = jest.fn(async (texts: string[]) =>
+        texts.map((text) => vectors[text] ?? [0, 1]),
+      );
+      const index = new DuplicateIndex(teamIssues);
+
+      const [[match]] = await index.find([{ title: "Night theme" }], {
+        embed,
+      });
+      await index.find([{ title: "Night theme" }], { embed });
+
+      expect(match.issue.id).toBe("1");
+      expect(match.tokenScore).toBe(0);
+      expect(match.embeddingScore).toBeGreaterThan(0.99);
+      expect(match.score).toBe(match.embeddingScore);
+      // Existing issues are embedded once per index
+      expect(embed).toHaveBeenCalledTimes(3);
+    });
+  });
+
+  describe("readDuplicateCheckOptions", () => {
+    it("should default to only reporting duplicates", () => {
+      expect(readDuplicateCheckOptions({})).toEqual({
+        action: "report",
+        threshold: 0.5,
+        embed: undefined,
+      });
+    });
+
+    it("should reject invalid settings", () => {
+      expect(() =>
+        readDuplicateCheckOptions({ DUPLICATE_ACTION: "delete" }),
+      ).toThrow(
+        "DUPLICATE_ACTION must be one of: report, off, skip, merge, link",
+      );
+      expect(() =>
+        readDuplicateCheckOptions({ DUPLICATE_THRESHOLD: "2" }),
+      ).toThrow("DUPLICATE_THRESHOLD must be a number between 0 and 1");
+      expect(() =>
+        readDuplicateCheckOptions({ DUPLICATE_EMBEDDINGS: "true" }),
+      ).toThrow("DUPLICATE_EMBEDDINGS requires OPENAI_API_KEY");
+    });
+  });
+
+  describe("DuplicateGuard", () => {
+    let consoleLog: jest.SpyInstance;
+
+    beforeEach(() => {
+      consoleLog = jest.spyOn(console, "log").mockImplementation(() => {});
+    });
+
+    afterEach(() => consoleLog.mockRestore());
+
+    function createClient() {
+      return {
+        request: jest.fn(
+          async (document: string, variables?: any): Promise<any> => {
+            if (document.includes("DuplicateCandidates")) {
+              return {
+                issues: {
+                  nodes: teamIssues,
+                  pageInfo: { hasNextPage: false, endCursor: null },
+                },
+              };
+            }
+            return { success: true, variables };
+          },
+        ),
+      };
+    }
+
+    const duplicate = { title: "Dark mode toggle in settings" };
+
+    it("should report likely duplicates and still create them", async () => {
+      const client = createClient();
+      const guard = await DuplicateGuard.load(client, "team-1", {
+        action: "report",
+      });
+
+      await expect(guard.beforeCreate(duplicate)).resolves.toMatchObject({
+        create: true,
+        duplicate: { issue: { id: "1" } },
+      });
+      expect(consoleLog).toHaveBeenLastCalledWith(
+        expect.stringContaining("Creating likely duplicate of ENG-1"),
+      );
+      expect(client.request).toHaveBeenCalledTimes(1);
+    });
+
+    it("should skip likely duplicates", async () => {
+      const client = createClient();
+      const guard = await DuplicateGuard.load(client, "team-1", {
+        action: "skip",
+      });
+
+      await expect(guard.beforeCreate(duplicate)).resolves.toMatchObject({
+        create: false,
+        duplicate: { issue: { id: "1" } },
+      });
+      await expect(
+        guard.beforeCreate({ title: "Keyboard shortcuts" }),
+      ).resolves.toEqual({ create: true, duplicate: null });
+      expect(client.request).toHaveBeenCalledTimes(1);
+    });
+
+    it("should merge a duplicate into the existing issue as a comment", async () => {
+      const client = createClient();
+      const guard = await DuplicateGuard.load(client, "team-1", {
+        action: "merge",
+      });
+
+      const decision = await guard.beforeCreate({
+        ...duplicate,
+        description: "Users want a darker theme",
+      });
+
+      expect(decision.create).toBe(false);
+      expect(client.request).toHaveBeenLastCalledWith(
+        expect.stringContaining("commentCreate"),
+        {
+          input: {
+            issueId: "1",
+            body: "## Possible duplicate report: Dark mode toggle in settings\n\nUsers want a darker theme",
+          },
+        },
+      );
+    });
+
+    it("should link created duplicates and check later issues against them", async () => {
+      const client = createClient();
+      const guard = await DuplicateGuard.load(client, "team-1", {
+        action: "link",
+      });
+
+      const decision = await guard.beforeCreate(duplicate);
+      expect(decision.create).toBe(true);
+      await guard.afterCreate(
+        { id: "new-1", identifier: "ENG-9", title: duplicate.title },
+        duplicate,
+        decision,
+      );
+
+      expect(client.request).toHaveBeenLastCalledWith(
+        expect.stringContaining("issueRelationCreate"),
+        {
+          input: { issueId: "new-1", relatedIssueId: "1", type: "related" },
+        },
+      );
+      await expect(
+        guard.beforeCreate({ title: "Keyboard shortcuts" }),
+      ).resolves.toMatchObject({ create: true, duplicate: null });
+      await expect(guard.beforeCreate(duplicate)).resolves.toMatchObject({
+        duplicate: { issue: { identifier: "ENG-9" } },
+      });
+    });
+
+    it("should not fetch the team when the check is off", async () => {
+      const client = createClient();
+      const guard = await DuplicateGuard.load(client, "team-1", {
+        action: "off",
+      });
+
+      await expect(guard.beforeCreate(duplicate)).resolves.toEqual({
+        create: true,
+        duplicate: null,
+      });
+      expect(client.request).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,201 @@
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { AxiosAdapter, AxiosHeaders, InternalAxiosRequestConfig } from "axios";
+import {
+  HttpFixtures,
+  REDACTED,
+  readHttpFixtures,
+} from "../utils/http-fixtures";
+import { ClientOptions, resilientAxios } from "../utils/resilient-client";
+
+const SECRET = "sk-recorded-secret-123";
+
+const options: ClientOptions = {
+  retry: { attempts: 2, delayMs: 1, jitter: true, maxDelayMs: 10 },
+  maxConcurrency: 2,
+};
+
+type Reply = { status: number; body: any; headers?: Record<string, string> };
+
+/**
+ * An adapter answering with the scripted replies in order (the last one
+ * repeats), serialized like the HTTP adapter leaves them
+ */
+function scriptedAdapter(replies: Reply[]) {
+  let calls = 0;
+  return jest.fn(async (request: InternalAxiosRequestConfig) => {
+    const reply = replies[Math.min(calls++, replies.length - 1)];
+    const response = {
+      status: reply.status,
+      statusText: reply.status < 400 ? "OK" : "Error",
+      headers: AxiosHeaders.from({
+        "content-type": "application/json",
+        "x-request-id": `req-${calls}`,
+        ...reply.headers,
+      }),
+      data: JSON.stringify(reply.body),
+      config: request,
+      request: {},
+    };
+    if (reply.status >= 400) {
+      throw Object.assign(new Error(`HTTP ${reply.status}`), { response });
+    }
+    return response;
+  });
+}
+
+const offline: AxiosAdapter = async () => {
+  throw new Error("Replays must not reach the network");
+};
+
+describe("http-fixtures", () => {
+  let dir: string;
+
+  const client = (
+    mode: "record" | "replay",
+    adapter: AxiosAdapter,
+    secret = SECRET,
+  ) =>
+    resilientAxios(
+      {
+        adapter,
+        baseURL: "https://api.openai.com/v1",
+        headers: { Authorization: `Bearer ${secret}` },
+      },
+      { ...options, fixtures: new HttpFixtures(mode, dir, [secret]) },
+    );
+
+  const fixtureFiles = () =>
+    fs
+      .readdirSync(path.join(dir, "api.openai.com"))
+      .map((file) => path.join(dir, "api.openai.com", file));
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), "http-fixtures-"));
+    jest.spyOn(console, "error").mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+    jest.restoreAllMocks();
+  });
+
+  it("should record responses without secrets and replay them offline", async () => {
+    const body = {
+      model: "gpt-4o-mini",
+      messages: [{ role: "user", content: `Summarize (key ${SECRET})` }],
+      api_key: SECRET,
+    };
+    const recorder = client(
+      "record",
+      scriptedAdapter([{ status: 200, body: { choices: [{ index: 0 }] } }]),
+    );
+
+    const recorded = await recorder.post("/chat/completions", body, {
+      params: { token: "query-secret" },
+    });
+
+    const [file] = fixtureFiles();
+    const text = fs.readFileSync(file, "utf8");
+    expect(path.basename(file)).toMatch(
+      /^POST-v1-chat-completions-[0-9a-f]{12}\.json$/,
+    );
+    expect(text).not.toContain(SECRET);
+    expect(text).not.toContain("query-secret");
+    expect(text).not.toMatch(/authorization|x-request-id/i);
+    expect(JSON.parse(text)).toEqual({
+      request: {
+        method: "POST",
+        url: "https://api.openai.com/v1/chat/completions?token=%5BREDACTED%5D",
+        body: {
+          model: "gpt-4o-mini",
+          messages: [{ role: "user", content: `Summarize (key ${REDACTED})` }],
+          api_key: REDACTED,
+        },
+      },
+      responses: [
+        {
+          status: 200,
+          statusText: "OK",
+          headers: { "content-type": "application/json" },
+          data: { choices: [{ index: 0 }] },
+        },
+      ],
+    });
+
+    // Replays match even when made with other credentials
+    const otherSecret = "sk-replay-secret-456";
+    const replayed = await client("replay", offline, otherSecret).post(
+      "/chat/completions",
+      {
+        ...body,
+        messages: [{ role: "user", content: `Summarize (key ${otherSecret})` }],
+        api_key: otherSecret,
+      },
+      { params: { token: "another-query-secret" } },
+    );
+    expect(replayed.data).toEqual(recorded.data);
+    expect(replayed.status).toBe(200);
+  });
+
+  it("should replay repeated requests in the order they were recorded", async () => {
+    const recorder = client(
+      "record",
+      scriptedAdapter([
+        { status: 200, body: { status: "processing" } },
+        { status: 200, body: { status: "completed" } },
+      ]),
+    );
+    await recorder.get("/transcript/1");
+    await recorder.get("/transcript/1");
+
+    const replayer = client("replay", offline);
+    const statuses: string[] = [];
+    for (let i = 0; i < 3; i++) {
+      statuses.push((await replayer.get("/transcript/1")).data.status);
+    }
+
+    expect(fixtureFiles()).toHaveLength(1);
+    expect(statuses).toEqual(["processing", "completed", "completed"]);
+  });
+
+  it("should replay error responses as axios errors", async () => {
+    await expect(
+      client(
+        "record",
+        scriptedAdapter([{ status: 404, body: { error: "No model" } }]),
+      ).get("/models/nope"),
+    ).rejects.toThrow("HTTP 404");
+
+    const error = await client("replay", offline)
+      .get("/models/nope")
+      .catch((e) => e);
+
+    expect(error.isAxiosError).toBe(true);
+    expect(error.message).toBe("Request failed with status code 404");
+    expect(error.response.status).toBe(404);
+    expect(error.response.data).toEqual({ error: "No model" });
+  });
+
+  it("should refuse requests that were never recorded", async () => {
+    await expect(client("replay", offline).get("/models")).rejects.toThrow(
+      "No HTTP fixture for GET https://api.openai.com/v1/models",
+    );
+  });
+
+  describe("readHttpFixtures", () => {
+    it("should be off unless HTTP_FIXTURES is record or replay", () => {
+      const env = { HTTP_FIXTURES: "replay", HTTP_FIXTURES_DIR: dir };
+
+      expect(readHttpFixtures({})).toBeNull();
+      expect(readHttpFixtures({ HTTP_FIXTURES: "off" })).toBeNull();
+      expect(readHttpFixtures(env)).toMatchObject({ mode: "replay", dir });
+      // Clients reading the same settings share one recorder
+      expect(readHttpFixtures(env)).toBe(readHttpFixtures({ ...env }));
+      expect(() => readHttpFixtures({ HTTP_FIXTURES: "live" })).toThrow(
+        "HTTP_FIXTURES must be record, replay or off",
+      );
+    });
+  });
+});
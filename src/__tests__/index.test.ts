@@ -0,0 +1,111 @@
+import * as path from "path";
+import { HttpFixtures, RecordedRequest } from "../utils/http-fixtures";
+
+/**
+ * Replays the AssemblyAI, OpenAI and Linear responses recorded under
+ * fixtures/http for a short client call, so the video pipeline runs from
+ * transcript to Linear issues without network access or real keys
+ */
+describe("video-to-linear", () => {
+  const env = { ...process.env };
+  const audioUrl = "https://cdn.assemblyai.com/upload/0f1e2d3c-client-call";
+  let video: typeof import("../index");
+  let sent: jest.SpyInstance;
+
+  /** The inputs of the issueCreate mutations sent to Linear */
+  const createdInputs = () =>
+    sent.mock.results
+      .map((result) => result.value as RecordedRequest)
+      .filter((request) => /issueCreate\(/.test((request.body as any)?.query))
+      .map((request) => (request.body as any).variables.input);
+
+  beforeAll(async () => {
+    process.env.ASSEMBLYAI_API_KEY = "aai-replayed-key";
+    process.env.OPENAI_API_KEY = "sk-replayed-openai-key";
+    process.env.LINEAR_API_KEY = "lin_api_replayed_key";
+    process.env.LINEAR_TEAM_ID = "team-feedback";
+    process.env.DUPLICATE_ACTION = "off";
+    process.env.HTTP_FIXTURES = "replay";
+    process.env.HTTP_FIXTURES_DIR = path.join(__dirname, "fixtures", "http");
+    process.env.API_RETRY_ATTEMPTS = "1";
+    video = await import("../index");
+  });
+
+  beforeEach(() => {
+    jest.spyOn(console, "log").mockImplementation(() => {});
+    sent = jest.spyOn(HttpFixtures.prototype, "describe");
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  afterAll(() => {
+    process.env = env;
+  });
+
+  it("should turn a transcribed call into labeled Linear issues", async () => {
+    const transcriptId = await video.requestTranscript(audioUrl);
+    const transcript = await video.waitForTranscript(transcriptId);
+    const issues = await video.summarizeToIssues(transcript.text, transcript);
+    const labels = await video.fetchLinearLabels("team-feedback");
+    const created = await video.createLinearIssues(
+      issues,
+      "team-feedback",
+      labels,
+      audioUrl,
+      transcript,
+      "client-call.mov",
+    );
+
+    expect(transcript.status).toBe("completed");
+    // Labels the issues needed were created and added to the team's
+    expect(labels.map(({ name }) => name)).toEqual([
+      "Bug",
+      "Feature",
+      "UI",
+      "Document Management",
+      "User Experience",
+    ]);
+    expect(created.map((issue) => issue.identifier)).toEqual([
+      "FB-1",
+      "FB-2",
+      "FB-3",
+    ]);
+
+    const inputs = createdInputs();
+    expect(
+      inputs.map(({ title, priority, labelIds }) => ({
+        title,
+        priority,
+        labelIds,
+      })),
+    ).toEqual([
+      {
+        title: "Export button does nothing on Safari",
+        priority: 3,
+        labelIds: [
+          "label-ui",
+          "label-document-management",
+          "label-user-experience",
+        ],
+      },
+      {
+        title: "Session list loads slowly with more than 100 sessions",
+        priority: 2,
+        labelIds: ["label-bug"],
+      },
+      {
+        title: "Tag sessions with the venue name",
+        priority: 1,
+        labelIds: ["label-user-experience"],
+      },
+    ]);
+    expect(inputs[0].description).toContain(
+      `[00:12](${audioUrl}#t=12) Export button does nothing on Safari`,
+    );
+    expect(inputs[0].description).toContain(
+      "## Acceptance Criteria\n\n1. Clicking Export in Safari downloads the file",
+    );
+  }, 15000);
+});
@@ -0,0 +1,169 @@
+import {
+  IssueQueryContext,
+  interpretIssueQuery,
+  parseIssueQuery,
+  validateIssueFilter,
+} from "../utils/issue-query";
+
+const context: IssueQueryContext = {
+  labels: ["Bug", "Frontend", "Tech Debt"],
+  states: [
+    { name: "In Review", type: "started" },
+    { name: "Done", type: "completed" },
+  ],
+};
+
+// A Monday
+const now = new Date("2026-10-19T12:00:00Z");
+
+const textSearch = (text: string) => ({
+  or: [
+    { title: { containsIgnoreCase: text } },
+    { description: { containsIgnoreCase: text } },
+  ],
+});
+
+describe("issue-query", () => {
+  describe("parseIssueQuery", () => {
+    it("should parse priority, labels, dates and assignee", () => {
+      const parsed = parseIssueQuery(
+        "high priority frontend bugs updated in the last week with no assignee",
+        context,
+        now,
+      );
+
+      expect(parsed.filter).toEqual({
+        updatedAt: { gte: "2026-10-12T12:00:00.000Z" },
+        priority: { in: [1, 2] },
+        assignee: { null: true },
+        labels: { some: { name: { eqIgnoreCase: "Frontend" } } },
+        and: [{ labels: { some: { name: { eqIgnoreCase: "Bug" } } } }],
+      });
+      expect(parsed.interpretation).toContain("priority: urgent or high");
+      expect(parsed.keywords).toEqual([]);
+    });
+
+    it("should parse states, due dates and the team's state names", () => {
+      expect(
+        parseIssueQuery("my open issues due this week", context, now).filter,
+      ).toEqual({
+        dueDate: { lte: "2026-10-25" },
+        assignee: { isMe: { eq: true } },
+        state: { type: { nin: ["completed", "canceled"] } },
+      });
+      expect(
+        parseIssueQuery("in review, created since 2026-10-01", context, now)
+          .filter,
+      ).toEqual({
+        createdAt: { gte: "2026-10-01T00:00:00.000Z" },
+        state: { name: { eqIgnoreCase: "In Review" } },
+      });
+      expect(
+        parseIssueQuery("stale tickets without a project", context, now).filter,
+      ).toEqual({
+        updatedAt: { lt: "2026-09-19T12:00:00.000Z" },
+        state: { type: { nin: ["completed", "canceled"] } },
+        project: { null: true },
+      });
+    });
+
+    it("should search for quoted phrases and unrecognized words", () => {
+      const parsed = parseIssueQuery(
+        'urgent checkout crashes mentioning "payment provider"',
+        context,
+        now,
+      );
+
+      expect(parsed.filter).toEqual({
+        priority: { eq: 1 },
+        ...textSearch("payment provider"),
+        and: [textSearch("checkout"), textSearch("crash")],
+      });
+      expect(parsed.keywords).toEqual(["checkout", "crash"]);
+    });
+  });
+
+  describe("validateIssueFilter", () => {
+    it("should accept the filters the parser builds", () => {
+      const { filter } = parseIssueQuery(
+        "overdue blocked tech debt not updated in 2 weeks",
+        context,
+        now,
+      );
+
+      expect(validateIssueFilter(filter)).toEqual(filter);
+    });
+
+    it("should reject unknown fields, team scoping and bad dates", () => {
+      expect(() =>
+        validateIssueFilter({
+          team: { id: { eq: "other-team" } },
+          or: [{ updatedAt: { gte: "last tuesday" } }],
+        }),
+      ).toThrow(
+        "Invalid issue filter: or.0.updatedAt.gte: must be an ISO 8601 date or duration; (filter): Unrecognized key(s) in object: 'team'",
+      );
+    });
+  });
+
+  describe("interpretIssueQuery", () => {
+    const llmFilter = { priority: { eq: 1 } };
+
+    it("should only ask the LLM about questions with unrecognized words", async () => {
+      const model = jest.fn(async () => JSON.stringify({ filter: llmFilter }));
+
+      await expect(
+        interpretIssueQuery("urgent bugs", context, { model, now }),
+      ).resolves.toMatchObject({ parser: "deterministic" });
+      expect(model).not.toHaveBeenCalled();
+
+      await expect(
+        interpretIssueQuery("anything on fire", context, { model, now }),
+      ).resolves.toEqual({
+        parser: "llm",
+        filter: llmFilter,
+        interpretation: ["filter written by the LLM"],
+        keywords: [],
+      });
+      expect(model).toHaveBeenCalledWith(
+        expect.stringContaining("Labels: Bug, Frontend, Tech Debt"),
+        "anything on fire",
+      );
+    });
+
+    it("should fall back to the parser when the LLM's filter is invalid", async () => {
+      const model = jest.fn(async () =>
+        JSON.stringify({ filter: { team: { key: { eq: "OPS" } } } }),
+      );
+
+      const result = await interpretIssueQuery("fire drill", context, {
+        model,
+        now,
+      });
+
+      expect(result.parser).toBe("deterministic");
+      expect(result.keywords).toEqual(["fire", "drill"]);
+      expect(result.warning).toMatch(/^LLM fallback failed \(Invalid issue/);
+      await expect(
+        interpretIssueQuery("fire drill", context, {
+          parser: "llm",
+          model,
+          now,
+        }),
+      ).rejects.toThrow("Invalid issue filter");
+    });
+
+    it("should not ask the LLM in deterministic mode", async () => {
+      const model = jest.fn();
+
+      await expect(
+        interpretIssueQuery("fire drill", context, {
+          parser: "deterministic",
+          model,
+          now,
+        }),
+      ).resolves.toMatchObject({ parser: "deterministic" });
+      expect(model).not.toHaveBeenCalled();
+    });
+  });
+});
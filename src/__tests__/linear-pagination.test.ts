@@ -0,0 +1,189 @@
+import {
+  fetchPaginated,
+  scanPaginated,
+  encodeScanCursor,
+  decodeScanCursor,
+  clampPageSize,
+  FETCH_ALL_HARD_LIMIT,
+  MAX_PAGE_SIZE,
+  PageFetcher,
+} from "../utils/linear-pagination";
+
+/**
+ * Build a fake Linear connection over `total` numbered items where the
+ * cursor is the index of the last returned item
+ */
+function createFetcher(total: number) {
+  const calls: Array<{ first: number; after?: string }> = [];
+  const fetcher: PageFetcher<number> = async ({ first, after }) => {
+    calls.push({ first, after });
+    const start = after === undefined ? 0 : Number(after) + 1;
+    const nodes = Array.from(
+      { length: Math.max(0, Math.min(first, total - start)) },
+      (_, i) => start + i,
+    );
+    const last = nodes[nodes.length - 1];
+    return {
+      nodes,
+      pageInfo: {
+        hasNextPage: start + nodes.length < total,
+        endCursor: last === undefined ? undefined : String(last),
+      },
+    };
+  };
+  return { fetcher, calls };
+}
+
+describe("linear-pagination", () => {
+  describe("clampPageSize", () => {
+    it("should fall back to the default for missing or invalid limits", () => {
+      expect(clampPageSize(undefined, 50)).toBe(50);
+      expect(clampPageSize(0, 50)).toBe(50);
+      expect(clampPageSize(-3, 50)).toBe(50);
+    });
+
+    it("should cap the page size at Linear's maximum", () => {
+      expect(clampPageSize(10_000, 50)).toBe(MAX_PAGE_SIZE);
+    });
+  });
+
+  describe("fetchPaginated", () => {
+    it("should return a single page with its cursor", async () => {
+      const { fetcher, calls } = createFetcher(120);
+
+      const result = await fetchPaginated(fetcher, { limit: 50 }, 50);
+
+      expect(calls).toHaveLength(1);
+      expect(result.nodes).toHaveLength(50);
+      expect(result.pageInfo).toEqual({ hasNextPage: true, endCursor: "49" });
+      expect(result.truncated).toBe(false);
+    });
+
+    it("should continue from the given cursor", async () => {
+      const { fetcher } = createFetcher(120);
+
+      const result = await fetchPaginated(
+        fetcher,
+        { limit: 50, after: "99" },
+        50,
+      );
+
+      expect(result.nodes).toEqual(
+        Array.from({ length: 20 }, (_, i) => 100 + i),
+      );
+      expect(result.pageInfo.hasNextPage).toBe(false);
+    });
+
+    it("should walk every page in fetch-all mode", async () => {
+      const { fetcher, calls } = createFetcher(630);
+
+      const result = await fetchPaginated(fetcher, { fetchAll: true }, 50);
+
+      expect(result.nodes).toHaveLength(630);
+      expect(calls.length).toBe(7);
+      expect(result.pageInfo.hasNextPage).toBe(false);
+      expect(result.truncated).toBe(false);
+    });
+
+    it("should stop at maxResults and report truncation", async () => {
+      const { fetcher } = createFetcher(630);
+
+      const result = await fetchPaginated(
+        fetcher,
+        { fetchAll: true, maxResults: 150 },
+        50,
+      );
+
+      expect(result.nodes).toHaveLength(150);
+      expect(result.truncated).toBe(true);
+      expect(result.pageInfo).toEqual({ hasNextPage: true, endCursor: "149" });
+    });
+
+    it("should never exceed the hard limit", async () => {
+      const { fetcher } = createFetcher(FETCH_ALL_HARD_LIMIT + 500);
+
+      const result = await fetchPaginated(
+        fetcher,
+        { fetchAll: true, maxResults: FETCH_ALL_HARD_LIMIT * 10 },
+        50,
+      );
+
+      expect(result.nodes).toHaveLength(FETCH_ALL_HARD_LIMIT);
+      expect(result.truncated).toBe(true);
+    });
+  });
+
+  describe("scan cursors", () => {
+    it("should round-trip a scan position", () => {
+      const cursor = encodeScanCursor({ after: "abc", skip: 7 });
+      expect(decodeScanCursor(cursor)).toEqual({ after: "abc", skip: 7 });
+    });
+
+    it("should treat unknown cursors as plain Linear cursors", () => {
+      expect(decodeScanCursor("linear-cursor")).toEqual({
+        after: "linear-cursor",
+        skip: 0,
+      });
+    });
+  });
+
+  describe("scanPaginated", () => {
+    const evens = async (nodes: number[]) => nodes.map((n) => n % 2 === 0);
+
+    it("should stop once enough matches are found", async () => {
+      const { fetcher } = createFetcher(500);
+
+      const result = await scanPaginated(fetcher, { limit: 10 }, evens, 20);
+
+      expect(result.nodes).toEqual([0, 2, 4, 6, 8, 10, 12, 14, 16, 18]);
+      expect(result.pageInfo.hasNextPage).toBe(true);
+    });
+
+    it("should resume mid-page without skipping or repeating", async () => {
+      const { fetcher } = createFetcher(500);
+
+      const first = await scanPaginated(fetcher, { limit: 10 }, evens, 20);
+      const second = await scanPaginated(
+        fetcher,
+        { limit: 10, after: first.pageInfo.endCursor! },
+        evens,
+        20,
+      );
+
+      expect(second.nodes[0]).toBe(20);
+      expect(second.nodes).toHaveLength(10);
+    });
+
+    it("should only evaluate as many candidates as still needed", async () => {
+      const { fetcher } = createFetcher(500);
+      const seen: number[] = [];
+
+      await scanPaginated(
+        fetcher,
+        { limit: 5 },
+        async (nodes) => {
+          seen.push(...nodes);
+          return nodes.map(() => true);
+        },
+        20,
+      );
+
+      expect(seen).toEqual([0, 1, 2, 3, 4]);
+    });
+
+    it("should collect every match in fetch-all mode", async () => {
+      const { fetcher } = createFetcher(250);
+
+      const result = await scanPaginated(
+        fetcher,
+        { fetchAll: true },
+        evens,
+        20,
+      );
+
+      expect(result.nodes).toHaveLength(125);
+      expect(result.pageInfo).toEqual({ hasNextPage: false, endCursor: null });
+      expect(result.truncated).toBe(false);
+    });
+  });
+});
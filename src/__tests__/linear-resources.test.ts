@@ -0,0 +1,231 @@
+import {
+  IssueResourceData,
+  LinearResources,
+  parseLinearResourceUri,
+  renderIssueMarkdown,
+  renderTeamIssuesMarkdown,
+  splitAcceptanceCriteria,
+} from "../utils/linear-resources";
+import { RESOURCE_NOT_FOUND } from "../utils/mcp-resources";
+
+const state = (name: string, type: string) => ({ name, type });
+
+const issue: IssueResourceData = {
+  id: "issue-1",
+  identifier: "ENG-12",
+  title: "Checkout flow",
+  description:
+    "Build the checkout.\n\n## Acceptance Criteria\n- [ ] Pays by card\n- [ ] Sends a receipt\n\n## Notes\nSee the design.",
+  url: "https://linear.app/acme/issue/ENG-12",
+  priorityLabel: "High",
+  estimate: 3,
+  state: state("In Progress", "started"),
+  team: { id: "team-1", key: "ENG", name: "Engineering" },
+  assignee: null,
+  project: { id: "project-1", name: "Payments" },
+  projectMilestone: null,
+  cycle: null,
+  parent: null,
+  labels: { nodes: [{ name: "frontend" }, { name: "payments" }] },
+  relations: {
+    nodes: [
+      {
+        type: "blocks",
+        relatedIssue: {
+          identifier: "ENG-3",
+          title: "Payment API",
+          state: state("Done", "completed"),
+        },
+      },
+      {
+        type: "blocks",
+        relatedIssue: {
+          identifier: "ENG-4",
+          title: "Card form",
+          state: state("Todo", "unstarted"),
+        },
+      },
+      { type: "related", relatedIssue: null },
+    ],
+  },
+  inverseRelations: {
+    nodes: [
+      {
+        type: "blocks",
+        issue: { identifier: "ENG-20", title: "Launch", state: null },
+      },
+    ],
+  },
+  children: { nodes: [] },
+  comments: {
+    nodes: [
+      {
+        body: "Second",
+        createdAt: "2026-02-02T10:00:00.000Z",
+        user: null,
+      },
+      {
+        body: "First",
+        createdAt: "2026-02-01T10:00:00.000Z",
+        user: { name: "Ada" },
+      },
+    ],
+  },
+};
+
+describe("linear-resources", () => {
+  describe("parseLinearResourceUri", () => {
+    it("should parse team, issue and project URIs", () => {
+      expect(parseLinearResourceUri("linear://team/ENG/issues")).toEqual({
+        kind: "team_issues",
+        teamKey: "ENG",
+      });
+      expect(parseLinearResourceUri("linear://issue/ENG-12")).toEqual({
+        kind: "issue",
+        identifier: "ENG-12",
+      });
+      expect(parseLinearResourceUri("linear://project/abc%2D1")).toEqual({
+        kind: "project",
+        projectId: "abc-1",
+      });
+      expect(parseLinearResourceUri("linear://team/ENG")).toBeNull();
+      expect(parseLinearResourceUri("github://issue/ENG-12")).toBeNull();
+    });
+  });
+
+  describe("splitAcceptanceCriteria", () => {
+    it("should take the section up to the next heading of its level", () => {
+      expect(splitAcceptanceCriteria(issue.description!)).toEqual({
+        description: "Build the checkout.\n\n## Notes\nSee the design.",
+        acceptanceCriteria: "- [ ] Pays by card\n- [ ] Sends a receipt",
+      });
+      expect(splitAcceptanceCriteria("Just text")).toEqual({
+        description: "Just text",
+        acceptanceCriteria: null,
+      });
+    });
+  });
+
+  describe("renderIssueMarkdown", () => {
+    it("should render acceptance criteria, blockers and comments", () => {
+      const markdown = renderIssueMarkdown(issue);
+
+      expect(markdown).toContain("# ENG-12: Checkout flow");
+      expect(markdown).toContain("- **Assignee:** Unassigned");
+      expect(markdown).toContain("- **Labels:** frontend, payments");
+      expect(markdown).not.toContain("**Milestone:**");
+      expect(markdown).toContain(
+        "## Acceptance Criteria\n\n- [ ] Pays by card\n- [ ] Sends a receipt",
+      );
+      expect(markdown).toContain(
+        "## Blocked By\n\n- ✅ ENG-3: Payment API (Done)\n- ⛔ ENG-4: Card form (Todo)",
+      );
+      expect(markdown).toContain("## Blocks\n\n- ENG-20: Launch\n");
+      expect(markdown).not.toContain("## Sub-issues");
+      expect(markdown).toMatch(
+        /## Comments \(2\)\n\n### Ada · 2026-02-01\n\nFirst\n\n### Unknown · 2026-02-02\n\nSecond/,
+      );
+    });
+  });
+
+  describe("renderTeamIssuesMarkdown", () => {
+    it("should group by state and sort by priority", () => {
+      const listed = (
+        identifier: string,
+        priority: number,
+        priorityLabel: string,
+        issueState = state("Todo", "unstarted"),
+      ) => ({
+        identifier,
+        title: identifier,
+        priority,
+        priorityLabel,
+        state: issueState,
+        assignee: null,
+      });
+
+      const markdown = renderTeamIssuesMarkdown({
+        id: "team-1",
+        key: "ENG",
+        name: "Engineering",
+        issues: {
+          nodes: [
+            listed("ENG-1", 0, "No priority"),
+            listed("ENG-2", 1, "Urgent"),
+            listed("ENG-3", 3, "Medium", state("In Progress", "started")),
+          ],
+          pageInfo: { hasNextPage: false },
+        },
+      });
+
+      expect(markdown).toBe(
+        [
+          "# Engineering (ENG): open issues",
+          "3 open issue(s)",
+          "## In Progress (1)\n\n- ENG-3: ENG-3 · Medium · Unassigned",
+          "## Todo (2)\n\n- ENG-2: ENG-2 · Urgent · Unassigned\n- ENG-1: ENG-1 · No priority · Unassigned",
+        ].join("\n\n") + "\n",
+      );
+    });
+  });
+
+  describe("LinearResources", () => {
+    const createResources = () => {
+      const request = jest.fn(async (query: string, variables: any) => {
+        if (query.includes("ResourceTeams")) {
+          return {
+            teams: {
+              nodes: [{ id: "team-1", key: "ENG", name: "Engineering" }],
+            },
+          };
+        }
+        if (query.includes("PinIssue")) {
+          return {
+            issue: {
+              id: "issue-1",
+              identifier: "ENG-12",
+              title: "Checkout flow",
+              team: { id: "team-1", key: "ENG" },
+            },
+          };
+        }
+        if (variables.id === "ENG-404") throw new Error("Entity not found");
+        return { issue };
+      });
+      return { request, resources: new LinearResources({ request } as any) };
+    };
+
+    it("should list pinned issues before the team issue lists", async () => {
+      const { resources } = createResources();
+      const listener = jest.fn();
+      resources.onListChanged(listener);
+
+      await resources.pin("issue-1");
+
+      expect(listener).toHaveBeenCalledTimes(1);
+      expect((await resources.list()).map((resource) => resource.uri)).toEqual([
+        "linear://issue/ENG-12",
+        "linear://team/ENG/issues",
+      ]);
+      expect(resources.unpin("eng-12")).toBe(true);
+      expect(resources.unpin("ENG-12")).toBe(false);
+      expect(listener).toHaveBeenCalledTimes(2);
+      expect(resources.pinned()).toEqual([]);
+    });
+
+    it("should read issues with their team and report unknown ones", async () => {
+      const { resources } = createResources();
+
+      const content = await resources.read("linear://issue/ENG-12");
+
+      expect(content.teams).toEqual([{ id: "team-1", key: "ENG" }]);
+      expect(content.text).toContain("# ENG-12: Checkout flow");
+      await expect(
+        resources.read("linear://issue/ENG-404"),
+      ).rejects.toMatchObject({ code: RESOURCE_NOT_FOUND });
+      await expect(resources.read("linear://nope")).rejects.toMatchObject({
+        code: RESOURCE_NOT_FOUND,
+      });
+    });
+  });
+});
@@ -0,0 +1,127 @@
+import { createHmac } from "crypto";
+import * as fs from "fs";
+import * as http from "http";
+import { AddressInfo } from "net";
+import * as os from "os";
+import * as path from "path";
+import {
+  LinearWebhookPayload,
+  createWebhookApp,
+  parseLinearWebhook,
+  readRecordedPayloads,
+  verifyLinearSignature,
+} from "../utils/linear-webhooks";
+
+const SECRET = "lin_wh_test";
+const sign = (body: string) =>
+  createHmac("sha256", SECRET).update(body).digest("hex");
+
+function issuePayload(webhookTimestamp = Date.now()): LinearWebhookPayload {
+  return {
+    action: "create",
+    type: "Issue",
+    data: { id: "issue-1", identifier: "ENG-1", title: "Crash on login" },
+    webhookTimestamp,
+  };
+}
+
+describe("linear-webhooks", () => {
+  describe("verifyLinearSignature", () => {
+    it("should accept only the HMAC of the exact body", () => {
+      const body = JSON.stringify(issuePayload());
+
+      expect(verifyLinearSignature(body, sign(body), SECRET)).toBe(true);
+      expect(verifyLinearSignature(body + " ", sign(body), SECRET)).toBe(false);
+      expect(verifyLinearSignature(body, sign(body).slice(2), SECRET)).toBe(
+        false,
+      );
+      expect(verifyLinearSignature(body, undefined, SECRET)).toBe(false);
+    });
+  });
+
+  describe("parseLinearWebhook", () => {
+    it("should reject stale and malformed payloads", () => {
+      const now = Date.now();
+      const stale = JSON.stringify(issuePayload(now - 120_000));
+      const notLinear = JSON.stringify({ hello: "world" });
+
+      expect(
+        parseLinearWebhook(stale, sign(stale), SECRET, now - 100_000),
+      ).toMatchObject({ type: "Issue" });
+      expect(() => parseLinearWebhook(stale, sign(stale), SECRET, now)).toThrow(
+        "Webhook timestamp is too old",
+      );
+      expect(() =>
+        parseLinearWebhook(notLinear, sign(notLinear), SECRET),
+      ).toThrow("Webhook body is not a Linear payload");
+    });
+  });
+
+  describe("createWebhookApp", () => {
+    let server: http.Server;
+    let url: string;
+    let dir: string;
+    const handler = jest.fn(async () => {});
+
+    beforeEach(async () => {
+      handler.mockClear();
+      dir = fs.mkdtempSync(path.join(os.tmpdir(), "linear-webhooks-"));
+      server = http.createServer(
+        createWebhookApp({
+          secret: SECRET,
+          handlers: [handler],
+          recordDir: dir,
+        }),
+      );
+      await new Promise<void>((resolve) =>
+        server.listen(0, "127.0.0.1", resolve),
+      );
+      url = `http://127.0.0.1:${(server.address() as AddressInfo).port}/webhooks/linear`;
+    });
+
+    afterEach(async () => {
+      server.closeAllConnections();
+      await new Promise((resolve) => server.close(resolve));
+      fs.rmSync(dir, { recursive: true, force: true });
+    });
+
+    const post = (body: string, signature: string) =>
+      fetch(url, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          "Linear-Signature": signature,
+        },
+        body,
+      });
+
+    it("should dispatch and record signed payloads", async () => {
+      const payload = issuePayload();
+      const body = JSON.stringify(payload);
+
+      const response = await post(body, sign(body));
+
+      expect(response.status).toBe(200);
+      expect(handler).toHaveBeenCalledWith(payload);
+      expect(readRecordedPayloads([dir])).toEqual([
+        {
+          file: path.join(dir, `${payload.webhookTimestamp}-issue-create.json`),
+          payload,
+        },
+      ]);
+    });
+
+    it("should reject unsigned payloads", async () => {
+      const body = JSON.stringify(issuePayload());
+
+      const response = await post(body, sign("something else"));
+
+      expect(response.status).toBe(401);
+      expect(await response.json()).toEqual({
+        error: "Invalid webhook signature",
+      });
+      expect(handler).not.toHaveBeenCalled();
+      expect(fs.readdirSync(dir)).toEqual([]);
+    });
+  });
+});
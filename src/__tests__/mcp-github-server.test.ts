@@ -0,0 +1,70 @@
+import * as path from "path";
+import { McpToolset, callTool } from "../utils/mcp-tools";
+
+/**
+ * Replays the GitHub responses recorded under fixtures/http, so the tools
+ * run end to end without network access or a real token
+ */
+describe("mcp-github-server", () => {
+  const env = { ...process.env };
+  let toolset: McpToolset;
+
+  const call = async (name: string, args: Record<string, unknown>) => {
+    const result = await callTool(toolset.tools, name, args, toolset.options);
+    return { ...JSON.parse(result.content[0].text), isError: result.isError };
+  };
+
+  beforeAll(async () => {
+    process.env.GITHUB_TOKEN = "ghp_replayed";
+    process.env.HTTP_FIXTURES = "replay";
+    process.env.HTTP_FIXTURES_DIR = path.join(__dirname, "fixtures", "http");
+    process.env.MCP_RETRY_ATTEMPTS = "1";
+    ({ githubToolset: toolset } = await import("../mcp-github-server"));
+  });
+
+  afterAll(() => {
+    process.env = env;
+  });
+
+  it("should list repositories", async () => {
+    const result = await call("list_repos", {});
+
+    expect(result.count).toBe(2);
+    expect(result.repos[0]).toEqual({
+      name: "web",
+      fullName: "acme/web",
+      private: false,
+      description: "Customer-facing web app",
+      url: "https://github.com/acme/web",
+      defaultBranch: "main",
+      language: "TypeScript",
+      stars: 12,
+    });
+  });
+
+  it("should create issues and report GitHub's refusals", async () => {
+    const created = await call("create_github_issue", {
+      owner: "acme",
+      repo: "web",
+      title: "Crash on login",
+      labels: ["bug"],
+    });
+    const refused = await call("create_github_issue", {
+      owner: "acme",
+      repo: "archived",
+      title: "Crash on login",
+    });
+
+    expect(created.issue).toEqual({
+      number: 42,
+      title: "Crash on login",
+      url: "https://github.com/acme/web/issues/42",
+    });
+    expect(refused).toMatchObject({
+      success: false,
+      isError: true,
+      status: 410,
+      details: { message: "Issues are disabled for this repo" },
+    });
+  });
+});
@@ -0,0 +1,115 @@
+import { ErrorCode } from "@modelcontextprotocol/sdk/types.js";
+import { z } from "zod";
+import {
+  definePrompt,
+  getPrompt,
+  listPrompts,
+  mountPrompts,
+  toolCaller,
+} from "../utils/mcp-prompts";
+import { ToolResult, defineTool } from "../utils/mcp-tools";
+
+const text = (value: unknown): ToolResult => ({
+  content: [{ type: "text", text: JSON.stringify(value) }],
+});
+
+const listIssues = defineTool({
+  name: "list_issues",
+  description: "List issues",
+  readOnly: true,
+  schema: z.object({ teamId: z.string() }),
+  handler: async ({ teamId }) =>
+    teamId === "missing"
+      ? text({ success: false, error: "Team not found" })
+      : text({ success: true, issues: [`${teamId}-1`, `${teamId}-2`] }),
+});
+
+const planIssues = definePrompt({
+  name: "plan_issues",
+  description: "Plan a team's issues",
+  schema: z.object({
+    teamId: z.string().describe("Team ID"),
+    focus: z.string().optional(),
+  }),
+  handler: async ({ teamId }, call) => {
+    const { issues } = await call("list_issues", { teamId });
+    return `Plan ${issues.join(", ")}`;
+  },
+});
+
+const options = {
+  errorResult: (error: any) => ({
+    ...text({ success: false, error: error.message }),
+    isError: true,
+  }),
+};
+
+describe("mcp-prompts", () => {
+  it("should advertise arguments from the zod schema", () => {
+    expect(listPrompts([planIssues])).toEqual([
+      {
+        name: "plan_issues",
+        description: "Plan a team's issues",
+        arguments: [
+          { name: "teamId", description: "Team ID", required: true },
+          { name: "focus", description: undefined, required: false },
+        ],
+      },
+    ]);
+  });
+
+  it("should build the prompt from tool results", async () => {
+    const call = toolCaller([listIssues], options);
+
+    await expect(
+      getPrompt([planIssues], "plan_issues", { teamId: "ENG" }, call),
+    ).resolves.toEqual({
+      description: "Plan a team's issues",
+      messages: [
+        {
+          role: "user",
+          content: { type: "text", text: "Plan ENG-1, ENG-2" },
+        },
+      ],
+    });
+    await expect(
+      getPrompt([planIssues], "plan_issues", { teamId: "missing" }, call),
+    ).rejects.toThrow("list_issues failed: Team not found");
+  });
+
+  it("should reject unknown prompts and invalid arguments", async () => {
+    const call = toolCaller([listIssues], options);
+
+    await expect(
+      getPrompt([planIssues], "nope", {}, call),
+    ).rejects.toMatchObject({ code: ErrorCode.InvalidParams });
+    await expect(
+      getPrompt([planIssues], "plan_issues", {}, call),
+    ).rejects.toMatchObject({
+      code: ErrorCode.InvalidParams,
+      data: { prompt: "plan_issues", issues: [expect.any(Object)] },
+    });
+  });
+
+  it("should mount prompts that call tools under the toolset's policy", async () => {
+    const [mounted] = mountPrompts(
+      "test",
+      {
+        name: "test-admin",
+        label: "Test",
+        tools: [listIssues],
+        prompts: [planIssues],
+        options,
+      },
+      { policy: { readOnly: false, deny: ["list_*"] } },
+    );
+
+    expect(mounted.name).toBe("test.plan_issues");
+    await expect(
+      getPrompt([mounted], "test.plan_issues", { teamId: "ENG" }, jest.fn()),
+    ).rejects.toMatchObject({
+      code: ErrorCode.InvalidRequest,
+      message: expect.stringContaining("it is on the deny list"),
+    });
+  });
+});
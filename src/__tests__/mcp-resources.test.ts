@@ -0,0 +1,100 @@
+import { Client } from "@modelcontextprotocol/sdk/client/index.js";
+import { InMemoryTransport } from "@modelcontextprotocol/sdk/inMemory.js";
+import { Server } from "@modelcontextprotocol/sdk/server/index.js";
+import {
+  ErrorCode,
+  ResourceUpdatedNotificationSchema,
+} from "@modelcontextprotocol/sdk/types.js";
+import {
+  RESOURCE_NOT_FOUND,
+  ResourceProvider,
+  combineResources,
+  resourceNotFound,
+  scopeResources,
+  serveResources,
+} from "../utils/mcp-resources";
+
+const createProvider = (key: string): ResourceProvider & { text: string } => {
+  const provider = {
+    text: "v1",
+    templates: [
+      {
+        uriTemplate: `test://${key}/{id}`,
+        name: key,
+        description: key,
+        mimeType: "text/markdown",
+      },
+    ],
+    list: async () => [
+      {
+        uri: `test://${key}/1`,
+        name: key,
+        mimeType: "text/markdown",
+        teams: [{ id: `${key}-id`, key }],
+      },
+    ],
+    read: async (uri: string) => {
+      if (!uri.startsWith(`test://${key}/`)) throw resourceNotFound(uri);
+      return {
+        uri,
+        mimeType: "text/markdown",
+        text: provider.text,
+        teams: [{ id: `${key}-id`, key }],
+      };
+    },
+  };
+  return provider;
+};
+
+describe("mcp-resources", () => {
+  it("should hide and refuse resources outside the policy's teams", async () => {
+    const provider = scopeResources(
+      combineResources([createProvider("ENG"), createProvider("OPS")]),
+      { readOnly: false, deny: [], teams: ["eng"] },
+    );
+
+    expect((await provider.list()).map((resource) => resource.uri)).toEqual([
+      "test://ENG/1",
+    ]);
+    await expect(provider.read("test://ENG/1")).resolves.toMatchObject({
+      text: "v1",
+    });
+    await expect(provider.read("test://OPS/1")).rejects.toMatchObject({
+      code: ErrorCode.InvalidRequest,
+      message: expect.stringContaining("outside the allowed teams (eng)"),
+    });
+    await expect(provider.read("test://QA/1")).rejects.toMatchObject({
+      code: RESOURCE_NOT_FOUND,
+    });
+  });
+
+  it("should notify subscribers when a resource changes", async () => {
+    const provider = createProvider("ENG");
+    const server = new Server(
+      { name: "test", version: "1.0.0" },
+      { capabilities: { resources: { subscribe: true, listChanged: true } } },
+    );
+    serveResources(server, provider, 10);
+    const client = new Client({ name: "test-client", version: "1.0.0" });
+    const [clientTransport, serverTransport] =
+      InMemoryTransport.createLinkedPair();
+    await server.connect(serverTransport);
+    await client.connect(clientTransport);
+
+    const updated = new Promise<string>((resolve) =>
+      client.setNotificationHandler(
+        ResourceUpdatedNotificationSchema,
+        (notification) => resolve(notification.params.uri),
+      ),
+    );
+    const { contents } = await client.readResource({ uri: "test://ENG/1" });
+    await client.subscribeResource({ uri: "test://ENG/1" });
+    provider.text = "v2";
+
+    expect(contents).toEqual([
+      { uri: "test://ENG/1", mimeType: "text/markdown", text: "v1" },
+    ]);
+    await expect(updated).resolves.toBe("test://ENG/1");
+    await client.close();
+  });
+});
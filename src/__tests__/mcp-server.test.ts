@@ -0,0 +1,257 @@
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { McpToolset, ToolResult, callTool } from "../utils/mcp-tools";
+import { FAKE_API_KEY, FakeLinear } from "../testing/fake-linear";
+import { FakeTeam } from "../testing/fake-linear-store";
+
+describe("mcp-server", () => {
+  const fake = new FakeLinear();
+  const { store } = fake;
+  const env = { ...process.env };
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), "mcp-server-"));
+  let toolset: McpToolset;
+  let team: FakeTeam;
+
+  const call = async (name: string, args: Record<string, unknown>) => {
+    const result: ToolResult = await callTool(
+      toolset.tools,
+      name,
+      args,
+      toolset.options,
+    );
+    return { ...JSON.parse(result.content[0].text), isError: result.isError };
+  };
+
+  beforeAll(async () => {
+    process.env.LINEAR_API_KEY = FAKE_API_KEY;
+    process.env.LINEAR_API_URL = await fake.listen();
+    process.env.LINEAR_AUDIT_JOURNAL = path.join(dir, "journal.jsonl");
+    process.env.MCP_RETRY_ATTEMPTS = "1";
+    delete process.env.LINEAR_MIRROR;
+    ({ linearToolset: toolset } = await import("../mcp-server"));
+  });
+
+  afterAll(async () => {
+    process.env = env;
+    await fake.close();
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  beforeEach(() => {
+    const n = store.list("teams").length;
+    team = store.createTeam({ name: `Team ${n}`, key: `T${n}` });
+  });
+
+  it("should create issues with their labels and the team's repo label", async () => {
+    const bug = store.createIssueLabel({ name: "Bug", teamId: team.id });
+
+    const result = await call("create_linear_issue", {
+      teamId: team.id,
+      title: "Login fails",
+      labels: ["Bug", "Auth"],
+    });
+
+    const issue = store.get("issues", result.issueId);
+    expect(result).toMatchObject({ success: true, title: "Login fails" });
+    expect(issue.priority).toBe(2);
+    expect(issue.labelIds[0]).toBe(bug.id);
+    expect(issue.labelIds.map((id) => store.get("labels", id).name)).toEqual([
+      "Bug",
+      "Auth",
+      `glenn-frank/${team.name.toLowerCase().replace(/\s+/g, "-")}`,
+    ]);
+  });
+
+  it("should page through team issues and find orphans", async () => {
+    const project = store.createProject({ name: "Launch", teamIds: [team.id] });
+    for (const title of ["One", "Two", "Three"]) {
+      store.createIssue({ teamId: team.id, title });
+    }
+    store.createIssue({
+      teamId: team.id,
+      title: "Planned",
+      projectId: project.id,
+    });
+
+    const first = await call("get_team_issues", { teamId: team.id, limit: 3 });
+    const rest = await call("get_team_issues", {
+      teamId: team.id,
+      after: first.pageInfo.endCursor,
+    });
+    const orphans = await call("find_orphan_issues", { teamId: team.id });
+
+    expect(first.count).toBe(3);
+    expect(first.pageInfo.hasNextPage).toBe(true);
+    expect(rest.count).toBe(1);
+    expect(rest.pageInfo.hasNextPage).toBe(false);
+    expect(orphans.orphans.map((i: any) => i.title).sort()).toEqual([
+      "One",
+      "Three",
+      "Two",
+    ]);
+  });
+
+  it("should unblock an issue once its blocker is closed", async () => {
+    const blocker = store.createIssue({ teamId: team.id, title: "API" });
+    const blocked = store.createIssue({ teamId: team.id, title: "UI" });
+    store.createIssueRelation({
+      issueId: blocked.id,
+      relatedIssueId: blocker.id,
+      type: "blocks",
+    });
+
+    const before = await call("check_issue_blockers", { issueId: blocked.id });
+    const closed = await call("close_issue", { issueId: blocker.id });
+    const after = await call("check_issue_blockers", { issueId: blocked.id });
+
+    expect(before).toMatchObject({ isBlocked: true, canStart: false });
+    expect(before.blockers.map((b: any) => b.id)).toEqual([blocker.id]);
+    expect(closed.after).toMatchObject({ name: "Done", type: "completed" });
+    expect(store.get("issues", blocker.id).completedAt).not.toBeNull();
+    expect(after).toMatchObject({ isBlocked: false, blockers: [] });
+  });
+
+  it("should refuse links that would create a dependency cycle", async () => {
+    const a = store.createIssue({ teamId: team.id, title: "A" });
+    const b = store.createIssue({ teamId: team.id, title: "B" });
+    store.createIssueRelation({
+      issueId: a.id,
+      relatedIssueId: b.id,
+      type: "blocks",
+    });
+
+    const result = await call("link_issues", {
+      issueId: b.id,
+      relatedIssueId: a.id,
+    });
+
+    expect(result.isError).toBe(true);
+    expect(result.cycle).toEqual(
+      [b, a, b].map((issue) => store.identifier(issue)),
+    );
+    expect(store.list("relations").filter((r) => r.issueId === b.id)).toEqual(
+      [],
+    );
+  });
+
+  it("should refuse links that close a cycle through other team issues", async () => {
+    const [a, b, c] = ["A", "B", "C"].map((title) =>
+      store.createIssue({ teamId: team.id, title }),
+    );
+    // b blocks a, c blocks b
+    store.createIssueRelation({
+      issueId: a.id,
+      relatedIssueId: b.id,
+      type: "blocks",
+    });
+    store.createIssueRelation({
+      issueId: b.id,
+      relatedIssueId: c.id,
+      type: "blocks",
+    });
+
+    const result = await call("link_issues", {
+      issueId: c.id,
+      relatedIssueId: a.id,
+    });
+
+    expect(result.isError).toBe(true);
+    expect(result.cycle).toEqual(
+      [c, b, a, c].map((issue) => store.identifier(issue)),
+    );
+  });
+
+  it("should create projects with the workspace status of the state asked for", async () => {
+    const result = await call("create_project", {
+      teamId: team.id,
+      name: "Launch",
+      state: "started",
+    });
+
+    expect(result.success).toBe(true);
+    expect(store.get("projects", result.project.id)).toMatchObject({
+      name: "Launch",
+      state: "started",
+      teamIds: [team.id],
+    });
+  });
+
+  it("should read and comment on issues", async () => {
+    const issue = store.createIssue({ teamId: team.id, title: "Docs" });
+
+    const details = await call("get_issue_by_id", { issueId: issue.id });
+    const comment = await call("add_issue_comment", {
+      issueId: issue.id,
+      body: "Started",
+    });
+    const missing = await call("get_issue_by_id", { issueId: "nope" });
+
+    expect(details.issue).toMatchObject({
+      title: "Docs",
+      state: "Backlog",
+      labels: [],
+    });
+    expect(store.get("comments", comment.commentId)).toMatchObject({
+      issueId: issue.id,
+      body: "Started",
+    });
+    expect(missing).toMatchObject({ success: false, isError: true });
+    expect(missing.error).toMatch(/not found/i);
+  });
+
+  it("should not let read-only sessions change the shared pins", async () => {
+    const issue = store.createIssue({ teamId: team.id, title: "Pinned" });
+    const readOnly = {
+      ...toolset.options,
+      policy: { readOnly: true, deny: [] },
+    };
+
+    for (const name of ["pin_issue", "unpin_issue"]) {
+      await expect(
+        callTool(toolset.tools, name, { issueId: issue.id }, readOnly),
+      ).rejects.toThrow("the server is in read-only mode");
+    }
+  });
+
+  it("should only return the allowed teams' teams and graph issues", async () => {
+    const other = store.createTeam({ name: "Other", key: "OTHER" });
+    const project = store.createProject({
+      name: "Shared",
+      teamIds: [team.id, other.id],
+    });
+    const blocker = store.createIssue({
+      teamId: other.id,
+      title: "Secret",
+      projectId: project.id,
+    });
+    const blocked = store.createIssue({
+      teamId: team.id,
+      title: "Visible",
+      projectId: project.id,
+    });
+    store.createIssueRelation({
+      issueId: blocked.id,
+      relatedIssueId: blocker.id,
+      type: "blocks",
+    });
+    const scoped = {
+      ...toolset.options,
+      policy: { readOnly: false, deny: [], teams: [team.key] },
+    };
+    const scopedCall = async (name: string, args: Record<string, unknown>) =>
+      JSON.parse(
+        (await callTool(toolset.tools, name, args, scoped)).content[0].text,
+      );
+
+    const teams = await scopedCall("list_linear_teams", {});
+    const graph = await scopedCall("export_dependency_graph", {
+      projectId: project.id,
+      format: "json",
+    });
+
+    expect(teams.teams.map((t: any) => t.key)).toEqual([team.key]);
+    expect(graph.graph.nodes.map((n: any) => n.id)).toEqual([blocked.id]);
+    expect(graph.graph.edges).toEqual([]);
+  });
+});
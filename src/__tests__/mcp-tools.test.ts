@@ -0,0 +1,228 @@
+import { ErrorCode, McpError } from "@modelcontextprotocol/sdk/types.js";
+import { z } from "zod";
+import {
+  ToolResult,
+  callTool,
+  defineTool,
+  listTools,
+  mountToolset,
+  parseToolArgs,
+} from "../utils/mcp-tools";
+
+const text = (value: unknown): ToolResult => ({
+  content: [{ type: "text", text: JSON.stringify(value) }],
+});
+
+const createIssue = defineTool({
+  name: "create_issue",
+  description: "Create an issue",
+  schema: z.object({
+    title: z.string().describe("Issue title"),
+    priority: z.number().min(0).max(4).default(2).describe("Priority"),
+    labels: z.array(z.string()).optional(),
+  }),
+  handler: async (args) => text(args),
+});
+
+const failing = defineTool({
+  name: "failing",
+  description: "Always fails",
+  schema: z.object({}),
+  handler: async () => {
+    throw new Error("boom");
+  },
+});
+
+const options = {
+  errorResult: (error: any) => ({
+    ...text({ success: false, error: error.message }),
+    isError: true,
+  }),
+};
+
+describe("mcp-tools", () => {
+  describe("listTools", () => {
+    it("should generate the JSON schema from the zod schema", () => {
+      const [tool] = listTools([createIssue]);
+
+      expect(tool.name).toBe("create_issue");
+      expect(tool.inputSchema).toEqual({
+        type: "object",
+        properties: {
+          title: { type: "string", description: "Issue title" },
+          priority: {
+            type: "number",
+            minimum: 0,
+            maximum: 4,
+            default: 2,
+            description: "Priority",
+          },
+          labels: { type: "array", items: { type: "string" } },
+        },
+        required: ["title"],
+        additionalProperties: false,
+      });
+    });
+  });
+
+  describe("parseToolArgs", () => {
+    it("should apply defaults", () => {
+      expect(parseToolArgs(createIssue, { title: "Bug" })).toEqual({
+        title: "Bug",
+        priority: 2,
+      });
+    });
+
+    it("should report every invalid argument as an InvalidParams error", () => {
+      let error: McpError | undefined;
+      try {
+        parseToolArgs(createIssue, { priority: 9, labels: ["ok", 3] });
+      } catch (e) {
+        error = e as McpError;
+      }
+
+      expect(error).toBeInstanceOf(McpError);
+      expect(error?.code).toBe(ErrorCode.InvalidParams);
+      expect(error?.message).toContain("Invalid arguments for create_issue");
+      expect(error?.data).toEqual({
+        tool: "create_issue",
+        issues: [
+          { path: "title", message: "Required", code: "invalid_type" },
+          {
+            path: "priority",
+            message: "Number must be less than or equal to 4",
+            code: "too_big",
+          },
+          {
+            path: "labels.1",
+            message: "Expected string, received number",
+            code: "invalid_type",
+          },
+        ],
+      });
+    });
+  });
+
+  describe("callTool", () => {
+    it("should pass validated arguments to the handler", async () => {
+      const result = await callTool(
+        [createIssue],
+        "create_issue",
+        { title: "Bug", extra: true },
+        options,
+      );
+
+      expect(JSON.parse(result.content[0].text)).toEqual({
+        title: "Bug",
+        priority: 2,
+      });
+    });
+
+    it("should not run the handler when arguments are invalid", async () => {
+      const handler = jest.fn();
+      const tool = defineTool({ ...createIssue, handler });
+
+      await expect(
+        callTool([tool], "create_issue", {}, options),
+      ).rejects.toMatchObject({ code: ErrorCode.InvalidParams });
+      expect(handler).not.toHaveBeenCalled();
+    });
+
+    it("should reject unknown tools", async () => {
+      await expect(
+        callTool([createIssue], "nope", {}, options),
+      ).rejects.toMatchObject({ code: ErrorCode.MethodNotFound });
+    });
+
+    it("should turn handler errors into error results", async () => {
+      const result = await callTool([failing], "failing", {}, options);
+
+      expect(result.isError).toBe(true);
+      expect(JSON.parse(result.content[0].text)).toEqual({
+        success: false,
+        error: "boom",
+      });
+    });
+
+    it("should reject calls outside the policy", async () => {
+      const policyOptions = {
+        ...options,
+        policy: { readOnly: false, deny: ["failing"] },
+        checkScope: async (_tool: unknown, args: { title: string }) =>
+          args.title === "Secret" ? "title is out of scope" : null,
+      };
+
+      await expect(
+        callTool([failing], "failing", {}, policyOptions),
+      ).rejects.toMatchObject({
+        code: ErrorCode.InvalidRequest,
+        message: expect.stringContaining(
+          "Tool failing is not permitted by the MCP tool policy: it is on the deny list",
+        ),
+      });
+      await expect(
+        callTool(
+          [createIssue],
+          "create_issue",
+          { title: "Secret" },
+          policyOptions,
+        ),
+      ).rejects.toMatchObject({ data: { reason: "title is out of scope" } });
+    });
+
+    it("should run calls through the around hook", async () => {
+      const around = jest.fn((_name, _args, run) => run());
+
+      await callTool(
+        [createIssue],
+        "create_issue",
+        { title: "Bug" },
+        {
+          ...options,
+          around,
+        },
+        "session-1",
+      );
+
+      expect(around).toHaveBeenCalledWith(
+        "create_issue",
+        { title: "Bug", priority: 2 },
+        expect.any(Function),
+        { policy: undefined, sessionId: "session-1" },
+      );
+    });
+  });
+
+  describe("mountToolset", () => {
+    const toolset = {
+      name: "test-admin",
+      label: "Test",
+      tools: [createIssue, failing],
+      options: {
+        errorResult: () => ({ ...text("toolset error"), isError: true }),
+      },
+    };
+
+    it("should namespace tools and hide the ones the policy refuses", async () => {
+      const mounted = mountToolset("test", toolset, {
+        policy: { readOnly: false, deny: ["failing"] },
+      });
+
+      expect(mounted.map((tool) => [tool.name, tool.deniedReason])).toEqual([
+        ["test.create_issue", undefined],
+        ["test.failing", "it is on the deny list"],
+      ]);
+      await expect(
+        callTool(mounted, "test.failing", {}, options),
+      ).rejects.toMatchObject({ code: ErrorCode.InvalidRequest });
+    });
+
+    it("should run calls with the toolset's own options", async () => {
+      const mounted = mountToolset("test", toolset, {});
+
+      const result = await callTool(mounted, "test.failing", {}, options);
+
+      expect(result.content[0].text).toBe(JSON.stringify("toolset error"));
+    });
+  });
+});
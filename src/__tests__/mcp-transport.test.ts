@@ -0,0 +1,190 @@
+import { AddressInfo } from "net";
+import * as http from "http";
+import { Client } from "@modelcontextprotocol/sdk/client/index.js";
+import { SSEClientTransport } from "@modelcontextprotocol/sdk/client/sse.js";
+import { StreamableHTTPClientTransport } from "@modelcontextprotocol/sdk/client/streamableHttp.js";
+import { Server } from "@modelcontextprotocol/sdk/server/index.js";
+import { z } from "zod";
+import { defineTool, serveTools } from "../utils/mcp-tools";
+import {
+  createMcpHttpServer,
+  hasBearerToken,
+  readTransportOptions,
+} from "../utils/mcp-transport";
+
+const TOKEN = "test-token";
+
+function createServer(): Server {
+  const server = new Server(
+    { name: "test", version: "1.0.0" },
+    { capabilities: { tools: {} } },
+  );
+  serveTools(
+    server,
+    [
+      defineTool({
+        name: "echo",
+        description: "Echo a message",
+        schema: z.object({ message: z.string() }),
+        handler: async ({ message }) => ({
+          content: [{ type: "text", text: message }],
+        }),
+      }),
+      defineTool({
+        name: "session",
+        description: "The caller's MCP session",
+        schema: z.object({}),
+        handler: async (_args, { sessionId }) => ({
+          content: [{ type: "text", text: sessionId ?? "none" }],
+        }),
+      }),
+    ],
+    { errorResult: () => ({ content: [], isError: true }) },
+  );
+  return server;
+}
+
+describe("mcp-transport", () => {
+  describe("readTransportOptions", () => {
+    it("should default to stdio", () => {
+      expect(readTransportOptions(3333, [], {})).toMatchObject({
+        http: false,
+        port: 3333,
+      });
+    });
+
+    it("should read flags over the environment", () => {
+      expect(
+        readTransportOptions(3333, ["--http", "--port", "4000"], {
+          MCP_HTTP_PORT: "5000",
+          MCP_HTTP_HOST: "0.0.0.0",
+          MCP_AUTH_TOKEN: TOKEN,
+        }),
+      ).toEqual({
+        http: true,
+        host: "0.0.0.0",
+        port: 4000,
+        authToken: TOKEN,
+      });
+    });
+
+    it("should require a token for HTTP", () => {
+      expect(() =>
+        readTransportOptions(3333, [], { MCP_TRANSPORT: "http" }),
+      ).toThrow("MCP_AUTH_TOKEN is required for the HTTP transport");
+    });
+  });
+
+  describe("hasBearerToken", () => {
+    it("should accept only the exact bearer token", () => {
+      expect(hasBearerToken(`Bearer ${TOKEN}`, TOKEN)).toBe(true);
+      expect(hasBearerToken(`bearer ${TOKEN}`, TOKEN)).toBe(true);
+      expect(hasBearerToken(`Bearer ${TOKEN}x`, TOKEN)).toBe(false);
+      expect(hasBearerToken(TOKEN, TOKEN)).toBe(false);
+      expect(hasBearerToken(undefined, TOKEN)).toBe(false);
+    });
+  });
+
+  describe("createMcpHttpServer", () => {
+    let httpServer: http.Server;
+    let baseUrl: string;
+
+    beforeEach(async () => {
+      httpServer = createMcpHttpServer(createServer, TOKEN);
+      await new Promise<void>((resolve) =>
+        httpServer.listen(0, "127.0.0.1", resolve),
+      );
+      baseUrl = `http://127.0.0.1:${(httpServer.address() as AddressInfo).port}`;
+    });
+
+    afterEach(async () => {
+      httpServer.closeAllConnections();
+      await new Promise((resolve) => httpServer.close(resolve));
+    });
+
+    const requestInit = { headers: { Authorization: `Bearer ${TOKEN}` } };
+
+    it("should reject requests without the bearer token", async () => {
+      const response = await fetch(`${baseUrl}/mcp`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: "{}",
+      });
+
+      expect(response.status).toBe(401);
+      expect(response.headers.get("www-authenticate")).toBe("Bearer");
+    });
+
+    it("should serve tools over streamable HTTP", async () => {
+      const client = new Client({ name: "test-client", version: "1.0.0" });
+      await client.connect(
+        new StreamableHTTPClientTransport(new URL(`${baseUrl}/mcp`), {
+          requestInit,
+        }),
+      );
+
+      const { tools } = await client.listTools();
+      const result = await client.callTool({
+        name: "echo",
+        arguments: { message: "hello" },
+      });
+      await client.close();
+
+      expect(tools.map((tool) => tool.name)).toEqual(["echo", "session"]);
+      expect(result.content).toEqual([{ type: "text", text: "hello" }]);
+    });
+
+    it("should pass each HTTP session's ID to the tools", async () => {
+      const sessionIds: string[] = [];
+      for (let i = 0; i < 2; i++) {
+        const client = new Client({ name: "test-client", version: "1.0.0" });
+        const transport = new StreamableHTTPClientTransport(
+          new URL(`${baseUrl}/mcp`),
+          { requestInit },
+        );
+        await client.connect(transport);
+        const result = await client.callTool({
+          name: "session",
+          arguments: {},
+        });
+        expect(result.content).toEqual([
+          { type: "text", text: transport.sessionId },
+        ]);
+        sessionIds.push(transport.sessionId!);
+        await client.close();
+      }
+
+      expect(new Set(sessionIds).size).toBe(2);
+    });
+
+    it("should serve tools over SSE", async () => {
+      const client = new Client({ name: "test-client", version: "1.0.0" });
+      await client.connect(
+        new SSEClientTransport(new URL(`${baseUrl}/sse`), {
+          requestInit,
+          eventSourceInit: {
+            fetch: (url, init) =>
+              fetch(url, {
+                ...init,
+                headers: { ...init?.headers, ...requestInit.headers },
+              }),
+          },
+        }),
+      );
+
+      const { tools } = await client.listTools();
+      await client.close();
+
+      expect(tools.map((tool) => tool.name)).toEqual(["echo", "session"]);
+    });
+
+    it("should reject unknown sessions", async () => {
+      const response = await fetch(`${baseUrl}/mcp`, {
+        method: "GET",
+        headers: { ...requestInit.headers, "mcp-session-id": "nope" },
+      });
+
+      expect(response.status).toBe(404);
+    });
+  });
+});
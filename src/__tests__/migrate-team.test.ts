@@ -0,0 +1,105 @@
+import { FAKE_API_KEY, FakeLinear } from "../testing/fake-linear";
+
+describe("migrate-team", () => {
+  const fake = new FakeLinear();
+  const env = { ...process.env };
+  let copyTeam: typeof import("../migrate-team").copyTeam;
+
+  beforeAll(async () => {
+    process.env.LINEAR_API_KEY = FAKE_API_KEY;
+    process.env.LINEAR_API_URL = await fake.listen();
+    jest.spyOn(console, "log").mockImplementation(() => {});
+    ({ copyTeam } = await import("../migrate-team"));
+  });
+
+  afterAll(async () => {
+    process.env = env;
+    jest.restoreAllMocks();
+    await fake.close();
+  });
+
+  it("should copy labels, projects and issues into the destination team", async () => {
+    const { store } = fake;
+    const source = store.createTeam({ name: "Engineering", key: "ENG" });
+    const dest = store.createTeam({ name: "Sandbox", key: "SBX" });
+    const bug = store.createIssueLabel({
+      name: "Bug",
+      color: "#ff0000",
+      teamId: source.id,
+    });
+    const feature = store.createIssueLabel({
+      name: "Feature",
+      teamId: source.id,
+    });
+    const launch = store.createProject({
+      name: "Launch",
+      description: "First release",
+      teamIds: [source.id],
+    });
+    store.createIssue({
+      teamId: source.id,
+      title: "Login fails",
+      priority: 1,
+      labelIds: [bug.id],
+      projectId: launch.id,
+    });
+    store.createIssue({
+      teamId: source.id,
+      title: "Dark mode",
+      labelIds: [feature.id],
+    });
+
+    const summary = await copyTeam(source.id, dest.id);
+
+    expect(summary).toEqual({ labels: 2, projects: 1, issues: 2 });
+    const copiedLabels = store
+      .list("labels")
+      .filter((l) => l.teamId === dest.id);
+    expect(copiedLabels.map((l) => [l.name, l.color])).toEqual([
+      ["Bug", "#ff0000"],
+      ["Feature", "#bec2c8"],
+    ]);
+    const [copiedProject] = store
+      .list("projects")
+      .filter((p) => p.teamIds.includes(dest.id));
+    expect(copiedProject).toMatchObject({
+      name: "Launch",
+      description: "First release",
+    });
+
+    const copiedIssues = store
+      .list("issues")
+      .filter((i) => i.teamId === dest.id);
+    expect(
+      copiedIssues.map((i) => ({
+        identifier: store.identifier(i),
+        title: i.title,
+        priority: i.priority,
+        labels: i.labelIds.map((id) => store.get("labels", id).name),
+        projectId: i.projectId,
+      })),
+    ).toEqual(
+      expect.arrayContaining([
+        {
+          identifier: expect.stringMatching(/^SBX-/),
+          title: "Login fails",
+          priority: 1,
+          labels: ["Bug"],
+          projectId: copiedProject.id,
+        },
+        {
+          identifier: expect.stringMatching(/^SBX-/),
+          title: "Dark mode",
+          priority: 0,
+          labels: ["Feature"],
+          projectId: null,
+        },
+      ]),
+    );
+    // Copies use the destination's own labels, not the source's
+    expect(copiedIssues.flatMap((i) => i.labelIds)).not.toContain(bug.id);
+    expect(
+      store.list("issues").filter((i) => i.teamId === source.id),
+    ).toHaveLength(2);
+  }, 15_000);
+});
@@ -0,0 +1,116 @@
+import { ProgressIssue } from "../utils/issue-progress";
+import {
+  MilestoneLike,
+  parseTargetDate,
+  sortMilestones,
+  summarizeMilestones,
+  toMilestoneSummary,
+} from "../utils/milestones";
+
+function milestone(
+  id: string,
+  name: string,
+  sortOrder: number = 0,
+): MilestoneLike {
+  return { id, name, sortOrder, targetDate: null };
+}
+
+function issue(
+  id: string,
+  milestoneId: string | null,
+  stateType: string,
+  estimate: number | null = 1,
+): ProgressIssue {
+  return {
+    id,
+    identifier: `ENG-${id}`,
+    title: id,
+    priority: 0,
+    estimate,
+    url: "",
+    state: { name: stateType, type: stateType },
+    assignee: null,
+    milestoneId,
+    parentId: null,
+  };
+}
+
+describe("milestones", () => {
+  describe("parseTargetDate", () => {
+    it("should accept YYYY-MM-DD", () => {
+      expect(parseTargetDate("2025-06-30")).toBe("2025-06-30");
+    });
+
+    it("should reject other formats", () => {
+      expect(() => parseTargetDate("30/06/2025")).toThrow("YYYY-MM-DD");
+      expect(() => parseTargetDate("2025-13-45")).toThrow("Invalid targetDate");
+    });
+  });
+
+  describe("sortMilestones", () => {
+    it("should sort version-numbered milestones naturally", () => {
+      const sorted = sortMilestones(
+        [
+          milestone("c", "1.10 Polish"),
+          milestone("a", "1.2 Database"),
+          milestone("b", "1.1 Setup"),
+        ].map(toMilestoneSummary),
+      );
+
+      expect(sorted.map((m) => m.name)).toEqual([
+        "1.1 Setup",
+        "1.2 Database",
+        "1.10 Polish",
+      ]);
+    });
+
+    it("should respect Linear's sort order first", () => {
+      const sorted = sortMilestones(
+        [milestone("a", "1.1 Setup", 2), milestone("b", "1.2 Auth", 1)].map(
+          toMilestoneSummary,
+        ),
+      );
+
+      expect(sorted.map((m) => m.id)).toEqual(["b", "a"]);
+    });
+  });
+
+  describe("summarizeMilestones", () => {
+    it("should report progress per milestone and for unassigned issues", () => {
+      const result = summarizeMilestones(
+        [milestone("m2", "1.2 Database"), milestone("m1", "1.1 Setup")],
+        [
+          issue("1", "m1", "completed", 2),
+          issue("2", "m1", "started", 2),
+          issue("3", "m2", "unstarted", 3),
+          issue("4", null, "backlog"),
+          issue("5", "deleted-milestone", "backlog"),
+        ],
+      );
+
+      expect(result.milestones.map((m) => m.name)).toEqual([
+        "1.1 Setup",
+        "1.2 Database",
+      ]);
+      expect(result.milestones[0].progress).toMatchObject({
+        scope: { issues: 2, points: 4 },
+        completed: { issues: 1, points: 2 },
+        percentComplete: 50,
+      });
+      expect(result.milestones[1].progress.remaining).toEqual({
+        issues: 1,
+        points: 3,
+      });
+      expect(result.unassigned.scope.issues).toBe(2);
+    });
+
+    it("should report empty milestones", () => {
+      const result = summarizeMilestones([milestone("m1", "1.1 Setup")], []);
+
+      expect(result.milestones[0].progress.scope).toEqual({
+        issues: 0,
+        points: 0,
+      });
+    });
+  });
+});
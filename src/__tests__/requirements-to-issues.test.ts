@@ -0,0 +1,115 @@
+import * as path from "path";
+import { HttpFixtures, RecordedRequest } from "../utils/http-fixtures";
+
+/**
+ * Replays the OpenAI and Linear responses recorded under fixtures/http for
+ * a short checkout requirements document, so parents and sub-issues are
+ * created without network access or real keys
+ */
+describe("requirements-to-issues", () => {
+  const env = { ...process.env };
+  const document = [
+    "# Checkout",
+    "",
+    "## Guest checkout",
+    "Shoppers can buy without creating an account. They give an email address for the receipt and can create an account after paying.",
+    "",
+    "## Saved payment methods",
+    "Signed-in shoppers can save a card during checkout and pick it next time. Cards are stored with the payment provider, never on our servers.",
+    "",
+  ].join("\n");
+  let requirements: typeof import("../requirements-to-issues");
+  let sent: jest.SpyInstance;
+
+  /** The inputs of the issueCreate mutations sent to Linear */
+  const createdInputs = () =>
+    sent.mock.results
+      .map((result) => result.value as RecordedRequest)
+      .filter((request) => /issueCreate\(/.test((request.body as any)?.query))
+      .map((request) => (request.body as any).variables.input);
+
+  beforeAll(async () => {
+    process.env.OPENAI_API_KEY = "sk-replayed-openai-key";
+    process.env.LINEAR_API_KEY = "lin_api_replayed_key";
+    process.env.DUPLICATE_ACTION = "off";
+    process.env.HTTP_FIXTURES = "replay";
+    process.env.HTTP_FIXTURES_DIR = path.join(__dirname, "fixtures", "http");
+    process.env.API_RETRY_ATTEMPTS = "1";
+    requirements = await import("../requirements-to-issues");
+  });
+
+  beforeEach(() => {
+    jest.spyOn(console, "log").mockImplementation(() => {});
+    sent = jest.spyOn(HttpFixtures.prototype, "describe");
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  afterAll(() => {
+    process.env = env;
+  });
+
+  it("should create the parent issues with their sub-issues nested under them", async () => {
+    const parents = await requirements.summarizeRequirementsToIssues(document);
+    const subIssues = await requirements.generateSubIssues(parents);
+    const labels = await requirements.fetchLinearLabels("team-platform");
+    const ids = await requirements.createIssueHierarchy(
+      parents,
+      subIssues,
+      "team-platform",
+      labels,
+      "file: checkout.md",
+    );
+
+    expect(ids).toEqual({
+      parentIds: ["issue-plt-1", "issue-plt-2"],
+      subIssueIds: ["issue-plt-3", "issue-plt-4", "issue-plt-5"],
+    });
+
+    const inputs = createdInputs();
+    expect(
+      inputs.map(({ title, priority, labelIds, parentId }) => ({
+        title,
+        priority,
+        labelIds,
+        parentId,
+      })),
+    ).toEqual([
+      {
+        title: "Implement guest checkout",
+        priority: 3,
+        labelIds: ["label-email-system", "label-testing"],
+        parentId: undefined,
+      },
+      {
+        title: "Save payment methods for signed-in shoppers",
+        priority: 2,
+        labelIds: ["label-testing"],
+        parentId: undefined,
+      },
+      {
+        title: "Guest email capture form",
+        priority: 1,
+        labelIds: ["label-email-system", "label-document-management"],
+        parentId: "issue-plt-1",
+      },
+      {
+        title: "Offer account creation after a guest order",
+        priority: 1,
+        labelIds: undefined,
+        parentId: "issue-plt-1",
+      },
+      {
+        title: "Saved card picker at checkout",
+        priority: 1,
+        labelIds: ["label-testing"],
+        parentId: "issue-plt-2",
+      },
+    ]);
+    expect(inputs[2].description).toContain(
+      "## Source Document\nProcessed from: `file: checkout.md`",
+    );
+  }, 15000);
+});
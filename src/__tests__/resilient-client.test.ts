@@ -0,0 +1,286 @@
+import { AddressInfo } from "net";
+import * as http from "http";
+import { LinearClient } from "@linear/sdk";
+import {
+  ClientOptions,
+  createLimiter,
+  readClientOptions,
+  resilientAxios,
+  resilientLinearClient,
+} from "../utils/resilient-client";
+
+type Reply = { status: number; headers?: Record<string, string>; body: any };
+
+/**
+ * A server answering each request with the next scripted reply (the last
+ * one repeats), recording requests and the most in flight at once
+ */
+function createFakeServer(replies: Reply[], latencyMs = 0) {
+  const requests: Array<{ method?: string; body: string }> = [];
+  let inFlight = 0;
+  let maxInFlight = 0;
+
+  const server = http.createServer((req, res) => {
+    let body = "";
+    req.on("data", (chunk) => (body += chunk));
+    req.on("end", () => {
+      const reply = replies[Math.min(requests.length, replies.length - 1)];
+      requests.push({ method: req.method, body });
+      inFlight++;
+      maxInFlight = Math.max(maxInFlight, inFlight);
+
+      setTimeout(() => {
+        inFlight--;
+        res.writeHead(reply.status, {
+          "Content-Type": "application/json",
+          ...reply.headers,
+        });
+        res.end(JSON.stringify(reply.body));
+      }, latencyMs);
+    });
+  });
+
+  return {
+    requests,
+    maxInFlight: () => maxInFlight,
+    listen: () =>
+      new Promise<string>((resolve) =>
+        server.listen(0, "127.0.0.1", () =>
+          resolve(`http://127.0.0.1:${(server.address() as AddressInfo).port}`),
+        ),
+      ),
+    close: () => new Promise((resolve) => server.close(resolve)),
+  };
+}
+
+const options: ClientOptions = {
+  retry: { attempts: 4, delayMs: 1, jitter: true, maxDelayMs: 2000 },
+  maxConcurrency: 2,
+};
+
+const rateLimited: Reply = {
+  status: 429,
+  headers: { "Retry-After": "0" },
+  body: { error: "Too many requests" },
+};
+
+describe("resilient-client", () => {
+  let consoleError: jest.SpyInstance;
+
+  beforeEach(() => {
+    consoleError = jest.spyOn(console, "error").mockImplementation(() => {});
+  });
+
+  afterEach(() => consoleError.mockRestore());
+
+  describe("readClientOptions", () => {
+    it("should read the prefixed environment", () => {
+      expect(readClientOptions({ MCP_MAX_CONCURRENCY: "8" }, "MCP")).toEqual(
+        expect.objectContaining({ maxConcurrency: 8 }),
+      );
+      expect(() => readClientOptions({ API_MAX_CONCURRENCY: "0" })).toThrow(
+        "API_MAX_CONCURRENCY must be a positive integer",
+      );
+    });
+  });
+
+  describe("createLimiter", () => {
+    it("should run tasks in order with a bounded number in flight", async () => {
+      const limit = createLimiter(2);
+      const started: number[] = [];
+      let active = 0;
+      let maxActive = 0;
+
+      const results = await Promise.all(
+        [1, 2, 3, 4, 5].map((n) =>
+          limit(async () => {
+            started.push(n);
+            maxActive = Math.max(maxActive, ++active);
+            await new Promise((resolve) => setTimeout(resolve, 5));
+            active--;
+            if (n === 3) throw new Error("three");
+            return n;
+          }).catch((error) => error.message),
+        ),
+      );
+
+      expect(results).toEqual([1, 2, "three", 4, 5]);
+      expect(started).toEqual([1, 2, 3, 4, 5]);
+      expect(maxActive).toBe(2);
+    });
+  });
+
+  describe("resilientAxios", () => {
+    it("should retry through 429s until the request succeeds", async () => {
+      const server = createFakeServer([
+        rateLimited,
+        rateLimited,
+        { status: 200, body: { ok: true } },
+      ]);
+      const baseURL = await server.listen();
+
+      try {
+        const api = resilientAxios({ baseURL }, options);
+        const res = await api.get("/things");
+
+        expect(res.data).toEqual({ ok: true });
+        expect(server.requests).toHaveLength(3);
+        expect(consoleError).toHaveBeenCalledWith(
+          expect.stringContaining("request failed (HTTP 429), retrying"),
+        );
+      } finally {
+        await server.close();
+      }
+    });
+
+    it("should wait until the rate limit resets", async () => {
+      const server = createFakeServer([
+        {
+          status: 400,
+          headers: {
+            "X-RateLimit-Requests-Remaining": "0",
+            "X-RateLimit-Requests-Reset": String(Date.now() + 300),
+          },
+          body: { errors: [{ extensions: { code: "RATELIMITED" } }] },
+        },
+        { status: 200, body: { data: { viewer: { id: "user-1" } } } },
+      ]);
+      const baseURL = await server.listen();
+
+      try {
+        const api = resilientAxios({ baseURL }, options);
+        const started = Date.now();
+        const res = await api.post("/graphql", { query: "{ viewer { id } }" });
+
+        expect(res.data.data.viewer.id).toBe("user-1");
+        expect(Date.now() - started).toBeGreaterThanOrEqual(250);
+      } finally {
+        await server.close();
+      }
+    });
+
+    it("should not resend mutations the server may have processed", async () => {
+      const server = createFakeServer([
+        { status: 503, body: { error: "unavailable" } },
+        { status: 200, body: { ok: true } },
+      ]);
+      const baseURL = await server.listen();
+
+      try {
+        const api = resilientAxios({ baseURL }, options);
+
+        await expect(
+          api.post("/graphql", { query: "mutation { issueDelete }" }),
+        ).rejects.toMatchObject({ response: { status: 503 } });
+        await expect(
+          api.post("/graphql", { query: "{ viewer }" }),
+        ).resolves.toMatchObject({ data: { ok: true } });
+        expect(server.requests).toHaveLength(2);
+      } finally {
+        await server.close();
+      }
+    });
+
+    it("should give up after the last attempt", async () => {
+      const server = createFakeServer([rateLimited]);
+      const baseURL = await server.listen();
+
+      try {
+        const api = resilientAxios({ baseURL }, options);
+
+        await expect(
+          api.post("/comments", { body: "hi" }),
+        ).rejects.toMatchObject({ response: { status: 429 } });
+        expect(server.requests).toHaveLength(4);
+      } finally {
+        await server.close();
+      }
+    });
+
+    it("should limit concurrent requests", async () => {
+      const server = createFakeServer([{ status: 200, body: {} }], 20);
+      const baseURL = await server.listen();
+
+      try {
+        const api = resilientAxios({ baseURL }, options);
+        await Promise.all([1, 2, 3, 4, 5, 6].map(() => api.get("/things")));
+
+        expect(server.requests).toHaveLength(6);
+        expect(server.maxInFlight()).toBe(2);
+      } finally {
+        await server.close();
+      }
+    });
+  });
+
+  describe("resilientLinearClient", () => {
+    it("should retry rate-limited SDK and raw requests", async () => {
+      const linearRateLimited: Reply = {
+        status: 400,
+        headers: { "Retry-After": "0" },
+        body: {
+          errors: [
+            {
+              message: "Rate limit exceeded",
+              extensions: { code: "RATELIMITED" },
+            },
+          ],
+        },
+      };
+      const server = createFakeServer([
+        linearRateLimited,
+        { status: 200, body: { data: { viewer: { id: "user-1" } } } },
+        linearRateLimited,
+        {
+          status: 200,
+          body: {
+            data: {
+              issueDelete: { success: true, lastSyncId: 1, entity: null },
+            },
+          },
+        },
+      ]);
+      const apiUrl = `${await server.listen()}/graphql`;
+
+      try {
+        const linear = resilientLinearClient(
+          new LinearClient({ apiKey: "test", apiUrl }),
+          options,
+        );
+
+        await expect(
+          linear.client.request("query { viewer { id } }"),
+        ).resolves.toEqual({ viewer: { id: "user-1" } });
+        await expect(linear.deleteIssue("issue-1")).resolves.toMatchObject({
+          success: true,
+        });
+        expect(server.requests).toHaveLength(4);
+      } finally {
+        await server.close();
+      }
+    });
+
+    it("should not resend mutations after a server error", async () => {
+      const server = createFakeServer([
+        { status: 500, body: { errors: [{ message: "Internal error" }] } },
+      ]);
+      const apiUrl = `${await server.listen()}/graphql`;
+
+      try {
+        const linear = resilientLinearClient(
+          new LinearClient({ apiKey: "test", apiUrl }),
+          options,
+        );
+
+        await expect(linear.deleteIssue("issue-1")).rejects.toThrow();
+        expect(server.requests).toHaveLength(1);
+        await expect(
+          linear.client.request("{ viewer { id } }"),
+        ).rejects.toThrow();
+        expect(server.requests).toHaveLength(5);
+      } finally {
+        await server.close();
+      }
+    });
+  });
+});
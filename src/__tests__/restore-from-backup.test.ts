@@ -0,0 +1,101 @@
+import { BackupData, restoreBackup } from "../restore-from-backup";
+import { FakeLinear } from "../testing/fake-linear";
+
+const backup: BackupData = {
+  team: { id: "old-team", name: "Engineering", key: "eng" },
+  labels: [
+    { name: "Bug", color: "#ff0000" },
+    { name: "Feature", description: "New functionality" },
+  ],
+  projects: [{ id: "old-project", name: "Launch" }],
+  issues: [
+    {
+      title: "Login fails",
+      priority: 1,
+      labels: [{ name: "Bug" }],
+    },
+    { title: "Dark mode", labels: [{ name: "Feature" }, { name: "Missing" }] },
+    { title: "Invalid priority", priority: 9 },
+  ],
+};
+
+describe("restore-from-backup", () => {
+  let fake: FakeLinear;
+
+  beforeEach(() => {
+    fake = new FakeLinear();
+    jest.spyOn(console, "log").mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it("should restore into a new team and project", async () => {
+    const { store } = fake;
+
+    const result = await restoreBackup(fake.client(), backup, {
+      newTeamName: "Engineering - Restore",
+      createNewProject: true,
+    });
+
+    const team = store.get("teams", result.teamId);
+    expect(team).toMatchObject({ name: "Engineering - Restore", key: "ENG" });
+    expect(store.get("projects", result.projectId!)).toMatchObject({
+      name: "Launch",
+      teamIds: [team.id],
+    });
+    expect(result.restored).toBe(2);
+
+    const issues = store.list("issues").map((issue) => ({
+      title: issue.title,
+      priority: issue.priority,
+      projectId: issue.projectId,
+      labels: issue.labelIds.map((id) => store.get("labels", id).name),
+    }));
+    expect(issues).toEqual([
+      {
+        title: "Login fails",
+        priority: 1,
+        projectId: result.projectId,
+        labels: ["Bug"],
+      },
+      {
+        title: "Dark mode",
+        priority: 0,
+        projectId: result.projectId,
+        labels: ["Feature"],
+      },
+    ]);
+    expect(console.log).toHaveBeenCalledWith(
+      "⚠️  Issue restore failed: Invalid priority:",
+      "Invalid priority: 9",
+    );
+  });
+
+  it("should reuse an existing team's labels and project", async () => {
+    const { store } = fake;
+    const team = store.createTeam({ name: "Platform", key: "PLT" });
+    const bug = store.createIssueLabel({ name: "Bug", teamId: team.id });
+    const project = store.createProject({
+      name: "Existing",
+      teamIds: [team.id],
+    });
+
+    await restoreBackup(fake.client(), backup, {
+      existingTeamId: team.id,
+      createNewProject: false,
+      existingProjectId: project.id,
+    });
+
+    expect(store.list("teams")).toHaveLength(1);
+    expect(store.list("projects")).toHaveLength(1);
+    expect(store.list("labels").map((l) => l.name)).toEqual(["Bug", "Feature"]);
+    const [loginFails] = store.list("issues");
+    expect(loginFails).toMatchObject({
+      teamId: team.id,
+      projectId: project.id,
+      labelIds: [bug.id],
+    });
+  });
+});
@@ -0,0 +1,181 @@
+import {
+  isRateLimited,
+  isTransientError,
+  readRetryOptions,
+  retryAfterMs,
+  retryDelayMs,
+  wasNotProcessed,
+  withRetry,
+} from "../utils/retry";
+
+const httpError = (status: number, headers: Record<string, string> = {}) =>
+  Object.assign(new Error(`HTTP ${status}`), { response: { status, headers } });
+
+describe("retry", () => {
+  describe("readRetryOptions", () => {
+    it("should read the environment over the defaults", () => {
+      expect(readRetryOptions({})).toEqual({
+        attempts: 3,
+        delayMs: 500,
+        maxDelayMs: 60_000,
+        jitter: true,
+      });
+      expect(
+        readRetryOptions({ MCP_RETRY_ATTEMPTS: "1", MCP_RETRY_DELAY_MS: "0" }),
+      ).toMatchObject({ attempts: 1, delayMs: 0 });
+      expect(
+        readRetryOptions({ API_RETRY_ATTEMPTS: "5" }, "API"),
+      ).toMatchObject({ attempts: 5 });
+    });
+
+    it("should reject invalid settings", () => {
+      expect(() => readRetryOptions({ MCP_RETRY_ATTEMPTS: "0" })).toThrow(
+        "MCP_RETRY_ATTEMPTS must be a positive integer",
+      );
+    });
+  });
+
+  describe("isTransientError", () => {
+    it("should retry rate limits, server errors and dropped connections", () => {
+      expect(isTransientError(httpError(429))).toBe(true);
+      expect(isTransientError(httpError(502))).toBe(true);
+      expect(isTransientError({ code: "ECONNRESET" })).toBe(true);
+      expect(isTransientError({ type: "Ratelimited" })).toBe(true);
+      expect(isTransientError(httpError(404))).toBe(false);
+      expect(isTransientError(new Error("Entity not found"))).toBe(false);
+    });
+  });
+
+  describe("isRateLimited", () => {
+    it("should recognize Linear and GitHub rate limits", () => {
+      expect(
+        isRateLimited({
+          response: {
+            status: 400,
+            errors: [{ extensions: { code: "RATELIMITED" } }],
+          },
+        }),
+      ).toBe(true);
+      expect(
+        isRateLimited(httpError(403, { "X-RateLimit-Remaining": "0" })),
+      ).toBe(true);
+      expect(isRateLimited(httpError(403))).toBe(false);
+      expect(wasNotProcessed(httpError(429))).toBe(true);
+      expect(wasNotProcessed({ code: "ECONNREFUSED" })).toBe(true);
+      expect(wasNotProcessed(httpError(503))).toBe(false);
+    });
+  });
+
+  describe("retryAfterMs", () => {
+    const now = Date.parse("2026-01-01T00:00:00Z");
+
+    it("should read Retry-After as seconds or a date", () => {
+      expect(retryAfterMs(httpError(429, { "retry-after": "2" }), now)).toBe(
+        2000,
+      );
+      expect(
+        retryAfterMs(
+          httpError(503, { "retry-after": "Thu, 01 Jan 2026 00:00:05 GMT" }),
+          now,
+        ),
+      ).toBe(5000);
+    });
+
+    it("should read the Linear and GitHub reset headers", () => {
+      expect(
+        retryAfterMs(
+          httpError(429, {
+            "x-ratelimit-requests-remaining": "0",
+            "x-ratelimit-requests-reset": String(now + 1500),
+          }),
+          now,
+        ),
+      ).toBe(1500);
+      expect(
+        retryAfterMs(
+          httpError(403, {
+            "x-ratelimit-remaining": "0",
+            "x-ratelimit-reset": String(now / 1000 + 30),
+          }),
+          now,
+        ),
+      ).toBe(30_000);
+      expect(retryAfterMs(httpError(503), now)).toBeUndefined();
+    });
+  });
+
+  describe("retryDelayMs", () => {
+    it("should jitter and cap the backoff", () => {
+      const options = { attempts: 5, delayMs: 100, maxDelayMs: 300 };
+
+      expect(retryDelayMs(httpError(503), 2, options)).toBe(200);
+      expect(retryDelayMs(httpError(503), 4, options)).toBe(300);
+      expect(
+        retryDelayMs(httpError(503), 2, { ...options, jitter: true }, () => 0),
+      ).toBe(100);
+    });
+
+    it("should wait as long as the server asks, up to the cap", () => {
+      const options = { attempts: 5, delayMs: 100, maxDelayMs: 5000 };
+
+      expect(
+        retryDelayMs(httpError(429, { "retry-after": "2" }), 1, options),
+      ).toBe(2000);
+      expect(
+        retryDelayMs(httpError(429, { "retry-after": "60" }), 1, options),
+      ).toBeNull();
+    });
+  });
+
+  describe("withRetry", () => {
+    it("should retry transient errors with exponential backoff", async () => {
+      const waits: number[] = [];
+      const call = jest
+        .fn()
+        .mockRejectedValueOnce(httpError(503))
+        .mockRejectedValueOnce(httpError(429))
+        .mockResolvedValue("ok");
+
+      await expect(
+        withRetry(call, { attempts: 3, delayMs: 100 }, async (ms) =>
+          waits.push(ms),
+        ),
+      ).resolves.toBe("ok");
+      expect(waits).toEqual([100, 200]);
+    });
+
+    it("should give up after the last attempt or on other errors", async () => {
+      const wait = async () => undefined;
+      const failing = jest.fn().mockRejectedValue(httpError(503));
+      const missing = jest.fn().mockRejectedValue(httpError(404));
+
+      await expect(
+        withRetry(failing, { attempts: 2, delayMs: 0 }, wait),
+      ).rejects.toThrow("HTTP 503");
+      await expect(
+        withRetry(missing, { attempts: 2, delayMs: 0 }, wait),
+      ).rejects.toThrow("HTTP 404");
+      expect(failing).toHaveBeenCalledTimes(2);
+      expect(missing).toHaveBeenCalledTimes(1);
+    });
+
+    it("should only retry what shouldRetry accepts and report retries", async () => {
+      const onRetry = jest.fn();
+      const call = jest
+        .fn()
+        .mockRejectedValueOnce(httpError(429))
+        .mockRejectedValueOnce(httpError(503))
+        .mockResolvedValue("ok");
+
+      await expect(
+        withRetry(
+          call,
+          { attempts: 3, delayMs: 0, shouldRetry: wasNotProcessed, onRetry },
+          async () => undefined,
+        ),
+      ).rejects.toThrow("HTTP 503");
+      expect(onRetry).toHaveBeenCalledWith(expect.any(Error), 1, 0);
+      expect(call).toHaveBeenCalledTimes(2);
+    });
+  });
+});
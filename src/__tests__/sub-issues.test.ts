@@ -0,0 +1,165 @@
+import { GraphQLRequester } from "../modules/DependencyResolver";
+import { ProgressIssue } from "../utils/issue-progress";
+import {
+  MAX_SUB_ISSUE_DEPTH,
+  buildSubIssueTree,
+  fetchSubIssues,
+  resolveParentIndex,
+  validateParentIndexes,
+} from "../utils/sub-issues";
+
+function issue(
+  id: string,
+  parentId: string,
+  stateType: string = "unstarted",
+  estimate: number | null = 1,
+): ProgressIssue {
+  return {
+    id,
+    identifier: `ENG-${id}`,
+    title: id,
+    priority: 0,
+    estimate,
+    url: "",
+    state: { name: stateType, type: stateType },
+    assignee: null,
+    milestoneId: null,
+    parentId,
+  };
+}
+
+describe("sub-issues", () => {
+  describe("buildSubIssueTree", () => {
+    it("should nest issues and roll completion up from the leaves", () => {
+      const tree = buildSubIssueTree("root", [
+        issue("a", "root", "completed", 2),
+        issue("b", "root", "started", 1),
+        issue("b1", "b", "completed", 3),
+        issue("b2", "b", "unstarted", 3),
+      ]);
+
+      expect(tree.subIssues.map((node) => node.id)).toEqual(["a", "b"]);
+      expect(tree.subIssues[0].rollup).toBeUndefined();
+
+      const b = tree.subIssues[1];
+      expect(b.subIssues.map((node) => [node.id, node.depth])).toEqual([
+        ["b1", 2],
+        ["b2", 2],
+      ]);
+      expect(b.rollup).toMatchObject({
+        scope: { issues: 2, points: 6 },
+        percentComplete: 50,
+      });
+
+      expect(tree.rollup).toMatchObject({
+        scope: { issues: 4, points: 9 },
+        completed: { issues: 2, points: 5 },
+      });
+    });
+
+    it("should report an empty rollup for an issue without children", () => {
+      const tree = buildSubIssueTree("root", []);
+
+      expect(tree.subIssues).toEqual([]);
+      expect(tree.rollup.scope.issues).toBe(0);
+    });
+  });
+
+  describe("fetchSubIssues", () => {
+    function stubClient(childrenPerIssue: number) {
+      const requests: unknown[] = [];
+      const client: GraphQLRequester = {
+        request: async <Data>(_doc: string, variables?: any) => {
+          requests.push(variables.filter);
+          const parents: string[] = variables.filter.parent.id.in;
+          const nodes = parents.flatMap((parentId) =>
+            Array.from({ length: childrenPerIssue }, (_, i) => ({
+              ...issue(`${parentId}.${i}`, parentId),
+              assignee: null,
+              projectMilestone: null,
+              parent: { id: parentId },
+            })),
+          );
+          return {
+            issues: {
+              nodes,
+              pageInfo: { hasNextPage: false, endCursor: null },
+            },
+          } as Data;
+        },
+      };
+      return { client, requests };
+    }
+
+    it("should fetch only direct children by default", async () => {
+      const { client, requests } = stubClient(2);
+
+      const result = await fetchSubIssues(client, "root", false);
+
+      expect(result.issues).toHaveLength(2);
+      expect(requests).toHaveLength(1);
+    });
+
+    it("should fetch one level per request when recursive, up to the depth limit", async () => {
+      const { client, requests } = stubClient(1);
+
+      const result = await fetchSubIssues(client, "root", true);
+
+      expect(requests).toHaveLength(MAX_SUB_ISSUE_DEPTH);
+      expect(result.issues).toHaveLength(MAX_SUB_ISSUE_DEPTH);
+      expect(result.truncated).toBe(true);
+    });
+  });
+
+  describe("validateParentIndexes", () => {
+    it("should accept parents that come earlier in the batch", () => {
+      expect(
+        validateParentIndexes([
+          { title: "Epic" },
+          { title: "Task", parentIndex: 0 },
+          { title: "Other", parentId: "existing" },
+        ]),
+      ).toEqual([]);
+    });
+
+    it("should reject self, forward and out-of-range parents", () => {
+      const problems = validateParentIndexes([
+        { title: "A", parentIndex: 1 },
+        { title: "B", parentIndex: 1 },
+        { title: "C", parentIndex: 9 },
+        { title: "D", parentIndex: 0, parentId: "x" },
+      ]);
+
+      expect(problems.map((p) => p.kind)).toEqual([
+        "out_of_range",
+        "self_reference",
+        "out_of_range",
+        "out_of_range",
+      ]);
+      expect(problems[0].message).toContain("must reference an earlier issue");
+      expect(problems[3].message).toContain("not both");
+    });
+  });
+
+  describe("resolveParentIndex", () => {
+    const parents = [{ Title: "User Management System" }, { title: "Billing" }];
+
+    it("should use Parent_Index when valid", () => {
+      expect(resolveParentIndex({ Parent_Index: 1 }, parents)).toBe(1);
+    });
+
+    it("should fall back to a case-insensitive Parent_Title match", () => {
+      expect(
+        resolveParentIndex(
+          { Parent_Index: 7, Parent_Title: "user management system " },
+          parents,
+        ),
+      ).toBe(0);
+    });
+
+    it("should return -1 when nothing matches", () => {
+      expect(resolveParentIndex({ Title: "Orphan" }, parents)).toBe(-1);
+      expect(resolveParentIndex({ Parent_Title: "Unknown" }, parents)).toBe(-1);
+    });
+  });
+});
@@ -0,0 +1,311 @@
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import {
+  TeamMirror,
+  TeamMirrorCache,
+  listTeamMirrors,
+  openTeamMirror,
+  readMirrorOptions,
+  syncTeamMirror,
+} from "../utils/team-mirror";
+import { arrayPageFetcher, fetchPaginated } from "../utils/linear-pagination";
+
+const team = { id: "team-1", key: "ENG", name: "Engineering" };
+
+function rawIssue(n: number, fields: Record<string, any> = {}) {
+  return {
+    id: `issue-${n}`,
+    identifier: `ENG-${n}`,
+    number: n,
+    title: `Issue ${n}`,
+    url: `https://linear.app/eng/issue/ENG-${n}`,
+    createdAt: `2026-01-0${n}T00:00:00.000Z`,
+    updatedAt: `2026-01-0${n}T00:00:00.000Z`,
+    state: { id: "s-todo" },
+    project: null,
+    labels: { nodes: [{ id: "label-bug" }] },
+    relations: { nodes: [] },
+    ...fields,
+  };
+}
+
+const connection = (nodes: any[], hasNextPage = false, endCursor = "end") => ({
+  nodes,
+  pageInfo: { hasNextPage, endCursor },
+});
+
+const bugLabel = {
+  id: "label-bug",
+  name: "Bug",
+  color: "#f00",
+  team: { id: "team-1" },
+  updatedAt: "2026-01-01T00:00:00.000Z",
+};
+
+/**
+ * A GraphQL client answering the mirror queries; issues come in pages of
+ * one so paging is exercised. The id queries list the unarchived issues
+ * and labels given.
+ */
+function fakeClient(issues: any[], labels: any[] = [bugLabel]) {
+  const ids = (nodes: any[]) =>
+    connection(
+      nodes.filter((node) => !node.archivedAt).map(({ id }) => ({ id })),
+    );
+
+  return {
+    request: jest.fn(async (document: string, variables: any): Promise<any> => {
+      if (document.includes("MirrorTeam")) return { team };
+      if (document.includes("MirrorStateIds")) {
+        return { workflowStates: ids([{ id: "s-done" }, { id: "s-todo" }]) };
+      }
+      if (document.includes("MirrorUserIds")) {
+        return { team: { members: ids([]) } };
+      }
+      if (document.includes("MirrorLabelIds")) {
+        return { issueLabels: ids(labels) };
+      }
+      if (document.includes("MirrorProjectIds")) {
+        return { projects: ids([{ id: "project-1" }]) };
+      }
+      if (document.includes("MirrorIssueIds")) return { issues: ids(issues) };
+      if (document.includes("MirrorStates")) {
+        return {
+          workflowStates: connection([
+            {
+              id: "s-done",
+              name: "Done",
+              type: "completed",
+              color: "#0f0",
+              position: 2,
+              updatedAt: "2026-01-01T00:00:00.000Z",
+            },
+            {
+              id: "s-todo",
+              name: "Todo",
+              type: "unstarted",
+              color: "#ccc",
+              position: 1,
+              updatedAt: "2026-01-01T00:00:00.000Z",
+            },
+          ]),
+        };
+      }
+      if (document.includes("MirrorUsers")) {
+        return { team: { members: connection([]) } };
+      }
+      if (document.includes("MirrorLabels")) {
+        return { issueLabels: connection(labels) };
+      }
+      if (document.includes("MirrorProjects")) {
+        return {
+          projects: connection([
+            {
+              id: "project-1",
+              name: "Launch",
+              state: "started",
+              url: "https://linear.app/eng/project/launch",
+              updatedAt: "2026-01-01T00:00:00.000Z",
+            },
+          ]),
+        };
+      }
+      const index = variables.after ? Number(variables.after) : 0;
+      return {
+        issues: connection(
+          issues.slice(index, index + 1),
+          index + 1 < issues.length,
+          String(index + 1),
+        ),
+      };
+    }),
+  };
+}
+
+describe("team-mirror", () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), "team-mirror-"));
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  describe("syncTeamMirror", () => {
+    it("should fetch every page on the first sync and save the mirror", async () => {
+      const client = fakeClient([
+        rawIssue(1, { project: { id: "project-1" } }),
+        rawIssue(2, {
+          relations: {
+            nodes: [
+              { id: "rel-1", type: "blocks", relatedIssue: { id: "issue-1" } },
+            ],
+          },
+        }),
+      ]);
+
+      const { mirror, full, changes } = await syncTeamMirror(client, "team-1", {
+        dir,
+      });
+
+      expect(full).toBe(true);
+      expect(changes.issues).toEqual({ updated: 2, removed: 0 });
+      expect(mirror.states.map((s) => s.name)).toEqual(["Todo", "Done"]);
+      expect(mirror.projectIssues(null).map((i) => i.identifier)).toEqual([
+        "ENG-2",
+      ]);
+      expect(mirror.data.issues["issue-2"].relations).toEqual([
+        { id: "rel-1", type: "blocks", relatedIssueId: "issue-1" },
+      ]);
+      expect(mirror.labelNames(mirror.data.issues["issue-1"])).toEqual(["Bug"]);
+      expect(mirror.data.cursors.issues).toBe("2026-01-02T00:00:00.000Z");
+      expect(fs.existsSync(path.join(dir, "team-1.json"))).toBe(true);
+    });
+
+    it("should only fetch records updated since the last sync", async () => {
+      await syncTeamMirror(fakeClient([rawIssue(1), rawIssue(2)]), "team-1", {
+        dir,
+      });
+      const client = fakeClient([
+        rawIssue(2, {
+          title: "Renamed",
+          updatedAt: "2026-01-05T00:00:00.000Z",
+        }),
+        rawIssue(1, { archivedAt: "2026-01-06T00:00:00.000Z" }),
+      ]);
+
+      const { mirror, full, changes } = await syncTeamMirror(client, "team-1", {
+        dir,
+      });
+
+      expect(full).toBe(false);
+      expect(client.request).toHaveBeenCalledWith(
+        expect.stringContaining("MirrorIssues"),
+        expect.objectContaining({
+          filter: {
+            team: { id: { eq: "team-1" } },
+            updatedAt: { gte: "2026-01-02T00:00:00.000Z" },
+          },
+        }),
+      );
+      expect(changes.issues).toEqual({ updated: 1, removed: 1 });
+      expect(mirror.issues.map((i) => i.title)).toEqual(["Renamed"]);
+    });
+
+    it("should drop issues moved to another team and deleted labels", async () => {
+      await syncTeamMirror(fakeClient([rawIssue(1), rawIssue(2)]), "team-1", {
+        dir,
+      });
+      // Issue 2 moved away and the label was deleted: neither is returned
+      // in the team's scope any more
+      const client = fakeClient([rawIssue(1)], []);
+
+      const { mirror, changes } = await syncTeamMirror(client, "team-1", {
+        dir,
+      });
+
+      expect(client.request).toHaveBeenCalledWith(
+        expect.stringContaining("MirrorIssueIds"),
+        expect.objectContaining({ filter: { team: { id: { eq: "team-1" } } } }),
+      );
+      expect(changes.issues).toEqual({ updated: 1, removed: 1 });
+      expect(changes.labels).toEqual({ updated: 0, removed: 1 });
+      expect(mirror.issues.map((i) => i.id)).toEqual(["issue-1"]);
+      expect(mirror.labels).toEqual([]);
+      expect(mirror.labelNames(mirror.data.issues["issue-1"])).toEqual([]);
+      expect(TeamMirror.load("team-1", dir)?.issues).toHaveLength(1);
+    });
+
+    it("should ignore the cursors when asked for a full sync", async () => {
+      await syncTeamMirror(fakeClient([rawIssue(1)]), "team-1", { dir });
+      const client = fakeClient([rawIssue(2)]);
+
+      const { full, mirror } = await syncTeamMirror(client, "team-1", {
+        dir,
+        full: true,
+      });
+
+      expect(full).toBe(true);
+      expect(mirror.issues.map((i) => i.id)).toEqual(["issue-2"]);
+      expect(client.request).not.toHaveBeenCalledWith(
+        expect.stringContaining("MirrorIssueIds"),
+        expect.anything(),
+      );
+      expect(client.request).not.toHaveBeenCalledWith(
+        expect.anything(),
+        expect.objectContaining({
+          filter: expect.objectContaining({ updatedAt: expect.anything() }),
+        }),
+      );
+    });
+  });
+
+  describe("reading mirrors", () => {
+    it("should load a mirror by team id, key or name", async () => {
+      await syncTeamMirror(fakeClient([rawIssue(1)]), "team-1", { dir });
+
+      expect(TeamMirror.load("team-1", dir)?.team).toEqual(team);
+      expect(TeamMirror.load("eng", dir)?.team).toEqual(team);
+      expect(TeamMirror.load("Engineering", dir)?.team).toEqual(team);
+      expect(TeamMirror.load("design", dir)).toBeNull();
+      expect(listTeamMirrors(dir)).toHaveLength(1);
+    });
+
+    it("should refuse to read offline what was never mirrored", async () => {
+      await expect(
+        openTeamMirror(null, "ENG", { dir, offline: true }),
+      ).rejects.toThrow("No mirror of team ENG");
+    });
+
+    it("should only re-sync cached mirrors once they're stale", async () => {
+      const client = fakeClient([rawIssue(1)]);
+      const cache = new TeamMirrorCache(client, { dir, maxAgeMs: 60_000 });
+
+      const [first, second] = await Promise.all([
+        cache.get("team-1"),
+        cache.get("team-1"),
+      ]);
+      await cache.get("team-1");
+
+      expect(first).toBe(second);
+      const teamQueries = client.request.mock.calls.filter(([document]) =>
+        document.includes("MirrorTeam"),
+      );
+      expect(teamQueries).toHaveLength(1);
+    });
+
+    it("should page through mirrored records like Linear connections", async () => {
+      const fetcher = arrayPageFetcher(["a", "b", "c"]);
+
+      const page = await fetchPaginated(fetcher, { limit: 2 }, 50);
+      const rest = await fetchPaginated(
+        fetcher,
+        { after: page.pageInfo.endCursor!, fetchAll: true },
+        50,
+      );
+
+      expect(page.nodes).toEqual(["a", "b"]);
+      expect(page.pageInfo.hasNextPage).toBe(true);
+      expect(rest.nodes).toEqual(["c"]);
+      expect(rest.pageInfo.hasNextPage).toBe(false);
+    });
+  });
+
+  describe("readMirrorOptions", () => {
+    it("should be off unless LINEAR_MIRROR is true", () => {
+      expect(readMirrorOptions({}).enabled).toBe(false);
+      expect(
+        readMirrorOptions({
+          LINEAR_MIRROR: "true",
+          LINEAR_MIRROR_MAX_AGE_MS: "5000",
+        }),
+      ).toEqual(expect.objectContaining({ enabled: true, maxAgeMs: 5000 }));
+      expect(() =>
+        readMirrorOptions({ LINEAR_MIRROR_MAX_AGE_MS: "soon" }),
+      ).toThrow("LINEAR_MIRROR_MAX_AGE_MS");
+    });
+  });
+});
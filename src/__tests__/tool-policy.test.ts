@@ -0,0 +1,251 @@
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { z } from "zod";
+import { ToolDefinition, defineTool } from "../utils/mcp-tools";
+import {
+  ToolPolicy,
+  TeamScopedRef,
+  collectTeamScopedRefs,
+  loadToolPolicy,
+  matchesPattern,
+  permittedTools,
+  repoScopeViolation,
+  teamScopeViolation,
+  toolDenialReason,
+} from "../utils/tool-policy";
+
+const tool = (name: string, readOnly?: boolean): ToolDefinition =>
+  defineTool({
+    name,
+    description: name,
+    readOnly,
+    schema: z.object({}),
+    handler: async () => ({ content: [] }),
+  });
+
+const policy = (overrides: Partial<ToolPolicy> = {}): ToolPolicy => ({
+  readOnly: false,
+  deny: [],
+  ...overrides,
+});
+
+describe("tool-policy", () => {
+  describe("loadToolPolicy", () => {
+    let dir: string;
+
+    beforeEach(() => {
+      dir = fs.mkdtempSync(path.join(os.tmpdir(), "tool-policy-"));
+    });
+
+    afterEach(() => {
+      fs.rmSync(dir, { recursive: true, force: true });
+    });
+
+    const writePolicy = (policyFile: unknown) => {
+      const filePath = path.join(dir, "policy.json");
+      fs.writeFileSync(filePath, JSON.stringify(policyFile));
+      return filePath;
+    };
+
+    it("should permit everything without configuration", () => {
+      expect(loadToolPolicy("linear-admin", {})).toEqual({
+        readOnly: false,
+        allow: undefined,
+        deny: [],
+        teams: undefined,
+        repos: undefined,
+      });
+    });
+
+    it("should merge the file's server section and the environment", () => {
+      const filePath = writePolicy({
+        deny: ["delete_*"],
+        teams: ["ENG"],
+        servers: {
+          "github-admin": {
+            readOnly: true,
+            deny: ["merge_pr"],
+            repos: ["acme/*"],
+          },
+        },
+      });
+
+      expect(
+        loadToolPolicy("github-admin", {
+          MCP_POLICY_FILE: filePath,
+          MCP_DENY_TOOLS: "create_release, trigger_workflow",
+          MCP_ALLOWED_REPOS: "acme/web",
+        }),
+      ).toEqual({
+        readOnly: true,
+        allow: undefined,
+        deny: ["delete_*", "merge_pr", "create_release", "trigger_workflow"],
+        teams: ["ENG"],
+        repos: ["acme/web"],
+      });
+      expect(
+        loadToolPolicy("github-admin", {
+          MCP_POLICY_FILE: filePath,
+          MCP_READ_ONLY: "false",
+        }).readOnly,
+      ).toBe(false);
+    });
+
+    it("should reject an invalid policy file", () => {
+      const filePath = writePolicy({ readOnly: "yes", deyn: [] });
+
+      expect(() =>
+        loadToolPolicy("linear-admin", { MCP_POLICY_FILE: filePath }),
+      ).toThrow(/Invalid MCP policy file .*readOnly: Expected boolean/);
+    });
+  });
+
+  describe("matchesPattern", () => {
+    it("should match wildcards case-insensitively", () => {
+      expect(matchesPattern("get_team_issues", "get_*")).toBe(true);
+      expect(matchesPattern("Acme/Web", "acme/*")).toBe(true);
+      expect(matchesPattern("acme.io/web", "acme/*")).toBe(false);
+      expect(matchesPattern("merge_pr", "merge_prs")).toBe(false);
+    });
+  });
+
+  describe("toolDenialReason", () => {
+    it("should apply read-only mode, the deny list and the allow list", () => {
+      const tools = [
+        tool("list_repos", true),
+        tool("get_pr_details", true),
+        tool("merge_pr"),
+        tool("approve_pr"),
+      ];
+
+      expect(
+        permittedTools(tools, policy({ readOnly: true })).map((t) => t.name),
+      ).toEqual(["list_repos", "get_pr_details"]);
+      expect(
+        permittedTools(
+          tools,
+          policy({ allow: ["*_pr*", "list_*"], deny: ["merge_*"] }),
+        ).map((t) => t.name),
+      ).toEqual(["list_repos", "get_pr_details", "approve_pr"]);
+      expect(toolDenialReason(policy({ deny: ["merge_pr"] }), tools[2])).toBe(
+        "it is on the deny list",
+      );
+    });
+  });
+
+  describe("repoScopeViolation", () => {
+    const scoped = policy({ repos: ["acme/*"] });
+
+    it("should check the named repository", () => {
+      expect(
+        repoScopeViolation(scoped, tool("merge_pr"), {
+          owner: "acme",
+          repo: "web",
+        }),
+      ).toBeNull();
+      expect(
+        repoScopeViolation(scoped, tool("merge_pr"), {
+          owner: "other",
+          repo: "web",
+        }),
+      ).toBe("repository other/web is outside the allowed repos (acme/*)");
+    });
+
+    it("should refuse write tools that don't name a repository", () => {
+      expect(repoScopeViolation(scoped, tool("list_repos", true), {})).toBe(
+        null,
+      );
+      expect(
+        repoScopeViolation(scoped, tool("create_repo"), { name: "x" }),
+      ).toContain("does not name a repository");
+    });
+  });
+
+  describe("collectTeamScopedRefs", () => {
+    it("should collect nested and repeated references once", () => {
+      expect(
+        collectTeamScopedRefs({
+          teamId: "t-1",
+          filter: { teamId: "t-1", projectId: "p-1" },
+          issueIds: ["ENG-1", "ENG-2"],
+          issues: [{ title: "A", parentId: "ENG-3" }, { parentIndex: 0 }],
+        }),
+      ).toEqual([
+        { kind: "team", id: "t-1" },
+        { kind: "project", id: "p-1" },
+        { kind: "issue", id: "ENG-1" },
+        { kind: "issue", id: "ENG-2" },
+        { kind: "issue", id: "ENG-3" },
+      ]);
+    });
+  });
+
+  describe("teamScopeViolation", () => {
+    const teams: Record<string, { id: string; key: string }[]> = {
+      "team:t-eng": [{ id: "t-eng", key: "ENG" }],
+      "issue:OPS-4": [{ id: "t-ops", key: "OPS" }],
+      "project:p-shared": [
+        { id: "t-ops", key: "OPS" },
+        { id: "t-eng", key: "ENG" },
+      ],
+    };
+    const resolveTeams = async (ref: TeamScopedRef) => {
+      const found = teams[`${ref.kind}:${ref.id}`];
+      if (!found) throw new Error("Entity not found");
+      return found;
+    };
+    const scoped = policy({ teams: ["eng"] });
+
+    it("should allow objects with at least one allowed team", async () => {
+      await expect(
+        teamScopeViolation(
+          scoped,
+          tool("create_linear_issue"),
+          { teamId: "t-eng", projectId: "p-shared" },
+          resolveTeams,
+        ),
+      ).resolves.toBeNull();
+    });
+
+    it("should refuse objects of other teams", async () => {
+      await expect(
+        teamScopeViolation(
+          scoped,
+          tool("close_issue"),
+          { issueId: "OPS-4" },
+          resolveTeams,
+        ),
+      ).resolves.toBe(
+        "issue OPS-4 (team OPS) is outside the allowed teams (eng)",
+      );
+      await expect(
+        teamScopeViolation(
+          scoped,
+          tool("close_issue"),
+          { issueId: "ENG-404" },
+          resolveTeams,
+        ),
+      ).resolves.toContain("could not check the team of issue ENG-404");
+    });
+
+    it("should refuse write tools that don't name a team", async () => {
+      await expect(
+        teamScopeViolation(
+          scoped,
+          tool("list_linear_teams", true),
+          {},
+          resolveTeams,
+        ),
+      ).resolves.toBeNull();
+      await expect(
+        teamScopeViolation(
+          scoped,
+          tool("undo_last_changes"),
+          { last: 1 },
+          resolveTeams,
+        ),
+      ).resolves.toContain("does not name a team");
+    });
+  });
+});
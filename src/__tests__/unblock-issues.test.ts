@@ -0,0 +1,195 @@
+import { LinearClient } from "@linear/sdk";
+import {
+  advanceIssuesBlockedBy,
+  advanceUnblockedBacklog,
+  createUnblockHandler,
+  isCompletion,
+} from "../utils/unblock-issues";
+import { LinearWebhookPayload } from "../utils/linear-webhooks";
+
+const states = [
+  { id: "s-backlog", name: "Backlog", type: "backlog", position: 0 },
+  { id: "s-todo", name: "Todo", type: "unstarted", position: 1 },
+  { id: "s-done", name: "Done", type: "completed", position: 2 },
+];
+
+function issue(n: number, state: string, blockedBy: any[] = []) {
+  const { name, type } = states.find((s) => s.name === state)!;
+  return {
+    id: `issue-${n}`,
+    identifier: `ENG-${n}`,
+    number: n,
+    title: `Issue ${n}`,
+    url: `https://linear.app/eng/issue/ENG-${n}`,
+    state: { name, type },
+    labels: { nodes: [] },
+    relations: {
+      nodes: blockedBy.map((relatedIssue) => ({
+        type: "blocks",
+        relatedIssue,
+      })),
+    },
+  };
+}
+
+// ENG-1 (done) blocks ENG-2 and ENG-3; ENG-3 is also blocked by ENG-4,
+// and ENG-5 is already in Todo
+const done = issue(1, "Done");
+const open = issue(4, "Todo");
+const unblocked = issue(2, "Backlog", [done]);
+const stillBlocked = issue(3, "Backlog", [done, open]);
+const started = issue(5, "Todo", [done]);
+
+function fakeLinear(members = [{ id: "user-1", name: "Cursor Agent" }]) {
+  const request = jest.fn(async (document: string): Promise<any> => {
+    if (document.includes("IssuesBlockedBy")) {
+      return {
+        issue: {
+          ...done,
+          inverseRelations: {
+            nodes: [unblocked, stillBlocked, started].map((i) => ({
+              type: "blocks",
+              issue: i,
+            })),
+          },
+        },
+      };
+    }
+    return {
+      issues: {
+        nodes: [unblocked, stillBlocked, issue(6, "Backlog")],
+        pageInfo: { hasNextPage: false, endCursor: null },
+      },
+    };
+  });
+  const team = {
+    id: "team-1",
+    states: async () => ({ nodes: states }),
+    members: async () => ({ nodes: members }),
+  };
+  const linear = {
+    client: { request },
+    issue: jest.fn(async (id: string) => ({
+      id,
+      identifier: id.replace("issue-", "ENG-"),
+      team: Promise.resolve(team),
+      state: Promise.resolve(states[0]),
+    })),
+    team: jest.fn(async () => team),
+    updateIssue: jest.fn(async () => ({ success: true })),
+    createComment: jest.fn(async () => ({ success: true })),
+  };
+  return { linear, client: linear as unknown as LinearClient };
+}
+
+describe("unblock-issues", () => {
+  describe("advanceIssuesBlockedBy", () => {
+    it("should move issues with no other blockers from Backlog to Todo", async () => {
+      const { linear, client } = fakeLinear();
+
+      const { blocker, results } = await advanceIssuesBlockedBy(
+        client,
+        "ENG-1",
+      );
+
+      expect(blocker.identifier).toBe("ENG-1");
+      expect(
+        results.map((r) => [r.issue.identifier, r.advanced, r.reason]),
+      ).toEqual([
+        ["ENG-2", true, undefined],
+        ["ENG-3", false, "still blocked by ENG-4"],
+        ["ENG-5", false, "not in Backlog (Todo)"],
+      ]);
+      expect(linear.updateIssue).toHaveBeenCalledTimes(1);
+      expect(linear.updateIssue).toHaveBeenCalledWith("issue-2", {
+        stateId: "s-todo",
+      });
+      expect(linear.createComment).toHaveBeenCalledWith({
+        issueId: "issue-2",
+        body: "🔓 **Unblocked** - moved from Backlog to Todo because its blocker is completed:\n\n- [ENG-1](https://linear.app/eng/issue/ENG-1) Issue 1",
+      });
+    });
+
+    it("should assign advanced issues to the Cursor agent", async () => {
+      const { linear, client } = fakeLinear([
+        { id: "user-1", name: "Dana" },
+        { id: "user-2", name: "Cursor Agent" },
+      ]);
+
+      const { results } = await advanceIssuesBlockedBy(client, "ENG-1", {
+        assignAgent: true,
+      });
+
+      expect(results[0].assignedTo).toBe("Cursor Agent");
+      expect(linear.updateIssue).toHaveBeenLastCalledWith("issue-2", {
+        assigneeId: "user-2",
+      });
+    });
+
+    it("should change nothing in a dry run", async () => {
+      const { linear, client } = fakeLinear();
+
+      const { results } = await advanceIssuesBlockedBy(client, "ENG-1", {
+        dryRun: true,
+      });
+
+      expect(results[0].advanced).toBe(true);
+      expect(linear.updateIssue).not.toHaveBeenCalled();
+      expect(linear.createComment).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("advanceUnblockedBacklog", () => {
+    it("should only consider Backlog issues that have blockers", async () => {
+      const { linear, client } = fakeLinear();
+
+      const results = await advanceUnblockedBacklog(client, "team-1");
+
+      expect(linear.client.request).toHaveBeenCalledWith(
+        expect.stringContaining("IssuesWithRelations"),
+        expect.objectContaining({
+          filter: {
+            team: { id: { eq: "team-1" } },
+            state: { type: { eq: "backlog" } },
+          },
+        }),
+      );
+      expect(results.map((r) => [r.issue.identifier, r.advanced])).toEqual([
+        ["ENG-2", true],
+        ["ENG-3", false],
+      ]);
+    });
+  });
+
+  describe("createUnblockHandler", () => {
+    const completion: LinearWebhookPayload = {
+      action: "update",
+      type: "Issue",
+      data: { id: "issue-1", stateId: "s-done", state: states[2] },
+      updatedFrom: { stateId: "s-todo" },
+    };
+
+    it("should only react to issues moving into a completed state", () => {
+      expect(isCompletion(completion)).toBe(true);
+      expect(isCompletion({ ...completion, updatedFrom: { title: "x" } })).toBe(
+        false,
+      );
+      expect(isCompletion({ ...completion, action: "create" })).toBe(false);
+    });
+
+    it("should advance the issues a completed issue blocks", async () => {
+      const { linear, client } = fakeLinear();
+      const consoleLog = jest
+        .spyOn(console, "log")
+        .mockImplementation(() => {});
+
+      await createUnblockHandler(client)(completion);
+
+      expect(linear.updateIssue).toHaveBeenCalledWith("issue-2", {
+        stateId: "s-todo",
+      });
+      expect(consoleLog).toHaveBeenCalledWith("🔓 ENG-2 unblocked by ENG-1");
+      consoleLog.mockRestore();
+    });
+  });
+});
@@ -0,0 +1,149 @@
+import { IssueWithRelations } from "../modules/DependencyResolver";
+import { computeWorkOrder } from "../utils/work-order";
+
+function issue(
+  number: number,
+  estimate: number | null,
+  blockers: IssueWithRelations[] = [],
+  overrides: Partial<IssueWithRelations> = {},
+): IssueWithRelations {
+  return {
+    id: `issue-${number}`,
+    identifier: `ENG-${number}`,
+    number,
+    title: `Issue ${number}`,
+    priority: 3,
+    estimate,
+    url: `https://linear.app/test/issue/ENG-${number}`,
+    state: { name: "Todo", type: "unstarted" },
+    labels: [],
+    relations: blockers.map((blocker) => ({
+      type: "blocks",
+      relatedIssue: blocker,
+    })),
+    ...overrides,
+  };
+}
+
+describe("computeWorkOrder", () => {
+  // setup(1) → schema(3) → api(2)
+  //          ↘ design(1) → ui(1)
+  const setup = issue(1, 1);
+  const schema = issue(2, 3, [setup]);
+  const api = issue(3, 2, [schema]);
+  const design = issue(4, 1, [setup]);
+  const ui = issue(5, 1, [design]);
+  const all = [ui, api, design, schema, setup];
+
+  it("should order blockers before the issues they block", () => {
+    const { order } = computeWorkOrder(all);
+    const position = (i: IssueWithRelations) =>
+      order.findIndex((item) => item.id === i.id);
+
+    expect(order).toHaveLength(5);
+    expect(position(setup)).toBe(0);
+    expect(position(schema)).toBeLessThan(position(api));
+    expect(position(design)).toBeLessThan(position(ui));
+  });
+
+  it("should find the critical path from estimates", () => {
+    const result = computeWorkOrder(all);
+
+    expect(result.criticalPath).toEqual({
+      issues: [setup.id, schema.id, api.id],
+      length: 6,
+    });
+    const uiItem = result.order.find((item) => item.id === ui.id)!;
+    expect(uiItem.critical).toBe(false);
+    expect(uiItem.earliestStart).toBe(2);
+    expect(uiItem.slack).toBe(3);
+  });
+
+  it("should split parallel work into lanes that start as early as possible", () => {
+    const { lanes, scheduledFinish } = computeWorkOrder(all);
+
+    expect(lanes).toHaveLength(2);
+    expect(lanes[0].issues.map((i) => i.identifier)).toEqual([
+      "ENG-1",
+      "ENG-2",
+      "ENG-3",
+    ]);
+    expect(lanes[1].issues).toEqual([
+      expect.objectContaining({ identifier: "ENG-4", start: 1, finish: 2 }),
+      expect.objectContaining({ identifier: "ENG-5", start: 2, finish: 3 }),
+    ]);
+    expect(scheduledFinish).toBe(6);
+  });
+
+  it("should delay work when lanes are capped", () => {
+    const result = computeWorkOrder(all, { maxLanes: 1 });
+
+    expect(result.lanes).toHaveLength(1);
+    expect(result.scheduledFinish).toBe(8);
+    expect(result.criticalPath.length).toBe(6);
+  });
+
+  it("should use the default estimate for unestimated issues", () => {
+    const a = issue(1, null);
+    const b = issue(2, null, [a]);
+
+    const result = computeWorkOrder([a, b], { defaultEstimate: 2 });
+
+    expect(result.criticalPath.length).toBe(4);
+    expect(result.unestimated).toEqual([a.id, b.id]);
+  });
+
+  it("should break ties by priority, then issue number", () => {
+    const low = issue(1, 1, [], { priority: 4 });
+    const none = issue(2, 1, [], { priority: 0 });
+    const urgent = issue(3, 1, [], { priority: 1 });
+
+    const { order } = computeWorkOrder([low, none, urgent]);
+
+    expect(order.map((item) => item.identifier)).toEqual([
+      "ENG-3",
+      "ENG-1",
+      "ENG-2",
+    ]);
+  });
+
+  it("should skip closed issues and report open blockers outside the set", () => {
+    const done = issue(1, 1, [], {
+      state: { name: "Done", type: "completed" },
+    });
+    const elsewhere = issue(9, 1, [], {
+      state: { name: "In Progress", type: "started" },
+    });
+    const blocked = issue(2, 1, [done, elsewhere]);
+
+    const result = computeWorkOrder([done, blocked]);
+
+    expect(result.order.map((item) => item.id)).toEqual([blocked.id]);
+    expect(result.externalBlockers).toEqual([
+      expect.objectContaining({
+        identifier: "ENG-2",
+        blocker: expect.objectContaining({ identifier: "ENG-9" }),
+      }),
+    ]);
+  });
+
+  it("should report cycles and still order every issue", () => {
+    const a = issue(1, 1);
+    const b = issue(2, 1, [a]);
+    a.relations.push({ type: "blocks", relatedIssue: b });
+
+    const result = computeWorkOrder([a, b]);
+
+    expect(result.cycles).toHaveLength(1);
+    expect(result.cycles[0].kind).toBe("cycle");
+    expect(result.order).toHaveLength(2);
+  });
+
+  it("should handle an empty project", () => {
+    const result = computeWorkOrder([]);
+
+    expect(result.order).toEqual([]);
+    expect(result.lanes).toEqual([]);
+    expect(result.criticalPath).toEqual({ issues: [], length: 0 });
+  });
+});
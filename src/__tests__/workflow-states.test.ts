@@ -0,0 +1,103 @@
+import { LinearClient } from "@linear/sdk";
+import {
+  WorkflowStateLike,
+  moveIssueToState,
+  resolveWorkflowState,
+} from "../utils/workflow-states";
+
+const states: WorkflowStateLike[] = [
+  { id: "s-done", name: "Done", type: "completed", position: 5 },
+  { id: "s-review", name: "In Review", type: "started", position: 3 },
+  { id: "s-progress", name: "In Progress", type: "started", position: 2 },
+  { id: "s-todo", name: "Todo", type: "unstarted", position: 1 },
+  { id: "s-backlog", name: "Backlog", type: "backlog", position: 0 },
+  { id: "s-canceled", name: "Canceled", type: "canceled", position: 6 },
+];
+
+describe("resolveWorkflowState", () => {
+  it("should match names regardless of case and spacing", () => {
+    expect(resolveWorkflowState(states, "In Review").id).toBe("s-review");
+    expect(resolveWorkflowState(states, "in review").id).toBe("s-review");
+    expect(resolveWorkflowState(states, "inProgress").id).toBe("s-progress");
+  });
+
+  it("should resolve a type to the first state of that type", () => {
+    expect(resolveWorkflowState(states, "started").id).toBe("s-progress");
+    expect(resolveWorkflowState(states, "completed").id).toBe("s-done");
+  });
+
+  it("should resolve common aliases", () => {
+    expect(resolveWorkflowState(states, "cancelled").id).toBe("s-canceled");
+  });
+
+  it("should prefer a state name over a type", () => {
+    const custom = [
+      ...states,
+      { id: "s-started", name: "Started", type: "started", position: 4 },
+    ];
+
+    expect(resolveWorkflowState(custom, "started").id).toBe("s-started");
+  });
+
+  it("should refuse states that aren't in the workflow", () => {
+    expect(() => resolveWorkflowState(states, "QA")).toThrow(
+      'Unknown workflow state "QA". Available states: Backlog (backlog), Todo (unstarted), In Progress (started)',
+    );
+    expect(() => resolveWorkflowState(states.slice(0, 1), "triage")).toThrow(
+      "Unknown workflow state",
+    );
+  });
+});
+
+describe("moveIssueToState", () => {
+  function fakeLinear(currentStateId: string) {
+    const updateIssue = jest.fn().mockResolvedValue({ success: true });
+    const team = { states: async () => ({ nodes: states }) };
+    const issue = {
+      id: "issue-1",
+      identifier: "ENG-1",
+      team: Promise.resolve(team),
+      state: Promise.resolve(states.find((s) => s.id === currentStateId)),
+    };
+    const linear = {
+      issue: async () => issue,
+      updateIssue,
+    } as unknown as LinearClient;
+    return { linear, updateIssue };
+  }
+
+  it("should move the issue and report before and after", async () => {
+    const { linear, updateIssue } = fakeLinear("s-todo");
+
+    const transition = await moveIssueToState(linear, "ENG-1", "In Review");
+
+    expect(updateIssue).toHaveBeenCalledWith("issue-1", {
+      stateId: "s-review",
+    });
+    expect(transition).toEqual({
+      issueId: "issue-1",
+      identifier: "ENG-1",
+      before: { id: "s-todo", name: "Todo", type: "unstarted" },
+      after: { id: "s-review", name: "In Review", type: "started" },
+      changed: true,
+    });
+  });
+
+  it("should not update an issue already in the target state", async () => {
+    const { linear, updateIssue } = fakeLinear("s-progress");
+
+    const transition = await moveIssueToState(linear, "ENG-1", "started");
+
+    expect(updateIssue).not.toHaveBeenCalled();
+    expect(transition.changed).toBe(false);
+  });
+
+  it("should not update the issue when the state doesn't exist", async () => {
+    const { linear, updateIssue } = fakeLinear("s-todo");
+
+    await expect(moveIssueToState(linear, "ENG-1", "Shipped")).rejects.toThrow(
+      "Unknown workflow state",
+    );
+    expect(updateIssue).not.toHaveBeenCalled();
+  });
+});
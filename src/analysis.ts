@@ -4,8 +4,9 @@ import * as fs from "fs";
 import * as path from "path";
 import * as dotenv from "dotenv";
 import inquirer from "inquirer";
-import axios from "axios";
 import { TeamManager } from "./team-management";
+import { createLinearClient, resilientAxios } from "./utils/resilient-client";
+import { DuplicateGuard } from "./utils/duplicate-issues";
 
 // Load environment variables
 dotenv.config();
@@ -28,6 +29,12 @@ if (!OPENAI_KEY && !ANTHROPIC_KEY) {
 
 const sleep = (ms: number) => new Promise((r) => setTimeout(r, ms));
 
+// AI and Linear requests are retried and rate limited by the shared client,
+// and HTTP_FIXTURES can record and replay them
+const openAiApi = resilientAxios();
+const anthropicApi = resilientAxios();
+const linearApi = resilientAxios();
+
 function extractJsonArrayFromText(text: string) {
   // Strip markdown code fences if present
   const fenced = text.match(/```(?:json)?\n([\s\S]*?)\n```/i);
@@ -189,7 +196,7 @@ Respond in pure JSON array format with all issues found. Each issue should be co
 `;
 
   try {
-    const res = await axios.post(
+    const res = await openAiApi.post(
       "https://api.openai.com/v1/chat/completions",
       {
         model: "gpt-4o-mini",
@@ -320,7 +327,7 @@ interface FeatureComponent {
 
 class CodebaseAnalyzer {
   private targetPath: string;
-  private analysisResult: AnalysisResult;
+  readonly analysisResult: AnalysisResult;
   private mode: AnalysisMode;
   private depth: AnalysisDepth;
 
@@ -1273,7 +1280,7 @@ Format your response as a structured analysis focusing on real, actionable issue
     for (const model of models) {
       try {
         console.log(`🧠 Trying OpenAI model: ${model}`);
-        const response = await axios.post(
+        const response = await openAiApi.post(
           "https://api.openai.com/v1/chat/completions",
           {
             model: model,
@@ -1337,7 +1344,7 @@ Format your response as a structured analysis focusing on real, actionable issue
     for (const model of models) {
       try {
         console.log(`🧠 Trying Claude model: ${model}`);
-        const response = await axios.post(
+        const response = await anthropicApi.post(
           "https://api.anthropic.com/v1/messages",
           {
             model: model,
@@ -1671,7 +1678,7 @@ Format your response as a structured analysis focusing on real, actionable issue
         dependencies.push(
           ...importMatches
             .map((match) => match.match(/['"]([^'"]+)['"]/)?.[1])
-            .filter(Boolean)
+            .filter((dependency): dependency is string => Boolean(dependency))
         );
       }
 
@@ -1692,7 +1699,7 @@ Format your response as a structured analysis focusing on real, actionable issue
         issues,
         dependencies,
       };
-    } catch (error) {
+    } catch (error: any) {
       return {
         name: componentName,
         type: "component",
@@ -3083,7 +3090,7 @@ async function fetchLinearLabels(
   teamId: string
 ): Promise<Array<{ id: string; name: string }>> {
   try {
-    const res = await axios.post(
+    const res = await linearApi.post(
       "https://api.linear.app/graphql",
       {
         query: `query($id: String!) { team(id: $id) { labels { nodes { id name } } } }`,
@@ -3203,7 +3210,7 @@ async function createLinearLabel(
 ): Promise<string | null> {
   try {
     const color = getLabelColor(name);
-    const res = await axios.post(
+    const res = await linearApi.post(
       "https://api.linear.app/graphql",
       {
         query: `mutation($input: IssueLabelCreateInput!) { issueLabelCreate(input: $input) { issueLabel { id name } } }`,
@@ -3354,7 +3361,7 @@ async function createProjects(
       console.log(`  📋 Creating project: ${projectData.name}`);
 
       // Create project
-      const projectRes = await axios.post(
+      const projectRes = await linearApi.post(
         "https://api.linear.app/graphql",
         {
           query: `
@@ -3396,7 +3403,7 @@ async function createProjects(
           try {
             console.log(`    🎯 Creating milestone: ${milestoneData.name}`);
 
-            const milestoneRes = await axios.post(
+            const milestoneRes = await linearApi.post(
               "https://api.linear.app/graphql",
               {
                 query: `
@@ -3459,18 +3466,30 @@ async function createProjects(
   return createdProjects;
 }
 
+type CreatedIssue = {
+  id: string;
+  identifier: string;
+  title: string;
+  url: string;
+};
+
 async function createDetailedLinearIssues(
   issues: any[],
   teamId: string,
   projectName: string,
   analysisMode: AnalysisMode
-) {
+): Promise<CreatedIssue[]> {
   console.log("📬 Creating detailed issues in Linear...");
   const labels = await fetchLinearLabels(teamId);
   const createdLabelsCache = new Map<string, string>();
+  const createdIssues: CreatedIssue[] = [];
 
   // Create projects and milestones first
   const projects = await createProjects(teamId, projectName);
+  const duplicates = await DuplicateGuard.load(
+    createLinearClient(LINEAR_KEY).client,
+    teamId
+  );
 
   let processedCount = 0;
 
@@ -3493,6 +3512,12 @@ async function createDetailedLinearIssues(
         continue;
       }
 
+      const duplicateCheck = await duplicates.beforeCreate({
+        title,
+        description,
+      });
+      if (!duplicateCheck.create) continue;
+
       // Infer labels for the issue
       const categories = inferCategories(title, description);
       const labelIds: string[] = [];
@@ -3602,7 +3627,7 @@ async function createDetailedLinearIssues(
         const project = projects.find((p) => p.id === projectId);
         if (project && project.milestones && project.milestones.length > 0) {
           milestoneNote = `\n\n## 📋 Milestone Assignment\nThis issue should be manually assigned to the appropriate milestone in the **${project.name}** project:\n\n`;
-          project.milestones.forEach((milestone) => {
+          project.milestones.forEach((milestone: any) => {
             milestoneNote += `- **${milestone.name}**: ${milestone.description}\n`;
           });
           milestoneNote += `\n**To assign**: Select this issue and use \`Shift+M\`, or drag it onto the milestone in the project details pane.`;
@@ -3618,12 +3643,15 @@ async function createDetailedLinearIssues(
       const finalDescription = parts.join("\n\n");
 
       console.log(`    📤 Creating Linear issue: "${title}"...`);
-      const res = await axios.post(
+      const res = await linearApi.post(
         "https://api.linear.app/graphql",
         {
           query: `
             mutation($input: IssueCreateInput!) {
-              issueCreate(input: $input) { success issue { id title } }
+              issueCreate(input: $input) {
+                success
+                issue { id identifier title url }
+              }
             }
           `,
           variables: {
@@ -3651,6 +3679,12 @@ async function createDetailedLinearIssues(
 
       if (created && issueId) {
         console.log(`  ✅ Created issue: ${created}`);
+        createdIssues.push(res.data.data.issueCreate.issue);
+        await duplicates.afterCreate(
+          res.data.data.issueCreate.issue,
+          { title, description },
+          duplicateCheck
+        );
       } else {
         const errors = res.data?.errors || res.data?.data?.issueCreate?.errors;
         if (errors) {
@@ -3677,6 +3711,7 @@ async function createDetailedLinearIssues(
   }
 
   console.log("✅ All detailed issues processed");
+  return createdIssues;
 }
 
 async function createIssuesInLinear(
@@ -3729,7 +3764,7 @@ async function saveIssuesToFile(issues: any[], projectName: string) {
         console.log(`  ${index + 1}. ${title} (${priority})`);
       });
     }
-  } catch (error) {
+  } catch (error: any) {
     console.error("❌ Failed to save issues:", error.message);
   }
 }
@@ -4042,23 +4077,25 @@ async function main() {
         console.log(selectedIssue.Description);
 
         console.log(`\n📋 Requirements:`);
-        selectedIssue.Requirements.forEach((req, i) => {
+        selectedIssue.Requirements.forEach((req: string, i: number) => {
           console.log(`${i + 1}. ${req}`);
         });
 
         console.log(`\n📋 Acceptance Criteria:`);
-        selectedIssue.Acceptance_Criteria.forEach((criteria, i) => {
-          console.log(`${i + 1}. ${criteria}`);
-        });
+        selectedIssue.Acceptance_Criteria.forEach(
+          (criteria: string, i: number) => {
+            console.log(`${i + 1}. ${criteria}`);
+          }
+        );
 
         console.log(`\n📋 Technical Notes:`);
-        selectedIssue.Technical_Notes.forEach((note, i) => {
+        selectedIssue.Technical_Notes.forEach((note: string, i: number) => {
           console.log(`${i + 1}. ${note}`);
         });
 
         if (selectedIssue.files && selectedIssue.files.length > 0) {
           console.log(`\n📁 Files:`);
-          selectedIssue.files.forEach((file, i) => {
+          selectedIssue.files.forEach((file: string, i: number) => {
             console.log(`${i + 1}. ${file}`);
           });
         }
@@ -4071,7 +4108,7 @@ async function main() {
 
         if (selectedIssue.files && selectedIssue.files.length > 0) {
           console.log(`\n📁 Files:`);
-          selectedIssue.files.forEach((file, i) => {
+          selectedIssue.files.forEach((file: string, i: number) => {
             console.log(`${i + 1}. ${file}`);
           });
         }
@@ -4123,7 +4160,7 @@ async function main() {
     } else if (action === "save") {
       await saveIssuesToFile(issues, analyzer.analysisResult.projectName);
     }
-  } catch (error) {
+  } catch (error: any) {
     console.error("❌ Analysis failed:", error.message);
     process.exit(1);
   }
@@ -4133,4 +4170,10 @@ if (require.main === module) {
   main();
 }
 
-export { CodebaseAnalyzer, AnalysisResult, IssueInfo };
+export {
+  CodebaseAnalyzer,
+  AnalysisResult,
+  IssueInfo,
+  generateDetailedIssuesFromAnalysis,
+  createDetailedLinearIssues,
+};
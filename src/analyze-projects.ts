@@ -1,23 +1,41 @@
 import { LinearClient } from "@linear/sdk";
 import inquirer from "inquirer";
 import * as dotenv from "dotenv";
+import { listTeamMirrors, openTeamMirror } from "./utils/team-mirror";
 
 dotenv.config();
 
+// --mirror reads a freshly synced local mirror, --offline the mirror as is
+const OFFLINE = process.argv.includes("--offline");
+const USE_MIRROR = OFFLINE || process.argv.includes("--mirror");
+
+interface AnalyzedIssue {
+  title: string;
+}
+
+interface ProjectSummary {
+  id: string;
+  name: string;
+  count: number;
+  sample: string[];
+}
+
 async function main() {
-  if (!process.env.LINEAR_API_KEY) {
+  if (!process.env.LINEAR_API_KEY && !OFFLINE) {
     throw new Error("LINEAR_API_KEY is required");
   }
   const linear = new LinearClient({ apiKey: process.env.LINEAR_API_KEY });
 
   // Pick team
-  const teams = await linear.teams();
+  const teams = OFFLINE
+    ? listTeamMirrors().map((mirror) => mirror.team)
+    : (await linear.teams()).nodes;
   const { teamId, useAI } = await inquirer.prompt([
     {
       type: "list",
       name: "teamId",
       message: "Select team to analyze:",
-      choices: teams.nodes.map((t) => ({
+      choices: teams.map((t) => ({
         name: `${t.name} (${t.key})`,
         value: t.id,
       })),
@@ -30,30 +48,13 @@ async function main() {
     },
   ]);
 
-  const team = await linear.team(teamId);
-  const projects = await team.projects();
+  const { teamName, projectSummaries, orphan } = USE_MIRROR
+    ? await loadFromMirror(linear, teamId)
+    : await loadFromApi(linear, teamId);
 
-  console.log(`\n📊 Team: ${team.name}`);
+  console.log(`\n📊 Team: ${teamName}`);
 
   // List projects with issue counts
-  const projectSummaries: Array<{
-    id: string;
-    name: string;
-    count: number;
-    sample: string[];
-  }> = [];
-  for (const p of projects.nodes) {
-    const issues = await linear.issues({
-      filter: { project: { id: { eq: p.id } } },
-      first: 100,
-    });
-    projectSummaries.push({
-      id: p.id,
-      name: p.name,
-      count: issues.nodes.length,
-      sample: issues.nodes.slice(0, 5).map((i: any) => i.title),
-    });
-  }
   if (projectSummaries.length === 0) console.log("(no projects)");
   for (const s of projectSummaries) {
     console.log(`- ${s.name}: ${s.count} issue(s)`);
@@ -61,10 +62,6 @@ async function main() {
   }
 
   // Orphan issues (no project)
-  const orphan = await linear.issues({
-    filter: { team: { id: { eq: teamId } }, project: { null: true } },
-    first: 200,
-  });
   console.log(`\n🧭 Orphan issues (no project): ${orphan.nodes.length}`);
   if (orphan.nodes.length) {
     console.log("  • First few:");
@@ -114,6 +111,53 @@ async function main() {
   );
 }
 
+async function loadFromApi(linear: LinearClient, teamId: string) {
+  const team = await linear.team(teamId);
+  const projects = await team.projects();
+
+  const projectSummaries: ProjectSummary[] = [];
+  for (const p of projects.nodes) {
+    const issues = await linear.issues({
+      filter: { project: { id: { eq: p.id } } },
+      first: 100,
+    });
+    projectSummaries.push({
+      id: p.id,
+      name: p.name,
+      count: issues.nodes.length,
+      sample: issues.nodes.slice(0, 5).map((i: any) => i.title),
+    });
+  }
+
+  const orphan = await linear.issues({
+    filter: { team: { id: { eq: teamId } }, project: { null: true } },
+    first: 200,
+  });
+  return { teamName: team.name, projectSummaries, orphan };
+}
+
+/**
+ * Same summaries from the local team mirror, without a request per project
+ */
+async function loadFromMirror(linear: LinearClient, teamId: string) {
+  const mirror = await openTeamMirror(OFFLINE ? null : linear.client, teamId);
+  console.log(`🪞 Using the local team mirror (synced ${mirror.data.syncedAt})`);
+
+  const projectSummaries = mirror.projects.map((p): ProjectSummary => {
+    const issues = mirror.projectIssues(p.id);
+    return {
+      id: p.id,
+      name: p.name,
+      count: issues.length,
+      sample: issues.slice(0, 5).map((i) => i.title),
+    };
+  });
+  const orphan: { nodes: AnalyzedIssue[] } = {
+    nodes: mirror.projectIssues(null),
+  };
+  return { teamName: mirror.team.name, projectSummaries, orphan };
+}
+
 function orderByRules(titles: string[]): string[] {
   const precedence: Array<[string, string[]]> = [
     ["Setup Development Environment", []],
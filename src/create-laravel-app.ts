@@ -1,18 +1,16 @@
 #!/usr/bin/env tsx
 
 import { config } from "dotenv";
-import { LinearClient } from "@linear/sdk";
 import LaravelForgeAppCreator from "./laravel-forge-app-creator";
+import { createLinearClient } from "./utils/resilient-client";
 
 // Load environment variables
 config();
 
 async function main() {
   try {
-    // Initialize Linear client
-    const linear = new LinearClient({
-      apiKey: process.env.LINEAR_API_KEY,
-    });
+    // Initialize Linear client (retries and rate limits are handled here)
+    const linear = createLinearClient(process.env.LINEAR_API_KEY);
 
     // Create Laravel Forge app creator instance
     const appCreator = new LaravelForgeAppCreator(linear);
@@ -0,0 +1,143 @@
+import { LinearClient } from "@linear/sdk";
+import inquirer from "inquirer";
+import * as dotenv from "dotenv";
+import * as fs from "fs";
+import { DependencyResolver } from "./modules/DependencyResolver";
+import {
+  GRAPH_FORMATS,
+  GraphFormat,
+  loadDependencyGraph,
+  renderDependencyGraph,
+  withoutIsolatedNodes,
+} from "./utils/dependency-graph";
+import { createLinearClient } from "./utils/resilient-client";
+
+dotenv.config();
+
+interface DepsGraphArgs {
+  teamId?: string;
+  projectId?: string;
+  format: GraphFormat;
+  out?: string;
+  includeCompleted: boolean;
+  includeCanceled: boolean;
+  onlyConnected: boolean;
+  useEnvTeam: boolean;
+}
+
+function readArgs(): DepsGraphArgs {
+  const argv = process.argv.slice(2);
+  const args: DepsGraphArgs = {
+    format: "mermaid",
+    includeCompleted: true,
+    includeCanceled: false,
+    onlyConnected: false,
+    useEnvTeam: false,
+  };
+  for (let i = 0; i < argv.length; i++) {
+    const a = argv[i];
+    if (a === "--team-id") args.teamId = argv[++i];
+    else if (a === "--project-id") args.projectId = argv[++i];
+    else if (a === "--format") args.format = argv[++i] as GraphFormat;
+    else if (a === "--out") args.out = argv[++i];
+    else if (a === "--exclude-completed") args.includeCompleted = false;
+    else if (a === "--include-canceled") args.includeCanceled = true;
+    else if (a === "--only-connected") args.onlyConnected = true;
+    else if (a === "--use-env-team") args.useEnvTeam = true;
+  }
+  if (!GRAPH_FORMATS.includes(args.format)) {
+    throw new Error(
+      `--format must be one of: ${GRAPH_FORMATS.join(", ")} (got ${args.format})`,
+    );
+  }
+  if (!process.env.LINEAR_API_KEY) {
+    throw new Error("LINEAR_API_KEY is required in env");
+  }
+  return args;
+}
+
+/**
+ * Resolve team and project interactively when not given as flags
+ */
+async function selectScope(
+  linear: LinearClient,
+  args: DepsGraphArgs,
+): Promise<{ teamId?: string; projectId?: string }> {
+  if (args.teamId || args.projectId) {
+    return { teamId: args.teamId, projectId: args.projectId };
+  }
+
+  const envTeam = process.env.LINEAR_TEAM_ID?.trim();
+  if (args.useEnvTeam && envTeam) {
+    return { teamId: envTeam };
+  }
+
+  const teams = await linear.teams();
+  const { teamId } = await inquirer.prompt([
+    {
+      type: "list",
+      name: "teamId",
+      message: "Select team to graph:",
+      choices: teams.nodes.map((t) => ({
+        name: `${t.name} (${t.key})`,
+        value: t.id,
+      })),
+    },
+  ]);
+
+  const projects = await linear.projects({
+    filter: { accessibleTeams: { id: { eq: teamId } } },
+  });
+  const { projectId } = await inquirer.prompt([
+    {
+      type: "list",
+      name: "projectId",
+      message: "Limit to a project?",
+      choices: [
+        { name: "All issues in team", value: "all" },
+        ...projects.nodes.map((p) => ({ name: p.name, value: p.id })),
+      ],
+    },
+  ]);
+
+  return projectId === "all" ? { teamId } : { projectId };
+}
+
+async function main() {
+  const args = readArgs();
+  const linear = createLinearClient(process.env.LINEAR_API_KEY);
+  const resolver = new DependencyResolver(linear.client);
+
+  const scope = await selectScope(linear, args);
+
+  // Progress goes to stderr so stdout can be piped into a file
+  console.error("📥 Loading issues and relations...");
+  const loaded = await loadDependencyGraph(resolver, {
+    ...scope,
+    includeCompleted: args.includeCompleted,
+    includeCanceled: args.includeCanceled,
+  });
+  const graph = args.onlyConnected
+    ? withoutIsolatedNodes(loaded.graph)
+    : loaded.graph;
+
+  if (loaded.truncated) {
+    console.error("⚠️  Issue limit reached - graph is incomplete");
+  }
+
+  const output = renderDependencyGraph(graph, args.format);
+
+  if (args.out) {
+    fs.writeFileSync(args.out, output + "\n");
+    console.error(
+      `✅ Wrote ${graph.nodes.length} issue(s) and ${graph.edges.length} dependency edge(s) to ${args.out}`,
+    );
+  } else {
+    console.log(output);
+  }
+}
+
+main().catch((e) => {
+  console.error("❌ Dependency graph export failed:", e.message);
+  process.exit(1);
+});
@@ -1,11 +1,17 @@
 import { LinearClient } from "@linear/sdk";
 import dotenv from "dotenv";
+import { createLinearClient } from "./utils/resilient-client";
+import { listTeamMirrors, openTeamMirror } from "./utils/team-mirror";
 
 dotenv.config();
 
 const LINEAR_KEY = process.env.LINEAR_API_KEY?.trim();
 
-if (!LINEAR_KEY) {
+// --mirror reads a freshly synced local mirror, --offline the mirror as is
+const OFFLINE = process.argv.includes("--offline");
+const USE_MIRROR = OFFLINE || process.argv.includes("--mirror");
+
+if (!LINEAR_KEY && !OFFLINE) {
   console.error("❌ Missing LINEAR_API_KEY in .env");
   process.exit(1);
 }
@@ -21,19 +27,21 @@ interface OrphanIssue {
 }
 
 async function findOrphanIssues() {
-  const linear = new LinearClient({ apiKey: LINEAR_KEY });
+  const linear = createLinearClient(LINEAR_KEY);
 
   console.log("\n🔍 Searching for Schedule App team...\n");
 
-  const teams = await linear.teams();
+  const teams = OFFLINE
+    ? listTeamMirrors().map((mirror) => mirror.team)
+    : (await linear.teams()).nodes;
 
   console.log("📋 Available teams:");
-  for (const team of teams.nodes) {
+  for (const team of teams) {
     console.log(`  - ${team.name} (${team.key}) - ID: ${team.id}`);
   }
   console.log("");
 
-  const scheduleAppTeam = teams.nodes.find(
+  const scheduleAppTeam = teams.find(
     (team: any) =>
       team.name.toLowerCase().includes("schedule") ||
       team.name.toLowerCase().includes("app"),
@@ -51,9 +59,15 @@ async function findOrphanIssues() {
   );
   console.log(`   Team ID: ${scheduleAppTeam.id}\n`);
 
+  if (USE_MIRROR) {
+    return reportFromMirror(linear, scheduleAppTeam.id);
+  }
+
   console.log("📊 Fetching all projects in team...\n");
 
-  const projects = await scheduleAppTeam.projects();
+  const projects = await linear.projects({
+    filter: { accessibleTeams: { id: { eq: scheduleAppTeam.id } } },
+  });
   console.log(`Found ${projects.nodes.length} project(s):\n`);
 
   for (const project of projects.nodes) {
@@ -85,30 +99,6 @@ async function findOrphanIssues() {
     first: 250,
   });
 
-  if (orphanIssues.nodes.length === 0) {
-    console.log(
-      "✅ No orphan issues found! All issues are assigned to projects.\n",
-    );
-
-    if (allIssues.nodes.length === 0) {
-      console.log("⚠️  Actually, there are NO issues in this team at all.\n");
-      console.log(
-        "💡 Your issues may have been deleted or moved to another team.\n",
-      );
-      return;
-    }
-
-    console.log(
-      `💡 All ${allIssues.nodes.length} issues in the team are assigned to projects.\n`,
-    );
-    return;
-  }
-
-  console.log(
-    `📌 Found ${orphanIssues.nodes.length} issue(s) without a project:\n`,
-  );
-  console.log("=".repeat(80));
-
   const orphans: OrphanIssue[] = [];
 
   for (const issue of orphanIssues.nodes) {
@@ -128,6 +118,63 @@ async function findOrphanIssues() {
     orphans.push(orphan);
   }
 
+  reportOrphans(orphans, allIssues.nodes.length);
+}
+
+/**
+ * Same report from the local team mirror, without a request per issue
+ */
+async function reportFromMirror(linear: LinearClient, teamId: string) {
+  console.log("🪞 Reading the local team mirror...\n");
+  const mirror = await openTeamMirror(OFFLINE ? null : linear.client, teamId);
+  console.log(`   Synced ${mirror.data.syncedAt}\n`);
+
+  console.log(`Found ${mirror.projects.length} project(s):\n`);
+  for (const project of mirror.projects) {
+    console.log(
+      `  - ${project.name}: ${mirror.projectIssues(project.id).length} issue(s)`,
+    );
+  }
+
+  console.log(`\n📊 Total issues in team: ${mirror.issues.length}\n`);
+
+  console.log("🔍 Filtering for orphan issues (no project assigned)...\n");
+
+  const orphans = mirror.projectIssues(null).map((issue): OrphanIssue => ({
+    id: issue.id,
+    identifier: issue.identifier,
+    title: issue.title,
+    state: mirror.state(issue)?.name || "Unknown",
+    priority: issue.priority,
+    labels: mirror.labelNames(issue),
+    createdAt: new Date(issue.createdAt),
+  }));
+  reportOrphans(orphans, mirror.issues.length);
+}
+
+function reportOrphans(orphans: OrphanIssue[], totalIssues: number) {
+  if (orphans.length === 0) {
+    console.log(
+      "✅ No orphan issues found! All issues are assigned to projects.\n",
+    );
+
+    if (totalIssues === 0) {
+      console.log("⚠️  Actually, there are NO issues in this team at all.\n");
+      console.log(
+        "💡 Your issues may have been deleted or moved to another team.\n",
+      );
+      return;
+    }
+
+    console.log(
+      `💡 All ${totalIssues} issues in the team are assigned to projects.\n`,
+    );
+    return;
+  }
+
+  console.log(`📌 Found ${orphans.length} issue(s) without a project:\n`);
+  console.log("=".repeat(80));
+
   orphans.sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime());
 
   for (const orphan of orphans) {
@@ -155,7 +202,7 @@ async function findOrphanIssues() {
 
   console.log("\n" + "=".repeat(80));
   console.log(
-    `\n📊 Summary: ${orphanIssues.nodes.length} issue(s) need project assignment\n`,
+    `\n📊 Summary: ${orphans.length} issue(s) need project assignment\n`,
   );
 
   console.log("💡 Suggested projects based on labels:\n");
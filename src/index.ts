@@ -5,7 +5,6 @@
  * transcribes + summarizes feedback into Linear issues.
  */
 
-import axios from "axios";
 import * as fs from "fs";
 import * as path from "path";
 import * as dotenv from "dotenv";
@@ -15,11 +14,20 @@ import { PassThrough } from "stream";
 // Video processing imports removed for speed
 import { exec } from "child_process";
 import { promisify } from "util";
+import { createLinearClient, resilientAxios } from "./utils/resilient-client";
+import { DuplicateGuard } from "./utils/duplicate-issues";
 
 const execAsync = promisify(exec);
 
 dotenv.config();
 
+// Linear GraphQL requests are retried and rate limited by the shared client
+const linearApi = resilientAxios();
+// So are AssemblyAI and OpenAI requests, which HTTP_FIXTURES can record
+// and replay
+const assemblyAiApi = resilientAxios();
+const openAiApi = resilientAxios();
+
 /* ---------------- ENV Validation ---------------- */
 const AAI_KEY = process.env.ASSEMBLYAI_API_KEY?.trim();
 const OPENAI_KEY = process.env.OPENAI_API_KEY?.trim();
@@ -764,7 +772,7 @@ async function uploadVideo(filePath: string) {
     console.log(`📡 Endpoint: https://api.assemblyai.com/v2/upload`);
     console.log(`🔑 API Key: ${AAI_KEY?.substring(0, 8)}...`);
 
-    const res = await axios.post(
+    const res = await assemblyAiApi.post(
       "https://api.assemblyai.com/v2/upload",
       fs.createReadStream(filePath),
       {
@@ -833,7 +841,7 @@ async function requestTranscript(audioUrl: string) {
   };
 
   try {
-    const res = await axios.post(
+    const res = await assemblyAiApi.post(
       "https://api.assemblyai.com/v2/transcript",
       body,
       {
@@ -860,7 +868,7 @@ async function waitForTranscript(id: string) {
   let retries = 0;
   while (true) {
     try {
-      const r = await axios.get(
+      const r = await assemblyAiApi.get(
         `https://api.assemblyai.com/v2/transcript/${id}`,
         {
           headers: { authorization: AAI_KEY },
@@ -924,7 +932,7 @@ async function summarizeToIssues(text: string, transcriptData?: any) {
     const condensed = transcriptData
       ? buildCondensedUtterances(transcriptData)
       : undefined;
-    const res = await axios.post(
+    const res = await openAiApi.post(
       "https://api.openai.com/v1/chat/completions",
       {
         model: "gpt-4o-mini",
@@ -965,6 +973,13 @@ async function summarizeToIssues(text: string, transcriptData?: any) {
 }
 
 /* ---------------- Create Issues in Linear ---------------- */
+type CreatedIssue = {
+  id: string;
+  identifier: string;
+  title: string;
+  url: string;
+};
+
 async function createLinearIssues(
   issues: any[],
   teamId: string,
@@ -972,9 +987,14 @@ async function createLinearIssues(
   videoUrl: string,
   transcriptData: any,
   videoPath: string
-) {
+): Promise<CreatedIssue[]> {
   console.log("📬 Creating issues in Linear...");
   const createdLabelsCache = new Map<string, string>();
+  const createdIssues: CreatedIssue[] = [];
+  const duplicates = await DuplicateGuard.load(
+    createLinearClient(LINEAR_KEY).client,
+    teamId
+  );
   let processedCount = 0;
   for (const issue of issues) {
     processedCount++;
@@ -992,6 +1012,11 @@ async function createLinearIssues(
         console.warn("  ⏭️ Skipping issue with empty title");
         continue;
       }
+      const duplicateCheck = await duplicates.beforeCreate({
+        title,
+        description,
+      });
+      if (!duplicateCheck.create) continue;
       let labelIds = inferLabelIdsFromIssue(
         title,
         description,
@@ -1070,12 +1095,15 @@ async function createLinearIssues(
       const finalDescription = parts.join("\n\n");
 
       console.log(`    📤 Creating Linear issue: "${title}"...`);
-      const res = await axios.post(
+      const res = await linearApi.post(
         "https://api.linear.app/graphql",
         {
           query: `
             mutation($input: IssueCreateInput!) {
-              issueCreate(input: $input) { success issue { id title } }
+              issueCreate(input: $input) {
+                success
+                issue { id identifier title url }
+              }
             }
           `,
           variables: {
@@ -1102,6 +1130,12 @@ async function createLinearIssues(
 
       if (created && issueId) {
         console.log(`  ✅ Created issue: ${created}`);
+        createdIssues.push(res.data.data.issueCreate.issue);
+        await duplicates.afterCreate(
+          res.data.data.issueCreate.issue,
+          { title, description },
+          duplicateCheck
+        );
 
         // Visual context uploads removed for speed
       } else {
@@ -1129,12 +1163,13 @@ async function createLinearIssues(
     }
   }
   console.log("✅ All issues processed");
+  return createdIssues;
 }
 
 /* ---------------- Linear Team Selection ---------------- */
 async function fetchLinearTeams() {
   try {
-    const res = await axios.post(
+    const res = await linearApi.post(
       "https://api.linear.app/graphql",
       { query: `{ teams { nodes { id name key } } }` },
       {
@@ -1201,7 +1236,7 @@ async function fetchLinearLabels(
   teamId: string
 ): Promise<Array<{ id: string; name: string }>> {
   try {
-    const res = await axios.post(
+    const res = await linearApi.post(
       "https://api.linear.app/graphql",
       {
         query: `query($id: String!) { team(id: $id) { labels { nodes { id name } } } }`,
@@ -1461,7 +1496,7 @@ async function createLinearLabel(
 ): Promise<string | null> {
   try {
     const color = getLabelColor(name);
-    const res = await axios.post(
+    const res = await linearApi.post(
       "https://api.linear.app/graphql",
       {
         query: `mutation($input: IssueLabelCreateInput!) { issueLabelCreate(input: $input) { issueLabel { id name } } }`,
@@ -1556,6 +1591,10 @@ async function ensureCategoryLabelId(
 
 /* ---------------- Exports ---------------- */
 export {
+  requestTranscript,
+  waitForTranscript,
+  summarizeToIssues,
+  createLinearIssues,
   fetchLinearTeams,
   fetchLinearLabels,
   inferCategories,
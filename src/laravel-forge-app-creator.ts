@@ -5,6 +5,7 @@ import { LinearClient } from "@linear/sdk";
 import inquirer from "inquirer";
 import { TemplateLoader } from "./utils/template-loader";
 import { Logger, LogLevel } from "./utils/logger";
+import { resolveTeamState } from "./utils/workflow-states";
 import { AutoSetup } from "./modules/AutoSetup";
 
 interface LaravelForgeAppConfig {
@@ -94,7 +95,7 @@ interface RollbackState {
  *
  * @example
  * ```typescript
- * const linear = new LinearClient({ apiKey: process.env.LINEAR_API_KEY });
+ * const linear = createLinearClient(process.env.LINEAR_API_KEY);
  * const creator = new LaravelForgeAppCreator(linear);
  * await creator.createApp();
  * ```
@@ -112,7 +113,8 @@ class LaravelForgeAppCreator {
   /**
    * Creates a new Laravel Forge App Creator instance
    *
-   * @param linear - Initialized LinearClient for API interactions
+   * @param linear - LinearClient from createLinearClient, which retries
+   *   failed calls (writes only when Linear never ran them)
    */
   constructor(linear: LinearClient) {
     this.linear = linear;
@@ -323,7 +325,7 @@ class LaravelForgeAppCreator {
         );
         for (const issueId of this.rollbackState.linearIssuesCreated) {
           try {
-            await this.retryLinearCall(() => this.linear.deleteIssue(issueId));
+            await this.linear.deleteIssue(issueId);
           } catch (error) {
             console.error(
               `⚠️  Could not delete issue ${issueId}: ${error.message}`,
@@ -342,9 +344,7 @@ class LaravelForgeAppCreator {
         );
         for (const labelId of this.rollbackState.linearLabelsCreated) {
           try {
-            await this.retryLinearCall(() =>
-              this.linear.deleteIssueLabel(labelId),
-            );
+            await this.linear.deleteIssueLabel(labelId);
           } catch (error) {
             console.error(
               `⚠️  Could not delete label ${labelId}: ${error.message}`,
@@ -357,13 +357,11 @@ class LaravelForgeAppCreator {
       if (this.rollbackState.linearProjectCreated) {
         console.log(`🗑️  Archiving created project...`);
         try {
-          await this.retryLinearCall(() =>
-            this.linear.updateProject(
-              this.rollbackState.linearProjectCreated!,
-              {
-                state: "canceled",
-              },
-            ),
+          await this.linear.updateProject(
+            this.rollbackState.linearProjectCreated!,
+            {
+              state: "canceled",
+            },
           );
         } catch (error) {
           console.error(`⚠️  Could not archive project: ${error.message}`);
@@ -485,7 +483,7 @@ class LaravelForgeAppCreator {
         choices: async (answers: any) => {
           if (answers.teamOption !== "existing") return [];
 
-          const teams = await this.retryLinearCall(() => this.linear.teams());
+          const teams = await this.linear.teams();
           return teams.nodes.map((team) => ({
             name: team.name,
             value: team.id,
@@ -1059,19 +1057,15 @@ echo "   4. Configure email settings"
     // Handle team creation or selection
     if (this.config.createNewTeam) {
       console.log(`🏗️  Creating new Linear team: ${this.config.newTeamName}`);
-      const newTeam = await this.retryLinearCall(() =>
-        this.linear.createTeam({
-          name: this.config.newTeamName!,
-          description: `Team for ${this.config.appName} development`,
-        }),
-      );
+      const newTeam = await this.linear.createTeam({
+        name: this.config.newTeamName!,
+        description: `Team for ${this.config.appName} development`,
+      });
       teamId = newTeam.id;
       this.rollbackState.linearTeamCreated = teamId;
       console.log(`✅ Created new Linear team: ${newTeam.name}`);
     } else {
-      const team = await this.retryLinearCall(() =>
-        this.linear.team(this.config.teamId),
-      );
+      const team = await this.linear.team(this.config.teamId);
       console.log(`✅ Using existing Linear team: ${team.name}`);
 
       // Analyze existing team for integration opportunities
@@ -1084,21 +1078,17 @@ echo "   4. Configure email settings"
       this.config.existingProjectId === "new"
     ) {
       // Create new project in Linear
-      project = await this.retryLinearCall(() =>
-        this.linear.createProject({
-          name: `${this.config.appName} - Development`,
-          description: this.config.description,
-          teamIds: [teamId],
-          state: "planned",
-        }),
-      );
+      project = await this.linear.createProject({
+        name: `${this.config.appName} - Development`,
+        description: this.config.description,
+        teamIds: [teamId],
+        state: "planned",
+      });
       this.rollbackState.linearProjectCreated = project.id;
       console.log(`✅ Created new Linear project: ${project.name}`);
     } else if (this.config.existingProjectId) {
       // Use existing project
-      project = await this.retryLinearCall(() =>
-        this.linear.project(this.config.existingProjectId),
-      );
+      project = await this.linear.project(this.config.existingProjectId);
       console.log(`✅ Using existing Linear project: ${project.name}`);
 
       // Analyze existing project for integration opportunities
@@ -1110,7 +1100,7 @@ echo "   4. Configure email settings"
     // Create development issues
     // CRITICAL: Generate repo label from team name - agents use this to know which repo to work in
     // Format: glenn-frank/[team-name]
-    const team = await this.retryLinearCall(() => this.linear.team(teamId));
+    const team = await this.linear.team(teamId);
     const repoLabel = `glenn-frank/${team.name
       .toLowerCase()
       .replace(/\s+/g, "-")}`;
@@ -1183,11 +1173,9 @@ echo "   4. Configure email settings"
       : this.detectDependenciesWithRules(baseIssues);
 
     // Check if issues already exist before creating new ones
-    const existingIssues = await this.retryLinearCall(() =>
-      this.linear.issues({
-        filter: { project: { id: { eq: project.id } } },
-      }),
-    );
+    const existingIssues = await this.linear.issues({
+      filter: { project: { id: { eq: project.id } } },
+    });
 
     const existingTitles = existingIssues.nodes.map((issue) =>
       issue.title.toLowerCase(),
@@ -1216,26 +1204,22 @@ echo "   4. Configure email settings"
       for (const labelName of issue.labels) {
         try {
           // Search for labels with TEAM filter to avoid workspace conflicts
-          const labels = await this.retryLinearCall(() =>
-            this.linear.issueLabels({
-              filter: {
-                name: { eq: labelName },
-                team: { id: { eq: teamId } },
-              },
-            }),
-          );
+          const labels = await this.linear.issueLabels({
+            filter: {
+              name: { eq: labelName },
+              team: { id: { eq: teamId } },
+            },
+          });
 
           // Also try with capitalized first letter
           const capitalizedName =
             labelName.charAt(0).toUpperCase() + labelName.slice(1);
-          const capitalizedLabels = await this.retryLinearCall(() =>
-            this.linear.issueLabels({
-              filter: {
-                name: { eq: capitalizedName },
-                team: { id: { eq: teamId } },
-              },
-            }),
-          );
+          const capitalizedLabels = await this.linear.issueLabels({
+            filter: {
+              name: { eq: capitalizedName },
+              team: { id: { eq: teamId } },
+            },
+          });
 
           let foundLabel = null;
           if (labels.nodes.length > 0) {
@@ -1249,12 +1233,10 @@ echo "   4. Configure email settings"
           } else {
             // Create label if it doesn't exist in this team
             try {
-              const newLabel = await this.retryLinearCall(() =>
-                this.linear.createIssueLabel({
-                  name: labelName,
-                  teamId: teamId,
-                }),
-              );
+              const newLabel = await this.linear.createIssueLabel({
+                name: labelName,
+                teamId: teamId,
+              });
               if (newLabel.id) {
                 labelIds.push(newLabel.id);
 
@@ -1300,9 +1282,7 @@ echo "   4. Configure email settings"
         issueData.labelIds = labelIds;
       }
 
-      const createdIssue = await this.retryLinearCall(() =>
-        this.linear.createIssue(issueData),
-      );
+      const createdIssue = await this.linear.createIssue(issueData);
       createdIssues[issue.title] = createdIssue.id;
 
       // Track for rollback
@@ -1321,11 +1301,9 @@ echo "   4. Configure email settings"
 
         if (dependencyIds.length > 0) {
           try {
-            await this.retryLinearCall(() =>
-              this.linear.updateIssue(createdIssue.id, {
-                dependsOn: dependencyIds,
-              }),
-            );
+            await this.linear.updateIssue(createdIssue.id, {
+              dependsOn: dependencyIds,
+            });
             console.log(`🔗 Added dependencies to: ${issue.title}`);
           } catch (error) {
             console.log(
@@ -1345,7 +1323,7 @@ echo "   4. Configure email settings"
 
       // Get Cursor agent (assuming it exists in the team)
       try {
-        const team = await this.retryLinearCall(() => this.linear.team(teamId));
+        const team = await this.linear.team(teamId);
         const users = await team.users();
         const cursorAgent = users.nodes.find(
           (user: any) =>
@@ -1354,13 +1332,17 @@ echo "   4. Configure email settings"
         );
 
         if (cursorAgent) {
-          // Get all issues in the project (including existing ones)
-          const allProjectIssues = await this.retryLinearCall(() =>
-            this.linear.issues({
-              filter: { project: { id: { eq: project.id } } },
-            }),
+          const startedState = await resolveTeamState(
+            this.linear,
+            teamId,
+            "started",
           );
 
+          // Get all issues in the project (including existing ones)
+          const allProjectIssues = await this.linear.issues({
+            filter: { project: { id: { eq: project.id } } },
+          });
+
           // Filter issues to assign
           const issuesToAssign = this.config.rerunExistingIssues
             ? allProjectIssues.nodes // Include existing issues for rerun
@@ -1373,12 +1355,10 @@ echo "   4. Configure email settings"
           // Assign issues to Cursor agent
           for (const issue of issuesToAssign) {
             try {
-              await this.retryLinearCall(() =>
-                this.linear.updateIssue(issue.id, {
-                  assigneeId: cursorAgent.id,
-                  state: "inProgress", // Set to in progress for rerun
-                }),
-              );
+              await this.linear.updateIssue(issue.id, {
+                assigneeId: cursorAgent.id,
+                stateId: startedState.id, // Set to in progress for rerun
+              });
               console.log(`✅ Assigned "${issue.title}" to Cursor agent`);
             } catch (error) {
               console.log(
@@ -1435,7 +1415,7 @@ echo "   4. Configure email settings"
         return;
       }
 
-      const team = await this.retryLinearCall(() => this.linear.team(teamId));
+      const team = await this.linear.team(teamId);
       const timestamp = new Date().toISOString().replace(/[:.]/g, "-");
       const backupName = `${team.name} - Pre-App-Creation - ${timestamp}`;
 
@@ -1479,11 +1459,9 @@ echo "   4. Configure email settings"
       }));
 
       // Backup issues
-      const issues = await this.retryLinearCall(() =>
-        this.linear.issues({
-          filter: { team: { id: { eq: team.id } } },
-        }),
-      );
+      const issues = await this.linear.issues({
+        filter: { team: { id: { eq: team.id } } },
+      });
       backupData.issues = issues.nodes.map((issue) => ({
         id: issue.id,
         title: issue.title,
@@ -1496,11 +1474,9 @@ echo "   4. Configure email settings"
       }));
 
       // Backup labels
-      const labels = await this.retryLinearCall(() =>
-        this.linear.issueLabels({
-          filter: { team: { id: { eq: team.id } } },
-        }),
-      );
+      const labels = await this.linear.issueLabels({
+        filter: { team: { id: { eq: team.id } } },
+      });
       backupData.labels = labels.nodes.map((label) => ({
         id: label.id,
         name: label.name,
@@ -1574,13 +1550,11 @@ echo "   4. Configure email settings"
       console.log(`📅 Backup date: ${backupData.timestamp}`);
 
       // Create new team with backup name
-      const newTeam = await this.retryLinearCall(() =>
-        this.linear.createTeam({
-          name: backupData.team.name + " - Restored",
-          description: backupData.team.description + " (Restored from backup)",
-          key: backupData.team.key + "-RESTORED",
-        }),
-      );
+      const newTeam = await this.linear.createTeam({
+        name: backupData.team.name + " - Restored",
+        description: backupData.team.description + " (Restored from backup)",
+        key: backupData.team.key + "-RESTORED",
+      });
 
       console.log(`✅ Created restored team: ${newTeam.name}`);
 
@@ -1588,14 +1562,12 @@ echo "   4. Configure email settings"
       console.log("🏷️  Restoring labels...");
       const labelMap: { [oldId: string]: string } = {};
       for (const label of backupData.labels) {
-        const newLabel = await this.retryLinearCall(() =>
-          this.linear.createIssueLabel({
-            name: label.name,
-            description: label.description,
-            color: label.color,
-            teamId: newTeam.id,
-          }),
-        );
+        const newLabel = await this.linear.createIssueLabel({
+          name: label.name,
+          description: label.description,
+          color: label.color,
+          teamId: newTeam.id,
+        });
         labelMap[label.id] = newLabel.id;
         console.log(`✅ Restored label: ${label.name}`);
       }
@@ -1604,14 +1576,12 @@ echo "   4. Configure email settings"
       console.log("📁 Restoring projects...");
       const projectMap: { [oldId: string]: string } = {};
       for (const project of backupData.projects) {
-        const newProject = await this.retryLinearCall(() =>
-          this.linear.createProject({
-            name: project.name,
-            description: project.description,
-            state: project.state,
-            teamId: newTeam.id,
-          }),
-        );
+        const newProject = await this.linear.createProject({
+          name: project.name,
+          description: project.description,
+          state: project.state,
+          teamId: newTeam.id,
+        });
         projectMap[project.id] = newProject.id;
         console.log(`✅ Restored project: ${project.name}`);
       }
@@ -1639,9 +1609,7 @@ echo "   4. Configure email settings"
             .filter((id: string) => id);
         }
 
-        const newIssue = await this.retryLinearCall(() =>
-          this.linear.createIssue(issueData),
-        );
+        const newIssue = await this.linear.createIssue(issueData);
         issueMap[issue.id] = newIssue.id;
         console.log(`✅ Restored issue: ${issue.title}`);
       }
@@ -1656,11 +1624,9 @@ echo "   4. Configure email settings"
 
           if (dependencyIds.length > 0) {
             try {
-              await this.retryLinearCall(() =>
-                this.linear.updateIssue(issueMap[issue.id], {
-                  dependsOn: dependencyIds,
-                }),
-              );
+              await this.linear.updateIssue(issueMap[issue.id], {
+                dependsOn: dependencyIds,
+              });
               console.log(`🔗 Restored dependencies for: ${issue.title}`);
             } catch (error) {
               console.log(
@@ -1687,7 +1653,7 @@ echo "   4. Configure email settings"
   }
 
   /**
-   * Test Linear API connection with retry logic
+   * Test Linear API connection
    *
    * Attempts to connect to Linear API and offers graceful degradation if connection fails.
    * Sets linearAvailable flag to false if user chooses to continue without Linear.
@@ -1699,8 +1665,7 @@ echo "   4. Configure email settings"
     console.log("🔗 Testing Linear connection...");
 
     try {
-      // Test with retry mechanism
-      await this.retryLinearCall(() => this.linear.teams());
+      await this.linear.teams();
       console.log("✅ Linear connection successful");
     } catch (error) {
       console.log("❌ Linear connection failed");
@@ -1736,57 +1701,6 @@ echo "   4. Configure email settings"
     }
   }
 
-  /**
-   * Retry Linear API calls with exponential backoff
-   *
-   * Implements a robust retry mechanism for Linear API calls that may fail due to:
-   * - Network transient issues
-   * - Rate limiting
-   * - Temporary service unavailability
-   *
-   * Uses exponential backoff: delays double after each retry (1s, 2s, 4s, etc.)
-   *
-   * @template T - Return type of the operation
-   * @param operation - Async operation to retry
-   * @param maxRetries - Maximum number of retry attempts (default: 3)
-   * @param delayMs - Initial delay in milliseconds (default: 1000)
-   * @returns Promise that resolves with operation result
-   * @throws {Error} The last error if all retries fail
-   * @private
-   *
-   * @example
-   * ```typescript
-   * const team = await this.retryLinearCall(() => this.linear.team(teamId));
-   * ```
-   */
-  private async retryLinearCall<T>(
-    operation: () => Promise<T>,
-    maxRetries: number = 3,
-    delayMs: number = 1000,
-  ): Promise<T> {
-    let lastError: Error;
-
-    for (let attempt = 1; attempt <= maxRetries; attempt++) {
-      try {
-        return await operation();
-      } catch (error) {
-        lastError = error;
-
-        if (attempt === maxRetries) {
-          throw error;
-        }
-
-        console.log(
-          `   ⚠️  Attempt ${attempt} failed, retrying in ${delayMs}ms...`,
-        );
-        await new Promise((resolve) => setTimeout(resolve, delayMs));
-        delayMs *= 2; // Exponential backoff
-      }
-    }
-
-    throw lastError!;
-  }
-
   private generateAppKey(): string {
     // Generate a random 32-byte key and encode it as base64
     const crypto = require("crypto");
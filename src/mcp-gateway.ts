@@ -0,0 +1,119 @@
+#!/usr/bin/env node
+
+import * as dotenv from "dotenv";
+import { McpToolset, ToolDefinition, mountToolset } from "./utils/mcp-tools";
+import { createToolsetServer, readRuntimeConfig } from "./utils/mcp-runtime";
+import { PromptDefinition, mountPrompts } from "./utils/mcp-prompts";
+import {
+  ResourceProvider,
+  combineResources,
+  scopeResources,
+} from "./utils/mcp-resources";
+import { readTransportOptions, startMcpServer } from "./utils/mcp-transport";
+import { describeToolPolicy, loadToolPolicy } from "./utils/tool-policy";
+
+dotenv.config({ quiet: true });
+
+/**
+ * Toolsets the gateway can mount. Each module is only loaded when its
+ * credentials are set, since loading it creates its API client.
+ */
+const TOOLSETS: Array<{
+  namespace: string;
+  requiredEnv: string[];
+  load: () => Promise<McpToolset>;
+}> = [
+  {
+    namespace: "linear",
+    requiredEnv: ["LINEAR_API_KEY"],
+    load: async () => (await import("./mcp-server")).linearToolset,
+  },
+  {
+    namespace: "github",
+    requiredEnv: ["GITHUB_TOKEN"],
+    load: async () => (await import("./mcp-github-server")).githubToolset,
+  },
+  {
+    namespace: "forge",
+    requiredEnv: ["FORGE_API_KEY"],
+    load: async () => (await import("./mcp-forge-server")).forgeToolset,
+  },
+];
+
+async function main() {
+  const runtime = readRuntimeConfig();
+  const tools: ToolDefinition[] = [];
+  const resources: ResourceProvider[] = [];
+  const prompts: PromptDefinition[] = [];
+
+  for (const { namespace, requiredEnv, load } of TOOLSETS) {
+    const missing = requiredEnv.filter((name) => !process.env[name]);
+    if (missing.length > 0) {
+      console.error(
+        `⏭️  Skipping ${namespace}.* (${missing.join(", ")} not set)`,
+      );
+      continue;
+    }
+
+    const toolset = await load();
+    // Policies are per toolset, keyed by its standalone server name
+    const policy = loadToolPolicy(toolset.name);
+    const mounted = mountToolset(namespace, toolset, { policy });
+    tools.push(...mounted);
+    prompts.push(...mountPrompts(namespace, toolset, { policy }));
+    if (toolset.resources) {
+      resources.push(scopeResources(toolset.resources, policy));
+    }
+
+    const listed = mounted.filter((tool) => !tool.deniedReason).length;
+    console.error(`✅ Mounted ${listed} ${namespace}.* tools`);
+    const policySummary = describeToolPolicy(policy, toolset.tools);
+    if (policySummary) console.error(`   ${policySummary}`);
+  }
+
+  if (tools.length === 0) {
+    throw new Error(
+      "No toolsets to serve: set LINEAR_API_KEY, GITHUB_TOKEN and/or FORGE_API_KEY",
+    );
+  }
+
+  const gateway: McpToolset = {
+    name: "mcp-gateway",
+    label: "Gateway",
+    tools,
+    resources: resources.length > 0 ? combineResources(resources) : undefined,
+    prompts: prompts.length > 0 ? prompts : undefined,
+    options: {
+      // Mounted tools produce their own error results; this only sees
+      // failures outside a toolset's handlers
+      errorResult: (error) => ({
+        content: [
+          {
+            type: "text",
+            text: JSON.stringify(
+              { success: false, error: error.message },
+              null,
+              2,
+            ),
+          },
+        ],
+        isError: true,
+      }),
+    },
+  };
+
+  await startMcpServer(
+    gateway.label,
+    () =>
+      createToolsetServer(gateway, {
+        logger: runtime.logger,
+        resourcePollMs: runtime.resourcePollMs,
+      }),
+    readTransportOptions(3330),
+  );
+}
+
+main().catch((error) => {
+  console.error("Fatal error:", error);
+  process.exit(1);
+});
@@ -1,16 +1,115 @@
 #!/usr/bin/env node
 
-import { Server } from "@modelcontextprotocol/sdk/server/index.js";
-import { StdioServerTransport } from "@modelcontextprotocol/sdk/server/stdio.js";
-import {
-  CallToolRequestSchema,
-  ListToolsRequestSchema,
-} from "@modelcontextprotocol/sdk/types.js";
-import { LinearClient } from "@linear/sdk";
+import { IssueRelationType, LinearClient } from "@linear/sdk";
 import * as dotenv from "dotenv";
-import axios from "axios";
+import { z } from "zod";
+import {
+  PageFetcher,
+  arrayPageFetcher,
+  fetchPaginated,
+  scanPaginated,
+  FETCH_ALL_HARD_LIMIT,
+} from "./utils/linear-pagination";
+import {
+  DependencyResolver,
+  ISSUES_WITH_RELATIONS_PAGE_SIZE,
+} from "./modules/DependencyResolver";
+import {
+  GRAPH_FORMATS,
+  GraphFormat,
+  loadDependencyGraph,
+  renderDependencyGraph,
+  withoutIsolatedNodes,
+} from "./utils/dependency-graph";
+import {
+  validateDependencyEdges,
+  validateIndexedDependencies,
+} from "./utils/dependency-validation";
+import { loadProjectWorkOrder } from "./utils/work-order";
+import {
+  CYCLE_STATUSES,
+  buildCycleFilter,
+  parseCycleDates,
+  toCycleSummary,
+} from "./utils/cycles";
+import { fetchProgressIssues, summarizeProgress } from "./utils/issue-progress";
+import {
+  parseTargetDate,
+  sortMilestones,
+  summarizeMilestones,
+  toMilestoneSummary,
+} from "./utils/milestones";
+import {
+  buildSubIssueTree,
+  fetchSubIssues,
+  validateParentIndexes,
+} from "./utils/sub-issues";
+import {
+  McpToolset,
+  ToolDefinition,
+  ToolResult,
+  defineTool,
+} from "./utils/mcp-tools";
+import {
+  inAllowedTeams,
+  linearTeamResolver,
+  teamScopeViolation,
+} from "./utils/tool-policy";
+import { serveToolset } from "./utils/mcp-runtime";
+import {
+  AuditJournal,
+  selectEntries,
+  undoEntries,
+} from "./utils/audit-journal";
+import {
+  BULK_UPDATE_MAX_ISSUES,
+  CONFIRMATION_TTL_MS,
+  buildIssueSearchFilter,
+  checkConfirmationToken,
+  createConfirmationToken,
+  fetchBulkUpdateIssues,
+  planBulkUpdate,
+  resolveBulkPatch,
+} from "./utils/bulk-update";
+import {
+  moveIssueToState,
+  resolveWorkflowState,
+} from "./utils/workflow-states";
+import { LinearResources } from "./utils/linear-resources";
+import {
+  linearApiUrl,
+  readClientOptions,
+  resilientAxios,
+  resilientLinearClient,
+} from "./utils/resilient-client";
+import {
+  PromptDefinition,
+  definePrompt,
+  promptJson,
+} from "./utils/mcp-prompts";
+import {
+  ISSUE_QUERY_PARSERS,
+  fetchIssueQueryContext,
+  fetchQueriedIssues,
+  interpretIssueQuery,
+  openAiFilterModel,
+} from "./utils/issue-query";
+import {
+  DEFAULT_DUPLICATE_LIMIT,
+  DEFAULT_DUPLICATE_THRESHOLD,
+  DEFAULT_EMBEDDING_THRESHOLD,
+  fetchTeamIssuesForMatching,
+  findDuplicateIssues,
+  openAiEmbedder,
+} from "./utils/duplicate-issues";
+import {
+  MirrorIssue,
+  MirrorState,
+  TeamMirrorCache,
+  readMirrorOptions,
+} from "./utils/team-mirror";
 
-dotenv.config();
+dotenv.config({ quiet: true });
 
 const LINEAR_API_KEY = process.env.LINEAR_API_KEY;
 const OPENAI_API_KEY = process.env.OPENAI_API_KEY;
@@ -20,543 +119,421 @@ if (!LINEAR_API_KEY) {
   process.exit(1);
 }
 
-const linear = new LinearClient({ apiKey: LINEAR_API_KEY });
-
-const server = new Server(
-  {
-    name: "linear-admin",
-    version: "1.0.0",
-  },
-  {
-    capabilities: {
-      tools: {},
-    },
-  },
+const clientOptions = readClientOptions(process.env, "MCP");
+const linearClient = resilientLinearClient(
+  new LinearClient({ apiKey: LINEAR_API_KEY, apiUrl: linearApiUrl() }),
+  clientOptions,
 );
+const http = resilientAxios({}, clientOptions);
+const journal = new AuditJournal();
+// Mutations made through `linear` during a tool call are journaled
+const linear = journal.wrap(linearClient);
+const dependencyResolver = new DependencyResolver(linear.client);
+const resources = new LinearResources(linear.client);
+// With LINEAR_MIRROR=true the team listing tools read a local mirror
+const mirrorOptions = readMirrorOptions();
+const mirrors = mirrorOptions.enabled
+  ? new TeamMirrorCache(linear.client, mirrorOptions)
+  : null;
+
+/**
+ * Input shape shared by every list-style tool
+ */
+const paginationShape = {
+  after: z
+    .string()
+    .optional()
+    .describe(
+      "Cursor from a previous response's pageInfo.endCursor to continue from",
+    ),
+  fetchAll: z
+    .boolean()
+    .default(false)
+    .describe(
+      `Walk every page server-side and return all results (bounded by maxResults, at most ${FETCH_ALL_HARD_LIMIT})`,
+    ),
+  maxResults: z
+    .number()
+    .optional()
+    .describe(
+      `Upper bound for fetchAll mode (default and maximum: ${FETCH_ALL_HARD_LIMIT})`,
+    ),
+};
+
+/**
+ * Input shape of the search_issues filter, shared with bulk_update_issues
+ */
+const issueSearchShape = {
+  teamId: z.string().describe("Linear team ID"),
+  query: z
+    .string()
+    .optional()
+    .describe("Search query (searches in title and description)"),
+  labelNames: z.array(z.string()).optional().describe("Filter by label names"),
+  projectId: z.string().optional().describe("Filter by project ID"),
+  stateType: z
+    .string()
+    .optional()
+    .describe("Filter by state type: started, unstarted, completed, canceled"),
+};
+
+/**
+ * Pages over a team's mirrored issues, newest first, with their state
+ * resolved like the SDK's
+ */
+async function mirroredIssues(
+  mirrorCache: TeamMirrorCache,
+  teamId: string,
+  select: (issue: MirrorIssue) => boolean,
+): Promise<PageFetcher<MirrorIssue & { state?: MirrorState }>> {
+  const mirror = await mirrorCache.get(teamId);
+  return arrayPageFetcher(
+    mirror.issues
+      .filter(select)
+      .sort((a, b) => b.createdAt.localeCompare(a.createdAt))
+      .map((issue) => ({ ...issue, state: mirror.state(issue) ?? undefined })),
+  );
+}
+
+/**
+ * Move issues into a cycle, or out of whatever cycle they are in
+ */
+async function setIssuesCycle(
+  cycleId: string | null,
+  issueIds: string[],
+): Promise<ToolResult> {
+  if (cycleId) {
+    // Fail early on a bad cycle id instead of once per issue
+    await linear.cycle(cycleId);
+  }
+
+  const updated: string[] = [];
+  const failed: Array<{ issueId: string; error: string }> = [];
+
+  for (const issueId of issueIds) {
+    try {
+      await linear.updateIssue(issueId, { cycleId });
+      updated.push(issueId);
+    } catch (error: any) {
+      failed.push({ issueId, error: error.message });
+    }
+  }
 
-server.setRequestHandler(ListToolsRequestSchema, async () => {
   return {
-    tools: [
+    content: [
       {
-        name: "create_linear_issue",
-        description:
-          "Create a new issue in Linear. Returns the created issue ID and URL.",
-        inputSchema: {
-          type: "object",
-          properties: {
-            teamId: {
-              type: "string",
-              description: "Linear team ID (e.g., from LINEAR_TEAM_ID env var)",
-            },
-            title: {
-              type: "string",
-              description: "Issue title",
-            },
-            description: {
-              type: "string",
-              description: "Issue description in markdown format",
-            },
-            priority: {
-              type: "number",
-              description:
-                "Priority: 0=None, 1=Low, 2=Medium, 3=High, 4=Urgent",
-              minimum: 0,
-              maximum: 4,
-            },
-            labels: {
-              type: "array",
-              items: { type: "string" },
-              description: "Array of label names to add to the issue",
-            },
-            projectId: {
-              type: "string",
-              description: "Optional project ID to assign the issue to",
-            },
+        type: "text",
+        text: JSON.stringify(
+          {
+            success: failed.length === 0,
+            updated,
+            failed,
+            message: `${cycleId ? "Added" : "Removed"} ${updated.length} of ${issueIds.length} issue(s) ${cycleId ? "to" : "from"} cycle`,
           },
-          required: ["teamId", "title"],
-        },
-      },
-      {
-        name: "list_linear_teams",
-        description:
-          "List all available Linear teams. Returns team IDs, names, and keys.",
-        inputSchema: {
-          type: "object",
-          properties: {},
-        },
+          null,
+          2,
+        ),
       },
-      {
-        name: "get_team_issues",
-        description:
-          "Get all issues for a specific team. Optionally filter by project.",
-        inputSchema: {
-          type: "object",
-          properties: {
-            teamId: {
-              type: "string",
-              description: "Linear team ID",
-            },
-            projectId: {
-              type: "string",
-              description: "Optional: filter by project ID",
-            },
-            limit: {
-              type: "number",
-              description: "Maximum number of issues to return (default: 50)",
-              default: 50,
-            },
+    ],
+  };
+}
+
+const tools: ToolDefinition[] = [
+  defineTool({
+    name: "create_linear_issue",
+    description:
+      "Create a new issue in Linear. Returns the created issue ID and URL.",
+    schema: z.object({
+      teamId: z
+        .string()
+        .describe("Linear team ID (e.g., from LINEAR_TEAM_ID env var)"),
+      title: z.string().describe("Issue title"),
+      description: z
+        .string()
+        .optional()
+        .describe("Issue description in markdown format"),
+      priority: z
+        .number()
+        .min(0)
+        .max(4)
+        .default(2)
+        .describe("Priority: 0=None, 1=Low, 2=Medium, 3=High, 4=Urgent"),
+      labels: z
+        .array(z.string())
+        .default([])
+        .describe("Array of label names to add to the issue"),
+      projectId: z
+        .string()
+        .optional()
+        .describe("Optional project ID to assign the issue to"),
+      parentId: z
+        .string()
+        .optional()
+        .describe(
+          "Optional parent issue ID - creates this issue as a sub-issue",
+        ),
+    }),
+    handler: async ({
+      teamId,
+      title,
+      description,
+      priority,
+      labels,
+      projectId,
+      parentId,
+    }) => {
+      // CRITICAL: Auto-add repo label (glenn-frank/team-name) to every issue
+      const team = await linear.team(teamId);
+      const repoLabel = `glenn-frank/${team.name.toLowerCase().replace(/\s+/g, "-")}`;
+
+      // Combine user labels + repo label
+      const allLabels = [...labels, repoLabel];
+
+      const labelIds: string[] = [];
+      for (const labelName of allLabels) {
+        const labelsQuery = await linear.issueLabels({
+          filter: {
+            name: { eq: labelName },
+            team: { id: { eq: teamId } },
           },
-          required: ["teamId"],
-        },
-      },
-      {
-        name: "create_bulk_issues",
-        description:
-          "Create multiple issues at once from an array of issue data. Useful for creating issues from requirements or analysis.",
-        inputSchema: {
-          type: "object",
-          properties: {
-            teamId: {
-              type: "string",
-              description: "Linear team ID",
-            },
-            issues: {
-              type: "array",
-              items: {
-                type: "object",
-                properties: {
-                  title: { type: "string" },
-                  description: { type: "string" },
-                  priority: { type: "number", minimum: 0, maximum: 4 },
-                  labels: { type: "array", items: { type: "string" } },
-                },
-                required: ["title"],
+        });
+
+        let labelId: string | undefined = labelsQuery.nodes[0]?.id;
+
+        if (!labelId) {
+          const newLabel = await linear.createIssueLabel({
+            name: labelName,
+            teamId: teamId,
+          });
+          labelId = newLabel.issueLabelId;
+        }
+
+        if (labelId) {
+          labelIds.push(labelId);
+        }
+      }
+
+      const issueData: any = {
+        teamId,
+        title,
+        description,
+        priority,
+      };
+
+      if (labelIds.length > 0) {
+        issueData.labelIds = labelIds;
+      }
+
+      if (projectId) {
+        issueData.projectId = projectId;
+      }
+
+      if (parentId) {
+        issueData.parentId = parentId;
+      }
+
+      const issuePayload = await linear.createIssue(issueData);
+
+      if (!issuePayload.success) {
+        throw new Error("Failed to create issue");
+      }
+
+      // Try to fetch the created issue details, with fallback
+      let issueDetails;
+      try {
+        issueDetails = await issuePayload.issue;
+      } catch (fetchError) {
+        // If fetching fails, query for the issue directly
+        const lastIssueId = (issuePayload as any).lastSyncId;
+        if (lastIssueId) {
+          issueDetails = await linear.issue(lastIssueId);
+        }
+      }
+
+      return {
+        content: [
+          {
+            type: "text",
+            text: JSON.stringify(
+              {
+                success: true,
+                issueId: issueDetails?.id,
+                issueNumber: issueDetails?.number,
+                url: issueDetails?.url,
+                title: issueDetails?.title || title,
+                parentId: parentId ?? null,
               },
-              description: "Array of issues to create",
-            },
-          },
-          required: ["teamId", "issues"],
-        },
-      },
-      {
-        name: "parse_requirements_to_issues",
-        description:
-          "Parse a requirements document and create structured Linear issues with AI. Returns created issue IDs.",
-        inputSchema: {
-          type: "object",
-          properties: {
-            teamId: {
-              type: "string",
-              description: "Linear team ID",
-            },
-            requirementsText: {
-              type: "string",
-              description: "Requirements document text to parse",
-            },
-            projectId: {
-              type: "string",
-              description: "Optional: project ID to assign issues to",
-            },
-          },
-          required: ["teamId", "requirementsText"],
-        },
-      },
-      {
-        name: "get_team_projects",
-        description: "List all projects for a specific team.",
-        inputSchema: {
-          type: "object",
-          properties: {
-            teamId: {
-              type: "string",
-              description: "Linear team ID",
-            },
-          },
-          required: ["teamId"],
-        },
-      },
-      {
-        name: "get_team_labels",
-        description: "List all labels for a specific team.",
-        inputSchema: {
-          type: "object",
-          properties: {
-            teamId: {
-              type: "string",
-              description: "Linear team ID",
-            },
-          },
-          required: ["teamId"],
-        },
-      },
-      {
-        name: "find_orphan_issues",
-        description:
-          "Find all issues in a team that are not assigned to any project.",
-        inputSchema: {
-          type: "object",
-          properties: {
-            teamId: {
-              type: "string",
-              description: "Linear team ID",
-            },
-          },
-          required: ["teamId"],
-        },
-      },
-      {
-        name: "update_issue",
-        description:
-          "Update an existing Linear issue. Can modify title, description, priority, state, labels, assignee, or project.",
-        inputSchema: {
-          type: "object",
-          properties: {
-            issueId: {
-              type: "string",
-              description: "Linear issue ID to update",
-            },
-            title: {
-              type: "string",
-              description: "New title for the issue",
-            },
-            description: {
-              type: "string",
-              description: "New description for the issue",
-            },
-            priority: {
-              type: "number",
-              description: "New priority (0-4)",
-              minimum: 0,
-              maximum: 4,
-            },
-            stateId: {
-              type: "string",
-              description: "New state ID (e.g., for moving to In Progress)",
-            },
-            labelIds: {
-              type: "array",
-              items: { type: "string" },
-              description: "Array of label IDs to set (replaces existing)",
-            },
-            assigneeId: {
-              type: "string",
-              description: "User ID to assign the issue to",
-            },
-            projectId: {
-              type: "string",
-              description: "Project ID to assign the issue to",
-            },
-          },
-          required: ["issueId"],
-        },
-      },
-      {
-        name: "add_issue_comment",
-        description: "Add a comment to an existing Linear issue.",
-        inputSchema: {
-          type: "object",
-          properties: {
-            issueId: {
-              type: "string",
-              description: "Linear issue ID",
-            },
-            body: {
-              type: "string",
-              description: "Comment text (markdown supported)",
-            },
-          },
-          required: ["issueId", "body"],
-        },
-      },
-      {
-        name: "get_issue_by_id",
-        description:
-          "Get detailed information about a specific Linear issue by its ID.",
-        inputSchema: {
-          type: "object",
-          properties: {
-            issueId: {
-              type: "string",
-              description: "Linear issue ID",
-            },
-          },
-          required: ["issueId"],
-        },
-      },
-      {
-        name: "search_issues",
-        description:
-          "Search for issues in a team by keyword, label, or other criteria.",
-        inputSchema: {
-          type: "object",
-          properties: {
-            teamId: {
-              type: "string",
-              description: "Linear team ID",
-            },
-            query: {
-              type: "string",
-              description: "Search query (searches in title and description)",
-            },
-            labelNames: {
-              type: "array",
-              items: { type: "string" },
-              description: "Filter by label names",
-            },
-            projectId: {
-              type: "string",
-              description: "Filter by project ID",
-            },
-            stateType: {
-              type: "string",
-              description:
-                "Filter by state type: started, unstarted, completed, canceled",
-            },
-            limit: {
-              type: "number",
-              description: "Maximum number of results (default: 50)",
-              default: 50,
-            },
-          },
-          required: ["teamId"],
-        },
-      },
-      {
-        name: "add_labels_to_issue",
-        description: "Add labels to an existing issue (keeps existing labels).",
-        inputSchema: {
-          type: "object",
-          properties: {
-            issueId: {
-              type: "string",
-              description: "Linear issue ID",
-            },
-            teamId: {
-              type: "string",
-              description: "Team ID (needed to find/create labels)",
-            },
-            labelNames: {
-              type: "array",
-              items: { type: "string" },
-              description: "Array of label names to add",
-            },
-          },
-          required: ["issueId", "teamId", "labelNames"],
-        },
-      },
-      {
-        name: "assign_issue",
-        description: "Assign an issue to a team member.",
-        inputSchema: {
-          type: "object",
-          properties: {
-            issueId: {
-              type: "string",
-              description: "Linear issue ID",
-            },
-            assigneeId: {
-              type: "string",
-              description: "User ID to assign to (or null to unassign)",
-            },
-          },
-          required: ["issueId"],
-        },
-      },
-      {
-        name: "link_issues",
-        description:
-          "Create a dependency relationship between issues. Use 'blocks' when issueId must be completed BEFORE relatedIssueId can start. Use 'related' for non-blocking relationships. Use 'duplicate' to mark duplicates.",
-        inputSchema: {
-          type: "object",
-          properties: {
-            issueId: {
-              type: "string",
-              description:
-                "The issue ID that blocks or relates to another issue",
-            },
-            relatedIssueId: {
-              type: "string",
-              description: "The issue ID that is blocked or related",
-            },
-            relationshipType: {
-              type: "string",
-              description:
-                "Relationship type:\n- 'blocks': issueId must be done BEFORE relatedIssueId\n- 'related': Issues are related but not blocking\n- 'duplicate': Issues are duplicates",
-              enum: ["blocks", "related", "duplicate"],
-              default: "blocks",
-            },
-          },
-          required: ["issueId", "relatedIssueId"],
-        },
-      },
-      {
-        name: "close_issue",
-        description:
-          "Close or complete an issue (moves to completed/canceled state).",
-        inputSchema: {
-          type: "object",
-          properties: {
-            issueId: {
-              type: "string",
-              description: "Linear issue ID",
-            },
-            completed: {
-              type: "boolean",
-              description:
-                "True to mark as completed, false to mark as canceled (default: true)",
-              default: true,
-            },
-          },
-          required: ["issueId"],
-        },
-      },
-      {
-        name: "create_project",
-        description: "Create a new project in Linear.",
-        inputSchema: {
-          type: "object",
-          properties: {
-            teamId: {
-              type: "string",
-              description: "Team ID to create the project in",
-            },
-            name: {
-              type: "string",
-              description: "Project name",
-            },
-            description: {
-              type: "string",
-              description: "Project description",
-            },
-            state: {
-              type: "string",
-              description:
-                "Project state: planned, started, completed, canceled",
-              enum: ["planned", "started", "completed", "canceled"],
-              default: "planned",
-            },
-          },
-          required: ["teamId", "name"],
-        },
-      },
-      {
-        name: "check_issue_blockers",
-        description:
-          "ALWAYS use this before starting work on an issue. Checks if an issue has any blocking dependencies that must be completed first. Returns whether the issue is safe to start and lists all blockers.",
-        inputSchema: {
-          type: "object",
-          properties: {
-            issueId: {
-              type: "string",
-              description: "Issue ID to check for blockers",
-            },
+              null,
+              2,
+            ),
           },
-          required: ["issueId"],
-        },
-      },
-      {
-        name: "get_next_available_issues",
-        description:
-          "Get all issues that are ready to work on (have no incomplete blockers). Use this to find what work can be started immediately without dependency issues.",
-        inputSchema: {
-          type: "object",
-          properties: {
-            teamId: {
-              type: "string",
-              description: "Team ID to search in",
-            },
-            projectId: {
-              type: "string",
-              description: "Optional: filter by specific project",
-            },
-            limit: {
-              type: "number",
-              description: "Maximum number of issues to return (default: 20)",
-              default: 20,
-            },
-          },
-          required: ["teamId"],
-        },
-      },
-      {
-        name: "get_issue_dependencies",
-        description:
-          "Get the complete dependency chain for an issue. Shows what must be completed before this issue, and what depends on this issue. Use this to understand the full context and order of work.",
-        inputSchema: {
-          type: "object",
-          properties: {
-            issueId: {
-              type: "string",
-              description: "Issue ID to get dependencies for",
-            },
+        ],
+      };
+    },
+  }),
+  defineTool({
+    name: "list_linear_teams",
+    description:
+      "List all available Linear teams. Returns team IDs, names, and keys.",
+    readOnly: true,
+    schema: z.object({}),
+    handler: async (_args, { policy }) => {
+      const teams = await linear.teams();
+      const teamList = teams.nodes
+        .filter((team) => !policy || inAllowedTeams(policy, [team]))
+        .map((team) => ({
+          id: team.id,
+          name: team.name,
+          key: team.key,
+        }));
+
+      return {
+        content: [
+          {
+            type: "text",
+            text: JSON.stringify(
+              {
+                success: true,
+                teams: teamList,
+                count: teamList.length,
+              },
+              null,
+              2,
+            ),
           },
-          required: ["issueId"],
-        },
-      },
-      {
-        name: "create_issues_with_dependencies",
-        description:
-          "Create multiple issues and automatically set up their dependencies in the correct order. ALWAYS use this when creating related issues that must be done in sequence. Provide issues array where each issue can reference others by their index in the array.",
-        inputSchema: {
-          type: "object",
-          properties: {
-            teamId: {
-              type: "string",
-              description: "Team ID",
-            },
-            projectId: {
-              type: "string",
-              description: "Optional: Project ID to assign all issues to",
-            },
-            issues: {
-              type: "array",
-              items: {
-                type: "object",
-                properties: {
-                  title: { type: "string" },
-                  description: { type: "string" },
-                  priority: { type: "number", minimum: 0, maximum: 4 },
-                  labels: { type: "array", items: { type: "string" } },
-                  blockedBy: {
-                    type: "array",
-                    items: { type: "number" },
-                    description:
-                      "Array of issue indexes from this array that must be completed first (0-based)",
-                  },
-                },
-                required: ["title"],
+        ],
+      };
+    },
+  }),
+  defineTool({
+    name: "get_team_issues",
+    description:
+      "Get issues for a specific team, one page at a time. Optionally filter by project. Pass pageInfo.endCursor back as 'after' to get the next page, or set fetchAll to get every issue.",
+    readOnly: true,
+    schema: z.object({
+      teamId: z.string().describe("Linear team ID"),
+      projectId: z
+        .string()
+        .optional()
+        .describe("Optional: filter by project ID"),
+      limit: z
+        .number()
+        .default(50)
+        .describe("Maximum number of issues per page (default: 50, max: 250)"),
+      ...paginationShape,
+    }),
+    handler: async ({
+      teamId,
+      projectId,
+      limit,
+      after,
+      fetchAll,
+      maxResults,
+    }) => {
+      const filter: any = {
+        team: { id: { eq: teamId } },
+      };
+
+      if (projectId) {
+        filter.project = { id: { eq: projectId } };
+      }
+
+      const request = { after, limit, fetchAll, maxResults };
+      const issues = mirrors
+        ? await fetchPaginated(
+            await mirroredIssues(
+              mirrors,
+              teamId,
+              (issue) => !projectId || issue.projectId === projectId,
+            ),
+            request,
+            50,
+          )
+        : await fetchPaginated(
+            (page) => linear.issues({ filter, ...page }),
+            request,
+            50,
+          );
+
+      const issueList = await Promise.all(
+        issues.nodes.map(async (issue) => {
+          const state = await issue.state;
+          return {
+            id: issue.id,
+            number: issue.number,
+            title: issue.title,
+            description: issue.description,
+            priority: issue.priority,
+            state: state?.name,
+            url: issue.url,
+          };
+        }),
+      );
+
+      return {
+        content: [
+          {
+            type: "text",
+            text: JSON.stringify(
+              {
+                success: true,
+                issues: issueList,
+                count: issueList.length,
+                pageInfo: issues.pageInfo,
+                truncated: issues.truncated,
               },
-              description:
-                "Array of issues. Use blockedBy to reference other issues by their array index.",
-            },
+              null,
+              2,
+            ),
           },
-          required: ["teamId", "issues"],
-        },
-      },
-    ],
-  };
-});
+        ],
+      };
+    },
+  }),
+  defineTool({
+    name: "create_bulk_issues",
+    description:
+      "Create multiple issues at once from an array of issue data. Useful for creating issues from requirements or analysis. Pass parentId to create them all as sub-issues of an existing issue.",
+    schema: z.object({
+      teamId: z.string().describe("Linear team ID"),
+      parentId: z
+        .string()
+        .optional()
+        .describe(
+          "Optional parent issue ID for every issue that doesn't set its own",
+        ),
+      issues: z
+        .array(
+          z.object({
+            title: z.string(),
+            description: z.string().optional(),
+            priority: z.number().min(0).max(4).optional(),
+            labels: z.array(z.string()).optional(),
+            parentId: z
+              .string()
+              .optional()
+              .describe("Parent issue ID for this issue"),
+          }),
+        )
+        .describe("Array of issues to create"),
+    }),
+    handler: async ({ teamId, issues, parentId: defaultParentId }) => {
+      // CRITICAL: Auto-add repo label to all issues
+      const team = await linear.team(teamId);
+      const repoLabel = `glenn-frank/${team.name.toLowerCase().replace(/\s+/g, "-")}`;
 
-server.setRequestHandler(CallToolRequestSchema, async (request) => {
-  const { name, arguments: args } = request.params;
+      const createdIssues = [];
 
-  try {
-    switch (name) {
-      case "create_linear_issue": {
+      for (const issueData of issues) {
         const {
-          teamId,
           title,
           description,
           priority = 2,
           labels = [],
-          projectId,
-        } = args as any;
-
-        // CRITICAL: Auto-add repo label (glenn-frank/team-name) to every issue
-        const team = await linear.team(teamId);
-        const repoLabel = `glenn-frank/${team.name.toLowerCase().replace(/\s+/g, "-")}`;
+          parentId = defaultParentId,
+        } = issueData;
 
-        // Combine user labels + repo label
+        // Add repo label to this issue's labels
         const allLabels = [...labels, repoLabel];
 
         const labelIds: string[] = [];
@@ -568,14 +545,14 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
             },
           });
 
-          let labelId = labelsQuery.nodes[0]?.id;
+          let labelId: string | undefined = labelsQuery.nodes[0]?.id;
 
           if (!labelId) {
             const newLabel = await linear.createIssueLabel({
               name: labelName,
               teamId: teamId,
             });
-            labelId = newLabel.id;
+            labelId = newLabel.issueLabelId;
           }
 
           if (labelId) {
@@ -583,559 +560,86 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
           }
         }
 
-        const issueData: any = {
+        const issuePayload = await linear.createIssue({
           teamId,
           title,
           description,
           priority,
-        };
-
-        if (labelIds.length > 0) {
-          issueData.labelIds = labelIds;
-        }
-
-        if (projectId) {
-          issueData.projectId = projectId;
-        }
-
-        const issuePayload = await linear.createIssue(issueData);
+          labelIds: labelIds.length > 0 ? labelIds : undefined,
+          parentId,
+        });
 
         if (!issuePayload.success) {
-          throw new Error("Failed to create issue");
+          console.error(`Failed to create issue: ${title}`);
+          continue;
         }
 
-        // Try to fetch the created issue details, with fallback
-        let issueDetails;
+        let issue;
         try {
-          issueDetails = await issuePayload.issue;
+          issue = await issuePayload.issue;
         } catch (fetchError) {
-          // If fetching fails, query for the issue directly
           const lastIssueId = (issuePayload as any).lastSyncId;
           if (lastIssueId) {
-            issueDetails = await linear.issue(lastIssueId);
+            issue = await linear.issue(lastIssueId);
           }
         }
 
-        return {
-          content: [
-            {
-              type: "text",
-              text: JSON.stringify(
-                {
-                  success: true,
-                  issueId: issueDetails?.id,
-                  issueNumber: issueDetails?.number,
-                  url: issueDetails?.url,
-                  title: issueDetails?.title || title,
-                },
-                null,
-                2,
-              ),
-            },
-          ],
-        };
-      }
-
-      case "list_linear_teams": {
-        const teams = await linear.teams();
-        const teamList = teams.nodes.map((team) => ({
-          id: team.id,
-          name: team.name,
-          key: team.key,
-        }));
+        if (!issue) {
+          console.error(`Failed to fetch created issue: ${title}`);
+          continue;
+        }
 
-        return {
-          content: [
-            {
-              type: "text",
-              text: JSON.stringify(
-                {
-                  success: true,
-                  teams: teamList,
-                  count: teamList.length,
-                },
-                null,
-                2,
-              ),
-            },
-          ],
-        };
-      }
-
-      case "get_team_issues": {
-        const { teamId, projectId, limit = 50 } = args as any;
-
-        const filter: any = {
-          team: { id: { eq: teamId } },
-        };
-
-        if (projectId) {
-          filter.project = { id: { eq: projectId } };
-        }
-
-        const issues = await linear.issues({ filter, first: limit });
-
-        const issueList = issues.nodes.map((issue) => ({
+        createdIssues.push({
           id: issue.id,
           number: issue.number,
-          title: issue.title,
-          description: issue.description,
-          priority: issue.priority,
-          state: issue.state?.name,
-          url: issue.url,
-        }));
-
-        return {
-          content: [
-            {
-              type: "text",
-              text: JSON.stringify(
-                {
-                  success: true,
-                  issues: issueList,
-                  count: issueList.length,
-                },
-                null,
-                2,
-              ),
-            },
-          ],
-        };
-      }
-
-      case "create_bulk_issues": {
-        const { teamId, issues } = args as any;
-
-        // CRITICAL: Auto-add repo label to all issues
-        const team = await linear.team(teamId);
-        const repoLabel = `glenn-frank/${team.name.toLowerCase().replace(/\s+/g, "-")}`;
-
-        const createdIssues = [];
-
-        for (const issueData of issues) {
-          const { title, description, priority = 2, labels = [] } = issueData;
-
-          // Add repo label to this issue's labels
-          const allLabels = [...labels, repoLabel];
-
-          const labelIds: string[] = [];
-          for (const labelName of allLabels) {
-            const labelsQuery = await linear.issueLabels({
-              filter: {
-                name: { eq: labelName },
-                team: { id: { eq: teamId } },
-              },
-            });
-
-            let labelId = labelsQuery.nodes[0]?.id;
-
-            if (!labelId) {
-              const newLabel = await linear.createIssueLabel({
-                name: labelName,
-                teamId: teamId,
-              });
-              labelId = newLabel.id;
-            }
-
-            if (labelId) {
-              labelIds.push(labelId);
-            }
-          }
-
-          const issuePayload = await linear.createIssue({
-            teamId,
-            title,
-            description,
-            priority,
-            labelIds: labelIds.length > 0 ? labelIds : undefined,
-          });
-
-          if (!issuePayload.success) {
-            console.error(`Failed to create issue: ${title}`);
-            continue;
-          }
-
-          let issue;
-          try {
-            issue = await issuePayload.issue;
-          } catch (fetchError) {
-            const lastIssueId = (issuePayload as any).lastSyncId;
-            if (lastIssueId) {
-              issue = await linear.issue(lastIssueId);
-            }
-          }
-
-          if (!issue) {
-            console.error(`Failed to fetch created issue: ${title}`);
-            continue;
-          }
-
-          createdIssues.push({
-            id: issue.id,
-            number: issue.number,
-            title: issue.title,
-            url: issue.url,
-          });
-        }
-
-        return {
-          content: [
-            {
-              type: "text",
-              text: JSON.stringify(
-                {
-                  success: true,
-                  created: createdIssues,
-                  count: createdIssues.length,
-                },
-                null,
-                2,
-              ),
-            },
-          ],
-        };
-      }
-
-      case "parse_requirements_to_issues": {
-        if (!OPENAI_API_KEY) {
-          return {
-            content: [
-              {
-                type: "text",
-                text: JSON.stringify(
-                  {
-                    success: false,
-                    error: "OPENAI_API_KEY is required for AI-powered parsing",
-                  },
-                  null,
-                  2,
-                ),
-              },
-            ],
-          };
-        }
-
-        const { teamId, requirementsText, projectId } = args as any;
-
-        // CRITICAL: Auto-add repo label to all issues
-        const team = await linear.team(teamId);
-        const repoLabel = `glenn-frank/${team.name.toLowerCase().replace(/\s+/g, "-")}`;
-
-        const prompt = `Parse this requirements document and extract actionable issues. Return a JSON array of issues with this structure:
-[
-  {
-    "title": "Issue title",
-    "description": "Detailed description",
-    "priority": 2,
-    "labels": ["feature", "backend"]
-  }
-]
-
-Requirements:
-${requirementsText}
-
-Return ONLY the JSON array, no other text.`;
-
-        const response = await axios.post(
-          "https://api.openai.com/v1/chat/completions",
-          {
-            model: "gpt-4o-mini",
-            messages: [
-              {
-                role: "system",
-                content:
-                  "You are a technical project manager that extracts actionable issues from requirements.",
-              },
-              { role: "user", content: prompt },
-            ],
-            temperature: 0.2,
-          },
-          {
-            headers: {
-              Authorization: `Bearer ${OPENAI_API_KEY}`,
-              "Content-Type": "application/json",
-            },
-          },
-        );
-
-        const aiResponse = response.data.choices?.[0]?.message?.content;
-        const issues = JSON.parse(aiResponse);
-
-        const createdIssues = [];
-
-        for (const issueData of issues) {
-          const { title, description, priority = 2, labels = [] } = issueData;
-
-          // Add repo label to this issue's labels
-          const allLabels = [...labels, repoLabel];
-
-          const labelIds: string[] = [];
-          for (const labelName of allLabels) {
-            const labelsQuery = await linear.issueLabels({
-              filter: {
-                name: { eq: labelName },
-                team: { id: { eq: teamId } },
-              },
-            });
-
-            let labelId = labelsQuery.nodes[0]?.id;
-
-            if (!labelId) {
-              const newLabel = await linear.createIssueLabel({
-                name: labelName,
-                teamId: teamId,
-              });
-              labelId = newLabel.id;
-            }
-
-            if (labelId) {
-              labelIds.push(labelId);
-            }
-          }
-
-          const issuePayload: any = {
-            teamId,
-            title,
-            description,
-            priority,
-          };
-
-          if (labelIds.length > 0) {
-            issuePayload.labelIds = labelIds;
-          }
-
-          if (projectId) {
-            issuePayload.projectId = projectId;
-          }
-
-          const issueResponse = await linear.createIssue(issuePayload);
-
-          if (!issueResponse.success) {
-            console.error(`Failed to create issue: ${title}`);
-            continue;
-          }
-
-          let issue;
-          try {
-            issue = await issueResponse.issue;
-          } catch (fetchError) {
-            const lastIssueId = (issueResponse as any).lastSyncId;
-            if (lastIssueId) {
-              issue = await linear.issue(lastIssueId);
-            }
-          }
-
-          if (!issue) {
-            console.error(`Failed to fetch created issue: ${title}`);
-            continue;
-          }
-
-          createdIssues.push({
-            id: issue.id,
-            number: issue.number,
-            title: issue.title,
-            url: issue.url,
-          });
-        }
-
-        return {
-          content: [
-            {
-              type: "text",
-              text: JSON.stringify(
-                {
-                  success: true,
-                  created: createdIssues,
-                  count: createdIssues.length,
-                },
-                null,
-                2,
-              ),
-            },
-          ],
-        };
-      }
-
-      case "get_team_projects": {
-        const { teamId } = args as any;
-
-        const team = await linear.team(teamId);
-        const projects = await team.projects();
-
-        const projectList = projects.nodes.map((project) => ({
-          id: project.id,
-          name: project.name,
-          description: project.description,
-          state: project.state,
-        }));
-
-        return {
-          content: [
-            {
-              type: "text",
-              text: JSON.stringify(
-                {
-                  success: true,
-                  projects: projectList,
-                  count: projectList.length,
-                },
-                null,
-                2,
-              ),
-            },
-          ],
-        };
-      }
-
-      case "get_team_labels": {
-        const { teamId } = args as any;
-
-        const labels = await linear.issueLabels({
-          filter: {
-            team: { id: { eq: teamId } },
-          },
-        });
-
-        const labelList = labels.nodes.map((label) => ({
-          id: label.id,
-          name: label.name,
-          color: label.color,
-        }));
-
-        return {
-          content: [
-            {
-              type: "text",
-              text: JSON.stringify(
-                {
-                  success: true,
-                  labels: labelList,
-                  count: labelList.length,
-                },
-                null,
-                2,
-              ),
-            },
-          ],
-        };
-      }
-
-      case "find_orphan_issues": {
-        const { teamId } = args as any;
-
-        const issues = await linear.issues({
-          filter: {
-            team: { id: { eq: teamId } },
-            project: { null: true },
-          },
-          first: 100,
-        });
-
-        const orphanList = issues.nodes.map((issue) => ({
-          id: issue.id,
-          number: issue.number,
-          title: issue.title,
-          priority: issue.priority,
-          url: issue.url,
-        }));
-
-        return {
-          content: [
-            {
-              type: "text",
-              text: JSON.stringify(
-                {
-                  success: true,
-                  orphans: orphanList,
-                  count: orphanList.length,
-                },
-                null,
-                2,
-              ),
-            },
-          ],
-        };
-      }
-
-      case "update_issue": {
-        const { issueId, ...updateData } = args as any;
-
-        const issue = await linear.updateIssue(issueId, updateData);
-
-        return {
-          content: [
-            {
-              type: "text",
-              text: JSON.stringify(
-                {
-                  success: true,
-                  message: "Issue updated successfully",
-                  issueId: issue.id,
-                },
-                null,
-                2,
-              ),
-            },
-          ],
-        };
-      }
-
-      case "add_issue_comment": {
-        const { issueId, body } = args as any;
-
-        const comment = await linear.createComment({
-          issueId,
-          body,
-        });
-
-        return {
-          content: [
-            {
-              type: "text",
-              text: JSON.stringify(
-                {
-                  success: true,
-                  message: "Comment added successfully",
-                  commentId: comment.id,
-                },
-                null,
-                2,
-              ),
-            },
-          ],
-        };
+          title: issue.title,
+          url: issue.url,
+          parentId: parentId ?? null,
+        });
       }
 
-      case "get_issue_by_id": {
-        const { issueId } = args as any;
-
-        const issue = await linear.issue(issueId);
-        const state = await issue.state;
-        const labels = await issue.labels();
-        const assignee = await issue.assignee;
-        const project = await issue.project;
-
+      return {
+        content: [
+          {
+            type: "text",
+            text: JSON.stringify(
+              {
+                success: true,
+                created: createdIssues,
+                count: createdIssues.length,
+              },
+              null,
+              2,
+            ),
+          },
+        ],
+      };
+    },
+  }),
+  defineTool({
+    name: "parse_requirements_to_issues",
+    description:
+      "Parse a requirements document and create structured Linear issues with AI. Returns created issue IDs.",
+    schema: z.object({
+      teamId: z.string().describe("Linear team ID"),
+      requirementsText: z
+        .string()
+        .describe("Requirements document text to parse"),
+      projectId: z
+        .string()
+        .optional()
+        .describe("Optional: project ID to assign issues to"),
+    }),
+    handler: async ({ teamId, requirementsText, projectId }) => {
+      if (!OPENAI_API_KEY) {
         return {
           content: [
             {
               type: "text",
               text: JSON.stringify(
                 {
-                  success: true,
-                  issue: {
-                    id: issue.id,
-                    number: issue.number,
-                    title: issue.title,
-                    description: issue.description,
-                    priority: issue.priority,
-                    state: state?.name,
-                    url: issue.url,
-                    labels: labels.nodes.map((l) => l.name),
-                    assignee: assignee?.name,
-                    project: project?.name,
-                    createdAt: issue.createdAt,
-                    updatedAt: issue.updatedAt,
-                  },
+                  success: false,
+                  error: "OPENAI_API_KEY is required for AI-powered parsing",
                 },
                 null,
                 2,
@@ -1145,86 +649,60 @@ Return ONLY the JSON array, no other text.`;
         };
       }
 
-      case "search_issues": {
-        const {
-          teamId,
-          query,
-          labelNames,
-          projectId,
-          stateType,
-          limit = 50,
-        } = args as any;
-
-        const filter: any = {
-          team: { id: { eq: teamId } },
-        };
-
-        if (query) {
-          filter.or = [
-            { title: { containsIgnoreCase: query } },
-            { description: { containsIgnoreCase: query } },
-          ];
-        }
-
-        if (labelNames && labelNames.length > 0) {
-          filter.labels = { some: { name: { in: labelNames } } };
-        }
+      // CRITICAL: Auto-add repo label to all issues
+      const team = await linear.team(teamId);
+      const repoLabel = `glenn-frank/${team.name.toLowerCase().replace(/\s+/g, "-")}`;
 
-        if (projectId) {
-          filter.project = { id: { eq: projectId } };
-        }
+      const prompt = `Parse this requirements document and extract actionable issues. Return a JSON array of issues with this structure:
+[
+  {
+    "title": "Issue title",
+    "description": "Detailed description",
+    "priority": 2,
+    "labels": ["feature", "backend"]
+  }
+]
 
-        if (stateType) {
-          filter.state = { type: { eq: stateType } };
-        }
+Requirements:
+${requirementsText}
 
-        const issues = await linear.issues({ filter, first: limit });
-
-        const issueList = await Promise.all(
-          issues.nodes.map(async (issue) => {
-            const state = await issue.state;
-            const labels = await issue.labels();
-            return {
-              id: issue.id,
-              number: issue.number,
-              title: issue.title,
-              description: issue.description,
-              priority: issue.priority,
-              state: state?.name,
-              url: issue.url,
-              labels: labels.nodes.map((l) => l.name),
-            };
-          }),
-        );
+Return ONLY the JSON array, no other text.`;
 
-        return {
-          content: [
+      const response = await http.post(
+        "https://api.openai.com/v1/chat/completions",
+        {
+          model: "gpt-4o-mini",
+          messages: [
             {
-              type: "text",
-              text: JSON.stringify(
-                {
-                  success: true,
-                  issues: issueList,
-                  count: issueList.length,
-                },
-                null,
-                2,
-              ),
+              role: "system",
+              content:
+                "You are a technical project manager that extracts actionable issues from requirements.",
             },
+            { role: "user", content: prompt },
           ],
-        };
-      }
+          temperature: 0.2,
+        },
+        {
+          headers: {
+            Authorization: `Bearer ${OPENAI_API_KEY}`,
+            "Content-Type": "application/json",
+          },
+        },
+      );
 
-      case "add_labels_to_issue": {
-        const { issueId, teamId, labelNames } = args as any;
+      const aiResponse = response.data.choices?.[0]?.message?.content;
+      const issues = JSON.parse(aiResponse);
 
-        const issue = await linear.issue(issueId);
-        const existingLabels = await issue.labels();
-        const existingLabelIds = existingLabels.nodes.map((l) => l.id);
+      const createdIssues = [];
 
-        const newLabelIds: string[] = [];
+      for (const issueData of issues) {
+        const { title, description, priority = 2, labels = [] } = issueData;
 
-        for (const labelName of labelNames) {
+        // Add repo label to this issue's labels
+        const allLabels = [...labels, repoLabel];
+
+        const labelIds: string[] = [];
+        for (const labelName of allLabels) {
           const labelsQuery = await linear.issueLabels({
             filter: {
               name: { eq: labelName },
@@ -1232,88 +710,774 @@ Return ONLY the JSON array, no other text.`;
             },
           });
 
-          let labelId = labelsQuery.nodes[0]?.id;
+          let labelId: string | undefined = labelsQuery.nodes[0]?.id;
 
           if (!labelId) {
             const newLabel = await linear.createIssueLabel({
               name: labelName,
               teamId: teamId,
             });
-            labelId = newLabel.id;
+            labelId = newLabel.issueLabelId;
           }
 
-          if (labelId && !existingLabelIds.includes(labelId)) {
-            newLabelIds.push(labelId);
+          if (labelId) {
+            labelIds.push(labelId);
+          }
+        }
+
+        const issuePayload: any = {
+          teamId,
+          title,
+          description,
+          priority,
+        };
+
+        if (labelIds.length > 0) {
+          issuePayload.labelIds = labelIds;
+        }
+
+        if (projectId) {
+          issuePayload.projectId = projectId;
+        }
+
+        const issueResponse = await linear.createIssue(issuePayload);
+
+        if (!issueResponse.success) {
+          console.error(`Failed to create issue: ${title}`);
+          continue;
+        }
+
+        let issue;
+        try {
+          issue = await issueResponse.issue;
+        } catch (fetchError) {
+          const lastIssueId = (issueResponse as any).lastSyncId;
+          if (lastIssueId) {
+            issue = await linear.issue(lastIssueId);
           }
         }
 
-        const allLabelIds = [...existingLabelIds, ...newLabelIds];
+        if (!issue) {
+          console.error(`Failed to fetch created issue: ${title}`);
+          continue;
+        }
+
+        createdIssues.push({
+          id: issue.id,
+          number: issue.number,
+          title: issue.title,
+          url: issue.url,
+        });
+      }
+
+      return {
+        content: [
+          {
+            type: "text",
+            text: JSON.stringify(
+              {
+                success: true,
+                created: createdIssues,
+                count: createdIssues.length,
+              },
+              null,
+              2,
+            ),
+          },
+        ],
+      };
+    },
+  }),
+  defineTool({
+    name: "get_team_projects",
+    description: "List all projects for a specific team.",
+    readOnly: true,
+    schema: z.object({ teamId: z.string().describe("Linear team ID") }),
+    handler: async ({ teamId }) => {
+      const projects = mirrors
+        ? (await mirrors.get(teamId)).projects
+        : (await (await linear.team(teamId)).projects()).nodes;
+
+      const projectList = projects.map((project) => ({
+        id: project.id,
+        name: project.name,
+        description: project.description,
+        state: project.state,
+      }));
+
+      return {
+        content: [
+          {
+            type: "text",
+            text: JSON.stringify(
+              {
+                success: true,
+                projects: projectList,
+                count: projectList.length,
+              },
+              null,
+              2,
+            ),
+          },
+        ],
+      };
+    },
+  }),
+  defineTool({
+    name: "get_team_labels",
+    description: "List all labels for a specific team.",
+    readOnly: true,
+    schema: z.object({ teamId: z.string().describe("Linear team ID") }),
+    handler: async ({ teamId }) => {
+      const labels = mirrors
+        ? (await mirrors.get(teamId)).labels.filter(
+            (label) => label.teamId === teamId,
+          )
+        : (
+            await linear.issueLabels({
+              filter: {
+                team: { id: { eq: teamId } },
+              },
+            })
+          ).nodes;
+
+      const labelList = labels.map((label) => ({
+        id: label.id,
+        name: label.name,
+        color: label.color,
+      }));
+
+      return {
+        content: [
+          {
+            type: "text",
+            text: JSON.stringify(
+              {
+                success: true,
+                labels: labelList,
+                count: labelList.length,
+              },
+              null,
+              2,
+            ),
+          },
+        ],
+      };
+    },
+  }),
+  defineTool({
+    name: "find_orphan_issues",
+    description:
+      "Find issues in a team that are not assigned to any project. Paginated like get_team_issues.",
+    readOnly: true,
+    schema: z.object({
+      teamId: z.string().describe("Linear team ID"),
+      limit: z
+        .number()
+        .default(100)
+        .describe("Maximum number of issues per page (default: 100, max: 250)"),
+      ...paginationShape,
+    }),
+    handler: async ({ teamId, limit, after, fetchAll, maxResults }) => {
+      const request = { after, limit, fetchAll, maxResults };
+      const issues = mirrors
+        ? await fetchPaginated(
+            await mirroredIssues(mirrors, teamId, (issue) => !issue.projectId),
+            request,
+            100,
+          )
+        : await fetchPaginated(
+            (page) =>
+              linear.issues({
+                filter: {
+                  team: { id: { eq: teamId } },
+                  project: { null: true },
+                },
+                ...page,
+              }),
+            request,
+            100,
+          );
+
+      const orphanList = issues.nodes.map((issue) => ({
+        id: issue.id,
+        number: issue.number,
+        title: issue.title,
+        priority: issue.priority,
+        url: issue.url,
+      }));
+
+      return {
+        content: [
+          {
+            type: "text",
+            text: JSON.stringify(
+              {
+                success: true,
+                orphans: orphanList,
+                count: orphanList.length,
+                pageInfo: issues.pageInfo,
+                truncated: issues.truncated,
+              },
+              null,
+              2,
+            ),
+          },
+        ],
+      };
+    },
+  }),
+  defineTool({
+    name: "update_issue",
+    description:
+      "Update an existing Linear issue. Can modify title, description, priority, state, labels, assignee, or project. To change only the state, prefer move_issue_to_state.",
+    schema: z.object({
+      issueId: z.string().describe("Linear issue ID to update"),
+      title: z.string().optional().describe("New title for the issue"),
+      description: z
+        .string()
+        .optional()
+        .describe("New description for the issue"),
+      priority: z
+        .number()
+        .min(0)
+        .max(4)
+        .optional()
+        .describe("New priority (0-4)"),
+      stateId: z
+        .string()
+        .optional()
+        .describe("New state ID (e.g., for moving to In Progress)"),
+      state: z
+        .string()
+        .optional()
+        .describe(
+          'New state by name or type instead of stateId (e.g. "In Review", "started")',
+        ),
+      labelIds: z
+        .array(z.string())
+        .optional()
+        .describe("Array of label IDs to set (replaces existing)"),
+      assigneeId: z
+        .string()
+        .optional()
+        .describe("User ID to assign the issue to"),
+      projectId: z
+        .string()
+        .optional()
+        .describe("Project ID to assign the issue to"),
+    }),
+    handler: async ({ issueId, state, ...updateData }) => {
+      if (state !== undefined) {
+        if (updateData.stateId) {
+          throw new Error("Pass either state or stateId, not both");
+        }
+        const team = await (await linear.issue(issueId)).team;
+        if (!team) {
+          throw new Error(`Issue ${issueId} has no team`);
+        }
+        const states = await team.states();
+        updateData.stateId = resolveWorkflowState(states.nodes, state).id;
+      }
+
+      const issue = await linear.updateIssue(issueId, updateData);
 
-        await linear.updateIssue(issueId, { labelIds: allLabelIds });
+      return {
+        content: [
+          {
+            type: "text",
+            text: JSON.stringify(
+              {
+                success: true,
+                message: "Issue updated successfully",
+                issueId: issue.issueId,
+              },
+              null,
+              2,
+            ),
+          },
+        ],
+      };
+    },
+  }),
+  defineTool({
+    name: "add_issue_comment",
+    description: "Add a comment to an existing Linear issue.",
+    schema: z.object({
+      issueId: z.string().describe("Linear issue ID"),
+      body: z.string().describe("Comment text (markdown supported)"),
+    }),
+    handler: async ({ issueId, body }) => {
+      const comment = await linear.createComment({
+        issueId,
+        body,
+      });
+
+      return {
+        content: [
+          {
+            type: "text",
+            text: JSON.stringify(
+              {
+                success: true,
+                message: "Comment added successfully",
+                commentId: comment.commentId,
+              },
+              null,
+              2,
+            ),
+          },
+        ],
+      };
+    },
+  }),
+  defineTool({
+    name: "get_issue_by_id",
+    description:
+      "Get detailed information about a specific Linear issue by its ID.",
+    readOnly: true,
+    schema: z.object({ issueId: z.string().describe("Linear issue ID") }),
+    handler: async ({ issueId }) => {
+      const issue = await linear.issue(issueId);
+      const state = await issue.state;
+      const labels = await issue.labels();
+      const assignee = await issue.assignee;
+      const project = await issue.project;
+
+      return {
+        content: [
+          {
+            type: "text",
+            text: JSON.stringify(
+              {
+                success: true,
+                issue: {
+                  id: issue.id,
+                  number: issue.number,
+                  title: issue.title,
+                  description: issue.description,
+                  priority: issue.priority,
+                  state: state?.name,
+                  url: issue.url,
+                  labels: labels.nodes.map((l) => l.name),
+                  assignee: assignee?.name,
+                  project: project?.name,
+                  createdAt: issue.createdAt,
+                  updatedAt: issue.updatedAt,
+                },
+              },
+              null,
+              2,
+            ),
+          },
+        ],
+      };
+    },
+  }),
+  defineTool({
+    name: "get_sub_issues",
+    description:
+      "Get the sub-issues of an issue with rolled-up completion (issue counts and estimate points). Set recursive to include sub-issues of sub-issues.",
+    readOnly: true,
+    schema: z.object({
+      issueId: z
+        .string()
+        .describe("Parent issue ID or identifier (e.g. ENG-123)"),
+      recursive: z
+        .boolean()
+        .default(false)
+        .describe("Include nested sub-issues, up to 5 levels (default: false)"),
+    }),
+    handler: async ({ issueId, recursive }) => {
+      const parent = await linear.issue(issueId);
+      const parentState = await parent.state;
+      const { issues, truncated } = await fetchSubIssues(
+        linear.client,
+        parent.id,
+        recursive,
+      );
+      const tree = buildSubIssueTree(parent.id, issues);
+
+      return {
+        content: [
+          {
+            type: "text",
+            text: JSON.stringify(
+              {
+                success: true,
+                parent: {
+                  id: parent.id,
+                  identifier: parent.identifier,
+                  title: parent.title,
+                  state: parentState?.name,
+                  url: parent.url,
+                },
+                subIssues: tree.subIssues,
+                count: issues.length,
+                rollup: tree.rollup,
+                truncated,
+                message: `${tree.rollup.completed.issues} of ${tree.rollup.scope.issues} sub-issue(s) completed (${tree.rollup.percentComplete}%)`,
+              },
+              null,
+              2,
+            ),
+          },
+        ],
+      };
+    },
+  }),
+  defineTool({
+    name: "search_issues",
+    description:
+      "Search for issues in a team by keyword, label, or other criteria.",
+    readOnly: true,
+    schema: z.object({
+      ...issueSearchShape,
+      limit: z
+        .number()
+        .default(50)
+        .describe("Maximum number of results per page (default: 50, max: 250)"),
+      ...paginationShape,
+    }),
+    handler: async ({
+      teamId,
+      query,
+      labelNames,
+      projectId,
+      stateType,
+      limit,
+      after,
+      fetchAll,
+      maxResults,
+    }) => {
+      const filter = buildIssueSearchFilter({
+        teamId,
+        query,
+        labelNames,
+        projectId,
+        stateType,
+      });
+
+      const issues = await fetchPaginated(
+        (page) => linear.issues({ filter, ...page }),
+        { after, limit, fetchAll, maxResults },
+        50,
+      );
+
+      const issueList = await Promise.all(
+        issues.nodes.map(async (issue) => {
+          const state = await issue.state;
+          const labels = await issue.labels();
+          return {
+            id: issue.id,
+            number: issue.number,
+            title: issue.title,
+            description: issue.description,
+            priority: issue.priority,
+            state: state?.name,
+            url: issue.url,
+            labels: labels.nodes.map((l) => l.name),
+          };
+        }),
+      );
 
+      return {
+        content: [
+          {
+            type: "text",
+            text: JSON.stringify(
+              {
+                success: true,
+                issues: issueList,
+                count: issueList.length,
+                pageInfo: issues.pageInfo,
+                truncated: issues.truncated,
+              },
+              null,
+              2,
+            ),
+          },
+        ],
+      };
+    },
+  }),
+  defineTool({
+    name: "query_issues",
+    description:
+      'Find issues by asking in plain language, e.g. "high priority frontend bugs updated in the last week with no assignee". The question is turned into a validated Linear IssueFilter (priority, assignee, state, labels, dates, due dates, estimates, projects, blocking) by a deterministic parser, with an optional LLM fallback for wording it does not understand. Returns the filter used along with the matching issues.',
+    readOnly: true,
+    schema: z.object({
+      teamId: z.string().describe("Team to search"),
+      question: z
+        .string()
+        .min(1)
+        .describe("What to look for, in plain language"),
+      parser: z
+        .enum(ISSUE_QUERY_PARSERS)
+        .default("auto")
+        .describe(
+          "deterministic: fixed phrases only; llm: always ask the LLM (requires OPENAI_API_KEY); auto: the parser, falling back to the LLM when available for words it did not understand (default)",
+        ),
+      limit: z
+        .number()
+        .default(50)
+        .describe("Maximum number of results per page (default: 50, max: 250)"),
+      ...paginationShape,
+    }),
+    handler: async ({
+      teamId,
+      question,
+      parser,
+      limit,
+      after,
+      fetchAll,
+      maxResults,
+    }) => {
+      if (parser === "llm" && !OPENAI_API_KEY) {
         return {
           content: [
             {
               type: "text",
               text: JSON.stringify(
                 {
-                  success: true,
-                  message: `Added ${newLabelIds.length} label(s) to issue`,
-                  addedLabels: labelNames.filter(
-                    (_, i) => i < newLabelIds.length,
-                  ),
+                  success: false,
+                  error: "OPENAI_API_KEY is required for the llm parser",
                 },
                 null,
                 2,
               ),
             },
           ],
+          isError: true,
         };
       }
 
-      case "assign_issue": {
-        const { issueId, assigneeId } = args as any;
-
-        await linear.updateIssue(issueId, { assigneeId });
-
+      const context = await fetchIssueQueryContext(linear.client, teamId);
+      const query = await interpretIssueQuery(question, context, {
+        parser,
+        model: OPENAI_API_KEY
+          ? openAiFilterModel(OPENAI_API_KEY, http)
+          : undefined,
+      });
+      const filter = { team: { id: { eq: teamId } }, ...query.filter };
+
+      const issues = await fetchQueriedIssues(
+        linear.client,
+        filter,
+        { after, limit, fetchAll, maxResults },
+        50,
+      );
+
+      return {
+        content: [
+          {
+            type: "text",
+            text: JSON.stringify(
+              {
+                success: true,
+                question,
+                parser: query.parser,
+                filter,
+                interpretation: query.interpretation,
+                ...(query.warning && { warning: query.warning }),
+                issues: issues.nodes,
+                count: issues.nodes.length,
+                pageInfo: issues.pageInfo,
+                truncated: issues.truncated,
+              },
+              null,
+              2,
+            ),
+          },
+        ],
+      };
+    },
+  }),
+  defineTool({
+    name: "find_duplicate_issues",
+    description:
+      "Check candidate issues against a team's existing issues before creating them. Scores each pair by title and description tokens (and optionally OpenAI embeddings) and returns the likely duplicates with scores, best first, so the caller can skip, merge into or link to them.",
+    readOnly: true,
+    schema: z.object({
+      teamId: z.string().describe("Team whose issues to check against"),
+      candidates: z
+        .array(
+          z.object({
+            title: z.string().min(1).describe("Issue title"),
+            description: z.string().optional().describe("Issue description"),
+          }),
+        )
+        .min(1)
+        .max(50)
+        .describe("Issues about to be created (1-50)"),
+      threshold: z
+        .number()
+        .min(0)
+        .max(1)
+        .default(DEFAULT_DUPLICATE_THRESHOLD)
+        .describe(
+          `Token similarity (0-1) at which an issue counts as a likely duplicate (default: ${DEFAULT_DUPLICATE_THRESHOLD})`,
+        ),
+      useEmbeddings: z
+        .boolean()
+        .default(false)
+        .describe(
+          `Also compare OpenAI embeddings, catching reworded duplicates; matches at ${DEFAULT_EMBEDDING_THRESHOLD} or above (requires OPENAI_API_KEY)`,
+        ),
+      includeCompleted: z
+        .boolean()
+        .default(false)
+        .describe(
+          "Also check completed issues; canceled ones are always ignored (default: false)",
+        ),
+      limit: z
+        .number()
+        .int()
+        .min(1)
+        .max(20)
+        .default(DEFAULT_DUPLICATE_LIMIT)
+        .describe(
+          `Likely duplicates returned per candidate (default: ${DEFAULT_DUPLICATE_LIMIT})`,
+        ),
+    }),
+    handler: async ({
+      teamId,
+      candidates,
+      threshold,
+      useEmbeddings,
+      includeCompleted,
+      limit,
+    }) => {
+      if (useEmbeddings && !OPENAI_API_KEY) {
         return {
           content: [
             {
               type: "text",
               text: JSON.stringify(
                 {
-                  success: true,
-                  message: assigneeId
-                    ? "Issue assigned successfully"
-                    : "Issue unassigned successfully",
+                  success: false,
+                  error: "OPENAI_API_KEY is required for useEmbeddings",
                 },
                 null,
                 2,
               ),
             },
           ],
+          isError: true,
         };
       }
 
-      case "link_issues": {
-        const {
-          issueId,
-          relatedIssueId,
-          relationshipType = "blocks",
-        } = args as any;
-
-        await linear.createIssueRelation({
-          issueId,
-          relatedIssueId,
-          type: relationshipType,
-        });
-
-        const relationshipMessages: Record<string, string> = {
-          blocks: `✅ Dependency created: Issue #${issueId} must be completed BEFORE issue #${relatedIssueId} can start`,
-          related: `✅ Issues linked as related (no blocking)`,
-          duplicate: `✅ Issues marked as duplicates`,
-        };
+      const existing = await fetchTeamIssuesForMatching(
+        linear.client,
+        teamId,
+        includeCompleted,
+      );
+      const matches = await findDuplicateIssues(candidates, existing.nodes, {
+        threshold,
+        limit,
+        embed: useEmbeddings
+          ? openAiEmbedder(OPENAI_API_KEY!, http)
+          : undefined,
+      });
+
+      const results = candidates.map((candidate, index) => ({
+        title: candidate.title,
+        likelyDuplicate: matches[index].length > 0,
+        matches: matches[index].map(({ issue, ...scores }) => ({
+          id: issue.id,
+          identifier: issue.identifier,
+          title: issue.title,
+          state: issue.state?.name,
+          url: issue.url,
+          ...scores,
+        })),
+      }));
 
+      return {
+        content: [
+          {
+            type: "text",
+            text: JSON.stringify(
+              {
+                success: true,
+                results,
+                likelyDuplicates: results.filter((r) => r.likelyDuplicate)
+                  .length,
+                checkedAgainst: existing.nodes.length,
+                truncated: existing.truncated,
+              },
+              null,
+              2,
+            ),
+          },
+        ],
+      };
+    },
+  }),
+  defineTool({
+    name: "bulk_update_issues",
+    description: `Update every issue matching a search_issues filter in one go. The first call (without confirmationToken) only previews the affected issues and their changes and returns a confirmation token; call again with the same filter, patch and token to apply. Tokens expire after ${CONFIRMATION_TTL_MS / 60000} minutes and are rejected if the matching issues changed since the preview. At most ${BULK_UPDATE_MAX_ISSUES} issues per update.`,
+    schema: z.object({
+      filter: z
+        .object(issueSearchShape)
+        .describe("Which issues to update (same fields as search_issues)"),
+      patch: z
+        .object({
+          state: z
+            .string()
+            .optional()
+            .describe(
+              'Workflow state name or type (e.g. "In Review", "started", "done")',
+            ),
+          assigneeId: z
+            .string()
+            .nullable()
+            .optional()
+            .describe("User ID to assign, or null to unassign"),
+          priority: z
+            .number()
+            .optional()
+            .describe("0 = none, 1 = urgent, 2 = high, 3 = medium, 4 = low"),
+          addLabels: z
+            .array(z.string())
+            .optional()
+            .describe("Names of existing team labels to add"),
+          removeLabels: z
+            .array(z.string())
+            .optional()
+            .describe("Names of team labels to remove"),
+          projectId: z
+            .string()
+            .nullable()
+            .optional()
+            .describe(
+              "Project ID to move the issues to, or null to remove them from their project",
+            ),
+          milestoneId: z
+            .string()
+            .nullable()
+            .optional()
+            .describe(
+              "Project milestone ID (also moves the issues to its project), or null to clear",
+            ),
+        })
+        .describe(
+          "Changes to apply. Omitted fields are left alone; null clears assignee, project or milestone.",
+        ),
+      confirmationToken: z
+        .string()
+        .optional()
+        .describe("Token from the preview response. Omit to preview."),
+    }),
+    handler: async ({ filter, patch, confirmationToken }) => {
+      const issues = await fetchBulkUpdateIssues(
+        linear.client,
+        buildIssueSearchFilter(filter),
+      );
+      const resolved = await resolveBulkPatch(linear, filter.teamId, patch);
+      const plans = planBulkUpdate(issues, resolved);
+
+      if (!confirmationToken) {
         return {
           content: [
             {
@@ -1321,14 +1485,18 @@ Return ONLY the JSON array, no other text.`;
               text: JSON.stringify(
                 {
                   success: true,
+                  preview: true,
+                  matched: issues.length,
+                  toUpdate: plans.length,
+                  updates: plans.map(({ input, ...plan }) => plan),
+                  confirmationToken:
+                    plans.length > 0
+                      ? createConfirmationToken(filter, plans)
+                      : null,
                   message:
-                    relationshipMessages[relationshipType] ||
-                    `Created ${relationshipType} relationship`,
-                  relationship: {
-                    type: relationshipType,
-                    fromIssue: issueId,
-                    toIssue: relatedIssueId,
-                  },
+                    plans.length > 0
+                      ? `${plans.length} of ${issues.length} matching issue(s) would change. Call bulk_update_issues again with this confirmationToken to apply.`
+                      : `None of the ${issues.length} matching issue(s) would change`,
                 },
                 null,
                 2,
@@ -1338,362 +1506,1500 @@ Return ONLY the JSON array, no other text.`;
         };
       }
 
-      case "close_issue": {
-        const { issueId, completed = true } = args as any;
-
-        const issue = await linear.issue(issueId);
-        const team = await issue.team;
-        const states = await team.states();
-
-        const targetState = states.nodes.find((s) =>
-          completed ? s.type === "completed" : s.type === "canceled",
-        );
-
-        if (!targetState) {
-          throw new Error(
-            `No ${completed ? "completed" : "canceled"} state found`,
-          );
-        }
-
-        await linear.updateIssue(issueId, { stateId: targetState.id });
-
+      const tokenProblem = checkConfirmationToken(
+        confirmationToken,
+        filter,
+        plans,
+      );
+      if (tokenProblem) {
         return {
           content: [
             {
               type: "text",
               text: JSON.stringify(
                 {
-                  success: true,
-                  message: `Issue ${completed ? "completed" : "canceled"} successfully`,
+                  success: false,
+                  error: `${tokenProblem}. Nothing was updated - preview again to get a new token.`,
                 },
                 null,
                 2,
               ),
             },
           ],
+          isError: true,
         };
       }
 
-      case "create_project": {
-        const { teamId, name, description, state = "planned" } = args as any;
+      const updated: string[] = [];
+      const failed: Array<{ identifier: string; error: string }> = [];
 
-        const project = await linear.createProject({
-          teamIds: [teamId],
-          name,
-          description,
-          state,
+      for (const plan of plans) {
+        try {
+          await linear.updateIssue(plan.issueId, plan.input);
+          updated.push(plan.identifier);
+        } catch (error: any) {
+          failed.push({ identifier: plan.identifier, error: error.message });
+        }
+      }
+
+      return {
+        content: [
+          {
+            type: "text",
+            text: JSON.stringify(
+              {
+                success: failed.length === 0,
+                updated,
+                failed,
+                message: `Updated ${updated.length} of ${plans.length} issue(s)`,
+              },
+              null,
+              2,
+            ),
+          },
+        ],
+      };
+    },
+  }),
+  defineTool({
+    name: "add_labels_to_issue",
+    description: "Add labels to an existing issue (keeps existing labels).",
+    schema: z.object({
+      issueId: z.string().describe("Linear issue ID"),
+      teamId: z.string().describe("Team ID (needed to find/create labels)"),
+      labelNames: z.array(z.string()).describe("Array of label names to add"),
+    }),
+    handler: async ({ issueId, teamId, labelNames }) => {
+      const issue = await linear.issue(issueId);
+      const existingLabels = await issue.labels();
+      const existingLabelIds = existingLabels.nodes.map((l) => l.id);
+
+      const newLabelIds: string[] = [];
+
+      for (const labelName of labelNames) {
+        const labelsQuery = await linear.issueLabels({
+          filter: {
+            name: { eq: labelName },
+            team: { id: { eq: teamId } },
+          },
         });
 
-        return {
-          content: [
-            {
-              type: "text",
-              text: JSON.stringify(
-                {
-                  success: true,
-                  project: {
-                    id: project.id,
-                    name: project.name,
-                  },
-                },
-                null,
-                2,
-              ),
-            },
-          ],
+        let labelId: string | undefined = labelsQuery.nodes[0]?.id;
+
+        if (!labelId) {
+          const newLabel = await linear.createIssueLabel({
+            name: labelName,
+            teamId: teamId,
+          });
+          labelId = newLabel.issueLabelId;
+        }
+
+        if (labelId && !existingLabelIds.includes(labelId)) {
+          newLabelIds.push(labelId);
+        }
+      }
+
+      const allLabelIds = [...existingLabelIds, ...newLabelIds];
+
+      await linear.updateIssue(issueId, { labelIds: allLabelIds });
+
+      return {
+        content: [
+          {
+            type: "text",
+            text: JSON.stringify(
+              {
+                success: true,
+                message: `Added ${newLabelIds.length} label(s) to issue`,
+                addedLabels: labelNames.filter(
+                  (_, i) => i < newLabelIds.length,
+                ),
+              },
+              null,
+              2,
+            ),
+          },
+        ],
+      };
+    },
+  }),
+  defineTool({
+    name: "assign_issue",
+    description: "Assign an issue to a team member.",
+    schema: z.object({
+      issueId: z.string().describe("Linear issue ID"),
+      assigneeId: z
+        .string()
+        .optional()
+        .describe("User ID to assign to (or null to unassign)"),
+    }),
+    handler: async ({ issueId, assigneeId }) => {
+      await linear.updateIssue(issueId, { assigneeId });
+
+      return {
+        content: [
+          {
+            type: "text",
+            text: JSON.stringify(
+              {
+                success: true,
+                message: assigneeId
+                  ? "Issue assigned successfully"
+                  : "Issue unassigned successfully",
+              },
+              null,
+              2,
+            ),
+          },
+        ],
+      };
+    },
+  }),
+  defineTool({
+    name: "link_issues",
+    description:
+      "Create a dependency relationship between issues. Use 'blocks' when issueId must be completed BEFORE relatedIssueId can start. Use 'related' for non-blocking relationships. Use 'duplicate' to mark duplicates. Links that would create a blocking cycle are rejected.",
+    schema: z.object({
+      issueId: z
+        .string()
+        .describe("The issue ID that blocks or relates to another issue"),
+      relatedIssueId: z
+        .string()
+        .describe("The issue ID that is blocked or related"),
+      relationshipType: z
+        .enum(["blocks", "related", "duplicate"])
+        .default("blocks")
+        .describe(
+          "Relationship type:\n- 'blocks': issueId must be done BEFORE relatedIssueId\n- 'related': Issues are related but not blocking\n- 'duplicate': Issues are duplicates",
+        ),
+    }),
+    handler: async ({ issueId, relatedIssueId, relationshipType }) => {
+      if (issueId === relatedIssueId) {
+        throw new Error("An issue cannot be linked to itself");
+      }
+
+      if (relationshipType === "blocks") {
+        // Relations are read back as "relatedIssue blocks issue" (see
+        // check_issue_blockers), so refuse the link if issueId already
+        // blocks relatedIssueId through the relations of their teams
+        const [issue, relatedIssue] = await Promise.all([
+          dependencyResolver.fetchIssueWithRelations(issueId),
+          dependencyResolver.fetchIssueWithRelations(relatedIssueId),
+        ]);
+
+        if (issue.id === relatedIssue.id) {
+          throw new Error("An issue cannot be linked to itself");
+        }
+
+        const teamIds = [issue.team?.id, relatedIssue.team?.id].filter(
+          (id): id is string => !!id,
+        );
+        const existing = await dependencyResolver.fetchBlockingEdges({
+          team: { id: { in: [...new Set(teamIds)] } },
+        });
+        existing.issues.set(issue.id, issue);
+        existing.issues.set(relatedIssue.id, relatedIssue);
+        const label = (id: string) => {
+          const known = existing.issues.get(id);
+          return known ? (known.identifier ?? `#${known.number}`) : id;
         };
+
+        const validation = validateDependencyEdges(
+          [{ blocker: relatedIssue.id, blocked: issue.id }],
+          label,
+          existing.edges,
+        );
+        const problem = validation.problems[0];
+        if (problem?.cycle) {
+          const cycle = problem.cycle.map(label);
+          return {
+            content: [
+              {
+                type: "text",
+                text: JSON.stringify(
+                  {
+                    success: false,
+                    error: `Linking would create a dependency cycle: ${cycle.join(" → ")}`,
+                    cycle,
+                  },
+                  null,
+                  2,
+                ),
+              },
+            ],
+            isError: true,
+          };
+        }
       }
 
-      case "check_issue_blockers": {
-        const { issueId } = args as any;
-
-        const issue = await linear.issue(issueId);
-        const relations = await issue.relations();
-
-        const blockers = [];
-        let isBlocked = false;
-
-        for (const relation of relations.nodes) {
-          if (relation.type === "blocks") {
-            const relatedIssue = await relation.relatedIssue;
-            const relatedState = await relatedIssue.state;
-
-            if (relatedState?.type !== "completed") {
-              isBlocked = true;
-              blockers.push({
-                id: relatedIssue.id,
-                number: relatedIssue.number,
-                title: relatedIssue.title,
-                state: relatedState?.name,
-                url: relatedIssue.url,
-              });
-            }
-          }
-        }
+      await linear.createIssueRelation({
+        issueId,
+        relatedIssueId,
+        type: relationshipType as IssueRelationType,
+      });
 
-        return {
-          content: [
-            {
-              type: "text",
-              text: JSON.stringify(
-                {
-                  success: true,
-                  isBlocked,
-                  canStart: !isBlocked,
-                  blockers,
-                  message: isBlocked
-                    ? `⛔ Cannot start. Blocked by ${blockers.length} incomplete issue(s)`
-                    : "✅ Ready to start - no blockers",
+      const relationshipMessages: Record<string, string> = {
+        blocks: `✅ Dependency created: Issue #${issueId} must be completed BEFORE issue #${relatedIssueId} can start`,
+        related: `✅ Issues linked as related (no blocking)`,
+        duplicate: `✅ Issues marked as duplicates`,
+      };
+
+      return {
+        content: [
+          {
+            type: "text",
+            text: JSON.stringify(
+              {
+                success: true,
+                message:
+                  relationshipMessages[relationshipType] ||
+                  `Created ${relationshipType} relationship`,
+                relationship: {
+                  type: relationshipType,
+                  fromIssue: issueId,
+                  toIssue: relatedIssueId,
                 },
-                null,
-                2,
-              ),
-            },
-          ],
-        };
+              },
+              null,
+              2,
+            ),
+          },
+        ],
+      };
+    },
+  }),
+  defineTool({
+    name: "close_issue",
+    description:
+      "Close or complete an issue (moves to completed/canceled state).",
+    schema: z.object({
+      issueId: z.string().describe("Linear issue ID"),
+      completed: z
+        .boolean()
+        .default(true)
+        .describe(
+          "True to mark as completed, false to mark as canceled (default: true)",
+        ),
+    }),
+    handler: async ({ issueId, completed }) => {
+      const transition = await moveIssueToState(
+        linear,
+        issueId,
+        completed ? "completed" : "canceled",
+      );
+
+      return {
+        content: [
+          {
+            type: "text",
+            text: JSON.stringify(
+              {
+                success: true,
+                message: `Issue ${completed ? "completed" : "canceled"} successfully`,
+                before: transition.before,
+                after: transition.after,
+              },
+              null,
+              2,
+            ),
+          },
+        ],
+      };
+    },
+  }),
+  defineTool({
+    name: "move_issue_to_state",
+    description:
+      'Move an issue to a workflow state by name or type (e.g. "In Review", "started", "done"). The state is checked against the issue\'s team workflow, so transitions into states that don\'t exist are refused. Returns the state before and after.',
+    schema: z.object({
+      issueId: z
+        .string()
+        .describe("Linear issue ID or identifier (e.g. ENG-123)"),
+      state: z
+        .string()
+        .describe(
+          "Target state name (e.g. In Review) or type (triage, backlog, unstarted, started, completed, canceled)",
+        ),
+    }),
+    handler: async ({ issueId, state }) => {
+      const transition = await moveIssueToState(linear, issueId, state);
+
+      return {
+        content: [
+          {
+            type: "text",
+            text: JSON.stringify(
+              {
+                success: true,
+                ...transition,
+                message: transition.changed
+                  ? `Moved ${transition.identifier} from ${transition.before?.name ?? "no state"} to ${transition.after.name}`
+                  : `${transition.identifier} is already in ${transition.after.name}`,
+              },
+              null,
+              2,
+            ),
+          },
+        ],
+      };
+    },
+  }),
+  defineTool({
+    name: "create_project",
+    description: "Create a new project in Linear.",
+    schema: z.object({
+      teamId: z.string().describe("Team ID to create the project in"),
+      name: z.string().describe("Project name"),
+      description: z.string().optional().describe("Project description"),
+      state: z
+        .enum(["planned", "started", "completed", "canceled"])
+        .default("planned")
+        .describe(
+          "Project state: planned, started, completed, canceled. The project gets the workspace's project status of that type.",
+        ),
+    }),
+    handler: async ({ teamId, name, description, state }) => {
+      // Projects take one of the workspace's statuses rather than a state
+      const statuses = await linear.projectStatuses();
+      const status = statuses.nodes.find((s) => s.type === state);
+      if (!status) {
+        throw new Error(`The workspace has no project status of type ${state}`);
       }
 
-      case "get_next_available_issues": {
-        const { teamId, projectId, limit = 20 } = args as any;
+      const project = await linear.createProject({
+        teamIds: [teamId],
+        name,
+        description,
+        statusId: status.id,
+      });
 
-        const filter: any = {
-          team: { id: { eq: teamId } },
-          state: { type: { nin: ["completed", "canceled"] } },
-        };
+      return {
+        content: [
+          {
+            type: "text",
+            text: JSON.stringify(
+              {
+                success: true,
+                project: {
+                  id: project.projectId,
+                  name,
+                },
+              },
+              null,
+              2,
+            ),
+          },
+        ],
+      };
+    },
+  }),
+  defineTool({
+    name: "list_team_cycles",
+    description:
+      "List a team's cycles (sprints) with dates, status (active, next, upcoming, past) and progress. Use this to find the current or next cycle before planning a sprint.",
+    readOnly: true,
+    schema: z.object({
+      teamId: z.string().describe("Team ID"),
+      status: z
+        .enum(CYCLE_STATUSES)
+        .default("all")
+        .describe("Which cycles to list (default: all)"),
+      limit: z
+        .number()
+        .default(25)
+        .describe("Maximum number of cycles to return (default: 25)"),
+      ...paginationShape,
+    }),
+    handler: async ({ teamId, status, limit, after, fetchAll, maxResults }) => {
+      const cycles = await fetchPaginated(
+        (page) =>
+          linear.cycles({
+            filter: buildCycleFilter(teamId, status),
+            ...page,
+          }),
+        { after, limit, fetchAll, maxResults },
+        25,
+      );
 
-        if (projectId) {
-          filter.project = { id: { eq: projectId } };
-        }
+      const cycleList = cycles.nodes
+        .map((cycle) => toCycleSummary(cycle))
+        .sort((a, b) => a.startsAt.localeCompare(b.startsAt));
 
-        const allIssues = await linear.issues({ filter, first: 100 });
+      return {
+        content: [
+          {
+            type: "text",
+            text: JSON.stringify(
+              {
+                success: true,
+                cycles: cycleList,
+                count: cycleList.length,
+                pageInfo: cycles.pageInfo,
+                truncated: cycles.truncated,
+              },
+              null,
+              2,
+            ),
+          },
+        ],
+      };
+    },
+  }),
+  defineTool({
+    name: "create_cycle",
+    description: "Create a new cycle (sprint) for a team.",
+    schema: z.object({
+      teamId: z.string().describe("Team ID"),
+      startsAt: z.string().describe("Start date (ISO 8601, e.g. 2025-03-03)"),
+      endsAt: z.string().describe("End date (ISO 8601, e.g. 2025-03-17)"),
+      name: z
+        .string()
+        .optional()
+        .describe("Optional cycle name (default: Cycle <number>)"),
+      description: z.string().optional().describe("Optional cycle description"),
+    }),
+    handler: async ({ teamId, startsAt, endsAt, name, description }) => {
+      const dates = parseCycleDates(startsAt, endsAt);
+      const payload = await linear.createCycle({
+        teamId,
+        ...dates,
+        name,
+        description,
+      });
+      const cycle = await payload.cycle;
+
+      if (!payload.success || !cycle) {
+        throw new Error("Failed to create cycle");
+      }
 
-        const availableIssues = [];
+      return {
+        content: [
+          {
+            type: "text",
+            text: JSON.stringify(
+              {
+                success: true,
+                cycle: toCycleSummary(cycle),
+              },
+              null,
+              2,
+            ),
+          },
+        ],
+      };
+    },
+  }),
+  defineTool({
+    name: "add_issues_to_cycle",
+    description:
+      "Add issues to a cycle (sprint). Issues already in another cycle are moved. To plan a sprint, pass the ids returned by get_next_available_issues.",
+    schema: z.object({
+      cycleId: z.string().describe("Cycle ID"),
+      issueIds: z.array(z.string()).describe("Issue IDs to add"),
+    }),
+    handler: async ({ cycleId, issueIds }) => setIssuesCycle(cycleId, issueIds),
+  }),
+  defineTool({
+    name: "remove_issues_from_cycle",
+    description:
+      "Remove issues from whatever cycle they are in, returning them to the backlog.",
+    schema: z.object({
+      issueIds: z
+        .array(z.string())
+        .describe("Issue IDs to remove from their cycle"),
+    }),
+    handler: async ({ issueIds }) => setIssuesCycle(null, issueIds),
+  }),
+  defineTool({
+    name: "get_cycle_progress",
+    description:
+      "Get a cycle's progress: scope, completed, started and remaining work (issue counts and estimate points), plus days remaining.",
+    readOnly: true,
+    schema: z.object({
+      cycleId: z.string().describe("Cycle ID"),
+      includeIssues: z
+        .boolean()
+        .default(false)
+        .describe(
+          "Also list the issues that are not completed yet (default: false)",
+        ),
+    }),
+    handler: async ({ cycleId, includeIssues }) => {
+      const cycle = await linear.cycle(cycleId);
+      const issues = await fetchProgressIssues(linear.client, {
+        cycle: { id: { eq: cycleId } },
+      });
+      const progress = summarizeProgress(issues.nodes);
+
+      return {
+        content: [
+          {
+            type: "text",
+            text: JSON.stringify(
+              {
+                success: true,
+                cycle: toCycleSummary(cycle),
+                progress,
+                truncated: issues.truncated,
+                ...(includeIssues && {
+                  remainingIssues: issues.nodes.filter(
+                    (issue) =>
+                      !["completed", "canceled"].includes(issue.state.type),
+                  ),
+                }),
+              },
+              null,
+              2,
+            ),
+          },
+        ],
+      };
+    },
+  }),
+  defineTool({
+    name: "list_project_milestones",
+    description:
+      "List a project's milestones in order, with progress (scope, completed, remaining) for each and for issues not assigned to a milestone.",
+    readOnly: true,
+    schema: z.object({
+      projectId: z.string().describe("Project ID"),
+      includeProgress: z
+        .boolean()
+        .default(true)
+        .describe("Include progress per milestone (default: true)"),
+    }),
+    handler: async ({ projectId, includeProgress }) => {
+      const project = await linear.project(projectId);
+      const milestones = await fetchPaginated(
+        (page) => project.projectMilestones(page),
+        { fetchAll: true },
+        50,
+      );
+
+      let result: Record<string, unknown>;
+      if (includeProgress) {
+        const issues = await fetchProgressIssues(linear.client, {
+          project: { id: { eq: projectId } },
+        });
+        result = {
+          ...summarizeMilestones(milestones.nodes, issues.nodes),
+          truncated: issues.truncated,
+        };
+      } else {
+        result = {
+          milestones: sortMilestones(
+            milestones.nodes.map((milestone) => toMilestoneSummary(milestone)),
+          ),
+        };
+      }
 
-        for (const issue of allIssues.nodes) {
-          const relations = await issue.relations();
-          let isBlocked = false;
+      return {
+        content: [
+          {
+            type: "text",
+            text: JSON.stringify(
+              {
+                success: true,
+                project: { id: project.id, name: project.name },
+                count: milestones.nodes.length,
+                ...result,
+              },
+              null,
+              2,
+            ),
+          },
+        ],
+      };
+    },
+  }),
+  defineTool({
+    name: "create_project_milestone",
+    description:
+      'Create a milestone in a project, e.g. "1.2 Database" in a version-based layout.',
+    schema: z.object({
+      projectId: z.string().describe("Project ID"),
+      name: z.string().describe("Milestone name"),
+      description: z.string().optional().describe("Milestone description"),
+      targetDate: z.string().optional().describe("Target date (YYYY-MM-DD)"),
+      sortOrder: z
+        .number()
+        .optional()
+        .describe("Position among the project's milestones"),
+    }),
+    handler: async ({
+      projectId,
+      name,
+      description,
+      targetDate,
+      sortOrder,
+    }) => {
+      const payload = await linear.createProjectMilestone({
+        projectId,
+        name,
+        description,
+        targetDate: targetDate ? parseTargetDate(targetDate) : undefined,
+        sortOrder,
+      });
+      const milestone = await payload.projectMilestone;
+
+      if (!payload.success || !milestone) {
+        throw new Error("Failed to create milestone");
+      }
 
-          for (const relation of relations.nodes) {
-            if (relation.type === "blocks") {
-              const relatedIssue = await relation.relatedIssue;
-              const relatedState = await relatedIssue.state;
+      return {
+        content: [
+          {
+            type: "text",
+            text: JSON.stringify(
+              {
+                success: true,
+                milestone: toMilestoneSummary(milestone),
+              },
+              null,
+              2,
+            ),
+          },
+        ],
+      };
+    },
+  }),
+  defineTool({
+    name: "update_project_milestone",
+    description:
+      "Update a milestone's name, description, target date or sort order.",
+    schema: z.object({
+      milestoneId: z.string().describe("Milestone ID"),
+      name: z.string().optional().describe("New name"),
+      description: z.string().optional().describe("New description"),
+      targetDate: z
+        .string()
+        .optional()
+        .describe("New target date (YYYY-MM-DD)"),
+      sortOrder: z
+        .number()
+        .optional()
+        .describe("New position among the project's milestones"),
+    }),
+    handler: async ({
+      milestoneId,
+      name,
+      description,
+      targetDate,
+      sortOrder,
+    }) => {
+      const input: Record<string, unknown> = {};
+      if (name !== undefined) input.name = name;
+      if (description !== undefined) input.description = description;
+      if (targetDate !== undefined) {
+        input.targetDate = parseTargetDate(targetDate);
+      }
+      if (sortOrder !== undefined) input.sortOrder = sortOrder;
 
-              if (relatedState?.type !== "completed") {
-                isBlocked = true;
-                break;
-              }
-            }
-          }
+      if (Object.keys(input).length === 0) {
+        throw new Error(
+          "Nothing to update: pass name, description, targetDate or sortOrder",
+        );
+      }
 
-          if (!isBlocked) {
-            const state = await issue.state;
-            const labels = await issue.labels();
-            availableIssues.push({
-              id: issue.id,
-              number: issue.number,
-              title: issue.title,
-              priority: issue.priority,
-              state: state?.name,
-              url: issue.url,
-              labels: labels.nodes.map((l) => l.name),
-            });
+      const payload = await linear.updateProjectMilestone(milestoneId, input);
+      const milestone = await payload.projectMilestone;
 
-            if (availableIssues.length >= limit) break;
-          }
-        }
+      if (!payload.success || !milestone) {
+        throw new Error("Failed to update milestone");
+      }
 
-        return {
-          content: [
-            {
-              type: "text",
-              text: JSON.stringify(
-                {
-                  success: true,
-                  availableIssues,
-                  count: availableIssues.length,
-                  message: `Found ${availableIssues.length} issue(s) ready to start`,
-                },
-                null,
-                2,
-              ),
-            },
-          ],
+      return {
+        content: [
+          {
+            type: "text",
+            text: JSON.stringify(
+              {
+                success: true,
+                milestone: toMilestoneSummary(milestone),
+              },
+              null,
+              2,
+            ),
+          },
+        ],
+      };
+    },
+  }),
+  defineTool({
+    name: "delete_project_milestone",
+    description:
+      "Delete a milestone. Its issues stay in the project without a milestone.",
+    schema: z.object({ milestoneId: z.string().describe("Milestone ID") }),
+    handler: async ({ milestoneId }) => {
+      const payload = await linear.deleteProjectMilestone(milestoneId);
+
+      return {
+        content: [
+          {
+            type: "text",
+            text: JSON.stringify(
+              {
+                success: payload.success,
+                message: payload.success
+                  ? "Milestone deleted successfully"
+                  : "Failed to delete milestone",
+              },
+              null,
+              2,
+            ),
+          },
+        ],
+      };
+    },
+  }),
+  defineTool({
+    name: "assign_issues_to_milestone",
+    description:
+      "Assign issues to a project milestone. Issues are moved into the milestone's project if needed. Pass milestoneId: null to remove issues from their milestone.",
+    schema: z.object({
+      milestoneId: z
+        .string()
+        .nullable()
+        .describe("Milestone ID, or null to clear the milestone"),
+      issueIds: z.array(z.string()).describe("Issue IDs to assign"),
+    }),
+    handler: async ({ milestoneId, issueIds }) => {
+      // Issues must belong to the milestone's project
+      let input: Record<string, unknown> = { projectMilestoneId: null };
+      if (milestoneId) {
+        const milestone = await linear.projectMilestone(milestoneId);
+        input = {
+          projectId: milestone.projectId,
+          projectMilestoneId: milestone.id,
         };
       }
 
-      case "get_issue_dependencies": {
-        const { issueId } = args as any;
+      const updated: string[] = [];
+      const failed: Array<{ issueId: string; error: string }> = [];
 
-        const issue = await linear.issue(issueId);
-        const relations = await issue.relations();
+      for (const issueId of issueIds) {
+        try {
+          await linear.updateIssue(issueId, input);
+          updated.push(issueId);
+        } catch (error: any) {
+          failed.push({ issueId, error: error.message });
+        }
+      }
 
-        const blockedBy = [];
-        const blocks = [];
+      return {
+        content: [
+          {
+            type: "text",
+            text: JSON.stringify(
+              {
+                success: failed.length === 0,
+                updated,
+                failed,
+                message: milestoneId
+                  ? `Assigned ${updated.length} of ${issueIds.length} issue(s) to milestone`
+                  : `Cleared milestone on ${updated.length} of ${issueIds.length} issue(s)`,
+              },
+              null,
+              2,
+            ),
+          },
+        ],
+      };
+    },
+  }),
+  defineTool({
+    name: "get_milestone_progress",
+    description:
+      "Get a milestone's progress: scope, completed, started and remaining work (issue counts and estimate points).",
+    readOnly: true,
+    schema: z.object({
+      milestoneId: z.string().describe("Milestone ID"),
+      includeIssues: z
+        .boolean()
+        .default(false)
+        .describe(
+          "Also list the issues that are not completed yet (default: false)",
+        ),
+    }),
+    handler: async ({ milestoneId, includeIssues }) => {
+      const milestone = await linear.projectMilestone(milestoneId);
+      const issues = await fetchProgressIssues(linear.client, {
+        projectMilestone: { id: { eq: milestoneId } },
+      });
+
+      return {
+        content: [
+          {
+            type: "text",
+            text: JSON.stringify(
+              {
+                success: true,
+                milestone: toMilestoneSummary(milestone),
+                progress: summarizeProgress(issues.nodes),
+                truncated: issues.truncated,
+                ...(includeIssues && {
+                  remainingIssues: issues.nodes.filter(
+                    (issue) =>
+                      !["completed", "canceled"].includes(issue.state.type),
+                  ),
+                }),
+              },
+              null,
+              2,
+            ),
+          },
+        ],
+      };
+    },
+  }),
+  defineTool({
+    name: "check_issue_blockers",
+    description:
+      "ALWAYS use this before starting work on an issue. Checks if an issue has any blocking dependencies that must be completed first. Returns whether the issue is safe to start and lists all blockers.",
+    readOnly: true,
+    schema: z.object({
+      issueId: z.string().describe("Issue ID to check for blockers"),
+    }),
+    handler: async ({ issueId }) => {
+      const issue = await dependencyResolver.fetchIssueWithRelations(issueId);
+      const blockers = DependencyResolver.incompleteBlockers(issue).map(
+        (blocker) => ({
+          id: blocker.id,
+          number: blocker.number,
+          title: blocker.title,
+          state: blocker.state?.name,
+          url: blocker.url,
+        }),
+      );
+      const isBlocked = blockers.length > 0;
+
+      return {
+        content: [
+          {
+            type: "text",
+            text: JSON.stringify(
+              {
+                success: true,
+                isBlocked,
+                canStart: !isBlocked,
+                blockers,
+                message: isBlocked
+                  ? `⛔ Cannot start. Blocked by ${blockers.length} incomplete issue(s)`
+                  : "✅ Ready to start - no blockers",
+              },
+              null,
+              2,
+            ),
+          },
+        ],
+      };
+    },
+  }),
+  defineTool({
+    name: "get_next_available_issues",
+    description:
+      "Get all issues that are ready to work on (have no incomplete blockers). Use this to find what work can be started immediately without dependency issues.",
+    readOnly: true,
+    schema: z.object({
+      teamId: z.string().describe("Team ID to search in"),
+      projectId: z
+        .string()
+        .optional()
+        .describe("Optional: filter by specific project"),
+      notInCycle: z
+        .boolean()
+        .default(false)
+        .describe(
+          "Only return issues that aren't in a cycle yet - use when planning the next sprint (default: false)",
+        ),
+      limit: z
+        .number()
+        .default(20)
+        .describe("Maximum number of ready issues to return (default: 20)"),
+      ...paginationShape,
+    }),
+    handler: async ({
+      teamId,
+      projectId,
+      notInCycle,
+      limit,
+      after,
+      fetchAll,
+      maxResults,
+    }) => {
+      const filter: any = {
+        team: { id: { eq: teamId } },
+        state: { type: { nin: ["completed", "canceled"] } },
+      };
+
+      if (projectId) {
+        filter.project = { id: { eq: projectId } };
+      }
 
-        for (const relation of relations.nodes) {
-          const relatedIssue = await relation.relatedIssue;
-          const relatedState = await relatedIssue.state;
+      if (notInCycle) {
+        filter.cycle = { null: true };
+      }
 
-          const issueInfo = {
-            id: relatedIssue.id,
-            number: relatedIssue.number,
-            title: relatedIssue.title,
-            state: relatedState?.name,
-            stateType: relatedState?.type,
-            url: relatedIssue.url,
-          };
+      // Each page loads issues, labels, relations and related states in
+      // a single query, so no per-issue round-trips are needed
+      const readyIssues = await scanPaginated(
+        (page) => dependencyResolver.fetchIssuesWithRelations(filter, page),
+        { after, limit, fetchAll, maxResults },
+        async (pageIssues) =>
+          pageIssues.map((issue) => !DependencyResolver.isBlocked(issue)),
+        20,
+        ISSUES_WITH_RELATIONS_PAGE_SIZE,
+      );
+
+      const availableIssues = readyIssues.nodes.map((issue) => ({
+        id: issue.id,
+        number: issue.number,
+        title: issue.title,
+        priority: issue.priority,
+        estimate: issue.estimate,
+        state: issue.state?.name,
+        url: issue.url,
+        labels: issue.labels,
+      }));
+
+      return {
+        content: [
+          {
+            type: "text",
+            text: JSON.stringify(
+              {
+                success: true,
+                availableIssues,
+                count: availableIssues.length,
+                pageInfo: readyIssues.pageInfo,
+                truncated: readyIssues.truncated,
+                message: `Found ${availableIssues.length} issue(s) ready to start`,
+              },
+              null,
+              2,
+            ),
+          },
+        ],
+      };
+    },
+  }),
+  defineTool({
+    name: "get_issue_dependencies",
+    description:
+      "Get the complete dependency chain for an issue. Shows what must be completed before this issue, and what depends on this issue. Use this to understand the full context and order of work.",
+    readOnly: true,
+    schema: z.object({
+      issueId: z.string().describe("Issue ID to get dependencies for"),
+    }),
+    handler: async ({ issueId }) => {
+      const issue = await linear.issue(issueId);
+      const relations = await issue.relations();
+
+      const blockedBy = [];
+      const blocks = [];
+
+      for (const relation of relations.nodes) {
+        const relatedIssue = await relation.relatedIssue;
+        if (!relatedIssue) continue;
+        const relatedState = await relatedIssue.state;
+
+        const issueInfo = {
+          id: relatedIssue.id,
+          number: relatedIssue.number,
+          title: relatedIssue.title,
+          state: relatedState?.name,
+          stateType: relatedState?.type,
+          url: relatedIssue.url,
+        };
 
-          if (relation.type === "blocks") {
-            blockedBy.push(issueInfo);
-          } else if (relation.type === "blockedBy") {
-            blocks.push(issueInfo);
-          }
+        if (relation.type === "blocks") {
+          blockedBy.push(issueInfo);
+        } else if (relation.type === "blockedBy") {
+          blocks.push(issueInfo);
         }
+      }
 
-        const isBlocked = blockedBy.some(
-          (b) => b.stateType !== "completed" && b.stateType !== "canceled",
-        );
+      const isBlocked = blockedBy.some(
+        (b) => b.stateType !== "completed" && b.stateType !== "canceled",
+      );
 
+      return {
+        content: [
+          {
+            type: "text",
+            text: JSON.stringify(
+              {
+                success: true,
+                issue: {
+                  id: issue.id,
+                  number: issue.number,
+                  title: issue.title,
+                },
+                blockedBy,
+                blocks,
+                isBlocked,
+                canStart: !isBlocked,
+                dependencyChain: {
+                  mustCompleteBefore: blockedBy.map((b) => ({
+                    number: b.number,
+                    title: b.title,
+                    state: b.state,
+                  })),
+                  thisWillUnblock: blocks.map((b) => ({
+                    number: b.number,
+                    title: b.title,
+                    state: b.state,
+                  })),
+                },
+              },
+              null,
+              2,
+            ),
+          },
+        ],
+      };
+    },
+  }),
+  defineTool({
+    name: "export_dependency_graph",
+    description:
+      "Export the blocks/blocked-by graph of a team or project as Mermaid, Graphviz DOT or JSON. Nodes are colored by workflow state, so the output can be pasted into docs and PRs as a roadmap.",
+    readOnly: true,
+    schema: z.object({
+      teamId: z
+        .string()
+        .optional()
+        .describe("Team ID (teamId or projectId is required)"),
+      projectId: z
+        .string()
+        .optional()
+        .describe("Project ID (teamId or projectId is required)"),
+      format: z
+        .enum(GRAPH_FORMATS)
+        .default("mermaid")
+        .describe("Output format"),
+      includeCompleted: z
+        .boolean()
+        .default(true)
+        .describe("Include completed issues (default: true)"),
+      includeCanceled: z
+        .boolean()
+        .default(false)
+        .describe("Include canceled issues (default: false)"),
+      onlyConnected: z
+        .boolean()
+        .default(false)
+        .describe("Leave out issues with no dependencies (default: false)"),
+      maxResults: paginationShape.maxResults,
+    }),
+    handler: async (
+      {
+        teamId,
+        projectId,
+        format,
+        includeCompleted,
+        includeCanceled,
+        onlyConnected,
+        maxResults,
+      },
+      { policy },
+    ) => {
+      // A project can span teams, so its issues are scoped one by one
+      const loaded = await loadDependencyGraph(dependencyResolver, {
+        teamId,
+        projectId,
+        includeCompleted,
+        includeCanceled,
+        maxResults,
+        hidden: (issue) =>
+          !!policy?.teams &&
+          !(issue.team && inAllowedTeams(policy, [issue.team])),
+      });
+      const graph = onlyConnected
+        ? withoutIsolatedNodes(loaded.graph)
+        : loaded.graph;
+
+      return {
+        content: [
+          {
+            type: "text",
+            text: JSON.stringify(
+              {
+                success: true,
+                format,
+                nodeCount: graph.nodes.length,
+                edgeCount: graph.edges.length,
+                truncated: loaded.truncated,
+                graph:
+                  format === "json"
+                    ? graph
+                    : renderDependencyGraph(graph, format as GraphFormat),
+              },
+              null,
+              2,
+            ),
+          },
+        ],
+      };
+    },
+  }),
+  defineTool({
+    name: "get_project_work_order",
+    description:
+      "Plan a project's open issues: a topological order over blocks relations, the critical path computed from estimates, and parallel lanes showing the earliest start of each issue. Use this to decide what can be worked on in parallel and which issues delay the project.",
+    readOnly: true,
+    schema: z.object({
+      projectId: z.string().describe("Project ID"),
+      defaultEstimate: z
+        .number()
+        .default(1)
+        .describe("Estimate used for issues without one (default: 1)"),
+      maxLanes: z
+        .number()
+        .optional()
+        .describe(
+          "Number of people/agents working in parallel (default: as many as the dependencies allow)",
+        ),
+      maxResults: paginationShape.maxResults,
+    }),
+    handler: async ({ projectId, defaultEstimate, maxLanes, maxResults }) => {
+      const { workOrder, truncated } = await loadProjectWorkOrder(
+        dependencyResolver,
+        projectId,
+        { defaultEstimate, maxLanes, maxResults },
+      );
+
+      return {
+        content: [
+          {
+            type: "text",
+            text: JSON.stringify(
+              {
+                success: true,
+                issueCount: workOrder.order.length,
+                truncated,
+                ...workOrder,
+              },
+              null,
+              2,
+            ),
+          },
+        ],
+      };
+    },
+  }),
+  defineTool({
+    name: "pin_issue",
+    description:
+      "Pin an issue as context: it is listed among the MCP resources (linear://issue/{identifier}) until unpinned or the server restarts, so clients can attach and subscribe to it. Doesn't change the issue in Linear, but pins are shared by every session of this server, so it's unavailable in read-only mode.",
+    schema: z.object({
+      issueId: z.string().describe("Issue ID or identifier (e.g. ENG-123)"),
+    }),
+    handler: async ({ issueId }) => {
+      const { uri, name } = await resources.pin(issueId);
+
+      return {
+        content: [
+          {
+            type: "text",
+            text: JSON.stringify(
+              {
+                success: true,
+                uri,
+                name,
+                pinned: resources.pinned().map((pin) => pin.uri),
+              },
+              null,
+              2,
+            ),
+          },
+        ],
+      };
+    },
+  }),
+  defineTool({
+    name: "unpin_issue",
+    description:
+      "Remove an issue pinned with pin_issue from the resources of every session",
+    schema: z.object({
+      issueId: z.string().describe("Issue ID or identifier (e.g. ENG-123)"),
+    }),
+    handler: async ({ issueId }) => {
+      const unpinned = resources.unpin(issueId);
+
+      return {
+        content: [
+          {
+            type: "text",
+            text: JSON.stringify(
+              {
+                success: unpinned,
+                message: unpinned
+                  ? `Unpinned ${issueId}`
+                  : `${issueId} is not pinned`,
+                pinned: resources.pinned().map((pin) => pin.uri),
+              },
+              null,
+              2,
+            ),
+          },
+        ],
+      };
+    },
+  }),
+  defineTool({
+    name: "create_issues_with_dependencies",
+    description:
+      "Create multiple issues and automatically set up their dependencies in the correct order. ALWAYS use this when creating related issues that must be done in sequence. Provide issues array where each issue can reference others by their index in the array. Dependencies are validated first: cycles, self-references and out-of-range indexes are rejected before anything is created. Use parentIndex to nest an issue under an earlier one in the same batch, or parentId for an existing issue.",
+    schema: z.object({
+      teamId: z.string().describe("Team ID"),
+      projectId: z
+        .string()
+        .optional()
+        .describe("Optional: Project ID to assign all issues to"),
+      parentId: z
+        .string()
+        .optional()
+        .describe(
+          "Optional: existing parent issue ID for every issue without parentIndex/parentId",
+        ),
+      issues: z
+        .array(
+          z.object({
+            title: z.string(),
+            description: z.string().optional(),
+            priority: z.number().min(0).max(4).optional(),
+            labels: z.array(z.string()).optional(),
+            blockedBy: z
+              .array(z.number())
+              .optional()
+              .describe(
+                "Array of issue indexes from this array that must be completed first (0-based)",
+              ),
+            parentIndex: z
+              .number()
+              .optional()
+              .describe(
+                "Index of an earlier issue in this array to nest this one under (0-based)",
+              ),
+            parentId: z
+              .string()
+              .optional()
+              .describe("Existing parent issue ID"),
+          }),
+        )
+        .describe(
+          "Array of issues. Use blockedBy to reference other issues by their array index.",
+        ),
+    }),
+    handler: async ({
+      teamId,
+      projectId,
+      issues,
+      parentId: defaultParentId,
+    }) => {
+      // Reject cycles, self-references and bad indexes before anything
+      // is written to Linear
+      const validation = validateIndexedDependencies(issues);
+      const problems = [
+        ...validation.problems,
+        ...validateParentIndexes(issues),
+      ];
+      if (problems.length > 0) {
         return {
           content: [
             {
               type: "text",
               text: JSON.stringify(
                 {
-                  success: true,
-                  issue: {
-                    id: issue.id,
-                    number: issue.number,
-                    title: issue.title,
-                  },
-                  blockedBy,
-                  blocks,
-                  isBlocked,
-                  canStart: !isBlocked,
-                  dependencyChain: {
-                    mustCompleteBefore: blockedBy.map((b) => ({
-                      number: b.number,
-                      title: b.title,
-                      state: b.state,
-                    })),
-                    thisWillUnblock: blocks.map((b) => ({
-                      number: b.number,
-                      title: b.title,
-                      state: b.state,
-                    })),
-                  },
+                  success: false,
+                  error:
+                    "Invalid dependencies - no issues were created. Fix the blockedBy/parentIndex indexes and try again.",
+                  problems,
                 },
                 null,
                 2,
               ),
             },
           ],
+          isError: true,
         };
       }
 
-      case "create_issues_with_dependencies": {
-        const { teamId, projectId, issues } = args as any;
-
-        // CRITICAL: Auto-add repo label to all issues
-        const team = await linear.team(teamId);
-        const repoLabel = `glenn-frank/${team.name.toLowerCase().replace(/\s+/g, "-")}`;
+      // CRITICAL: Auto-add repo label to all issues
+      const team = await linear.team(teamId);
+      const repoLabel = `glenn-frank/${team.name.toLowerCase().replace(/\s+/g, "-")}`;
 
-        const createdIssues: any[] = [];
-        const issueIdByIndex: Record<number, string> = {};
+      const createdIssues: any[] = [];
+      const issueIdByIndex: Record<number, string> = {};
 
-        for (let idx = 0; idx < issues.length; idx++) {
-          const issueData = issues[idx];
-          const { title, description, priority = 2, labels = [] } = issueData;
+      for (let idx = 0; idx < issues.length; idx++) {
+        const issueData = issues[idx];
+        const { title, description, priority = 2, labels = [] } = issueData;
 
-          // Add repo label to this issue's labels
-          const allLabels = [...labels, repoLabel];
-
-          const labelIds: string[] = [];
-          for (const labelName of allLabels) {
-            const labelsQuery = await linear.issueLabels({
-              filter: {
-                name: { eq: labelName },
-                team: { id: { eq: teamId } },
-              },
-            });
+        // Add repo label to this issue's labels
+        const allLabels = [...labels, repoLabel];
 
-            let labelId = labelsQuery.nodes[0]?.id;
+        const labelIds: string[] = [];
+        for (const labelName of allLabels) {
+          const labelsQuery = await linear.issueLabels({
+            filter: {
+              name: { eq: labelName },
+              team: { id: { eq: teamId } },
+            },
+          });
 
-            if (!labelId) {
-              const newLabel = await linear.createIssueLabel({
-                name: labelName,
-                teamId: teamId,
-              });
-              labelId = newLabel.id;
-            }
+          let labelId: string | undefined = labelsQuery.nodes[0]?.id;
 
-            if (labelId) {
-              labelIds.push(labelId);
-            }
+          if (!labelId) {
+            const newLabel = await linear.createIssueLabel({
+              name: labelName,
+              teamId: teamId,
+            });
+            labelId = newLabel.issueLabelId;
           }
 
-          const issuePayload: any = {
-            teamId,
-            title,
-            description,
-            priority,
-          };
-
-          if (labelIds.length > 0) {
-            issuePayload.labelIds = labelIds;
+          if (labelId) {
+            labelIds.push(labelId);
           }
+        }
 
-          if (projectId) {
-            issuePayload.projectId = projectId;
-          }
+        const issuePayload: any = {
+          teamId,
+          title,
+          description,
+          priority,
+        };
 
-          const issueResponse = await linear.createIssue(issuePayload);
-          const createdIssue = await issueResponse.issue;
+        if (labelIds.length > 0) {
+          issuePayload.labelIds = labelIds;
+        }
 
-          if (!createdIssue) {
-            throw new Error(`Failed to create issue: ${title}`);
-          }
+        if (projectId) {
+          issuePayload.projectId = projectId;
+        }
+
+        // Parents come earlier in the array, so they already exist
+        const parentId =
+          issueData.parentIndex !== undefined
+            ? issueIdByIndex[issueData.parentIndex]
+            : (issueData.parentId ?? defaultParentId);
+        if (parentId) {
+          issuePayload.parentId = parentId;
+        }
 
-          issueIdByIndex[idx] = createdIssue.id;
+        const issueResponse = await linear.createIssue(issuePayload);
+        const createdIssue = await issueResponse.issue;
 
-          createdIssues.push({
-            index: idx,
-            id: createdIssue.id,
-            number: createdIssue.number,
-            title: createdIssue.title,
-            url: createdIssue.url,
-          });
+        if (!createdIssue) {
+          throw new Error(`Failed to create issue: ${title}`);
         }
 
-        // Create blocking relationships
-        for (let idx = 0; idx < issues.length; idx++) {
-          const issueData = issues[idx];
-          if (issueData.blockedBy && Array.isArray(issueData.blockedBy)) {
-            const currentIssueId = issueIdByIndex[idx];
-
-            for (const blockerIndex of issueData.blockedBy) {
-              const blockerIssueId = issueIdByIndex[blockerIndex];
-              if (blockerIssueId) {
-                try {
-                  // FIX: Swap parameters - Linear's API expects:
-                  // issueId: the one that WILL BE blocked
-                  // relatedIssueId: the one that DOES THE blocking
-                  // type: "blocks" means relatedIssueId blocks issueId
-                  await linear.createIssueRelation({
-                    issueId: currentIssueId, // Issue being blocked
-                    relatedIssueId: blockerIssueId, // Issue doing the blocking
-                    type: "blocks",
-                  });
-                } catch (error) {
-                  console.error(
-                    `Failed to create dependency: ${blockerIndex} blocks ${idx}`,
-                  );
-                }
+        issueIdByIndex[idx] = createdIssue.id;
+
+        createdIssues.push({
+          index: idx,
+          id: createdIssue.id,
+          number: createdIssue.number,
+          title: createdIssue.title,
+          url: createdIssue.url,
+          parentId: parentId ?? null,
+        });
+      }
+
+      // Create blocking relationships
+      for (let idx = 0; idx < issues.length; idx++) {
+        const issueData = issues[idx];
+        if (issueData.blockedBy && Array.isArray(issueData.blockedBy)) {
+          const currentIssueId = issueIdByIndex[idx];
+
+          for (const blockerIndex of issueData.blockedBy) {
+            const blockerIssueId = issueIdByIndex[blockerIndex];
+            if (blockerIssueId) {
+              try {
+                // FIX: Swap parameters - Linear's API expects:
+                // issueId: the one that WILL BE blocked
+                // relatedIssueId: the one that DOES THE blocking
+                // type: "blocks" means relatedIssueId blocks issueId
+                await linear.createIssueRelation({
+                  issueId: currentIssueId, // Issue being blocked
+                  relatedIssueId: blockerIssueId, // Issue doing the blocking
+                  type: IssueRelationType.Blocks,
+                });
+              } catch (error) {
+                console.error(
+                  `Failed to create dependency: ${blockerIndex} blocks ${idx}`,
+                );
               }
             }
           }
         }
+      }
 
+      return {
+        content: [
+          {
+            type: "text",
+            text: JSON.stringify(
+              {
+                success: true,
+                created: createdIssues,
+                count: createdIssues.length,
+                message: `Created ${createdIssues.length} issue(s) with dependencies`,
+              },
+              null,
+              2,
+            ),
+          },
+        ],
+      };
+    },
+  }),
+  defineTool({
+    name: "undo_last_changes",
+    description:
+      "Revert changes made by this server's mutating tools, using the local audit journal. Defaults to the most recent change. Updated fields are only put back if nothing else changed them since (unless force is set); created issues and projects are archived. Use preview to see what would be reverted first.",
+    schema: z.object({
+      entryId: z.string().optional().describe("Journal entry ID to undo"),
+      sessionId: z
+        .string()
+        .optional()
+        .describe(
+          'Undo every change from a session: a session ID, "current" for this MCP session, or "last" for the most recent session',
+        ),
+      last: z
+        .number()
+        .optional()
+        .describe("Undo the last N journal entries (default: 1)"),
+      force: z
+        .boolean()
+        .default(false)
+        .describe("Revert fields even if they were changed again since"),
+      preview: z
+        .boolean()
+        .default(false)
+        .describe(
+          "List the entries that would be undone without reverting them",
+        ),
+    }),
+    handler: async (
+      { entryId, sessionId, last, force, preview },
+      { sessionId: currentSessionId = journal.sessionId },
+    ) => {
+      const entries = selectEntries(journal.pending(), {
+        entryId,
+        sessionId: sessionId === "current" ? currentSessionId : sessionId,
+        last,
+      });
+      const summary = entries.map((entry) => ({
+        entryId: entry.id,
+        sessionId: entry.sessionId,
+        timestamp: entry.timestamp,
+        tool: entry.tool,
+        changes: entry.changes.length - (entry.reverted?.length ?? 0),
+      }));
+
+      if (preview || entries.length === 0) {
         return {
           content: [
             {
@@ -1701,9 +3007,13 @@ Return ONLY the JSON array, no other text.`;
               text: JSON.stringify(
                 {
                   success: true,
-                  created: createdIssues,
-                  count: createdIssues.length,
-                  message: `Created ${createdIssues.length} issue(s) with dependencies`,
+                  preview: true,
+                  journal: journal.filePath,
+                  entries: summary,
+                  message:
+                    entries.length > 0
+                      ? `${entries.length} journal entr${entries.length === 1 ? "y" : "ies"} would be undone`
+                      : "Nothing to undo",
                 },
                 null,
                 2,
@@ -1713,21 +3023,135 @@ Return ONLY the JSON array, no other text.`;
         };
       }
 
-      default:
-        return {
-          content: [
-            {
-              type: "text",
-              text: JSON.stringify({
-                success: false,
-                error: `Unknown tool: ${name}`,
-              }),
-            },
-          ],
-        };
-    }
-  } catch (error: any) {
-    return {
+      // The unwrapped client, so reverting isn't journaled as new changes
+      const results = await undoEntries(linearClient, journal, entries, force);
+      const undone = results.filter((result) => result.undone).length;
+
+      return {
+        content: [
+          {
+            type: "text",
+            text: JSON.stringify(
+              {
+                success: undone === results.length,
+                results,
+                message: `Undid ${undone} of ${results.length} journal entr${results.length === 1 ? "y" : "ies"}`,
+              },
+              null,
+              2,
+            ),
+          },
+        ],
+      };
+    },
+  }),
+];
+
+// Linear priorities run 1 (urgent) to 4 (low); 0 means none and sorts last
+const byPriority = (a: { priority: number }, b: { priority: number }) =>
+  (a.priority || 5) - (b.priority || 5);
+
+const prompts: PromptDefinition[] = [
+  definePrompt({
+    name: "start_next_issue",
+    description:
+      "Pick the highest-priority unblocked issue of a team and plan the work on it",
+    schema: z.object({
+      teamId: z.string().describe("Linear team ID"),
+      projectId: z
+        .string()
+        .optional()
+        .describe("Only consider issues of this project"),
+    }),
+    handler: async ({ teamId, projectId }, call) => {
+      const { availableIssues } = await call("get_next_available_issues", {
+        teamId,
+        projectId,
+        limit: 10,
+      });
+      if (availableIssues.length === 0) {
+        return `There are no unblocked open issues in team ${teamId}${projectId ? ` (project ${projectId})` : ""}. Use get_issue_dependencies on the open issues to find what is blocking progress, and tell me which blockers to tackle first.`;
+      }
+
+      const [next, ...others] = [...availableIssues].sort(byPriority);
+      const { issue } = await call("get_issue_by_id", { issueId: next.id });
+
+      return [
+        `Start work on the next issue in team ${teamId}. The highest-priority issue without incomplete blockers is "${issue.title}":`,
+        promptJson(issue),
+        ...(others.length > 0
+          ? [
+              "Other issues that are ready to start, in priority order:",
+              others
+                .map((other) => `- ${other.title} (${other.url})`)
+                .join("\n"),
+            ]
+          : []),
+        [
+          "Then:",
+          "1. Read the description and acceptance criteria, and ask me about anything unclear before starting.",
+          "2. Write an implementation plan: the parts of the code to change, the steps in order, and how you will test them.",
+          "3. Once I agree with the plan, move the issue to In Progress with move_issue_to_state and assign it with assign_issue if it has no assignee.",
+        ].join("\n"),
+      ].join("\n\n");
+    },
+  }),
+  definePrompt({
+    name: "triage_backlog",
+    description:
+      "Review a team's triage and backlog issues and propose priorities, labels and projects",
+    schema: z.object({
+      teamId: z.string().describe("Linear team ID"),
+    }),
+    handler: async ({ teamId }, call) => {
+      const [triage, backlog, { labels }, { projects }] = await Promise.all([
+        call("search_issues", { teamId, stateType: "triage", limit: 50 }),
+        call("search_issues", { teamId, stateType: "backlog", limit: 50 }),
+        call("get_team_labels", { teamId }),
+        call("get_team_projects", { teamId }),
+      ]);
+      const summarize = (issues: any[]) =>
+        issues.map((issue) => ({
+          ...issue,
+          description: issue.description?.slice(0, 500),
+        }));
+
+      return [
+        `Triage the open backlog of team ${teamId}.`,
+        `Issues in triage (${triage.count}${triage.pageInfo.hasNextPage ? "+" : ""}):`,
+        promptJson(summarize(triage.issues)),
+        `Issues in the backlog (${backlog.count}${backlog.pageInfo.hasNextPage ? "+" : ""}):`,
+        promptJson(summarize(backlog.issues)),
+        `Labels: ${labels.map((label: any) => label.name).join(", ") || "none"}`,
+        `Projects: ${projects.map((project: any) => `${project.name} (${project.id})`).join(", ") || "none"}`,
+        [
+          "For each issue, propose in one table:",
+          "- a priority (1 urgent, 2 high, 3 medium, 4 low)",
+          "- labels, using only the existing labels above",
+          "- the project it belongs to, if any",
+          "- whether it is a duplicate of another issue, lacks the information to act on, or should be closed",
+          "",
+          "Wait for my confirmation, then apply the changes with update_issue and add_labels_to_issue, and move triaged issues out of triage with move_issue_to_state.",
+        ].join("\n"),
+      ].join("\n\n");
+    },
+  }),
+];
+
+const resolveTeams = linearTeamResolver(linearClient);
+
+/**
+ * Linear tools, resources and prompts, served on their own by this file or
+ * mounted in the gateway as linear.*
+ */
+export const linearToolset: McpToolset = {
+  name: "linear-admin",
+  label: "Linear Admin",
+  tools,
+  resources,
+  prompts,
+  options: {
+    errorResult: (error) => ({
       content: [
         {
           type: "text",
@@ -1743,17 +3167,17 @@ Return ONLY the JSON array, no other text.`;
         },
       ],
       isError: true,
-    };
-  }
-});
+    }),
+    around: (name, args, run, { sessionId }) =>
+      journal.track(name, args, run, sessionId),
+    checkScope: (tool, args, policy) =>
+      teamScopeViolation(policy, tool, args, resolveTeams),
+  },
+};
 
-async function main() {
-  const transport = new StdioServerTransport();
-  await server.connect(transport);
-  console.error("Linear Admin MCP Server running on stdio");
+if (require.main === module) {
+  serveToolset(linearToolset, 3333).catch((error) => {
+    console.error("Fatal error:", error);
+    process.exit(1);
+  });
 }
-
-main().catch((error) => {
-  console.error("Fatal error:", error);
-  process.exit(1);
-});
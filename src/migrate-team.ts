@@ -5,12 +5,14 @@
  * Useful for creating test teams or duplicating team setups
  */
 
-import axios from "axios";
 import * as dotenv from "dotenv";
 import inquirer from "inquirer";
+import { linearApiUrl, resilientAxios } from "./utils/resilient-client";
 
 dotenv.config();
 
+const http = resilientAxios();
+
 const LINEAR_KEY = process.env.LINEAR_API_KEY?.trim();
 
 if (!LINEAR_KEY) {
@@ -23,8 +25,8 @@ const sleep = (ms: number) => new Promise((r) => setTimeout(r, ms));
 /* ---------------- Team Selection ---------------- */
 async function fetchLinearTeams() {
   try {
-    const res = await axios.post(
-      "https://api.linear.app/graphql",
+    const res = await http.post(
+      linearApiUrl(),
       { query: `{ teams { nodes { id name key } } }` },
       {
         headers: {
@@ -67,8 +69,8 @@ async function selectTeam(message: string) {
 /* ---------------- Fetch Team Data ---------------- */
 async function fetchTeamLabels(teamId: string) {
   try {
-    const res = await axios.post(
-      "https://api.linear.app/graphql",
+    const res = await http.post(
+      linearApiUrl(),
       {
         query: `query($id: String!) { 
           team(id: $id) { 
@@ -103,8 +105,8 @@ async function fetchTeamLabels(teamId: string) {
 
 async function fetchTeamProjects(teamId: string) {
   try {
-    const res = await axios.post(
-      "https://api.linear.app/graphql",
+    const res = await http.post(
+      linearApiUrl(),
       {
         query: `query($id: String!) { 
           team(id: $id) { 
@@ -144,8 +146,8 @@ async function fetchTeamProjects(teamId: string) {
 
 async function fetchTeamIssues(teamId: string, limit: number = 100) {
   try {
-    const res = await axios.post(
-      "https://api.linear.app/graphql",
+    const res = await http.post(
+      linearApiUrl(),
       {
         query: `query($id: String!, $first: Int!) { 
           team(id: $id) { 
@@ -207,8 +209,8 @@ async function createLabel(
   teamId: string
 ) {
   try {
-    const res = await axios.post(
-      "https://api.linear.app/graphql",
+    const res = await http.post(
+      linearApiUrl(),
       {
         query: `mutation($input: IssueLabelCreateInput!) { 
           issueLabelCreate(input: $input) { 
@@ -250,8 +252,8 @@ async function createProject(
   teamId: string
 ) {
   try {
-    const res = await axios.post(
-      "https://api.linear.app/graphql",
+    const res = await http.post(
+      linearApiUrl(),
       {
         query: `mutation($input: ProjectCreateInput!) { 
           projectCreate(input: $input) { 
@@ -265,7 +267,7 @@ async function createProject(
           input: {
             name,
             description,
-            teamId,
+            teamIds: [teamId],
           },
         },
       },
@@ -293,8 +295,8 @@ async function createIssue(
   projectMap: Map<string, string>
 ) {
   try {
-    const res = await axios.post(
-      "https://api.linear.app/graphql",
+    const res = await http.post(
+      linearApiUrl(),
       {
         query: `mutation($input: IssueCreateInput!) { 
           issueCreate(input: $input) { 
@@ -410,9 +412,31 @@ async function migrateIssues(
   }
 
   console.log(`✅ Migrated ${migratedCount} issues`);
+  return migratedCount;
 }
 
 /* ---------------- Main Migration Flow ---------------- */
+/**
+ * Copy labels, projects and issues from one team into another
+ */
+export async function copyTeam(sourceTeamId: string, destTeamId: string) {
+  // Migrate labels first
+  const labelMap = await migrateLabels(sourceTeamId, destTeamId);
+
+  // Migrate projects
+  const projectMap = await migrateProjects(sourceTeamId, destTeamId);
+
+  // Migrate issues
+  const issues = await migrateIssues(
+    sourceTeamId,
+    destTeamId,
+    labelMap,
+    projectMap
+  );
+
+  return { labels: labelMap.size, projects: projectMap.size, issues };
+}
+
 async function migrateTeam() {
   try {
     console.log("🔄 Linear Team Migration Tool");
@@ -427,21 +451,13 @@ async function migrateTeam() {
     }
 
     console.log("\n🚀 Starting migration...");
-
-    // Migrate labels first
-    const labelMap = await migrateLabels(sourceTeamId, destTeamId);
-
-    // Migrate projects
-    const projectMap = await migrateProjects(sourceTeamId, destTeamId);
-
-    // Migrate issues
-    await migrateIssues(sourceTeamId, destTeamId, labelMap, projectMap);
+    const summary = await copyTeam(sourceTeamId, destTeamId);
 
     console.log("\n🎉 Migration completed successfully!");
     console.log("📊 Summary:");
-    console.log(`  - Labels: ${labelMap.size}`);
-    console.log(`  - Projects: ${projectMap.size}`);
-    console.log(`  - Issues: Migrated`);
+    console.log(`  - Labels: ${summary.labels}`);
+    console.log(`  - Projects: ${summary.projects}`);
+    console.log(`  - Issues: ${summary.issues}`);
   } catch (err: any) {
     console.error("\n❌ Migration failed:", err.message);
   }
@@ -0,0 +1,420 @@
+import { DependencyEdge } from "../utils/dependency-validation";
+import { Logger } from "../utils/logger";
+import {
+  ConnectionLike,
+  PageResult,
+  fetchPaginated,
+} from "../utils/linear-pagination";
+
+/**
+ * Minimal GraphQL client surface used for bulk queries.
+ * `LinearClient.client` satisfies this, as does a stub in tests.
+ */
+export interface GraphQLRequester {
+  request<Data, Variables extends Record<string, unknown>>(
+    document: string,
+    variables?: Variables,
+  ): Promise<Data>;
+}
+
+/**
+ * Workflow state summary
+ */
+export interface StateSummary {
+  name: string;
+  type: string;
+  color?: string;
+}
+
+/**
+ * Issue fields loaded alongside relations
+ */
+export interface IssueSummary {
+  id: string;
+  identifier?: string;
+  number: number;
+  title: string;
+  priority?: number;
+  /** Estimate in the team's estimation scale, null when not estimated */
+  estimate?: number | null;
+  url: string;
+  state: StateSummary | null;
+  /** Team the issue belongs to */
+  team?: { id: string; key: string } | null;
+}
+
+/**
+ * A relation as seen from the issue that owns it
+ */
+export interface IssueRelationSummary {
+  type: string;
+  relatedIssue: IssueSummary | null;
+}
+
+/**
+ * Issue with its labels and relations already resolved
+ */
+export interface IssueWithRelations extends IssueSummary {
+  labels: string[];
+  relations: IssueRelationSummary[];
+}
+
+/**
+ * Relations fetched per issue in a single query. Issues with more are
+ * completed with follow-up queries.
+ */
+export const RELATIONS_PER_ISSUE = 50;
+
+/** Issues per page when relations are loaded in the same query */
+export const ISSUES_WITH_RELATIONS_PAGE_SIZE = 50;
+
+const ISSUE_SUMMARY_FIELDS = `
+  id
+  identifier
+  number
+  title
+  priority
+  estimate
+  url
+  state { name type color }
+  team { id key }
+`;
+
+const ISSUE_WITH_RELATIONS_FIELDS = `
+  ${ISSUE_SUMMARY_FIELDS}
+  labels { nodes { name } }
+  relations(first: ${RELATIONS_PER_ISSUE}) {
+    nodes {
+      type
+      relatedIssue { ${ISSUE_SUMMARY_FIELDS} }
+    }
+    pageInfo { hasNextPage endCursor }
+  }
+`;
+
+const ISSUES_WITH_RELATIONS_QUERY = `
+  query IssuesWithRelations($filter: IssueFilter, $first: Int, $after: String) {
+    issues(filter: $filter, first: $first, after: $after) {
+      nodes { ${ISSUE_WITH_RELATIONS_FIELDS} }
+      pageInfo { hasNextPage endCursor }
+    }
+  }
+`;
+
+const ISSUE_WITH_RELATIONS_QUERY = `
+  query IssueWithRelations($id: String!) {
+    issue(id: $id) { ${ISSUE_WITH_RELATIONS_FIELDS} }
+  }
+`;
+
+const ISSUES_BLOCKED_BY_QUERY = `
+  query IssuesBlockedBy($id: String!) {
+    issue(id: $id) {
+      ${ISSUE_SUMMARY_FIELDS}
+      inverseRelations(first: ${RELATIONS_PER_ISSUE}) {
+        nodes {
+          type
+          issue { ${ISSUE_WITH_RELATIONS_FIELDS} }
+        }
+        pageInfo { hasNextPage endCursor }
+      }
+    }
+  }
+`;
+
+const RELATIONS_PAGE_QUERY = `
+  query IssueRelationsPage($id: String!, $first: Int, $after: String) {
+    issue(id: $id) {
+      relations(first: $first, after: $after) {
+        nodes {
+          type
+          relatedIssue { ${ISSUE_SUMMARY_FIELDS} }
+        }
+        pageInfo { hasNextPage endCursor }
+      }
+    }
+  }
+`;
+
+const INVERSE_RELATIONS_PAGE_QUERY = `
+  query IssueInverseRelationsPage($id: String!, $first: Int, $after: String) {
+    issue(id: $id) {
+      inverseRelations(first: $first, after: $after) {
+        nodes {
+          type
+          issue { ${ISSUE_WITH_RELATIONS_FIELDS} }
+        }
+        pageInfo { hasNextPage endCursor }
+      }
+    }
+  }
+`;
+
+interface RawConnection<T> {
+  nodes: T[];
+  pageInfo?: { hasNextPage: boolean; endCursor?: string | null };
+}
+
+interface RawIssue {
+  id: string;
+  identifier?: string;
+  number: number;
+  title: string;
+  priority?: number;
+  estimate?: number | null;
+  url: string;
+  state?: StateSummary | null;
+  team?: { id: string; key: string } | null;
+  labels?: { nodes: Array<{ name: string }> };
+  relations?: RawConnection<{ type: string; relatedIssue?: RawIssue | null }>;
+  inverseRelations?: RawConnection<{ type: string; issue?: RawIssue | null }>;
+}
+
+/**
+ * Resolves issues together with their relations and related-issue states
+ * in bulk GraphQL queries, instead of walking `issue.relations()` →
+ * `relation.relatedIssue` → `relatedIssue.state` one round-trip at a time.
+ *
+ * Relation direction follows the convention used when creating relations
+ * in this repo: a `blocks` relation owned by issue X whose related issue
+ * is Y means Y blocks X.
+ */
+export class DependencyResolver {
+  private client: GraphQLRequester;
+  private logger?: Logger;
+
+  constructor(client: GraphQLRequester, logger?: Logger) {
+    this.client = client;
+    this.logger = logger;
+  }
+
+  /**
+   * Fetch one page of issues with labels, relations and related states
+   */
+  async fetchIssuesWithRelations(
+    filter: Record<string, unknown>,
+    page: { first: number; after?: string },
+  ): Promise<ConnectionLike<IssueWithRelations>> {
+    const data = await this.client.request<
+      {
+        issues: {
+          nodes: RawIssue[];
+          pageInfo: { hasNextPage: boolean; endCursor?: string | null };
+        };
+      },
+      Record<string, unknown>
+    >(ISSUES_WITH_RELATIONS_QUERY, {
+      filter,
+      first: Math.min(page.first, ISSUES_WITH_RELATIONS_PAGE_SIZE),
+      after: page.after,
+    });
+
+    this.logger?.debug("Fetched issues with relations", {
+      count: data.issues.nodes.length,
+      hasNextPage: data.issues.pageInfo.hasNextPage,
+    });
+
+    const nodes: IssueWithRelations[] = [];
+    for (const raw of data.issues.nodes) {
+      nodes.push(this.toIssueWithRelations(await this.withAllRelations(raw)));
+    }
+    return { nodes, pageInfo: data.issues.pageInfo };
+  }
+
+  /**
+   * Walk every page of issues matching the filter, bounded like the
+   * fetch-all mode of the list tools
+   */
+  async fetchAllIssuesWithRelations(
+    filter: Record<string, unknown>,
+    maxResults?: number,
+  ): Promise<PageResult<IssueWithRelations>> {
+    return fetchPaginated(
+      (page) => this.fetchIssuesWithRelations(filter, page),
+      { fetchAll: true, maxResults },
+      ISSUES_WITH_RELATIONS_PAGE_SIZE,
+    );
+  }
+
+  /**
+   * Fetch a single issue with its relations in one request
+   */
+  async fetchIssueWithRelations(issueId: string): Promise<IssueWithRelations> {
+    const data = await this.client.request<
+      { issue: RawIssue | null },
+      Record<string, unknown>
+    >(ISSUE_WITH_RELATIONS_QUERY, { id: issueId });
+
+    if (!data.issue) {
+      throw new Error(`Issue not found: ${issueId}`);
+    }
+
+    return this.toIssueWithRelations(await this.withAllRelations(data.issue));
+  }
+
+  /**
+   * Fetch an issue and the issues it blocks, each with its relations, so
+   * their remaining blockers can be checked without further requests
+   */
+  async fetchIssuesBlockedBy(
+    issueId: string,
+  ): Promise<{ blocker: IssueSummary; blocked: IssueWithRelations[] }> {
+    const data = await this.client.request<
+      { issue: RawIssue | null },
+      Record<string, unknown>
+    >(ISSUES_BLOCKED_BY_QUERY, { id: issueId });
+
+    if (!data.issue) {
+      throw new Error(`Issue not found: ${issueId}`);
+    }
+
+    const inverseRelations = await this.remainingNodes(
+      data.issue.id,
+      data.issue.inverseRelations,
+      "inverseRelations",
+      INVERSE_RELATIONS_PAGE_QUERY,
+    );
+
+    const blocked: IssueWithRelations[] = [];
+    for (const relation of inverseRelations) {
+      if (relation.type !== "blocks" || !relation.issue) continue;
+      blocked.push(
+        this.toIssueWithRelations(await this.withAllRelations(relation.issue)),
+      );
+    }
+
+    return { blocker: this.toIssueSummary(data.issue), blocked };
+  }
+
+  /**
+   * The blocks edges in the relations of every issue matching the filter,
+   * for validating new dependencies against the ones already in Linear.
+   * Returns the issues on either end of an edge by ID too, for messages.
+   */
+  async fetchBlockingEdges(
+    filter: Record<string, unknown>,
+    maxResults?: number,
+  ): Promise<{
+    edges: DependencyEdge[];
+    issues: Map<string, IssueSummary>;
+    truncated: boolean;
+  }> {
+    const loaded = await this.fetchAllIssuesWithRelations(filter, maxResults);
+    const edges: DependencyEdge[] = [];
+    const issues = new Map<string, IssueSummary>();
+
+    for (const issue of loaded.nodes) {
+      issues.set(issue.id, issue);
+      for (const relation of issue.relations) {
+        const blocker = relation.relatedIssue;
+        if (relation.type !== "blocks" || !blocker) continue;
+        if (!issues.has(blocker.id)) issues.set(blocker.id, blocker);
+        edges.push({ blocker: blocker.id, blocked: issue.id });
+      }
+    }
+
+    return { edges, issues, truncated: loaded.truncated };
+  }
+
+  /**
+   * Issues that block the given issue and are not yet completed
+   */
+  static incompleteBlockers(issue: IssueWithRelations): IssueSummary[] {
+    return issue.relations
+      .filter(
+        (relation) =>
+          relation.type === "blocks" &&
+          relation.relatedIssue &&
+          relation.relatedIssue.state?.type !== "completed",
+      )
+      .map((relation) => relation.relatedIssue as IssueSummary);
+  }
+
+  /**
+   * Whether the issue has any incomplete blocker
+   */
+  static isBlocked(issue: IssueWithRelations): boolean {
+    return DependencyResolver.incompleteBlockers(issue).length > 0;
+  }
+
+  /**
+   * The issue with every relation loaded, following up on the first page
+   * when it has more
+   */
+  private async withAllRelations(raw: RawIssue): Promise<RawIssue> {
+    if (!raw.relations?.pageInfo?.hasNextPage) return raw;
+    return {
+      ...raw,
+      relations: {
+        nodes: await this.remainingNodes(
+          raw.id,
+          raw.relations,
+          "relations",
+          RELATIONS_PAGE_QUERY,
+        ),
+      },
+    };
+  }
+
+  /**
+   * A connection's nodes, with the pages after the first one loaded
+   */
+  private async remainingNodes<T>(
+    issueId: string,
+    connection: RawConnection<T> | undefined,
+    field: "relations" | "inverseRelations",
+    query: string,
+  ): Promise<T[]> {
+    const nodes = [...(connection?.nodes ?? [])];
+    let pageInfo = connection?.pageInfo;
+    if (!pageInfo?.hasNextPage) return nodes;
+
+    while (pageInfo?.hasNextPage) {
+      const data: { issue: Record<string, RawConnection<T>> | null } =
+        await this.client.request(query, {
+          id: issueId,
+          first: RELATIONS_PER_ISSUE,
+          after: pageInfo.endCursor,
+        });
+      const page = data.issue?.[field];
+      if (!page) break;
+
+      nodes.push(...page.nodes);
+      pageInfo = page.pageInfo;
+    }
+
+    this.logger?.debug("Fetched issue relations", {
+      issueId,
+      field,
+      count: nodes.length,
+    });
+    return nodes;
+  }
+
+  private toIssueWithRelations(raw: RawIssue): IssueWithRelations {
+    return {
+      ...this.toIssueSummary(raw),
+      labels: (raw.labels?.nodes ?? []).map((label) => label.name),
+      relations: (raw.relations?.nodes ?? []).map((relation) => ({
+        type: relation.type,
+        relatedIssue: relation.relatedIssue
+          ? this.toIssueSummary(relation.relatedIssue)
+          : null,
+      })),
+    };
+  }
+
+  private toIssueSummary(raw: RawIssue): IssueSummary {
+    return {
+      id: raw.id,
+      identifier: raw.identifier,
+      number: raw.number,
+      title: raw.title,
+      priority: raw.priority,
+      estimate: raw.estimate ?? null,
+      url: raw.url,
+      state: raw.state ?? null,
+      team: raw.team ?? null,
+    };
+  }
+}
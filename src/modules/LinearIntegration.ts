@@ -1,5 +1,13 @@
-import { LinearClient } from "@linear/sdk";
+import { IssueRelationType, LinearClient } from "@linear/sdk";
 import { Logger } from "../utils/logger";
+import { DependencyResolver } from "./DependencyResolver";
+import { findTeamCursorAgent } from "../utils/cursor-agent";
+import { moveIssueToState, resolveTeamState } from "../utils/workflow-states";
+import {
+  DependencyEdge,
+  describeProblems,
+  validateDependencyMap,
+} from "../utils/dependency-validation";
 import { LaravelForgeAppConfig } from "./ConfigurationManager";
 
 /**
@@ -61,16 +69,14 @@ export class LinearIntegration {
         teamName: this.config.newTeamName,
       });
       console.log(`🏗️  Creating new Linear team: ${this.config.newTeamName}`);
-      const newTeam = await this.retryLinearCall(() =>
-        this.linear.createTeam({
-          name: this.config.newTeamName!,
-          description: `Team for ${this.config.appName} development`,
-        }),
-      );
+      const newTeam = await this.linear.createTeam({
+        name: this.config.newTeamName!,
+        description: `Team for ${this.config.appName} development`,
+      });
       teamId = newTeam.id;
       console.log(`✅ Created new Linear team: ${newTeam.name}`);
     } else {
-      const team = await this.retryLinearCall(() => this.linear.team(teamId));
+      const team = await this.linear.team(teamId);
       console.log(`✅ Using existing Linear team: ${team.name}`);
     }
 
@@ -79,20 +85,16 @@ export class LinearIntegration {
       this.config.createNewProject ||
       this.config.existingProjectId === "new"
     ) {
-      project = await this.retryLinearCall(() =>
-        this.linear.createProject({
-          name: `${this.config.appName} - Development`,
-          description: this.config.description,
-          teamIds: [teamId],
-          state: "planned",
-        }),
-      );
+      project = await this.linear.createProject({
+        name: `${this.config.appName} - Development`,
+        description: this.config.description,
+        teamIds: [teamId],
+        state: "planned",
+      });
       this.logger.info("Created Linear project", { projectId: project.id });
       console.log(`✅ Created new Linear project: ${project.name}`);
     } else if (this.config.existingProjectId) {
-      project = await this.retryLinearCall(() =>
-        this.linear.project(this.config.existingProjectId),
-      );
+      project = await this.linear.project(this.config.existingProjectId);
       console.log(`✅ Using existing Linear project: ${project.name}`);
     } else {
       throw new Error("No project selected");
@@ -110,7 +112,7 @@ export class LinearIntegration {
     // Create development issues
     // CRITICAL: Generate repo label from team name - agents use this to know which repo to work in
     // Format: glenn-frank/[team-name]
-    const team = await this.retryLinearCall(() => this.linear.team(teamId));
+    const team = await this.linear.team(teamId);
     const repoLabel = `glenn-frank/${team.name.toLowerCase().replace(/\s+/g, "-")}`;
 
     console.log(`📁 Using repo label: ${repoLabel}`);
@@ -191,9 +193,7 @@ export class LinearIntegration {
       if (first) {
         const firstId = result.titleToId[first.title];
         try {
-          await this.retryLinearCall(() =>
-            this.linear.updateIssue(firstId, { state: "inProgress" }),
-          );
+          await moveIssueToState(this.linear, firstId, "started");
         } catch (error) {
           this.logger.warn(
             "Failed to move first issue to In Progress",
@@ -216,12 +216,10 @@ export class LinearIntegration {
    */
   private async reassignOrphanIssues(teamId: string, projectId: string) {
     try {
-      const orphanIssues = await this.retryLinearCall(() =>
-        this.linear.issues({
-          filter: { team: { id: { eq: teamId } }, project: { null: true } },
-          first: 500,
-        }),
-      );
+      const orphanIssues = await this.linear.issues({
+        filter: { team: { id: { eq: teamId } }, project: { null: true } },
+        first: 500,
+      });
 
       if (orphanIssues.nodes.length === 0) return;
 
@@ -231,9 +229,7 @@ export class LinearIntegration {
 
       for (const issue of orphanIssues.nodes) {
         try {
-          await this.retryLinearCall(() =>
-            this.linear.updateIssue(issue.id, { projectId }),
-          );
+          await this.linear.updateIssue(issue.id, { projectId });
           this.logger.info("Reassigned orphan issue", {
             issueId: issue.id,
             title: issue.title,
@@ -257,8 +253,8 @@ export class LinearIntegration {
    */
   private async reportProjectsSummary(teamId: string): Promise<void> {
     try {
-      const team = await this.retryLinearCall(() => this.linear.team(teamId));
-      const projects = await this.retryLinearCall(() => team.projects());
+      const team = await this.linear.team(teamId);
+      const projects = await team.projects();
 
       console.log("\n📊 Current team projects and issue counts:");
       if (projects.nodes.length === 0) {
@@ -266,21 +262,17 @@ export class LinearIntegration {
       }
 
       for (const p of projects.nodes) {
-        const issues = await this.retryLinearCall(() =>
-          this.linear.issues({
-            filter: { project: { id: { eq: p.id } } },
-            first: 200,
-          }),
-        );
+        const issues = await this.linear.issues({
+          filter: { project: { id: { eq: p.id } } },
+          first: 200,
+        });
         console.log(`  - ${p.name}: ${issues.nodes.length} issue(s)`);
       }
 
-      const orphan = await this.retryLinearCall(() =>
-        this.linear.issues({
-          filter: { team: { id: { eq: teamId } }, project: { null: true } },
-          first: 200,
-        }),
-      );
+      const orphan = await this.linear.issues({
+        filter: { team: { id: { eq: teamId } }, project: { null: true } },
+        first: 200,
+      });
       console.log(`\n🧭 Orphan issues (no project): ${orphan.nodes.length}`);
       if (orphan.nodes.length > 0) {
         console.log(
@@ -305,19 +297,15 @@ export class LinearIntegration {
   ): Promise<void> {
     try {
       // Fetch orphan issues (no project)
-      const orphan = await this.retryLinearCall(() =>
-        this.linear.issues({
-          filter: { team: { id: { eq: teamId } }, project: { null: true } },
-          first: 200,
-        }),
-      );
+      const orphan = await this.linear.issues({
+        filter: { team: { id: { eq: teamId } }, project: { null: true } },
+        first: 200,
+      });
       if (orphan.nodes.length === 0) return;
 
       // Ensure a map of existing projects by name
-      const team = await this.retryLinearCall(() => this.linear.team(teamId));
-      const existingProjects = await this.retryLinearCall(() =>
-        team.projects(),
-      );
+      const team = await this.linear.team(teamId);
+      const existingProjects = await team.projects();
       const nameToProjectId = new Map<string, string>();
       existingProjects.nodes.forEach((p: any) =>
         nameToProjectId.set(p.name, p.id),
@@ -325,9 +313,11 @@ export class LinearIntegration {
 
       const ensureProject = async (name: string): Promise<string> => {
         if (nameToProjectId.has(name)) return nameToProjectId.get(name)!;
-        const created = await this.retryLinearCall(() =>
-          this.linear.createProject({ name, teamId, state: "planned" }),
-        );
+        const created = await this.linear.createProject({
+          name,
+          teamId,
+          state: "planned",
+        });
         nameToProjectId.set(name, created.id);
         console.log(`📁 Created project bucket: ${name}`);
         return created.id;
@@ -338,11 +328,9 @@ export class LinearIntegration {
       for (const issue of orphan.nodes) {
         let versionLabel: string | undefined;
         try {
-          const labels = await this.retryLinearCall(() =>
-            this.linear.issueLabels({
-              filter: { issue: { id: { eq: issue.id } } },
-            }),
-          );
+          const labels = await this.linear.issueLabels({
+            filter: { issue: { id: { eq: issue.id } } },
+          });
           const match = labels.nodes.find((l: any) =>
             versionRegex.test(l.name),
           );
@@ -354,9 +342,7 @@ export class LinearIntegration {
           : "Unassigned (to triage)";
         const projectId = await ensureProject(targetProjectName);
         try {
-          await this.retryLinearCall(() =>
-            this.linear.updateIssue(issue.id, { projectId }),
-          );
+          await this.linear.updateIssue(issue.id, { projectId });
         } catch (e) {
           this.logger.warn(
             "Failed to move orphan into version project",
@@ -386,8 +372,8 @@ export class LinearIntegration {
     console.log("🔄 Setting up dependencies for existing team...\n");
 
     // Get team and its projects
-    const team = await this.retryLinearCall(() => this.linear.team(teamId));
-    const projects = await this.retryLinearCall(() => team.projects());
+    const team = await this.linear.team(teamId);
+    const projects = await team.projects();
 
     console.log(`📁 Found ${projects.nodes.length} project(s)\n`);
 
@@ -406,12 +392,10 @@ export class LinearIntegration {
     projectId: string,
   ): Promise<void> {
     try {
-      const issuesQuery = await this.retryLinearCall(() =>
-        this.linear.issues({
-          filter: { project: { id: { eq: projectId } } },
-          first: 200,
-        }),
-      );
+      const issuesQuery = await this.linear.issues({
+        filter: { project: { id: { eq: projectId } } },
+        first: 200,
+      });
       const issues: IssueWithDependencies[] = issuesQuery.nodes.map(
         (n: any) => ({
           title: n.title,
@@ -436,9 +420,7 @@ export class LinearIntegration {
       if (first) {
         const firstId = titleToId[first.title];
         try {
-          await this.retryLinearCall(() =>
-            this.linear.updateIssue(firstId, { state: "inProgress" }),
-          );
+          await moveIssueToState(this.linear, firstId, "started");
         } catch (e) {
           this.logger.warn(
             "Failed to move first project issue to In Progress",
@@ -477,26 +459,22 @@ export class LinearIntegration {
         const labelIds: string[] = [];
         for (const labelName of issue.labels) {
           // Filter labels by BOTH name AND team to avoid workspace-level conflicts
-          const labels = await this.retryLinearCall(() =>
-            this.linear.issueLabels({
-              filter: {
-                name: { eq: labelName },
-                team: { id: { eq: teamId } },
-              },
-            }),
-          );
+          const labels = await this.linear.issueLabels({
+            filter: {
+              name: { eq: labelName },
+              team: { id: { eq: teamId } },
+            },
+          });
 
           let foundLabel = labels.nodes[0];
 
           if (!foundLabel) {
             // Create label if it doesn't exist in this team
             try {
-              const newLabel = await this.retryLinearCall(() =>
-                this.linear.createIssueLabel({
-                  name: labelName,
-                  teamId: teamId,
-                }),
-              );
+              const newLabel = await this.linear.createIssueLabel({
+                name: labelName,
+                teamId: teamId,
+              });
               if (newLabel.id) {
                 labelIds.push(newLabel.id);
                 createdLabelIds.add(newLabel.id);
@@ -526,9 +504,7 @@ export class LinearIntegration {
           issueData.labelIds = labelIds;
         }
 
-        const createdIssue = await this.retryLinearCall(() =>
-          this.linear.createIssue(issueData),
-        );
+        const createdIssue = await this.linear.createIssue(issueData);
         createdIssues[issue.title] = createdIssue.id;
 
         this.logger.info("Created Linear issue", {
@@ -564,46 +540,88 @@ export class LinearIntegration {
   ): Promise<void> {
     this.logger.info("Creating Linear issue relations from dependencies");
 
+    // Only validate issues that were actually created
+    const dependencies: Record<string, string[]> = {};
     for (const issue of issues) {
-      const currentId = titleToId[issue.title];
-      if (
-        !currentId ||
-        !issue.dependencies ||
-        issue.dependencies.length === 0
-      ) {
-        continue;
+      if (titleToId[issue.title] && issue.dependencies?.length) {
+        dependencies[issue.title] = issue.dependencies;
       }
+    }
 
-      for (const depTitle of issue.dependencies) {
-        const depId = titleToId[depTitle];
-        if (!depId) continue;
+    const validation = validateDependencyMap(
+      dependencies,
+      Object.keys(titleToId),
+      undefined,
+      await this.existingBlockingEdges(titleToId),
+    );
+    if (!validation.valid) {
+      this.logger.warn("Skipping invalid issue dependencies", {
+        problems: validation.problems,
+      });
+      console.log(
+        `⚠️  Skipping ${validation.problems.length} invalid dependenc${
+          validation.problems.length === 1 ? "y" : "ies"
+        }:\n${describeProblems(validation.problems)}`,
+      );
+    }
 
-        try {
-          // FIX: Corrected blocking direction
-          // Linear API: type "blocks" means relatedIssueId blocks issueId
-          // So: issueId = the one being blocked, relatedIssueId = the blocker
-          await this.retryLinearCall(() =>
-            // @ts-ignore - SDK method name may vary; Linear's API supports creating relations
-            this.linear.createIssueRelation({
-              type: "blocks",
-              issueId: currentId, // The issue being blocked
-              relatedIssueId: depId, // The dependency that blocks it
-            }),
-          );
-          this.logger.info("Created relation: blocks", {
-            blocker: depTitle,
-            blocked: issue.title,
-          });
-        } catch (error) {
-          this.logger.warn("Failed to create issue relation", error as Error, {
-            blocker: depTitle,
-            blocked: issue.title,
-          });
-        }
+    for (const edge of validation.acceptedEdges) {
+      const currentId = titleToId[edge.blocked];
+      const depId = titleToId[edge.blocker];
+
+      try {
+        // FIX: Corrected blocking direction
+        // Linear API: type "blocks" means relatedIssueId blocks issueId
+        // So: issueId = the one being blocked, relatedIssueId = the blocker
+        await this.linear.createIssueRelation({
+          type: IssueRelationType.Blocks,
+          issueId: currentId, // The issue being blocked
+          relatedIssueId: depId, // The dependency that blocks it
+        });
+        this.logger.info("Created relation: blocks", {
+          blocker: edge.blocker,
+          blocked: edge.blocked,
+        });
+      } catch (error) {
+        this.logger.warn("Failed to create issue relation", error as Error, {
+          blocker: edge.blocker,
+          blocked: edge.blocked,
+        });
       }
     }
   }
 
+  /**
+   * Blocks relations already in Linear between the given issues, keyed
+   * by title, so new dependencies can't close a cycle through them
+   */
+  private async existingBlockingEdges(
+    titleToId: Record<string, string>,
+  ): Promise<DependencyEdge[]> {
+    const idToTitle = new Map(
+      Object.entries(titleToId).map(([title, id]) => [id, title]),
+    );
+    try {
+      const { edges } = await new DependencyResolver(
+        this.linear.client,
+      ).fetchBlockingEdges({ id: { in: [...idToTitle.keys()] } });
+      return edges
+        .filter(
+          (edge) => idToTitle.has(edge.blocker) && idToTitle.has(edge.blocked),
+        )
+        .map((edge) => ({
+          blocker: idToTitle.get(edge.blocker)!,
+          blocked: idToTitle.get(edge.blocked)!,
+        }));
+    } catch (error) {
+      this.logger.warn(
+        "Could not load existing issue relations",
+        error as Error,
+      );
+      return [];
+    }
+  }
+
   /**
    * Choose initial unblocked issues and move only the first one to In Progress
    */
@@ -628,23 +646,21 @@ export class LinearIntegration {
     console.log("🤖 Assigning all issues to Cursor agent...");
 
     try {
-      const team = await this.retryLinearCall(() => this.linear.team(teamId));
-      const users = await team.users();
-      const cursorAgent = users.nodes.find(
-        (user: any) =>
-          user.name.toLowerCase().includes("cursor") ||
-          user.email?.toLowerCase().includes("cursor"),
-      );
+      const cursorAgent = await findTeamCursorAgent(this.linear, teamId);
 
       if (cursorAgent) {
+        const startedState = await resolveTeamState(
+          this.linear,
+          teamId,
+          "started",
+        );
+
         for (const issueId of issueIds) {
           try {
-            await this.retryLinearCall(() =>
-              this.linear.updateIssue(issueId, {
-                assigneeId: cursorAgent.id,
-                state: "inProgress",
-              }),
-            );
+            await this.linear.updateIssue(issueId, {
+              assigneeId: cursorAgent.id,
+              stateId: startedState.id,
+            });
           } catch (error) {
             this.logger.error(
               "Failed to assign issue to Cursor agent",
@@ -765,40 +781,4 @@ Rules:
       dependencies: dependencyRules[issue.title] || [],
     }));
   }
-
-  /**
-   * Retry Linear API calls with exponential backoff
-   */
-  private async retryLinearCall<T>(
-    operation: () => Promise<T>,
-    maxRetries: number = 3,
-    delayMs: number = 1000,
-  ): Promise<T> {
-    let lastError: Error;
-
-    for (let attempt = 1; attempt <= maxRetries; attempt++) {
-      try {
-        return await operation();
-      } catch (error) {
-        lastError = error as Error;
-
-        if (attempt === maxRetries) {
-          throw error;
-        }
-
-        this.logger.warn("Linear API call failed, retrying", error as Error, {
-          attempt,
-          maxRetries,
-          delayMs,
-        });
-        console.log(
-          `⚠️  Attempt ${attempt} failed, retrying in ${delayMs}ms...`,
-        );
-        await new Promise((resolve) => setTimeout(resolve, delayMs));
-        delayMs *= 2; // Exponential backoff
-      }
-    }
-
-    throw lastError!;
-  }
 }
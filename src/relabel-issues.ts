@@ -4,7 +4,6 @@
  * Adds labels to existing Linear issues using the same fuzzy matching logic
  */
 
-import axios from "axios";
 import * as dotenv from "dotenv";
 import inquirer from "inquirer";
 import {
@@ -15,9 +14,16 @@ import {
   findSimilarLabelId,
   createLinearLabel,
 } from "./index";
+import {
+  createLinearClient,
+  resilientAxios,
+} from "./utils/resilient-client";
+import { openTeamMirror } from "./utils/team-mirror";
 
 dotenv.config();
 
+const http = resilientAxios();
+
 /* ---------------- ENV Validation ---------------- */
 const LINEAR_KEY = process.env.LINEAR_API_KEY?.trim();
 
@@ -40,7 +46,7 @@ async function inferCategories(
   description: string
 ): Promise<string[]> {
   try {
-    const response = await axios.post(
+    const response = await http.post(
       "https://api.openai.com/v1/chat/completions",
       {
         model: "gpt-4o-mini",
@@ -242,7 +248,7 @@ async function fetchLinearLabels(
   teamId: string
 ): Promise<Array<{ id: string; name: string }>> {
   try {
-    const res = await axios.post(
+    const res = await http.post(
       "https://api.linear.app/graphql",
       {
         query: `query($id: String!) { team(id: $id) { labels { nodes { id name } } } }`,
@@ -278,7 +284,7 @@ async function fetchLinearIssues(
   }>
 > {
   try {
-    const res = await axios.post(
+    const res = await http.post(
       "https://api.linear.app/graphql",
       {
         query: `
@@ -330,7 +336,7 @@ async function createLinearLabel(
   teamId: string
 ): Promise<string | null> {
   try {
-    const res = await axios.post(
+    const res = await http.post(
       "https://api.linear.app/graphql",
       {
         query: `
@@ -365,7 +371,7 @@ async function updateIssueLabels(
   labelIds: string[]
 ): Promise<boolean> {
   try {
-    const res = await axios.post(
+    const res = await http.post(
       "https://api.linear.app/graphql",
       {
         query: `
@@ -394,6 +400,33 @@ async function updateIssueLabels(
   }
 }
 
+/**
+ * Labels and latest issues from a freshly synced local team mirror, in the
+ * shapes fetchLinearLabels and fetchLinearIssues return
+ */
+async function fetchFromMirror(teamId: string, limit: number) {
+  const mirror = await openTeamMirror(
+    createLinearClient(LINEAR_KEY).client,
+    teamId
+  );
+  const labels = mirror.labels
+    .filter((l) => l.teamId === teamId)
+    .map((l) => ({ id: l.id, name: l.name }));
+  const issues = mirror.issues
+    .sort((a, b) => b.createdAt.localeCompare(a.createdAt))
+    .slice(0, limit)
+    .map((issue) => ({
+      id: issue.id,
+      title: issue.title,
+      description: issue.description || "",
+      labels: issue.labelIds
+        .map((id) => mirror.data.labels[id])
+        .filter(Boolean)
+        .map((l) => ({ id: l.id, name: l.name })),
+    }));
+  return [labels, issues] as const;
+}
+
 /* ---------------- Team Selection ---------------- */
 async function selectLinearTeam() {
   const teams = await fetchLinearTeams();
@@ -446,10 +479,12 @@ async function selectLinearTeam() {
 
     // Fetch existing labels and issues
     console.log("📥 Fetching existing labels and issues...");
-    const [labels, issues] = await Promise.all([
-      fetchLinearLabels(selectedTeamId),
-      fetchLinearIssues(selectedTeamId, 100),
-    ]);
+    const [labels, issues] = process.argv.includes("--mirror")
+      ? await fetchFromMirror(selectedTeamId, 100)
+      : await Promise.all([
+          fetchLinearLabels(selectedTeamId),
+          fetchLinearIssues(selectedTeamId, 100),
+        ]);
 
     console.log(`✅ Found ${labels.length} labels and ${issues.length} issues`);
 
@@ -459,7 +494,7 @@ async function selectLinearTeam() {
     }
 
     // Check for command line arguments
-    const args = process.argv.slice(2);
+    const args = process.argv.slice(2).filter((a) => a !== "--mirror");
     let action = "preview"; // Default to preview mode
 
     if (args.includes("--all")) {
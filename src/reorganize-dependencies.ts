@@ -1,6 +1,12 @@
 import { LinearClient } from "@linear/sdk";
 import inquirer from "inquirer";
 import * as dotenv from "dotenv";
+import { DependencyResolver } from "./modules/DependencyResolver";
+import {
+  describeProblems,
+  validateDependencyMap,
+} from "./utils/dependency-validation";
+import { moveIssueToState } from "./utils/workflow-states";
 
 dotenv.config();
 
@@ -84,15 +90,15 @@ async function main() {
   const dependencies = await inferDependencies(issues, useAI);
 
   // Create relations
-  await createRelations(linear, dependencies, issues);
+  await createRelations(linear, teamId, dependencies, issues);
 
   // Optionally start the first unblocked, highest-priority
   if (autoStartFirst) {
     const first = selectFirstUnblocked(issues, dependencies);
     if (first) {
       try {
-        await linear.updateIssue(first.id, { state: "inProgress" });
-        console.log(`🚀 Moved to In Progress: ${first.title}`);
+        const transition = await moveIssueToState(linear, first.id, "started");
+        console.log(`🚀 Moved to ${transition.after.name}: ${first.title}`);
       } catch (e: any) {
         console.log(
           "⚠️  Could not move first issue to In Progress:",
@@ -175,24 +181,52 @@ function mapByTitle(titles: string[], issues: SimpleIssue[]) {
 
 async function createRelations(
   linear: LinearClient,
+  teamId: string,
   deps: Record<string, string[]>,
   issues: SimpleIssue[]
 ) {
   const byId = new Map(issues.map((i) => [i.id, i.title]));
-  for (const [issueId, blockers] of Object.entries(deps)) {
-    for (const blockerId of blockers) {
-      try {
-        // Relation: blocker blocks issue
-        // @ts-ignore Linear SDK supports createIssueRelation
-        await linear.createIssueRelation({
-          type: "blocks",
-          issueId: blockerId,
-          relatedIssueId: issueId,
-        });
-        console.log(`🔗 ${byId.get(blockerId)} blocks ${byId.get(issueId)}`);
-      } catch (e: any) {
-        console.log("⚠️  Relation failed:", e.message);
-      }
+
+  // Relations already in the team can close a cycle too. This script
+  // makes the blocker own the relation, the reverse of how
+  // DependencyResolver reads them, so flip them to match.
+  const existing = await new DependencyResolver(
+    linear.client
+  ).fetchBlockingEdges({ team: { id: { eq: teamId } } });
+  const existingEdges = existing.edges.map(({ blocker, blocked }) => ({
+    blocker: blocked,
+    blocked: blocker,
+  }));
+
+  // AI-inferred chains often loop back on themselves; drop those edges
+  // and explain why before writing anything
+  const validation = validateDependencyMap(
+    deps,
+    byId.keys(),
+    (id) => byId.get(id) ?? existing.issues.get(id)?.title ?? id,
+    existingEdges
+  );
+  if (!validation.valid) {
+    console.log(
+      `⚠️  Skipping ${validation.problems.length} invalid dependencies:\n${describeProblems(
+        validation.problems
+      )}`
+    );
+  }
+
+  for (const edge of validation.acceptedEdges) {
+    const { blocker: blockerId, blocked: issueId } = edge;
+    try {
+      // Relation: blocker blocks issue
+      // @ts-ignore Linear SDK supports createIssueRelation
+      await linear.createIssueRelation({
+        type: "blocks",
+        issueId: blockerId,
+        relatedIssueId: issueId,
+      });
+      console.log(`🔗 ${byId.get(blockerId)} blocks ${byId.get(issueId)}`);
+    } catch (e: any) {
+      console.log("⚠️  Relation failed:", e.message);
     }
   }
 }
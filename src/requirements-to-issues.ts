@@ -5,11 +5,13 @@
  * with automatic labeling, team selection, and issue organization.
  */
 
-import axios from "axios";
 import * as fs from "fs";
 import * as path from "path";
 import * as dotenv from "dotenv";
 import inquirer from "inquirer";
+import { resolveParentIndex } from "./utils/sub-issues";
+import { createLinearClient, resilientAxios } from "./utils/resilient-client";
+import { DuplicateGuard } from "./utils/duplicate-issues";
 
 dotenv.config();
 
@@ -27,6 +29,11 @@ if (!OPENAI_KEY || !LINEAR_KEY) {
 
 const sleep = (ms: number) => new Promise((r) => setTimeout(r, ms));
 
+// OpenAI and Linear requests are retried and rate limited by the shared
+// client, and HTTP_FIXTURES can record and replay them
+const openAiApi = resilientAxios();
+const linearApi = resilientAxios();
+
 /* ---------------- Path Handling ---------------- */
 function sanitizePath(input: string) {
   return input.trim().replace(/^'|'$/g, "").replace(/^"|"$/g, "");
@@ -192,6 +199,8 @@ You are an expert project manager. Your task is to break down parent issues into
 For each parent issue provided, create 3-4 sub-issues that represent specific components or modules within that system.
 
 Each sub-issue must include:
+- Parent_Index: The Index of the parent issue it belongs to (as given in the input)
+- Parent_Title: The exact Title of that parent issue
 - Title: Specific component name (e.g., "User Registration Module")
 - Description: What this specific component does
 - Requirements: Array of specific requirements for this component
@@ -210,13 +219,20 @@ Respond in pure JSON array format with all sub-issues.
 `;
 
   try {
-    const res = await axios.post(
+    const res = await openAiApi.post(
       "https://api.openai.com/v1/chat/completions",
       {
         model: "gpt-4o-mini",
         messages: [
           { role: "system", content: subIssuePrompt },
-          { role: "user", content: JSON.stringify(parentIssues, null, 2) },
+          {
+            role: "user",
+            content: JSON.stringify(
+              parentIssues.map((issue, index) => ({ Index: index, ...issue })),
+              null,
+              2
+            ),
+          },
         ],
         temperature: 0.2,
       },
@@ -417,7 +433,7 @@ Respond in pure JSON array format with all issues found. Each issue should be co
 `;
 
   try {
-    const res = await axios.post(
+    const res = await openAiApi.post(
       "https://api.openai.com/v1/chat/completions",
       {
         model: "gpt-4o-mini",
@@ -450,7 +466,7 @@ Respond in pure JSON array format with all issues found. Each issue should be co
 /* ---------------- Linear Integration (Reused from index.ts) ---------------- */
 async function fetchLinearTeams() {
   try {
-    const res = await axios.post(
+    const res = await linearApi.post(
       "https://api.linear.app/graphql",
       { query: `{ teams { nodes { id name key } } }` },
       {
@@ -516,7 +532,7 @@ async function fetchLinearLabels(
   teamId: string
 ): Promise<Array<{ id: string; name: string }>> {
   try {
-    const res = await axios.post(
+    const res = await linearApi.post(
       "https://api.linear.app/graphql",
       {
         query: `query($id: String!) { team(id: $id) { labels { nodes { id name } } } }`,
@@ -776,7 +792,7 @@ async function createLinearLabel(
 ): Promise<string | null> {
   try {
     const color = getLabelColor(name);
-    const res = await axios.post(
+    const res = await linearApi.post(
       "https://api.linear.app/graphql",
       {
         query: `mutation($input: IssueLabelCreateInput!) { issueLabelCreate(input: $input) { issueLabel { id name } } }`,
@@ -870,18 +886,31 @@ async function ensureCategoryLabelId(
 }
 
 /* ---------------- Create Issues in Linear ---------------- */
+/**
+ * Create issues in order. An issue with a `parentId` is created as a
+ * sub-issue of it. Likely duplicates of team issues are handled as
+ * DUPLICATE_ACTION says. Returns the created issue ids, aligned with
+ * `issues`: the existing issue's id for a skipped or merged duplicate,
+ * null where creation failed or was skipped for another reason.
+ */
 async function createLinearIssues(
   issues: any[],
   teamId: string,
   availableLabels: Array<{ id: string; name: string }>,
   sourceInfo: string
-) {
+): Promise<Array<string | null>> {
   console.log("📬 Creating issues in Linear...");
   const createdLabelsCache = new Map<string, string>();
+  const createdIds: Array<string | null> = [];
+  const duplicates = await DuplicateGuard.load(
+    createLinearClient(LINEAR_KEY).client,
+    teamId
+  );
   let processedCount = 0;
 
   for (const issue of issues) {
     processedCount++;
+    createdIds.push(null);
     console.log(`  📝 Processing issue ${processedCount}/${issues.length}...`);
 
     try {
@@ -899,6 +928,18 @@ async function createLinearIssues(
         continue;
       }
 
+      // A sub-issue is expected to resemble its parent
+      const duplicateCheck = await duplicates.beforeCreate(
+        { title, description },
+        issue.parentId ? [issue.parentId] : []
+      );
+      if (!duplicateCheck.create) {
+        // Sub-issues of a skipped parent go under the existing issue
+        createdIds[createdIds.length - 1] =
+          duplicateCheck.duplicate?.issue.id ?? null;
+        continue;
+      }
+
       // Infer labels for the issue
       let labelIds = inferLabelIdsFromIssue(
         title,
@@ -937,12 +978,15 @@ async function createLinearIssues(
       const finalDescription = parts.join("\n\n");
 
       console.log(`    📤 Creating Linear issue: "${title}"...`);
-      const res = await axios.post(
+      const res = await linearApi.post(
         "https://api.linear.app/graphql",
         {
           query: `
             mutation($input: IssueCreateInput!) {
-              issueCreate(input: $input) { success issue { id title } }
+              issueCreate(input: $input) {
+                success
+                issue { id identifier title url }
+              }
             }
           `,
           variables: {
@@ -952,6 +996,7 @@ async function createLinearIssues(
               description: finalDescription,
               priority,
               labelIds: labelIds.length ? labelIds : undefined,
+              parentId: issue.parentId || undefined,
             },
           },
         },
@@ -968,7 +1013,13 @@ async function createLinearIssues(
       const created = res.data?.data?.issueCreate?.issue?.title;
 
       if (created && issueId) {
+        createdIds[createdIds.length - 1] = issueId;
         console.log(`  ✅ Created issue: ${created}`);
+        await duplicates.afterCreate(
+          res.data.data.issueCreate.issue,
+          { title, description },
+          duplicateCheck
+        );
       } else {
         const errors = res.data?.errors || res.data?.data?.issueCreate?.errors;
         if (errors) {
@@ -995,6 +1046,52 @@ async function createLinearIssues(
   }
 
   console.log("✅ All issues processed");
+  return createdIds;
+}
+
+/**
+ * Create the parent issues, then their sub-issues nested under them.
+ * Returns the IDs of both, null where an issue wasn't created.
+ */
+async function createIssueHierarchy(
+  parentIssues: any[],
+  subIssues: any[],
+  teamId: string,
+  availableLabels: Array<{ id: string; name: string }>,
+  sourceInfo: string
+): Promise<{
+  parentIds: Array<string | null>;
+  subIssueIds: Array<string | null>;
+}> {
+  // Create parents first so sub-issues can be nested under them
+  const parentIds = await createLinearIssues(
+    parentIssues,
+    teamId,
+    availableLabels,
+    sourceInfo
+  );
+
+  let orphanCount = 0;
+  const nestedSubIssues = subIssues.map((subIssue: any) => {
+    const parentIndex = resolveParentIndex(subIssue, parentIssues);
+    const parentId = parentIndex >= 0 ? parentIds[parentIndex] : null;
+    if (!parentId) orphanCount++;
+    return { ...subIssue, parentId };
+  });
+
+  if (orphanCount > 0) {
+    console.warn(
+      `⚠️  ${orphanCount} sub-issue(s) have no matching parent and will be created as top-level issues`
+    );
+  }
+
+  const subIssueIds = await createLinearIssues(
+    nestedSubIssues,
+    teamId,
+    availableLabels,
+    sourceInfo
+  );
+  return { parentIds, subIssueIds };
 }
 
 /* ---------------- Input Selection ---------------- */
@@ -1028,7 +1125,7 @@ async function getRequirementsInput() {
         },
       },
     ]);
-    return { type: "file", path: sanitizePath(answers.filePath) };
+    return { type: "file" as const, path: sanitizePath(answers.filePath) };
   } else {
     const textInputMethod = await inquirer.prompt([
       {
@@ -1056,7 +1153,7 @@ async function getRequirementsInput() {
           },
         },
       ]);
-      return { type: "text", content: answers.textContent };
+      return { type: "text" as const, content: answers.textContent };
     } else {
       const answers = await inquirer.prompt([
         {
@@ -1074,11 +1171,20 @@ async function getRequirementsInput() {
           },
         },
       ]);
-      return { type: "text", content: answers.textContent };
+      return { type: "text" as const, content: answers.textContent };
     }
   }
 }
 
+/* ---------------- Exports ---------------- */
+export {
+  summarizeRequirementsToIssues,
+  generateSubIssues,
+  fetchLinearLabels,
+  createLinearIssues,
+  createIssueHierarchy,
+};
+
 /* ---------------- Main Flow ---------------- */
 if (require.main === module) {
   (async () => {
@@ -1108,15 +1214,21 @@ if (require.main === module) {
       // Generate sub-issues for each parent issue
       const subIssues = await generateSubIssues(parentIssues);
 
-      // Combine parent and sub-issues
-      const allIssues = [...parentIssues, ...subIssues];
-
       // Save issues to file for reference
       const outputFile = `requirements-issues-${Date.now()}.json`;
-      fs.writeFileSync(outputFile, JSON.stringify(allIssues, null, 2));
+      fs.writeFileSync(
+        outputFile,
+        JSON.stringify([...parentIssues, ...subIssues], null, 2)
+      );
       console.log(`💾 Saved parsed issues to ${outputFile}`);
 
-      await createLinearIssues(allIssues, selectedTeamId, labels, sourceInfo);
+      await createIssueHierarchy(
+        parentIssues,
+        subIssues,
+        selectedTeamId,
+        labels,
+        sourceInfo
+      );
 
       console.log(
         "\n🎉 Done! Requirements parsed and issues created in Linear."
@@ -1,6 +1,7 @@
 import { LinearClient } from "@linear/sdk";
 import * as fs from "fs";
 import * as path from "path";
+import { linearApiUrl } from "./utils/resilient-client";
 
 interface RestoreArgs {
   file: string; // absolute or relative path to backup json
@@ -10,7 +11,9 @@ interface RestoreArgs {
   existingProjectId?: string; // if not creating project
 }
 
-type BackupData = {
+export type RestoreOptions = Omit<RestoreArgs, "file">;
+
+export type BackupData = {
   team: { id: string; name: string; description?: string; key?: string };
   labels: Array<{ name: string; description?: string; color?: string }>;
   projects: Array<{ id: string; name: string; description?: string }>;
@@ -51,11 +54,14 @@ function readArgs(): RestoreArgs {
   return args as RestoreArgs;
 }
 
-async function restore() {
-  const args = readArgs();
-  const linear = new LinearClient({ apiKey: process.env.LINEAR_API_KEY! });
-  const data: BackupData = JSON.parse(fs.readFileSync(args.file, "utf8"));
-
+/**
+ * Restore a backup's labels, project and issues into a new or existing team
+ */
+export async function restoreBackup(
+  linear: LinearClient,
+  data: BackupData,
+  args: RestoreOptions
+) {
   // Select or create team
   let teamId: string;
   if (args.existingTeamId) {
@@ -66,7 +72,8 @@ async function restore() {
       description: data.team.description,
       key: (data.team.key || "APP").slice(0, 4).toUpperCase(),
     });
-    teamId = team.id;
+    if (!team.teamId) throw new Error("Team creation returned no team");
+    teamId = team.teamId;
     console.log(`✅ Created team: ${args.newTeamName}`);
   }
 
@@ -88,12 +95,13 @@ async function restore() {
   let projectId: string | undefined = args.existingProjectId;
   if (args.createNewProject) {
     const baseName = data.projects?.[0]?.name || "Restored Project";
-    const p = await linear.createProject({ name: baseName, teamId });
-    projectId = p.id;
+    const p = await linear.createProject({ name: baseName, teamIds: [teamId] });
+    projectId = p.projectId;
     console.log(`✅ Created project: ${baseName}`);
   }
 
   // Restore issues
+  let restored = 0;
   for (const issue of data.issues || []) {
     try {
       const created = await linear.createIssue({
@@ -114,19 +122,33 @@ async function restore() {
         const labelIds = issue.labels
           .map((l) => nameToId.get(l.name))
           .filter(Boolean) as string[];
-        if (labelIds.length) {
-          await linear.updateIssue(created.id, { labelIds });
+        if (labelIds.length && created.issueId) {
+          await linear.updateIssue(created.issueId, { labelIds });
         }
       }
+      restored++;
     } catch (e: any) {
       console.log(`⚠️  Issue restore failed: ${issue.title}:`, e.message);
     }
   }
 
   console.log("🎉 Restore complete.");
+  return { teamId, projectId, restored };
 }
 
-restore().catch((e) => {
-  console.error("❌ Restore failed:", e.message);
-  process.exit(1);
-});
+async function restore() {
+  const { file, ...args } = readArgs();
+  const linear = new LinearClient({
+    apiKey: process.env.LINEAR_API_KEY!,
+    apiUrl: linearApiUrl()
+  });
+  const data: BackupData = JSON.parse(fs.readFileSync(file, "utf8"));
+  await restoreBackup(linear, data, args);
+}
+
+if (require.main === module) {
+  restore().catch((e) => {
+    console.error("❌ Restore failed:", e.message);
+    process.exit(1);
+  });
+}
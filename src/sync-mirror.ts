@@ -0,0 +1,88 @@
+import * as dotenv from "dotenv";
+import { createLinearClient } from "./utils/resilient-client";
+import {
+  DEFAULT_MIRROR_DIR,
+  MIRROR_COLLECTIONS,
+  listTeamMirrors,
+  syncTeamMirror,
+} from "./utils/team-mirror";
+
+dotenv.config();
+
+interface MirrorArgs {
+  teams: string[];
+  dir: string;
+  full: boolean;
+  list: boolean;
+}
+
+function readArgs(): MirrorArgs {
+  const argv = process.argv.slice(2);
+  const args: MirrorArgs = {
+    teams: [],
+    dir: process.env.LINEAR_MIRROR_DIR || DEFAULT_MIRROR_DIR,
+    full: false,
+    list: false,
+  };
+  for (let i = 0; i < argv.length; i++) {
+    const a = argv[i];
+    if (a === "--team") args.teams.push(argv[++i]);
+    else if (a === "--use-env-team" && process.env.LINEAR_TEAM_ID) {
+      args.teams.push(process.env.LINEAR_TEAM_ID.trim());
+    } else if (a === "--dir") args.dir = argv[++i];
+    else if (a === "--full") args.full = true;
+    else if (a === "--list") args.list = true;
+  }
+  if (!args.list && args.teams.length === 0) {
+    // Refresh every team mirrored so far
+    args.teams = listTeamMirrors(args.dir).map((mirror) => mirror.team.id);
+    if (args.teams.length === 0) {
+      throw new Error("Nothing mirrored yet. Pass --team <team-id>");
+    }
+  }
+  if (!args.list && !process.env.LINEAR_API_KEY) {
+    throw new Error("LINEAR_API_KEY is required in env");
+  }
+  return args;
+}
+
+async function main() {
+  const args = readArgs();
+
+  if (args.list) {
+    const mirrors = listTeamMirrors(args.dir);
+    console.log(`🪞 ${mirrors.length} team mirrors in ${args.dir}\n`);
+    for (const mirror of mirrors) {
+      console.log(
+        `  ${mirror.team.name} (${mirror.team.key}): ${mirror.issues.length} issues, synced ${mirror.data.syncedAt ?? "never"}`,
+      );
+    }
+    return;
+  }
+
+  const linear = createLinearClient(process.env.LINEAR_API_KEY);
+  for (const team of args.teams) {
+    const started = Date.now();
+    const { mirror, full, changes } = await syncTeamMirror(
+      linear.client,
+      team,
+      { dir: args.dir, full: args.full },
+    );
+
+    console.log(
+      `🪞 ${mirror.team.name} (${mirror.team.key}): ${full ? "full" : "incremental"} sync in ${Date.now() - started}ms`,
+    );
+    for (const name of MIRROR_COLLECTIONS) {
+      const { updated, removed } = changes[name];
+      console.log(
+        `   ${name}: ${Object.keys(mirror.data[name]).length} (${updated} updated, ${removed} removed)`,
+      );
+    }
+    console.log(`   → ${mirror.filePath}`);
+  }
+}
+
+main().catch((e) => {
+  console.error("❌ Mirror sync failed:", e.message);
+  process.exit(1);
+});
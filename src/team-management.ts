@@ -85,7 +85,7 @@ class TeamManager {
       }
 
       return response.data.data;
-    } catch (error) {
+    } catch (error: any) {
       if (error.response) {
         console.error("API Error:", error.response.status, error.response.data);
         throw new Error(
@@ -203,37 +203,6 @@ class TeamManager {
     };
   }
 
-  private async createLabel(
-    teamId: string,
-    name: string,
-    color?: string,
-    description?: string,
-  ): Promise<string> {
-    const query = `
-      mutation CreateIssueLabel($input: IssueLabelCreateInput!) {
-        issueLabelCreate(input: $input) {
-          success
-          issueLabel { id name }
-        }
-      }
-    `;
-
-    const variables = {
-      input: {
-        teamId,
-        name,
-        color,
-        description,
-      },
-    };
-
-    const data = await this.makeRequest(query, variables);
-    if (!data.issueLabelCreate.success) {
-      throw new Error(`Failed to create label: ${name}`);
-    }
-    return data.issueLabelCreate.issueLabel.id;
-  }
-
   private async listTeamLabels(teamId: string): Promise<LinearLabel[]> {
     const query = `
       query TeamLabels($teamId: String!) {
@@ -492,7 +461,7 @@ class TeamManager {
   async createLabel(
     teamId: string,
     name: string,
-    color: string,
+    color?: string,
     description?: string,
   ): Promise<string> {
     const query = `
@@ -719,7 +688,7 @@ class TeamManager {
       console.log(`\n🎉 Successfully created team: ${newTeamName}`);
       console.log(`🆔 Team ID: ${newTeamId}`);
       console.log(`🔗 Team Key: ${newTeamKey.toUpperCase()}`);
-    } catch (error) {
+    } catch (error: any) {
       console.error("❌ Team duplication failed:", error.message);
     }
   }
@@ -753,7 +722,7 @@ async function main() {
         await teamManager.interactiveTeamDuplication();
         break;
     }
-  } catch (error) {
+  } catch (error: any) {
     console.error("❌ Error:", error.message);
     process.exit(1);
   }
@@ -0,0 +1,597 @@
+/**
+ * In-memory model of a Linear workspace for tests: teams with their
+ * workflow states, members, labels, projects, issues, relations and
+ * comments. Mutations validate their input roughly the way Linear does, so
+ * a script passing fields the API would reject fails here too.
+ */
+
+/** Default workflow of a new team, in board order */
+export const DEFAULT_WORKFLOW = [
+  { name: "Backlog", type: "backlog", color: "#bec2c8" },
+  { name: "Todo", type: "unstarted", color: "#e2e2e2" },
+  { name: "In Progress", type: "started", color: "#f2c94c" },
+  { name: "Done", type: "completed", color: "#5e6ad2" },
+  { name: "Canceled", type: "canceled", color: "#95a2b3" },
+] as const;
+
+/** When the fake's clock starts; every write moves it forward 1ms */
+const EPOCH = Date.parse("2026-01-01T00:00:00.000Z");
+
+/**
+ * The workspace's project statuses, one per type. A project's `state` is
+ * the type of its status.
+ */
+export const PROJECT_STATUSES: FakeProjectStatus[] = [
+  { name: "Backlog", type: "backlog", color: "#bec2c8" },
+  { name: "Planned", type: "planned", color: "#e2e2e2" },
+  { name: "In Progress", type: "started", color: "#f2c94c" },
+  { name: "Paused", type: "paused", color: "#95a2b3" },
+  { name: "Completed", type: "completed", color: "#5e6ad2" },
+  { name: "Canceled", type: "canceled", color: "#95a2b3" },
+].map((status, position) => ({
+  ...status,
+  id: `project-status-${status.type}`,
+  position,
+  createdAt: new Date(EPOCH).toISOString(),
+  updatedAt: new Date(EPOCH).toISOString(),
+  archivedAt: null,
+}));
+
+export interface FakeEntity {
+  id: string;
+  createdAt: string;
+  updatedAt: string;
+  archivedAt: string | null;
+}
+
+export interface FakeTeam extends FakeEntity {
+  key: string;
+  name: string;
+  description: string | null;
+  memberIds: string[];
+  /** Number given to the team's last issue */
+  issueCount: number;
+}
+
+export interface FakeUser extends FakeEntity {
+  name: string;
+  displayName: string;
+  email: string;
+  active: boolean;
+}
+
+export interface FakeWorkflowState extends FakeEntity {
+  teamId: string;
+  name: string;
+  type: string;
+  color: string;
+  position: number;
+}
+
+export interface FakeIssueLabel extends FakeEntity {
+  /** Null for workspace labels */
+  teamId: string | null;
+  name: string;
+  color: string;
+  description: string | null;
+  parentId: string | null;
+}
+
+export interface FakeProjectStatus extends FakeEntity {
+  name: string;
+  type: string;
+  color: string;
+  position: number;
+}
+
+export interface FakeProject extends FakeEntity {
+  name: string;
+  description: string;
+  state: string;
+  teamIds: string[];
+  startDate: string | null;
+  targetDate: string | null;
+}
+
+export interface FakeIssue extends FakeEntity {
+  teamId: string;
+  number: number;
+  title: string;
+  description: string | null;
+  priority: number;
+  estimate: number | null;
+  stateId: string;
+  projectId: string | null;
+  assigneeId: string | null;
+  parentId: string | null;
+  labelIds: string[];
+  dueDate: string | null;
+  completedAt: string | null;
+  canceledAt: string | null;
+}
+
+/**
+ * A relation owned by `issueId`. For `blocks`, the related issue blocks
+ * the owner (see DependencyResolver).
+ */
+export interface FakeIssueRelation extends FakeEntity {
+  type: string;
+  issueId: string;
+  relatedIssueId: string;
+}
+
+export interface FakeComment extends FakeEntity {
+  issueId: string;
+  userId: string;
+  body: string;
+}
+
+/**
+ * Thrown by the store; the GraphQL layer reports it as a Linear error
+ */
+export class FakeLinearError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "FakeLinearError";
+  }
+}
+
+export interface TeamInput {
+  name: string;
+  key?: string;
+  description?: string | null;
+}
+
+export interface UserInput {
+  name: string;
+  email?: string;
+  displayName?: string;
+  active?: boolean;
+}
+
+export interface IssueLabelInput {
+  name: string;
+  teamId?: string | null;
+  color?: string;
+  description?: string | null;
+  parentId?: string | null;
+}
+
+export interface ProjectInput {
+  name: string;
+  teamIds: string[];
+  description?: string | null;
+  state?: string;
+  /** One of PROJECT_STATUSES; sets `state` to its type */
+  statusId?: string;
+  startDate?: string | null;
+  targetDate?: string | null;
+}
+
+export interface IssueInput {
+  teamId: string;
+  title: string;
+  description?: string | null;
+  priority?: number | null;
+  estimate?: number | null;
+  stateId?: string | null;
+  projectId?: string | null;
+  assigneeId?: string | null;
+  parentId?: string | null;
+  labelIds?: string[] | null;
+  dueDate?: string | null;
+}
+
+export interface IssueUpdateInput extends Partial<
+  Omit<IssueInput, "teamId" | "title">
+> {
+  title?: string;
+  teamId?: string;
+  addedLabelIds?: string[];
+  removedLabelIds?: string[];
+}
+
+type Collections = {
+  teams: FakeTeam;
+  users: FakeUser;
+  states: FakeWorkflowState;
+  labels: FakeIssueLabel;
+  projects: FakeProject;
+  issues: FakeIssue;
+  relations: FakeIssueRelation;
+  comments: FakeComment;
+};
+
+const ENTITY_NAMES: Record<keyof Collections, string> = {
+  teams: "Team",
+  users: "User",
+  states: "WorkflowState",
+  labels: "IssueLabel",
+  projects: "Project",
+  issues: "Issue",
+  relations: "IssueRelation",
+  comments: "Comment",
+};
+
+const ISSUE_UPDATE_FIELDS = [
+  "title",
+  "description",
+  "priority",
+  "estimate",
+  "stateId",
+  "projectId",
+  "assigneeId",
+  "parentId",
+  "dueDate",
+  "teamId",
+] as const;
+
+export class FakeLinearStore {
+  readonly teams = new Map<string, FakeTeam>();
+  readonly users = new Map<string, FakeUser>();
+  readonly states = new Map<string, FakeWorkflowState>();
+  readonly labels = new Map<string, FakeIssueLabel>();
+  readonly projects = new Map<string, FakeProject>();
+  readonly issues = new Map<string, FakeIssue>();
+  readonly relations = new Map<string, FakeIssueRelation>();
+  readonly comments = new Map<string, FakeComment>();
+
+  /** The user the API key belongs to */
+  readonly viewer: FakeUser;
+  /** Bumped by every write, like Linear's lastSyncId */
+  syncId = 0;
+
+  private ids = 0;
+
+  constructor() {
+    this.viewer = this.createUser({ name: "Fake Viewer" });
+  }
+
+  /* ---------------- Lookups ---------------- */
+
+  get<K extends keyof Collections>(collection: K, id: string): Collections[K] {
+    const record = (this[collection] as Map<string, Collections[K]>).get(id);
+    if (!record) {
+      throw new FakeLinearError(
+        `Entity not found: ${ENTITY_NAMES[collection]} ${id}`,
+      );
+    }
+    return record;
+  }
+
+  list<K extends keyof Collections>(collection: K): Collections[K][] {
+    return [...(this[collection] as Map<string, Collections[K]>).values()];
+  }
+
+  /**
+   * A team by id or key
+   */
+  team(idOrKey: string): FakeTeam {
+    const byKey = this.list("teams").find(
+      (team) => team.key.toLowerCase() === idOrKey.toLowerCase(),
+    );
+    return byKey ?? this.get("teams", idOrKey);
+  }
+
+  /**
+   * An issue by id or identifier (e.g. ENG-12)
+   */
+  issue(idOrIdentifier: string): FakeIssue {
+    const byIdentifier = this.list("issues").find(
+      (issue) =>
+        this.identifier(issue).toLowerCase() === idOrIdentifier.toLowerCase(),
+    );
+    return byIdentifier ?? this.get("issues", idOrIdentifier);
+  }
+
+  identifier(issue: FakeIssue): string {
+    return `${this.get("teams", issue.teamId).key}-${issue.number}`;
+  }
+
+  state(teamId: string, name: string): FakeWorkflowState {
+    const state = this.list("states").find(
+      (s) => s.teamId === teamId && s.name.toLowerCase() === name.toLowerCase(),
+    );
+    if (!state) {
+      throw new FakeLinearError(`No "${name}" state in team ${teamId}`);
+    }
+    return state;
+  }
+
+  /* ---------------- Writes ---------------- */
+
+  createTeam(input: TeamInput): FakeTeam {
+    required(input.name, "name");
+    const key = (input.key ?? input.name.slice(0, 3)).toUpperCase();
+    if (!/^[A-Z0-9]{1,7}$/.test(key)) {
+      throw new FakeLinearError(`Invalid team key: ${key}`);
+    }
+    if (this.list("teams").some((team) => team.key === key)) {
+      throw new FakeLinearError(`Team key already in use: ${key}`);
+    }
+
+    const team = this.insert("teams", {
+      key,
+      name: input.name,
+      description: input.description ?? null,
+      memberIds: [this.viewer.id],
+      issueCount: 0,
+    });
+    DEFAULT_WORKFLOW.forEach((state, position) =>
+      this.insert("states", { ...state, teamId: team.id, position }),
+    );
+    return team;
+  }
+
+  createUser(input: UserInput): FakeUser {
+    required(input.name, "name");
+    const handle = input.name.toLowerCase().replace(/[^a-z0-9]+/g, ".");
+    return this.insert("users", {
+      name: input.name,
+      displayName: input.displayName ?? handle,
+      email: input.email ?? `${handle}@example.com`,
+      active: input.active ?? true,
+    });
+  }
+
+  addMember(teamId: string, userId: string): void {
+    const team = this.get("teams", teamId);
+    this.get("users", userId);
+    if (!team.memberIds.includes(userId)) {
+      this.touch(team).memberIds.push(userId);
+    }
+  }
+
+  createIssueLabel(input: IssueLabelInput): FakeIssueLabel {
+    required(input.name, "name");
+    const teamId = input.teamId ?? null;
+    if (teamId) this.get("teams", teamId);
+    if (input.parentId) this.get("labels", input.parentId);
+    const duplicate = this.list("labels").some(
+      (label) =>
+        !label.archivedAt &&
+        label.teamId === teamId &&
+        label.name.toLowerCase() === input.name.toLowerCase(),
+    );
+    if (duplicate) {
+      throw new FakeLinearError(`Duplicate label name: ${input.name}`);
+    }
+    return this.insert("labels", {
+      teamId,
+      name: input.name,
+      color: input.color ?? "#bec2c8",
+      description: input.description ?? null,
+      parentId: input.parentId ?? null,
+    });
+  }
+
+  updateIssueLabel(
+    id: string,
+    input: Partial<Omit<IssueLabelInput, "teamId">>,
+  ): FakeIssueLabel {
+    const label = this.get("labels", id);
+    return Object.assign(this.touch(label), definedFields(input));
+  }
+
+  createProject(input: ProjectInput): FakeProject {
+    required(input.name, "name");
+    if (!Array.isArray(input.teamIds) || input.teamIds.length === 0) {
+      throw new FakeLinearError("teamIds must contain at least one team");
+    }
+    input.teamIds.forEach((teamId) => this.get("teams", teamId));
+    return this.insert("projects", {
+      name: input.name,
+      description: input.description ?? "",
+      state: this.projectState(input) ?? "planned",
+      teamIds: [...input.teamIds],
+      startDate: input.startDate ?? null,
+      targetDate: input.targetDate ?? null,
+    });
+  }
+
+  updateProject(id: string, input: Partial<ProjectInput>): FakeProject {
+    const project = this.get("projects", id);
+    input.teamIds?.forEach((teamId) => this.get("teams", teamId));
+    const { statusId, ...fields } = input;
+    return Object.assign(
+      this.touch(project),
+      definedFields({ ...fields, state: this.projectState(input) }),
+    );
+  }
+
+  private projectState(input: Partial<ProjectInput>): string | undefined {
+    if (!input.statusId) return input.state;
+    const status = PROJECT_STATUSES.find((s) => s.id === input.statusId);
+    if (!status) {
+      throw new FakeLinearError(
+        `Entity not found: ProjectStatus ${input.statusId}`,
+      );
+    }
+    return status.type;
+  }
+
+  createIssue(input: IssueInput): FakeIssue {
+    required(input.teamId, "teamId");
+    required(input.title, "title");
+    const team = this.get("teams", input.teamId);
+    const defaultState =
+      this.list("states").find(
+        (s) => s.teamId === team.id && s.type === "backlog",
+      ) ?? this.list("states").find((s) => s.teamId === team.id)!;
+
+    const draft: Omit<FakeIssue, keyof FakeEntity> = {
+      teamId: team.id,
+      number: team.issueCount + 1,
+      title: input.title,
+      description: input.description ?? null,
+      priority: 0,
+      estimate: null,
+      stateId: defaultState.id,
+      projectId: null,
+      assigneeId: null,
+      parentId: null,
+      labelIds: [],
+      dueDate: null,
+      completedAt: null,
+      canceledAt: null,
+    };
+    // Validate before inserting so a rejected create leaves nothing behind
+    const { teamId, title, ...fields } = input;
+    this.applyIssueFields(draft, fields);
+    this.touch(team).issueCount++;
+    return this.insert("issues", draft);
+  }
+
+  updateIssue(id: string, input: IssueUpdateInput): FakeIssue {
+    const issue = this.get("issues", id);
+    this.applyIssueFields(issue, input);
+    return this.touch(issue);
+  }
+
+  archiveIssue(id: string): FakeIssue {
+    const issue = this.get("issues", id);
+    this.touch(issue).archivedAt = issue.updatedAt;
+    return issue;
+  }
+
+  deleteIssue(id: string): void {
+    this.get("issues", id);
+    this.issues.delete(id);
+    for (const relation of this.list("relations")) {
+      if (relation.issueId === id || relation.relatedIssueId === id) {
+        this.relations.delete(relation.id);
+      }
+    }
+    this.syncId++;
+  }
+
+  createIssueRelation(input: {
+    issueId: string;
+    relatedIssueId: string;
+    type: string;
+  }): FakeIssueRelation {
+    const issue = this.issue(input.issueId);
+    const related = this.issue(input.relatedIssueId);
+    if (!["blocks", "duplicate", "related", "similar"].includes(input.type)) {
+      throw new FakeLinearError(`Invalid relation type: ${input.type}`);
+    }
+    if (issue.id === related.id) {
+      throw new FakeLinearError("An issue can't be related to itself");
+    }
+    return this.insert("relations", {
+      type: input.type,
+      issueId: issue.id,
+      relatedIssueId: related.id,
+    });
+  }
+
+  deleteIssueRelation(id: string): void {
+    this.get("relations", id);
+    this.relations.delete(id);
+    this.syncId++;
+  }
+
+  createComment(input: { issueId: string; body: string }): FakeComment {
+    required(input.body, "body");
+    const issue = this.issue(input.issueId);
+    return this.insert("comments", {
+      issueId: issue.id,
+      userId: this.viewer.id,
+      body: input.body,
+    });
+  }
+
+  /* ---------------- Internals ---------------- */
+
+  private applyIssueFields(
+    issue: Omit<FakeIssue, keyof FakeEntity>,
+    input: IssueUpdateInput,
+  ) {
+    const teamId = input.teamId ?? issue.teamId;
+    const team = this.get("teams", teamId);
+
+    if (input.stateId) {
+      const state = this.get("states", input.stateId);
+      if (state.teamId !== team.id) {
+        throw new FakeLinearError("State belongs to another team");
+      }
+      if (state.id !== issue.stateId) {
+        issue.completedAt = state.type === "completed" ? this.now() : null;
+        issue.canceledAt = state.type === "canceled" ? this.now() : null;
+      }
+    }
+    if (input.projectId) this.get("projects", input.projectId);
+    if (input.assigneeId) this.get("users", input.assigneeId);
+    if (input.parentId) this.issue(input.parentId);
+    if (input.priority != null && ![0, 1, 2, 3, 4].includes(input.priority)) {
+      throw new FakeLinearError(`Invalid priority: ${input.priority}`);
+    }
+
+    for (const field of ISSUE_UPDATE_FIELDS) {
+      if (input[field] !== undefined) (issue as any)[field] = input[field];
+    }
+    if (input.priority === null) issue.priority = 0;
+
+    let labelIds = input.labelIds ?? issue.labelIds;
+    labelIds = [...labelIds, ...(input.addedLabelIds ?? [])].filter(
+      (id) => !input.removedLabelIds?.includes(id),
+    );
+    for (const labelId of labelIds) {
+      const label = this.get("labels", labelId);
+      if (label.teamId && label.teamId !== team.id) {
+        throw new FakeLinearError(
+          `Label ${label.name} belongs to another team`,
+        );
+      }
+    }
+    issue.labelIds = [...new Set(labelIds)];
+  }
+
+  private insert<K extends keyof Collections>(
+    collection: K,
+    fields: Omit<Collections[K], keyof FakeEntity>,
+  ): Collections[K] {
+    const now = this.now();
+    const record = {
+      id: fakeId(++this.ids),
+      createdAt: now,
+      updatedAt: now,
+      archivedAt: null,
+      ...fields,
+    } as Collections[K];
+    (this[collection] as Map<string, Collections[K]>).set(record.id, record);
+    this.syncId++;
+    return record;
+  }
+
+  private touch<T extends FakeEntity>(record: T): T {
+    record.updatedAt = this.now();
+    this.syncId++;
+    return record;
+  }
+
+  private clock = 0;
+
+  private now(): string {
+    return new Date(EPOCH + ++this.clock).toISOString();
+  }
+}
+
+/**
+ * Deterministic ids shaped like Linear's UUIDs
+ */
+export function fakeId(n: number): string {
+  return `00000000-0000-4000-8000-${String(n).padStart(12, "0")}`;
+}
+
+function required(value: unknown, field: string) {
+  if (value === undefined || value === null || value === "") {
+    throw new FakeLinearError(`${field} is required`);
+  }
+}
+
+function definedFields<T extends object>(input: T): Partial<T> {
+  return Object.fromEntries(
+    Object.entries(input).filter(([, value]) => value !== undefined),
+  ) as Partial<T>;
+}
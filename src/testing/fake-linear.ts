@@ -0,0 +1,874 @@
+/**
+ * A fake Linear API for tests, backed by FakeLinearStore.
+ *
+ * Queries are executed leniently against the in-memory model instead of
+ * Linear's full schema: fields the fake doesn't know resolve to null (or to
+ * an empty connection), so the SDK's generated documents work unchanged.
+ * The fake is reachable three ways:
+ *
+ * - `fake.client()`, a real LinearClient whose requests run in memory
+ * - `fake.listen()`, a GraphQL HTTP endpoint for code that posts raw
+ *   queries (point LINEAR_API_URL at it)
+ * - `fake.execute(query, variables)`, a GraphQLRequester for helpers that
+ *   take one
+ */
+
+import * as http from "http";
+import { AddressInfo } from "net";
+import { GraphQLClientError, LinearClient } from "@linear/sdk";
+import {
+  DocumentNode,
+  FieldNode,
+  FragmentDefinitionNode,
+  OperationDefinitionNode,
+  SelectionSetNode,
+  parse,
+  print,
+  valueFromASTUntyped,
+} from "graphql";
+import {
+  FakeEntity,
+  FakeIssue,
+  FakeLinearError,
+  FakeLinearStore,
+  PROJECT_STATUSES,
+} from "./fake-linear-store";
+
+/** API key accepted by the fake; any other is rejected like a revoked key */
+export const FAKE_API_KEY = "lin_api_fake";
+
+/** Default page size of connections, like Linear's */
+const DEFAULT_PAGE_SIZE = 50;
+
+export interface FakeLinearRequest {
+  operationName: string | null;
+  /** "query" or "mutation" */
+  operation: string;
+  variables: Record<string, unknown>;
+}
+
+export interface FakeLinearResponse {
+  data: Record<string, unknown> | null;
+  errors?: Array<{
+    message: string;
+    path?: string[];
+    extensions: { type: string; userPresentableMessage: string };
+  }>;
+}
+
+/* ---------------- Typed values ---------------- */
+
+/**
+ * A value of a known GraphQL type; field lookups go through RESOLVERS for
+ * that type before falling back to the record's own properties
+ */
+class Typed {
+  constructor(
+    readonly type: string,
+    readonly value: any,
+  ) {}
+}
+
+type Args = Record<string, any>;
+type FieldResolver = (record: any, args: Args, store: FakeLinearStore) => any;
+
+interface ConnectionArgs {
+  first?: number;
+  last?: number;
+  after?: string;
+  before?: string;
+  filter?: Args;
+  includeArchived?: boolean;
+  orderBy?: string;
+}
+
+const typed =
+  (type: string) =>
+  <T>(value: T | null | undefined) =>
+    value ? new Typed(type, value) : null;
+
+const team = typed("Team");
+const user = typed("User");
+const state = typed("WorkflowState");
+const label = typed("IssueLabel");
+const project = typed("Project");
+const issue = typed("Issue");
+const relation = typed("IssueRelation");
+const comment = typed("Comment");
+
+/**
+ * A Relay connection over some records: archived ones are left out unless
+ * asked for, then the filter, ordering and cursors are applied
+ */
+function connection(
+  type: string,
+  records: FakeEntity[],
+  args: ConnectionArgs,
+  store: FakeLinearStore,
+): Typed {
+  const nodes = records
+    .filter((record) => args.includeArchived || !record.archivedAt)
+    .map((record) => new Typed(type, record))
+    .filter((node) => !args.filter || matchesFilter(node, args.filter, store));
+
+  if (args.orderBy === "updatedAt") {
+    nodes.sort((a, b) => b.value.updatedAt.localeCompare(a.value.updatedAt));
+  }
+
+  const cursorIndex = (cursor: string) =>
+    nodes.findIndex((node) => node.value.id === cursor);
+  let start = args.after ? cursorIndex(args.after) + 1 : 0;
+  let end = args.before ? cursorIndex(args.before) : nodes.length;
+  if (end < 0) end = nodes.length;
+  if (args.last != null) start = Math.max(start, end - args.last);
+  else end = Math.min(end, start + (args.first ?? DEFAULT_PAGE_SIZE));
+
+  const page = nodes.slice(start, end);
+  return new Typed(`${type}Connection`, {
+    nodes: page,
+    edges: page.map(
+      (node) => new Typed(`${type}Edge`, { node, cursor: node.value.id }),
+    ),
+    pageInfo: new Typed("PageInfo", {
+      hasPreviousPage: start > 0,
+      hasNextPage: end < nodes.length,
+      startCursor: page[0]?.value.id ?? null,
+      endCursor: page[page.length - 1]?.value.id ?? null,
+    }),
+  });
+}
+
+const emptyConnection = (store: FakeLinearStore) =>
+  connection("Node", [], {}, store);
+
+/* ---------------- Filters ---------------- */
+
+const COMPARATORS: Record<string, (value: any, operand: any) => boolean> = {
+  eq: (value, operand) => value === operand,
+  neq: (value, operand) => value !== operand,
+  in: (value, operand) => operand.includes(value),
+  nin: (value, operand) => !operand.includes(value),
+  lt: (value, operand) => value != null && value < operand,
+  lte: (value, operand) => value != null && value <= operand,
+  gt: (value, operand) => value != null && value > operand,
+  gte: (value, operand) => value != null && value >= operand,
+  null: (value, operand) => (value == null) === operand,
+  eqIgnoreCase: (value, operand) =>
+    value?.toLowerCase() === operand.toLowerCase(),
+  neqIgnoreCase: (value, operand) =>
+    value?.toLowerCase() !== operand.toLowerCase(),
+  contains: (value, operand) => !!value?.includes(operand),
+  notContains: (value, operand) => !value?.includes(operand),
+  containsIgnoreCase: (value, operand) =>
+    !!value?.toLowerCase().includes(operand.toLowerCase()),
+  notContainsIgnoreCase: (value, operand) =>
+    !value?.toLowerCase().includes(operand.toLowerCase()),
+  startsWith: (value, operand) => !!value?.startsWith(operand),
+  endsWith: (value, operand) => !!value?.endsWith(operand),
+};
+
+/**
+ * Whether a record matches a Linear filter such as
+ * `{ team: { id: { eq } }, labels: { some: { name: { in } } } }`.
+ * Nested filters follow the same fields the queries resolve.
+ */
+function matchesFilter(
+  node: Typed,
+  filter: Args,
+  store: FakeLinearStore,
+): boolean {
+  return Object.entries(filter).every(([key, condition]) => {
+    if (condition === undefined || condition === null) return true;
+    if (key === "and") {
+      return condition.every((f: Args) => matchesFilter(node, f, store));
+    }
+    if (key === "or") {
+      return condition.some((f: Args) => matchesFilter(node, f, store));
+    }
+    if (key in COMPARATORS) {
+      return COMPARATORS[key](node.value, condition);
+    }
+    return matchesCondition(filterValue(node, key, store), condition, store);
+  });
+}
+
+function matchesCondition(
+  value: any,
+  condition: Args,
+  store: FakeLinearStore,
+): boolean {
+  if (Array.isArray(value)) {
+    const { some, every, none, length, ...rest } = condition;
+    const matches = (f: Args) => (item: Typed) => matchesFilter(item, f, store);
+    return (
+      (!some || value.some(matches(some))) &&
+      (!every || value.every(matches(every))) &&
+      (!none || !value.some(matches(none))) &&
+      (!length || matchesCondition(value.length, length, store)) &&
+      // `labels: { name: { eq } }` is shorthand for `some`
+      (Object.keys(rest).length === 0 || value.some(matches(rest)))
+    );
+  }
+  if (value instanceof Typed) {
+    const { null: isNull, ...rest } = condition;
+    return isNull !== true && matchesFilter(value, rest, store);
+  }
+  if (value == null && condition.null === undefined) {
+    // A relation that isn't set only matches `neq`-style conditions
+    return Object.keys(condition).every((op) =>
+      ["neq", "nin", "notContains", "neqIgnoreCase"].includes(op),
+    );
+  }
+  return Object.entries(condition).every(([op, operand]) => {
+    const compare = COMPARATORS[op];
+    if (!compare) throw new FakeLinearError(`Unsupported comparator: ${op}`);
+    return compare(value, operand);
+  });
+}
+
+/**
+ * A field's value for filtering: relations as typed values and lists of
+ * them, scalars as is
+ */
+function filterValue(node: Typed, key: string, store: FakeLinearStore): any {
+  const resolver = RESOLVERS[node.type]?.[key] ?? FILTER_FIELDS[key];
+  const value = resolver
+    ? resolver(node.value, { first: Number.MAX_SAFE_INTEGER }, store)
+    : node.value[key];
+  if (value instanceof Typed && value.type.endsWith("Connection")) {
+    return value.value.nodes;
+  }
+  return value;
+}
+
+/** Filter fields that aren't plain record fields on every type */
+const FILTER_FIELDS: Record<string, FieldResolver> = {
+  searchableContent: (record) =>
+    `${record.title ?? ""}\n${record.description ?? ""}`,
+};
+
+/* ---------------- Resolvers ---------------- */
+
+const RESOLVERS: Record<string, Record<string, FieldResolver>> = {
+  Team: {
+    states: (t, args, store) =>
+      connection(
+        "WorkflowState",
+        store.list("states").filter((s) => s.teamId === t.id),
+        args,
+        store,
+      ),
+    members: (t, args, store) =>
+      connection(
+        "User",
+        store.list("users").filter((u) => t.memberIds.includes(u.id)),
+        args,
+        store,
+      ),
+    labels: (t, args, store) =>
+      connection(
+        "IssueLabel",
+        store.list("labels").filter((l) => l.teamId === t.id),
+        args,
+        store,
+      ),
+    projects: (t, args, store) =>
+      connection(
+        "Project",
+        store.list("projects").filter((p) => p.teamIds.includes(t.id)),
+        args,
+        store,
+      ),
+    issues: (t, args, store) =>
+      connection(
+        "Issue",
+        store.list("issues").filter((i) => i.teamId === t.id),
+        args,
+        store,
+      ),
+    activeCycle: () => null,
+  },
+  User: {
+    isMe: (u, _args, store) => u.id === store.viewer.id,
+    assignedIssues: (u, args, store) =>
+      connection(
+        "Issue",
+        store.list("issues").filter((i) => i.assigneeId === u.id),
+        args,
+        store,
+      ),
+    teams: (u, args, store) =>
+      connection(
+        "Team",
+        store.list("teams").filter((t) => t.memberIds.includes(u.id)),
+        args,
+        store,
+      ),
+  },
+  WorkflowState: {
+    team: (s, _args, store) => team(store.get("teams", s.teamId)),
+  },
+  IssueLabel: {
+    team: (l, _args, store) => team(l.teamId && store.get("teams", l.teamId)),
+    parent: (l, _args, store) =>
+      label(l.parentId && store.get("labels", l.parentId)),
+    children: (l, args, store) =>
+      connection(
+        "IssueLabel",
+        store.list("labels").filter((c) => c.parentId === l.id),
+        args,
+        store,
+      ),
+    issues: (l, args, store) =>
+      connection(
+        "Issue",
+        store.list("issues").filter((i) => i.labelIds.includes(l.id)),
+        args,
+        store,
+      ),
+    isGroup: (l, _args, store) =>
+      store.list("labels").some((c) => c.parentId === l.id),
+  },
+  Project: {
+    teams: (p, args, store) =>
+      connection(
+        "Team",
+        p.teamIds.map((id: string) => store.get("teams", id)),
+        args,
+        store,
+      ),
+    accessibleTeams: (p, args, store) =>
+      RESOLVERS.Project.teams(p, args, store),
+    issues: (p, args, store) =>
+      connection(
+        "Issue",
+        store.list("issues").filter((i) => i.projectId === p.id),
+        args,
+        store,
+      ),
+    status: (p) =>
+      new Typed(
+        "ProjectStatus",
+        PROJECT_STATUSES.find((status) => status.type === p.state),
+      ),
+    url: (p) => `https://linear.app/fake/project/${p.id}`,
+    progress: () => 0,
+  },
+  Issue: {
+    identifier: (i: FakeIssue, _args, store) => store.identifier(i),
+    url: (i: FakeIssue, _args, store) =>
+      `https://linear.app/fake/issue/${store.identifier(i)}`,
+    priorityLabel: (i: FakeIssue) =>
+      ["No priority", "Urgent", "High", "Medium", "Low"][i.priority],
+    team: (i: FakeIssue, _args, store) => team(store.get("teams", i.teamId)),
+    state: (i: FakeIssue, _args, store) =>
+      state(store.get("states", i.stateId)),
+    project: (i: FakeIssue, _args, store) =>
+      project(i.projectId && store.get("projects", i.projectId)),
+    assignee: (i: FakeIssue, _args, store) =>
+      user(i.assigneeId && store.get("users", i.assigneeId)),
+    creator: (_i, _args, store) => user(store.viewer),
+    parent: (i: FakeIssue, _args, store) =>
+      issue(i.parentId && store.get("issues", i.parentId)),
+    children: (i: FakeIssue, args, store) =>
+      connection(
+        "Issue",
+        store.list("issues").filter((c) => c.parentId === i.id),
+        args,
+        store,
+      ),
+    labels: (i: FakeIssue, args, store) =>
+      connection(
+        "IssueLabel",
+        i.labelIds.map((id) => store.get("labels", id)),
+        args,
+        store,
+      ),
+    relations: (i: FakeIssue, args, store) =>
+      connection(
+        "IssueRelation",
+        store.list("relations").filter((r) => r.issueId === i.id),
+        args,
+        store,
+      ),
+    inverseRelations: (i: FakeIssue, args, store) =>
+      connection(
+        "IssueRelation",
+        store.list("relations").filter((r) => r.relatedIssueId === i.id),
+        args,
+        store,
+      ),
+    comments: (i: FakeIssue, args, store) =>
+      connection(
+        "Comment",
+        store.list("comments").filter((c) => c.issueId === i.id),
+        args,
+        store,
+      ),
+    cycle: () => null,
+  },
+  IssueRelation: {
+    issue: (r, _args, store) => issue(store.get("issues", r.issueId)),
+    relatedIssue: (r, _args, store) =>
+      issue(store.get("issues", r.relatedIssueId)),
+  },
+  Comment: {
+    issue: (c, _args, store) => issue(store.get("issues", c.issueId)),
+    user: (c, _args, store) => user(store.get("users", c.userId)),
+  },
+};
+
+const payload = (
+  type: string,
+  field: string,
+  value: Typed | null,
+  store: FakeLinearStore,
+) =>
+  new Typed(`${type}Payload`, {
+    success: true,
+    lastSyncId: store.syncId,
+    [field]: value,
+  });
+
+const deletePayload = (id: string, store: FakeLinearStore) =>
+  new Typed("DeletePayload", {
+    success: true,
+    lastSyncId: store.syncId,
+    entityId: id,
+  });
+
+const QUERIES: Record<string, FieldResolver> = {
+  viewer: (_root, _args, store) => user(store.viewer),
+  organization: () =>
+    new Typed("Organization", {
+      id: "organization",
+      name: "Fake",
+      urlKey: "fake",
+    }),
+  team: (_root, args, store) => team(store.team(args.id)),
+  teams: (_root, args, store) =>
+    connection("Team", store.list("teams"), args, store),
+  user: (_root, args, store) => user(store.get("users", args.id)),
+  users: (_root, args, store) =>
+    connection("User", store.list("users"), args, store),
+  workflowState: (_root, args, store) => state(store.get("states", args.id)),
+  workflowStates: (_root, args, store) =>
+    connection("WorkflowState", store.list("states"), args, store),
+  issueLabel: (_root, args, store) => label(store.get("labels", args.id)),
+  issueLabels: (_root, args, store) =>
+    connection("IssueLabel", store.list("labels"), args, store),
+  project: (_root, args, store) => project(store.get("projects", args.id)),
+  projects: (_root, args, store) =>
+    connection("Project", store.list("projects"), args, store),
+  projectStatuses: (_root, args, store) =>
+    connection("ProjectStatus", PROJECT_STATUSES, args, store),
+  issue: (_root, args, store) => issue(store.issue(args.id)),
+  issues: (_root, args, store) =>
+    connection("Issue", store.list("issues"), args, store),
+  searchIssues: (_root, args, store) =>
+    connection(
+      "Issue",
+      store
+        .list("issues")
+        .filter((i) =>
+          `${i.title}\n${i.description ?? ""}`
+            .toLowerCase()
+            .includes(String(args.term).toLowerCase()),
+        ),
+      args,
+      store,
+    ),
+  issueRelation: (_root, args, store) =>
+    relation(store.get("relations", args.id)),
+  issueRelations: (_root, args, store) =>
+    connection("IssueRelation", store.list("relations"), args, store),
+  comment: (_root, args, store) => comment(store.get("comments", args.id)),
+  comments: (_root, args, store) =>
+    connection("Comment", store.list("comments"), args, store),
+};
+
+const MUTATIONS: Record<string, FieldResolver> = {
+  teamCreate: (_root, { input }, store) =>
+    payload("Team", "team", team(store.createTeam(input)), store),
+  issueLabelCreate: (_root, { input }, store) =>
+    payload(
+      "IssueLabel",
+      "issueLabel",
+      label(store.createIssueLabel(input)),
+      store,
+    ),
+  issueLabelUpdate: (_root, { id, input }, store) =>
+    payload(
+      "IssueLabel",
+      "issueLabel",
+      label(store.updateIssueLabel(id, input)),
+      store,
+    ),
+  projectCreate: (_root, { input }, store) =>
+    payload("Project", "project", project(store.createProject(input)), store),
+  projectUpdate: (_root, { id, input }, store) =>
+    payload(
+      "Project",
+      "project",
+      project(store.updateProject(id, input)),
+      store,
+    ),
+  issueCreate: (_root, { input }, store) =>
+    payload("Issue", "issue", issue(store.createIssue(input)), store),
+  issueUpdate: (_root, { id, input }, store) =>
+    payload(
+      "Issue",
+      "issue",
+      issue(store.updateIssue(store.issue(id).id, input)),
+      store,
+    ),
+  issueAddLabel: (_root, { id, labelId }, store) =>
+    payload(
+      "Issue",
+      "issue",
+      issue(
+        store.updateIssue(store.issue(id).id, { addedLabelIds: [labelId] }),
+      ),
+      store,
+    ),
+  issueRemoveLabel: (_root, { id, labelId }, store) =>
+    payload(
+      "Issue",
+      "issue",
+      issue(
+        store.updateIssue(store.issue(id).id, { removedLabelIds: [labelId] }),
+      ),
+      store,
+    ),
+  issueArchive: (_root, { id }, store) =>
+    new Typed("IssueArchivePayload", {
+      success: true,
+      lastSyncId: store.syncId,
+      entity: issue(store.archiveIssue(store.issue(id).id)),
+    }),
+  issueDelete: (_root, { id }, store) => {
+    const { id: issueId } = store.issue(id);
+    store.deleteIssue(issueId);
+    return deletePayload(issueId, store);
+  },
+  issueRelationCreate: (_root, { input }, store) =>
+    payload(
+      "IssueRelation",
+      "issueRelation",
+      relation(store.createIssueRelation(input)),
+      store,
+    ),
+  issueRelationDelete: (_root, { id }, store) => {
+    store.deleteIssueRelation(id);
+    return deletePayload(id, store);
+  },
+  commentCreate: (_root, { input }, store) =>
+    payload("Comment", "comment", comment(store.createComment(input)), store),
+};
+
+/* ---------------- Execution ---------------- */
+
+interface ExecutionContext {
+  store: FakeLinearStore;
+  variables: Record<string, unknown>;
+  fragments: Record<string, FragmentDefinitionNode>;
+}
+
+/**
+ * Fields of a selection set, with fragments spread in. Fragments on types
+ * the fake doesn't model (e.g. interfaces) are always spread.
+ */
+function collectFields(
+  type: string,
+  selectionSet: SelectionSetNode,
+  context: ExecutionContext,
+  fields: FieldNode[] = [],
+): FieldNode[] {
+  for (const selection of selectionSet.selections) {
+    if (selection.kind === "Field") {
+      fields.push(selection);
+      continue;
+    }
+    const fragment =
+      selection.kind === "FragmentSpread"
+        ? context.fragments[selection.name.value]
+        : selection;
+    const condition = fragment.typeCondition?.name.value;
+    if (!condition || condition === type || !(condition in KNOWN_TYPES)) {
+      collectFields(type, fragment.selectionSet, context, fields);
+    }
+  }
+  return fields;
+}
+
+/** Object lists the SDK's models map over, so they can't be null */
+const LIST_FIELDS = new Set([
+  "reactions",
+  "syncedWith",
+  "projectStatuses",
+  "ipRestrictions",
+]);
+
+const KNOWN_TYPES = Object.fromEntries(
+  Object.keys(RESOLVERS).map((type) => [type, true]),
+);
+
+function executeSelection(
+  node: Typed,
+  selectionSet: SelectionSetNode,
+  context: ExecutionContext,
+): Record<string, unknown> {
+  const result: Record<string, unknown> = {};
+  for (const field of collectFields(node.type, selectionSet, context)) {
+    const name = field.name.value;
+    const alias = field.alias?.value ?? name;
+    if (name === "__typename") {
+      result[alias] = node.type;
+      continue;
+    }
+    const resolver = RESOLVERS[node.type]?.[name];
+    const value = resolver
+      ? resolver(node.value, fieldArgs(field, context), context.store)
+      : node.value[name];
+    result[alias] = complete(value, field, context);
+  }
+  return result;
+}
+
+function complete(
+  value: unknown,
+  field: FieldNode,
+  context: ExecutionContext,
+): unknown {
+  if (value === undefined || value === null) {
+    // Unknown connections and lists come back empty, other fields as null
+    const selections = field.selectionSet?.selections ?? [];
+    const isConnection = selections.some(
+      (s) => s.kind === "Field" && s.name.value === "pageInfo",
+    );
+    if (isConnection) {
+      return complete(emptyConnection(context.store), field, context);
+    }
+    return LIST_FIELDS.has(field.name.value) ? [] : null;
+  }
+  if (Array.isArray(value)) {
+    return value.map((item) => complete(item, field, context));
+  }
+  if (!field.selectionSet) {
+    return value instanceof Typed ? (value.value.id ?? null) : value;
+  }
+  const node = value instanceof Typed ? value : new Typed("Object", value);
+  return executeSelection(node, field.selectionSet, context);
+}
+
+function fieldArgs(field: FieldNode, context: ExecutionContext): Args {
+  return Object.fromEntries(
+    (field.arguments ?? []).map((arg) => [
+      arg.name.value,
+      valueFromASTUntyped(arg.value, context.variables),
+    ]),
+  );
+}
+
+/**
+ * Run a GraphQL document against the store, answering like Linear: data
+ * on success, or null data with errors
+ */
+export function executeFakeLinear(
+  store: FakeLinearStore,
+  document: string | DocumentNode,
+  variables: Record<string, unknown> = {},
+): { request: FakeLinearRequest; response: FakeLinearResponse } {
+  const ast = typeof document === "string" ? parse(document) : document;
+  const operation = ast.definitions.find(
+    (d): d is OperationDefinitionNode => d.kind === "OperationDefinition",
+  );
+  if (!operation) throw new Error("No operation in GraphQL document");
+
+  const fragments = Object.fromEntries(
+    ast.definitions
+      .filter(
+        (d): d is FragmentDefinitionNode => d.kind === "FragmentDefinition",
+      )
+      .map((d) => [d.name.value, d]),
+  );
+  const defaults = Object.fromEntries(
+    (operation.variableDefinitions ?? [])
+      .filter((d) => d.defaultValue)
+      .map((d) => [
+        d.variable.name.value,
+        valueFromASTUntyped(d.defaultValue!),
+      ]),
+  );
+  const context: ExecutionContext = {
+    store,
+    variables: { ...defaults, ...stripUndefined(variables) },
+    fragments,
+  };
+  const request: FakeLinearRequest = {
+    operationName: operation.name?.value ?? null,
+    operation: operation.operation,
+    variables: context.variables,
+  };
+
+  const roots = operation.operation === "mutation" ? MUTATIONS : QUERIES;
+  const data: Record<string, unknown> = {};
+  for (const field of collectFields("Root", operation.selectionSet, context)) {
+    const name = field.name.value;
+    try {
+      const resolver = roots[name];
+      if (!resolver) {
+        throw new FakeLinearError(
+          `The fake Linear API doesn't support ${operation.operation} ${name}`,
+        );
+      }
+      const value = resolver(null, fieldArgs(field, context), store);
+      data[field.alias?.value ?? name] = complete(value, field, context);
+    } catch (error: any) {
+      return {
+        request,
+        response: {
+          data: null,
+          errors: [
+            {
+              message: error.message,
+              path: [name],
+              extensions: {
+                type:
+                  error instanceof FakeLinearError
+                    ? "invalid input"
+                    : "internal error",
+                userPresentableMessage: error.message,
+              },
+            },
+          ],
+        },
+      };
+    }
+  }
+  return { request, response: { data } };
+}
+
+function stripUndefined(values: Record<string, unknown>) {
+  return JSON.parse(JSON.stringify(values ?? {}));
+}
+
+/* ---------------- Fake API ---------------- */
+
+/**
+ * A fake Linear workspace with the ways to reach it. Every request is
+ * recorded in `requests` for assertions.
+ */
+export class FakeLinear {
+  readonly requests: FakeLinearRequest[] = [];
+  private server?: http.Server;
+
+  constructor(readonly store: FakeLinearStore = new FakeLinearStore()) {}
+
+  /**
+   * Execute a query and return its data, throwing on errors like
+   * LinearGraphQLClient does
+   */
+  readonly execute = async <T = any>(
+    document: string | DocumentNode,
+    variables?: Record<string, unknown>,
+  ): Promise<T> => {
+    const { response } = this.run(document, variables);
+    if (response.errors) {
+      const query = typeof document === "string" ? document : print(document);
+      throw new GraphQLClientError(
+        { ...response, status: 200, headers: new Headers() } as any,
+        { query, variables },
+      );
+    }
+    return response.data as T;
+  };
+
+  /**
+   * A LinearClient answered by the fake, with the SDK's models, lazy
+   * relations and error handling intact
+   */
+  client(): LinearClient {
+    const linear = new LinearClient({ apiKey: FAKE_API_KEY });
+    linear.client.request = this.execute as typeof linear.client.request;
+    return linear;
+  }
+
+  /**
+   * Serve the fake as a GraphQL endpoint on localhost, resolving to its URL
+   */
+  async listen(port = 0): Promise<string> {
+    const server = http.createServer((req, res) => this.handle(req, res));
+    this.server = server;
+    await new Promise<void>((resolve) =>
+      server.listen(port, "127.0.0.1", resolve),
+    );
+    const address = server.address() as AddressInfo;
+    return `http://127.0.0.1:${address.port}/graphql`;
+  }
+
+  async close(): Promise<void> {
+    const server = this.server;
+    this.server = undefined;
+    if (server) {
+      await new Promise<void>((resolve, reject) =>
+        server.close((error) => (error ? reject(error) : resolve())),
+      );
+    }
+  }
+
+  private run(
+    document: string | DocumentNode,
+    variables?: Record<string, unknown>,
+  ) {
+    const result = executeFakeLinear(this.store, document, variables);
+    this.requests.push(result.request);
+    return result;
+  }
+
+  private handle(req: http.IncomingMessage, res: http.ServerResponse) {
+    const send = (status: number, body: unknown) => {
+      res.writeHead(status, { "Content-Type": "application/json" });
+      res.end(JSON.stringify(body));
+    };
+    const unauthorized = {
+      data: null,
+      errors: [
+        {
+          message: "Authentication required, not authenticated",
+          extensions: {
+            type: "authentication error",
+            userPresentableMessage: "Authentication required",
+          },
+        },
+      ],
+    };
+
+    if (req.method !== "POST") return send(405, { error: "POST only" });
+    const key = req.headers.authorization?.replace(/^Bearer /, "");
+    if (key !== FAKE_API_KEY) return send(400, unauthorized);
+
+    let body = "";
+    req.setEncoding("utf8");
+    req.on("data", (chunk) => (body += chunk));
+    req.on("end", () => {
+      try {
+        const { query, variables } = JSON.parse(body);
+        send(200, this.run(query, variables).response);
+      } catch (error: any) {
+        send(400, {
+          data: null,
+          errors: [
+            {
+              message: error.message,
+              extensions: {
+                type: "graphql error",
+                userPresentableMessage: error.message,
+              },
+            },
+          ],
+        });
+      }
+    });
+  }
+}
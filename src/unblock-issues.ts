@@ -0,0 +1,93 @@
+import * as dotenv from "dotenv";
+import { AuditJournal } from "./utils/audit-journal";
+import { createLinearClient } from "./utils/resilient-client";
+import {
+  UnblockResult,
+  advanceIssuesBlockedBy,
+  advanceUnblockedBacklog,
+} from "./utils/unblock-issues";
+
+dotenv.config();
+
+interface UnblockArgs {
+  issueIds: string[];
+  teamId?: string;
+  assignAgent: boolean;
+  dryRun: boolean;
+}
+
+function readArgs(): UnblockArgs {
+  const argv = process.argv.slice(2);
+  const args: UnblockArgs = { issueIds: [], assignAgent: false, dryRun: false };
+  for (let i = 0; i < argv.length; i++) {
+    const a = argv[i];
+    if (a === "--team") args.teamId = argv[++i];
+    else if (a === "--use-env-team") args.teamId = process.env.LINEAR_TEAM_ID;
+    else if (a === "--assign-agent") args.assignAgent = true;
+    else if (a === "--dry-run") args.dryRun = true;
+    else if (!a.startsWith("--")) args.issueIds.push(a);
+  }
+  if (args.issueIds.length === 0 && !args.teamId) {
+    throw new Error(
+      "Pass the completed issues (e.g. ENG-12) or --team <team-id> to sweep a team's Backlog",
+    );
+  }
+  if (!process.env.LINEAR_API_KEY) {
+    throw new Error("LINEAR_API_KEY is required in env");
+  }
+  return args;
+}
+
+function printResults(results: UnblockResult[], dryRun: boolean) {
+  for (const { issue, advanced, reason, assignedTo } of results) {
+    const label = issue.identifier ?? `#${issue.number}`;
+    if (advanced) {
+      console.log(
+        `   🔓 ${label} ${issue.title} → Todo${dryRun ? " (dry run)" : ""}${assignedTo ? `, assigned to ${assignedTo}` : ""}`,
+      );
+    } else {
+      console.log(`   ⏭️  ${label} ${issue.title}: ${reason}`);
+    }
+  }
+}
+
+async function main() {
+  const args = readArgs();
+  const journal = new AuditJournal();
+  const linear = journal.wrap(createLinearClient(process.env.LINEAR_API_KEY));
+  const options = { assignAgent: args.assignAgent, dryRun: args.dryRun };
+  let advanced = 0;
+
+  for (const issueId of args.issueIds) {
+    const { blocker, results } = await journal.track(
+      "auto-unblock",
+      { issueId },
+      () => advanceIssuesBlockedBy(linear, issueId, options),
+    );
+    const label = blocker.identifier ?? `#${blocker.number}`;
+    if (blocker.state?.type !== "completed") {
+      console.log(`⚠️  ${label} isn't completed (${blocker.state?.name})`);
+      continue;
+    }
+    console.log(`✅ ${label} ${blocker.title} blocks ${results.length} issues`);
+    printResults(results, args.dryRun);
+    advanced += results.filter((r) => r.advanced).length;
+  }
+
+  if (args.teamId) {
+    const teamId = args.teamId;
+    const results = await journal.track("auto-unblock", { teamId }, () =>
+      advanceUnblockedBacklog(linear, teamId, options),
+    );
+    console.log(`📋 ${results.length} blocked issues in the Backlog`);
+    printResults(results, args.dryRun);
+    advanced += results.filter((r) => r.advanced).length;
+  }
+
+  console.log(`\n🔓 ${advanced} issues moved from Backlog to Todo`);
+}
+
+main().catch((e) => {
+  console.error("❌ Unblocking failed:", e.message);
+  process.exit(1);
+});
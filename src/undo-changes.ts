@@ -0,0 +1,109 @@
+import inquirer from "inquirer";
+import * as dotenv from "dotenv";
+import {
+  AuditJournal,
+  MutationEntry,
+  selectEntries,
+  undoEntries,
+} from "./utils/audit-journal";
+import { createLinearClient } from "./utils/resilient-client";
+
+dotenv.config();
+
+interface UndoArgs {
+  journalPath?: string;
+  entryId?: string;
+  sessionId?: string;
+  last?: number;
+  list: boolean;
+  force: boolean;
+  yes: boolean;
+}
+
+function readArgs(): UndoArgs {
+  const argv = process.argv.slice(2);
+  const args: UndoArgs = { list: false, force: false, yes: false };
+  for (let i = 0; i < argv.length; i++) {
+    const a = argv[i];
+    if (a === "--journal") args.journalPath = argv[++i];
+    else if (a === "--entry") args.entryId = argv[++i];
+    else if (a === "--session") args.sessionId = argv[++i];
+    else if (a === "--last") args.last = Number(argv[++i]);
+    else if (a === "--list") args.list = true;
+    else if (a === "--force") args.force = true;
+    else if (a === "--yes") args.yes = true;
+  }
+  if (args.last !== undefined && !(args.last > 0)) {
+    throw new Error("--last must be a positive number");
+  }
+  if (!args.list && !process.env.LINEAR_API_KEY) {
+    throw new Error("LINEAR_API_KEY is required in env");
+  }
+  return args;
+}
+
+function printEntries(entries: MutationEntry[]) {
+  for (const entry of entries) {
+    const left = entry.changes.length - (entry.reverted?.length ?? 0);
+    console.log(`  ${entry.timestamp}  ${entry.tool}  (${left} change(s))`);
+    console.log(`    entry ${entry.id}, session ${entry.sessionId}`);
+  }
+}
+
+async function main() {
+  const args = readArgs();
+  const journal = new AuditJournal(args.journalPath);
+  const pending = journal.pending();
+
+  if (args.list) {
+    console.log(
+      `📒 ${pending.length} pending entries in ${journal.filePath}\n`,
+    );
+    printEntries(pending);
+    return;
+  }
+
+  const entries = selectEntries(pending, args);
+  if (entries.length === 0) {
+    console.log("Nothing to undo");
+    return;
+  }
+
+  console.log(`↩️  About to undo ${entries.length} journal entries:\n`);
+  printEntries(entries);
+
+  if (!args.yes) {
+    const { confirm } = await inquirer.prompt([
+      {
+        type: "confirm",
+        name: "confirm",
+        message: "Revert these changes in Linear?",
+        default: false,
+      },
+    ]);
+    if (!confirm) return;
+  }
+
+  const linear = createLinearClient(process.env.LINEAR_API_KEY);
+  const results = await undoEntries(linear, journal, entries, args.force);
+
+  for (const result of results) {
+    console.log(
+      `\n${result.undone ? "✅" : "⚠️ "} ${result.tool} (${result.entryId})`,
+    );
+    for (const change of result.reverted) console.log(`   ↩️  ${change}`);
+    for (const change of result.skipped) console.log(`   ⏭️  ${change}`);
+  }
+
+  const failed = results.filter((result) => !result.undone).length;
+  if (failed > 0) {
+    console.log(
+      `\n${failed} entries were only partly undone. Re-run with --force to overwrite fields changed since.`,
+    );
+  }
+}
+
+main().catch((e) => {
+  console.error("❌ Undo failed:", e.message);
+  process.exit(1);
+});
@@ -0,0 +1,594 @@
+import { AsyncLocalStorage } from "async_hooks";
+import { randomUUID } from "crypto";
+import * as fs from "fs";
+import * as path from "path";
+import { LinearClient } from "@linear/sdk";
+import { GraphQLRequester } from "../modules/DependencyResolver";
+
+/** Journal location when LINEAR_AUDIT_JOURNAL isn't set */
+export const DEFAULT_JOURNAL_PATH = path.join(
+  process.cwd(),
+  "logs",
+  "audit-journal.jsonl",
+);
+
+/**
+ * Things a tool can create, and how undo removes them
+ */
+export type CreatedResource =
+  | "issue"
+  | "comment"
+  | "issue_relation"
+  | "issue_label"
+  | "project"
+  | "cycle"
+  | "project_milestone";
+
+/**
+ * One change made by a tool call. Issue and milestone updates keep the
+ * touched fields before and after, so they can be put back.
+ */
+export type JournalChange =
+  | {
+      kind: "issue_update";
+      issueId: string;
+      identifier: string;
+      before: Record<string, unknown>;
+      after: Record<string, unknown>;
+    }
+  | { kind: "created"; resource: CreatedResource; id: string }
+  | {
+      kind: "milestone_update";
+      milestoneId: string;
+      before: Record<string, unknown>;
+      after: Record<string, unknown>;
+    }
+  | { kind: "milestone_delete"; milestoneId: string };
+
+/**
+ * A mutating tool call and the changes it made
+ */
+export interface MutationEntry {
+  type: "mutation";
+  id: string;
+  sessionId: string;
+  timestamp: string;
+  tool: string;
+  args: unknown;
+  changes: JournalChange[];
+  /**
+   * Indexes of the changes an earlier, partial undo already reverted. Set
+   * by `pending()`, not stored on the entry.
+   */
+  reverted?: number[];
+}
+
+/**
+ * Record of entries reverted by undo
+ */
+export interface UndoEntry {
+  type: "undo";
+  id: string;
+  sessionId: string;
+  timestamp: string;
+  undoes: string[];
+  /** Indexes of the changes reverted so far, per entry only partly undone */
+  reverted?: Record<string, number[]>;
+}
+
+export type JournalRecord = MutationEntry | UndoEntry;
+
+/**
+ * Issue fields a tool can change, keyed like IssueUpdateInput
+ */
+const ISSUE_FIELDS_QUERY = `
+  query AuditIssueFields($id: String!) {
+    issue(id: $id) {
+      id
+      identifier
+      title
+      description
+      priority
+      estimate
+      dueDate
+      state { id }
+      assignee { id }
+      project { id }
+      projectMilestone { id }
+      cycle { id }
+      parent { id }
+      labels { nodes { id } }
+    }
+  }
+`;
+
+interface RawIssueFields {
+  id: string;
+  identifier: string;
+  title: string;
+  description: string | null;
+  priority: number;
+  estimate: number | null;
+  dueDate: string | null;
+  state: { id: string } | null;
+  assignee: { id: string } | null;
+  project: { id: string } | null;
+  projectMilestone: { id: string } | null;
+  cycle: { id: string } | null;
+  parent: { id: string } | null;
+  labels: { nodes: Array<{ id: string }> };
+}
+
+/**
+ * Fetch an issue's current values for the IssueUpdateInput keys given
+ */
+export async function fetchIssueFields(
+  client: GraphQLRequester,
+  issueId: string,
+  keys: string[],
+): Promise<{
+  id: string;
+  identifier: string;
+  fields: Record<string, unknown>;
+}> {
+  const { issue } = await client.request<
+    { issue: RawIssueFields },
+    Record<string, unknown>
+  >(ISSUE_FIELDS_QUERY, { id: issueId });
+
+  const all: Record<string, unknown> = {
+    title: issue.title,
+    description: issue.description ?? null,
+    priority: issue.priority,
+    estimate: issue.estimate ?? null,
+    dueDate: issue.dueDate ?? null,
+    stateId: issue.state?.id ?? null,
+    assigneeId: issue.assignee?.id ?? null,
+    projectId: issue.project?.id ?? null,
+    projectMilestoneId: issue.projectMilestone?.id ?? null,
+    cycleId: issue.cycle?.id ?? null,
+    parentId: issue.parent?.id ?? null,
+    labelIds: issue.labels.nodes.map((label) => label.id).sort(),
+  };
+
+  return {
+    id: issue.id,
+    identifier: issue.identifier,
+    fields: Object.fromEntries(keys.map((key) => [key, all[key]])),
+  };
+}
+
+/**
+ * Fields an IssueUpdateInput touches, including ones Linear changes as a
+ * side effect (moving project clears the milestone)
+ */
+export function touchedIssueFields(input: Record<string, unknown>): string[] {
+  const keys = new Set<string>();
+  for (const key of Object.keys(input)) {
+    if (["labelIds", "addedLabelIds", "removedLabelIds"].includes(key)) {
+      keys.add("labelIds");
+    } else if (key === "projectId") {
+      keys.add("projectId");
+      keys.add("projectMilestoneId");
+    } else {
+      keys.add(key);
+    }
+  }
+  return [...keys].filter((key) => key in SNAPSHOT_KEYS);
+}
+
+const SNAPSHOT_KEYS: Record<string, true> = {
+  title: true,
+  description: true,
+  priority: true,
+  estimate: true,
+  dueDate: true,
+  stateId: true,
+  assigneeId: true,
+  projectId: true,
+  projectMilestoneId: true,
+  cycleId: true,
+  parentId: true,
+  labelIds: true,
+};
+
+/** Payload getter holding the new object's ID, per create mutation */
+const CREATE_MUTATIONS: Record<string, [CreatedResource, string]> = {
+  createIssue: ["issue", "issueId"],
+  createComment: ["comment", "commentId"],
+  createIssueRelation: ["issue_relation", "issueRelationId"],
+  createIssueLabel: ["issue_label", "issueLabelId"],
+  createProject: ["project", "projectId"],
+  createCycle: ["cycle", "cycleId"],
+  createProjectMilestone: ["project_milestone", "projectMilestoneId"],
+};
+
+const JOURNALED_METHODS = new Set([
+  "updateIssue",
+  "updateProjectMilestone",
+  "deleteProjectMilestone",
+  ...Object.keys(CREATE_MUTATIONS),
+]);
+
+function pickMilestoneFields(milestone: any, keys: string[]) {
+  return Object.fromEntries(keys.map((key) => [key, milestone[key] ?? null]));
+}
+
+function sameValues(
+  a: Record<string, unknown>,
+  b: Record<string, unknown>,
+): boolean {
+  return Object.keys(a).every(
+    (key) => JSON.stringify(a[key]) === JSON.stringify(b[key]),
+  );
+}
+
+/**
+ * Append-only JSONL journal of the changes mutating tools make.
+ *
+ * Wrap the LinearClient with `wrap()` and run each tool call inside
+ * `track()`; every mutation the call makes through the wrapped client is
+ * written as one entry when the call finishes, even if it failed halfway.
+ */
+export class AuditJournal {
+  private calls = new AsyncLocalStorage<JournalChange[]>();
+
+  /**
+   * @param sessionId - Session of calls made outside an MCP transport
+   * session, e.g. over stdio or from scripts
+   */
+  constructor(
+    readonly filePath: string = process.env.LINEAR_AUDIT_JOURNAL ||
+      DEFAULT_JOURNAL_PATH,
+    readonly sessionId: string = randomUUID(),
+  ) {}
+
+  /**
+   * Run a tool call, journaling any mutations it makes under the given
+   * session, e.g. the MCP transport session the call came in on
+   */
+  async track<T>(
+    tool: string,
+    args: unknown,
+    run: () => Promise<T>,
+    sessionId: string = this.sessionId,
+  ) {
+    const changes: JournalChange[] = [];
+    try {
+      return await this.calls.run(changes, run);
+    } finally {
+      if (changes.length > 0) {
+        this.append({
+          type: "mutation",
+          id: randomUUID(),
+          sessionId,
+          timestamp: new Date().toISOString(),
+          tool,
+          args,
+          changes,
+        });
+      }
+    }
+  }
+
+  /**
+   * LinearClient whose mutations are journaled while inside `track()`
+   */
+  wrap(linear: LinearClient): LinearClient {
+    const journal = this;
+    return new Proxy(linear, {
+      get(target, prop, receiver) {
+        const value = Reflect.get(target, prop, receiver);
+        if (typeof prop !== "string" || !JOURNALED_METHODS.has(prop)) {
+          return value;
+        }
+        return async (...args: any[]) => {
+          const changes = journal.calls.getStore();
+          if (!changes) return value.apply(target, args);
+          return journal.recorded(target, prop, args, changes, () =>
+            value.apply(target, args),
+          );
+        };
+      },
+    });
+  }
+
+  private async recorded(
+    linear: LinearClient,
+    method: string,
+    args: any[],
+    changes: JournalChange[],
+    call: () => Promise<any>,
+  ) {
+    if (method === "updateIssue") {
+      const keys = touchedIssueFields(args[1] ?? {});
+      if (keys.length === 0) return call();
+      const before = await fetchIssueFields(linear.client, args[0], keys);
+      const result = await call();
+      const after = await fetchIssueFields(linear.client, before.id, keys);
+      changes.push({
+        kind: "issue_update",
+        issueId: before.id,
+        identifier: before.identifier,
+        before: before.fields,
+        after: after.fields,
+      });
+      return result;
+    }
+
+    if (method === "updateProjectMilestone") {
+      const keys = Object.keys(args[1] ?? {});
+      const milestone = await linear.projectMilestone(args[0]);
+      const result = await call();
+      const updated = await linear.projectMilestone(args[0]);
+      changes.push({
+        kind: "milestone_update",
+        milestoneId: milestone.id,
+        before: pickMilestoneFields(milestone, keys),
+        after: pickMilestoneFields(updated, keys),
+      });
+      return result;
+    }
+
+    if (method === "deleteProjectMilestone") {
+      const result = await call();
+      changes.push({ kind: "milestone_delete", milestoneId: args[0] });
+      return result;
+    }
+
+    const created = CREATE_MUTATIONS[method];
+    const result = await call();
+    if (created && result?.[created[1]]) {
+      changes.push({
+        kind: "created",
+        resource: created[0],
+        id: result[created[1]],
+      });
+    }
+    return result;
+  }
+
+  append(record: JournalRecord): void {
+    fs.mkdirSync(path.dirname(this.filePath), { recursive: true });
+    fs.appendFileSync(this.filePath, JSON.stringify(record) + "\n");
+  }
+
+  /**
+   * Every record in the journal, oldest first. Unreadable lines are skipped.
+   */
+  read(): JournalRecord[] {
+    if (!fs.existsSync(this.filePath)) return [];
+    return fs
+      .readFileSync(this.filePath, "utf8")
+      .split("\n")
+      .flatMap((line) => {
+        if (!line.trim()) return [];
+        try {
+          return [JSON.parse(line) as JournalRecord];
+        } catch {
+          return [];
+        }
+      });
+  }
+
+  /**
+   * Mutation entries that haven't been undone, oldest first, with the
+   * changes partial undos already reverted
+   */
+  pending(): MutationEntry[] {
+    const records = this.read();
+    const undone = new Set<string>();
+    const reverted = new Map<string, Set<number>>();
+    for (const record of records) {
+      if (record.type !== "undo") continue;
+      record.undoes.forEach((id) => undone.add(id));
+      for (const [id, indexes] of Object.entries(record.reverted ?? {})) {
+        const set = reverted.get(id) ?? new Set<number>();
+        indexes.forEach((index) => set.add(index));
+        reverted.set(id, set);
+      }
+    }
+
+    return records
+      .filter(
+        (record): record is MutationEntry =>
+          record.type === "mutation" && !undone.has(record.id),
+      )
+      .map((entry) =>
+        reverted.has(entry.id)
+          ? {
+              ...entry,
+              reverted: [...reverted.get(entry.id)!].sort((a, b) => a - b),
+            }
+          : entry,
+      );
+  }
+}
+
+/**
+ * Which pending entries to undo: one entry, a whole session, or the last N
+ */
+export interface UndoSelection {
+  entryId?: string;
+  /** Session ID, or "last" for the most recent session */
+  sessionId?: string;
+  last?: number;
+}
+
+/**
+ * Pick pending entries to undo, newest first
+ */
+export function selectEntries(
+  pending: MutationEntry[],
+  selection: UndoSelection,
+): MutationEntry[] {
+  let selected: MutationEntry[];
+
+  if (selection.entryId) {
+    selected = pending.filter((entry) => entry.id === selection.entryId);
+    if (selected.length === 0) {
+      throw new Error(
+        `No pending journal entry ${selection.entryId} (it may already be undone)`,
+      );
+    }
+  } else if (selection.sessionId) {
+    const sessionId =
+      selection.sessionId === "last"
+        ? pending[pending.length - 1]?.sessionId
+        : selection.sessionId;
+    selected = pending.filter((entry) => entry.sessionId === sessionId);
+  } else {
+    selected = pending.slice(-(selection.last ?? 1));
+  }
+
+  return [...selected].reverse();
+}
+
+/**
+ * Outcome of undoing one journal entry
+ */
+export interface UndoResult {
+  entryId: string;
+  tool: string;
+  reverted: string[];
+  /** Changes left alone, with the reason */
+  skipped: string[];
+  undone: boolean;
+}
+
+function describeChange(change: JournalChange): string {
+  switch (change.kind) {
+    case "issue_update":
+      return `${change.identifier}: ${Object.keys(change.before).join(", ")}`;
+    case "created":
+      return `${change.resource} ${change.id}`;
+    case "milestone_update":
+    case "milestone_delete":
+      return `milestone ${change.milestoneId}`;
+  }
+}
+
+async function revertChange(
+  linear: LinearClient,
+  change: JournalChange,
+  force: boolean,
+): Promise<void> {
+  switch (change.kind) {
+    case "issue_update": {
+      const current = await fetchIssueFields(
+        linear.client,
+        change.issueId,
+        Object.keys(change.after),
+      );
+      if (!force && !sameValues(change.after, current.fields)) {
+        throw new Error("changed again since; use force to overwrite");
+      }
+      await linear.updateIssue(change.issueId, change.before);
+      return;
+    }
+    case "milestone_update": {
+      const current = await linear.projectMilestone(change.milestoneId);
+      const fields = pickMilestoneFields(current, Object.keys(change.after));
+      if (!force && !sameValues(change.after, fields)) {
+        throw new Error("changed again since; use force to overwrite");
+      }
+      await linear.updateProjectMilestone(change.milestoneId, change.before);
+      return;
+    }
+    case "milestone_delete":
+      throw new Error("deleted milestones can't be restored");
+    case "created":
+      switch (change.resource) {
+        case "issue":
+          await linear.archiveIssue(change.id);
+          return;
+        case "comment":
+          await linear.deleteComment(change.id);
+          return;
+        case "issue_relation":
+          await linear.deleteIssueRelation(change.id);
+          return;
+        case "issue_label":
+          await linear.deleteIssueLabel(change.id);
+          return;
+        case "project":
+          await linear.archiveProject(change.id);
+          return;
+        case "cycle":
+          await linear.archiveCycle(change.id);
+          return;
+        case "project_milestone":
+          await linear.deleteProjectMilestone(change.id);
+          return;
+      }
+  }
+}
+
+/** Changes undo can never put back */
+const IRREVERSIBLE_CHANGES: JournalChange["kind"][] = ["milestone_delete"];
+
+/**
+ * Revert journal entries, newest change first. Created issues and
+ * projects are archived; updates are only put back if nothing changed
+ * the same fields since, unless `force` is set. Entries whose changes
+ * all reverted, apart from irreversible ones, are recorded as undone;
+ * for the rest the reverted changes are recorded so later runs skip them.
+ *
+ * Pass the plain LinearClient, not a wrapped one, so the undo itself
+ * isn't journaled as a new mutation.
+ */
+export async function undoEntries(
+  linear: LinearClient,
+  journal: AuditJournal,
+  entries: MutationEntry[],
+  force: boolean = false,
+): Promise<UndoResult[]> {
+  const results: UndoResult[] = [];
+  const partial: Record<string, number[]> = {};
+
+  for (const entry of entries) {
+    const result: UndoResult = {
+      entryId: entry.id,
+      tool: entry.tool,
+      reverted: [],
+      skipped: [],
+      undone: false,
+    };
+
+    const done = new Set(entry.reverted);
+    for (let index = entry.changes.length - 1; index >= 0; index--) {
+      if (done.has(index)) continue;
+      const change = entry.changes[index];
+      try {
+        await revertChange(linear, change, force);
+        done.add(index);
+        result.reverted.push(describeChange(change));
+      } catch (error: any) {
+        result.skipped.push(`${describeChange(change)} - ${error.message}`);
+      }
+    }
+
+    result.undone = entry.changes.every(
+      (change, index) =>
+        done.has(index) || IRREVERSIBLE_CHANGES.includes(change.kind),
+    );
+    if (!result.undone && result.reverted.length > 0) {
+      partial[entry.id] = [...done].sort((a, b) => a - b);
+    }
+    results.push(result);
+  }
+
+  const undone = results.filter((r) => r.undone).map((r) => r.entryId);
+  if (undone.length > 0 || Object.keys(partial).length > 0) {
+    journal.append({
+      type: "undo",
+      id: randomUUID(),
+      sessionId: journal.sessionId,
+      timestamp: new Date().toISOString(),
+      undoes: undone,
+      ...(Object.keys(partial).length > 0 && { reverted: partial }),
+    });
+  }
+
+  return results;
+}
@@ -0,0 +1,496 @@
+import { LinearClient } from "@linear/sdk";
+import * as fs from "fs";
+import * as path from "path";
+import * as yaml from "js-yaml";
+import { z } from "zod";
+import { AuditJournal } from "./audit-journal";
+import {
+  LinearWebhookPayload,
+  WebhookHandler,
+  webhookEvent,
+} from "./linear-webhooks";
+import { resolveTeamState } from "./workflow-states";
+
+/**
+ * Priority names accepted in rules, by Linear priority value
+ */
+export const PRIORITY_LEVELS: Record<string, number> = {
+  none: 0,
+  urgent: 1,
+  high: 2,
+  medium: 3,
+  normal: 3,
+  low: 4,
+};
+
+const priorityValue = z.union([
+  z.number().int().min(0).max(4),
+  z.string().refine((name) => name.toLowerCase() in PRIORITY_LEVELS, {
+    message: `must be one of: ${Object.keys(PRIORITY_LEVELS).join(", ")}`,
+  }),
+]);
+
+const oneOrMany = <T extends z.ZodTypeAny>(schema: T) =>
+  z.union([schema, z.array(schema).nonempty()]);
+
+function isValidPattern(pattern: string) {
+  try {
+    new RegExp(pattern, "i");
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+const conditionSchema = z
+  .object({
+    team: z.string().optional(),
+    labels: oneOrMany(z.string()).optional(),
+    priority: oneOrMany(priorityValue).optional(),
+    state: oneOrMany(z.string()).optional(),
+    assigned: z.boolean().optional(),
+    titleMatches: z
+      .string()
+      .refine(isValidPattern, { message: "is not a valid regular expression" })
+      .optional(),
+  })
+  .strict();
+
+const actionSchema = z
+  .object({
+    assign: z.string().optional(),
+    addToCurrentCycle: z.boolean().optional(),
+    addLabels: oneOrMany(z.string()).optional(),
+    removeLabels: oneOrMany(z.string()).optional(),
+    setPriority: priorityValue.optional(),
+    moveTo: z.string().optional(),
+    comment: z.string().optional(),
+  })
+  .strict()
+  .refine((then) => Object.values(then).some((v) => v !== undefined), {
+    message: "needs at least one action",
+  });
+
+const ruleSchema = z
+  .object({
+    name: z.string().min(1),
+    enabled: z.boolean().default(true),
+    on: oneOrMany(z.enum(["issue.create", "issue.update"])).default([
+      "issue.create",
+      "issue.update",
+    ]),
+    when: conditionSchema.default({}),
+    then: actionSchema,
+  })
+  .strict();
+
+export const automationRulesSchema = z
+  .object({ rules: z.array(ruleSchema) })
+  .strict();
+
+export type RuleConditions = z.infer<typeof conditionSchema>;
+export type RuleActions = z.infer<typeof actionSchema>;
+export type AutomationRule = z.infer<typeof ruleSchema>;
+
+/**
+ * Validate parsed rules, throwing one error listing every problem
+ */
+export function parseAutomationRules(
+  value: unknown,
+  source = "rules",
+): AutomationRule[] {
+  const parsed = automationRulesSchema.safeParse(value);
+  if (parsed.success) return parsed.data.rules;
+
+  throw new Error(
+    `Invalid ${source}: ${parsed.error.issues
+      .map((issue) => `${issue.path.join(".") || "(root)"}: ${issue.message}`)
+      .join("; ")}`,
+  );
+}
+
+/**
+ * Load rules from a .json, .yaml or .yml file
+ */
+export function loadAutomationRules(filePath: string): AutomationRule[] {
+  const text = fs.readFileSync(filePath, "utf8");
+  const value =
+    path.extname(filePath).toLowerCase() === ".json"
+      ? JSON.parse(text)
+      : yaml.safeLoad(text);
+  return parseAutomationRules(value, `rules file ${filePath}`);
+}
+
+/* ---------------- Matching ---------------- */
+
+/**
+ * The issue fields rules look at, read from a webhook payload
+ */
+interface IssueSnapshot {
+  teamId?: string;
+  teamKey?: string;
+  teamName?: string;
+  /** Names of labels we know; ids of labels only seen in `updatedFrom` are missing */
+  labels: string[];
+  priority?: number;
+  stateName?: string;
+  stateType?: string;
+  assigneeId?: string | null;
+  title: string;
+}
+
+function currentSnapshot(data: Record<string, any>): IssueSnapshot {
+  return {
+    teamId: data.teamId ?? data.team?.id,
+    teamKey: data.team?.key,
+    teamName: data.team?.name,
+    labels: (data.labels ?? []).map((label: any) => label.name),
+    priority: data.priority,
+    stateName: data.state?.name,
+    stateType: data.state?.type,
+    assigneeId: data.assigneeId ?? null,
+    title: data.title ?? "",
+  };
+}
+
+/**
+ * The issue as it was before an update. Linear only sends the previous
+ * values of changed fields, so a changed state is known by id alone.
+ */
+function previousSnapshot(
+  data: Record<string, any>,
+  updatedFrom: Record<string, any>,
+): IssueSnapshot {
+  const current = currentSnapshot(data);
+  const has = (key: string) => key in updatedFrom;
+
+  let labels = current.labels;
+  if (has("labelIds")) {
+    const before = new Set<string>(updatedFrom.labelIds ?? []);
+    labels = (data.labels ?? [])
+      .filter((label: any) => before.has(label.id))
+      .map((label: any) => label.name);
+  }
+
+  const stateChanged = has("stateId") && updatedFrom.stateId !== data.stateId;
+  return {
+    ...current,
+    labels,
+    priority: has("priority") ? updatedFrom.priority : current.priority,
+    stateName: stateChanged ? undefined : current.stateName,
+    stateType: stateChanged ? undefined : current.stateType,
+    assigneeId: has("assigneeId") ? updatedFrom.assigneeId : current.assigneeId,
+    title: has("title") ? updatedFrom.title : current.title,
+  };
+}
+
+const asList = <T>(value: T | T[] | undefined): T[] =>
+  value === undefined ? [] : Array.isArray(value) ? value : [value];
+
+const sameText = (a: string | undefined, b: string) =>
+  a !== undefined && a.toLowerCase() === b.toLowerCase();
+
+/**
+ * Priority value of a rule's priority name or number
+ */
+export const toPriority = (value: string | number) =>
+  typeof value === "number" ? value : PRIORITY_LEVELS[value.toLowerCase()];
+
+/** Compiled `titleMatches` patterns, one per rule's conditions */
+const titlePatterns = new WeakMap<RuleConditions, RegExp>();
+
+function titlePattern(when: RuleConditions, source: string) {
+  let pattern = titlePatterns.get(when);
+  if (!pattern) {
+    pattern = new RegExp(source, "i");
+    titlePatterns.set(when, pattern);
+  }
+  return pattern;
+}
+
+function matchesConditions(when: RuleConditions, issue: IssueSnapshot) {
+  if (
+    when.team &&
+    !(
+      issue.teamId === when.team ||
+      sameText(issue.teamKey, when.team) ||
+      sameText(issue.teamName, when.team)
+    )
+  ) {
+    return false;
+  }
+  if (
+    !asList(when.labels).every((name) =>
+      issue.labels.some((label) => sameText(label, name)),
+    )
+  ) {
+    return false;
+  }
+  if (
+    when.priority !== undefined &&
+    !asList(when.priority).some((p) => toPriority(p) === issue.priority)
+  ) {
+    return false;
+  }
+  if (
+    when.state !== undefined &&
+    !asList(when.state).some(
+      (s) => sameText(issue.stateName, s) || sameText(issue.stateType, s),
+    )
+  ) {
+    return false;
+  }
+  if (when.assigned !== undefined && when.assigned !== !!issue.assigneeId) {
+    return false;
+  }
+  if (
+    when.titleMatches &&
+    !titlePattern(when, when.titleMatches).test(issue.title)
+  ) {
+    return false;
+  }
+  return true;
+}
+
+/**
+ * A rule that fired for an issue
+ */
+export interface RuleMatch {
+  rule: AutomationRule;
+  event: string;
+  issue: { id: string; identifier?: string; title: string; teamId?: string };
+}
+
+/**
+ * Rules that fire for a payload. A rule fires when an issue starts
+ * matching it: on create, or on an update that changed a non-matching
+ * issue into a matching one. Edits to an issue that already matched
+ * don't fire it again.
+ */
+export function matchAutomationRules(
+  rules: AutomationRule[],
+  payload: LinearWebhookPayload,
+): RuleMatch[] {
+  const event = webhookEvent(payload);
+  if (event !== "issue.create" && event !== "issue.update") return [];
+
+  const current = currentSnapshot(payload.data);
+  const previous =
+    event === "issue.update"
+      ? previousSnapshot(payload.data, payload.updatedFrom ?? {})
+      : null;
+
+  return rules
+    .filter(
+      (rule) =>
+        rule.enabled &&
+        asList(rule.on).includes(event) &&
+        matchesConditions(rule.when, current) &&
+        !(previous && matchesConditions(rule.when, previous)),
+    )
+    .map((rule) => ({
+      rule,
+      event,
+      issue: {
+        id: payload.data.id,
+        identifier: payload.data.identifier,
+        title: current.title,
+        teamId: current.teamId,
+      },
+    }));
+}
+
+/**
+ * One line per action a rule takes, for logs and dry runs
+ */
+export function describeRuleActions(then: RuleActions): string[] {
+  const lines: string[] = [];
+  if (then.assign) lines.push(`assign to ${then.assign}`);
+  if (then.addToCurrentCycle) lines.push("add to the current cycle");
+  if (then.addLabels)
+    lines.push(`add labels ${asList(then.addLabels).join(", ")}`);
+  if (then.removeLabels) {
+    lines.push(`remove labels ${asList(then.removeLabels).join(", ")}`);
+  }
+  if (then.setPriority !== undefined)
+    lines.push(`set priority ${then.setPriority}`);
+  if (then.moveTo) lines.push(`move to ${then.moveTo}`);
+  if (then.comment) lines.push("comment");
+  return lines;
+}
+
+/* ---------------- Actions ---------------- */
+
+/**
+ * Fill `{{identifier}}`, `{{title}}` and `{{rule}}` into a comment
+ */
+export function renderRuleComment(template: string, match: RuleMatch): string {
+  const values: Record<string, string> = {
+    identifier: match.issue.identifier ?? match.issue.id,
+    title: match.issue.title,
+    rule: match.rule.name,
+  };
+  return template.replace(/\{\{\s*(\w+)\s*\}\}/g, (text, key) =>
+    key in values ? values[key] : text,
+  );
+}
+
+async function resolveUserId(linear: LinearClient, nameOrEmail: string) {
+  if (nameOrEmail.toLowerCase() === "me") {
+    return (await linear.viewer).id;
+  }
+
+  const users = await linear.users({
+    filter: {
+      or: [
+        { email: { eqIgnoreCase: nameOrEmail } },
+        { name: { eqIgnoreCase: nameOrEmail } },
+        { displayName: { eqIgnoreCase: nameOrEmail } },
+      ],
+    },
+  });
+  if (users.nodes.length === 0) {
+    throw new Error(`No user matches "${nameOrEmail}"`);
+  }
+  return users.nodes[0].id;
+}
+
+/**
+ * Ids of labels by name, preferring the team's labels over workspace ones
+ */
+async function resolveLabelIds(
+  linear: LinearClient,
+  teamId: string,
+  names: string[],
+) {
+  const labels = await linear.issueLabels({
+    filter: {
+      or: names.map((name) => ({ name: { eqIgnoreCase: name } })),
+    },
+  });
+
+  return names.map((name) => {
+    const candidates = labels.nodes.filter((label) =>
+      sameText(label.name, name),
+    );
+    const label =
+      candidates.find((l) => l.teamId === teamId) ??
+      candidates.find((l) => !l.teamId);
+    if (!label) throw new Error(`No label "${name}" for this team`);
+    return label.id;
+  });
+}
+
+/**
+ * Carry out a fired rule's actions as one issue update plus an optional
+ * comment. Returns what was done.
+ */
+export async function applyRuleMatch(
+  linear: LinearClient,
+  match: RuleMatch,
+): Promise<string[]> {
+  const then = match.rule.then;
+  const teamId =
+    match.issue.teamId ?? (await (await linear.issue(match.issue.id)).team)?.id;
+  if (!teamId) throw new Error(`Issue ${match.issue.id} has no team`);
+
+  const input: Record<string, any> = {};
+  const done: string[] = [];
+
+  if (then.assign) {
+    input.assigneeId = await resolveUserId(linear, then.assign);
+    done.push(`assigned to ${then.assign}`);
+  }
+  if (then.addToCurrentCycle) {
+    const cycle = await (await linear.team(teamId)).activeCycle;
+    if (cycle) {
+      input.cycleId = cycle.id;
+      done.push(`added to cycle ${cycle.number}`);
+    } else {
+      done.push("no active cycle to add to");
+    }
+  }
+  if (then.addLabels) {
+    input.addedLabelIds = await resolveLabelIds(
+      linear,
+      teamId,
+      asList(then.addLabels),
+    );
+    done.push(`added labels ${asList(then.addLabels).join(", ")}`);
+  }
+  if (then.removeLabels) {
+    input.removedLabelIds = await resolveLabelIds(
+      linear,
+      teamId,
+      asList(then.removeLabels),
+    );
+    done.push(`removed labels ${asList(then.removeLabels).join(", ")}`);
+  }
+  if (then.setPriority !== undefined) {
+    input.priority = toPriority(then.setPriority);
+    done.push(`set priority ${then.setPriority}`);
+  }
+  if (then.moveTo) {
+    const state = await resolveTeamState(linear, teamId, then.moveTo);
+    input.stateId = state.id;
+    done.push(`moved to ${state.name}`);
+  }
+
+  if (Object.keys(input).length > 0) {
+    await linear.updateIssue(match.issue.id, input);
+  }
+  if (then.comment) {
+    await linear.createComment({
+      issueId: match.issue.id,
+      body: renderRuleComment(then.comment, match),
+    });
+    done.push("commented");
+  }
+  return done;
+}
+
+export interface RulesHandlerOptions {
+  /** Log what would happen without changing anything */
+  dryRun?: boolean;
+  /** Ignore events caused by this user, i.e. our own changes */
+  ignoreActorId?: string;
+  /** Journal applied rules so `npm run undo` can revert them */
+  journal?: AuditJournal;
+}
+
+/**
+ * A webhook handler applying the rules that fire for each issue event
+ */
+export function createRulesHandler(
+  linear: LinearClient,
+  rules: AutomationRule[],
+  options: RulesHandlerOptions = {},
+): WebhookHandler {
+  return async (payload) => {
+    if (options.ignoreActorId && payload.actor?.id === options.ignoreActorId) {
+      return;
+    }
+
+    for (const match of matchAutomationRules(rules, payload)) {
+      const label = match.issue.identifier ?? match.issue.id;
+      if (options.dryRun) {
+        console.log(
+          `🔎 Rule "${match.rule.name}" would ${describeRuleActions(match.rule.then).join(", ")} on ${label}`,
+        );
+        continue;
+      }
+
+      const apply = () => applyRuleMatch(linear, match);
+      const done = options.journal
+        ? await options.journal.track(
+            `webhook-rule:${match.rule.name}`,
+            { event: match.event, issueId: match.issue.id },
+            apply,
+          )
+        : await apply();
+      console.log(
+        `⚡ Rule "${match.rule.name}" on ${label}: ${done.join(", ")}`,
+      );
+    }
+  };
+}
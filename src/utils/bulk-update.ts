@@ -0,0 +1,484 @@
+import { createHmac, randomBytes, timingSafeEqual } from "crypto";
+import { LinearClient } from "@linear/sdk";
+import { GraphQLRequester } from "../modules/DependencyResolver";
+import { ConnectionLike, fetchPaginated } from "./linear-pagination";
+import { resolveTeamState } from "./workflow-states";
+
+/** Most issues a single bulk update may touch */
+export const BULK_UPDATE_MAX_ISSUES = 250;
+
+/** How long a preview's confirmation token stays valid */
+export const CONFIRMATION_TTL_MS = 10 * 60 * 1000;
+
+/**
+ * Filter accepted by search_issues and bulk_update_issues
+ */
+export interface IssueSearchFilter {
+  teamId: string;
+  query?: string;
+  labelNames?: string[];
+  projectId?: string;
+  stateType?: string;
+}
+
+/**
+ * Changes to apply to every matching issue. Omitted fields are left
+ * alone; `null` clears the assignee, project or milestone.
+ */
+export interface BulkIssuePatch {
+  /** Workflow state name or type, as accepted by move_issue_to_state */
+  state?: string;
+  assigneeId?: string | null;
+  priority?: number;
+  addLabels?: string[];
+  removeLabels?: string[];
+  projectId?: string | null;
+  milestoneId?: string | null;
+}
+
+interface NamedRef {
+  id: string;
+  name: string;
+}
+
+/**
+ * Patch with names resolved to Linear IDs
+ */
+export interface ResolvedPatch {
+  state?: NamedRef & { type: string };
+  assignee?: NamedRef | null;
+  priority?: number;
+  addLabels: NamedRef[];
+  removeLabels: NamedRef[];
+  project?: NamedRef | null;
+  milestone?: NamedRef | null;
+}
+
+/**
+ * Current values of the fields a bulk update can change
+ */
+export interface BulkUpdateIssue {
+  id: string;
+  identifier: string;
+  title: string;
+  priority: number;
+  state: NamedRef & { type: string };
+  assignee: NamedRef | null;
+  labels: NamedRef[];
+  project: NamedRef | null;
+  milestone: NamedRef | null;
+}
+
+/**
+ * Before/after value of one field, by name rather than ID
+ */
+export interface FieldChange {
+  from: string | number | string[] | null;
+  to: string | number | string[] | null;
+}
+
+/**
+ * What a bulk update will do to one issue
+ */
+export interface PlannedUpdate {
+  issueId: string;
+  identifier: string;
+  title: string;
+  changes: Record<string, FieldChange>;
+  /** IssueUpdateInput sent to Linear */
+  input: Record<string, unknown>;
+}
+
+/**
+ * Build the IssueFilter for a search_issues style filter
+ */
+export function buildIssueSearchFilter(
+  search: IssueSearchFilter,
+): Record<string, any> {
+  const filter: Record<string, any> = {
+    team: { id: { eq: search.teamId } },
+  };
+
+  if (search.query) {
+    filter.or = [
+      { title: { containsIgnoreCase: search.query } },
+      { description: { containsIgnoreCase: search.query } },
+    ];
+  }
+
+  if (search.labelNames && search.labelNames.length > 0) {
+    filter.labels = { some: { name: { in: search.labelNames } } };
+  }
+
+  if (search.projectId) {
+    filter.project = { id: { eq: search.projectId } };
+  }
+
+  if (search.stateType) {
+    filter.state = { type: { eq: search.stateType } };
+  }
+
+  return filter;
+}
+
+const BULK_UPDATE_ISSUES_QUERY = `
+  query BulkUpdateIssues($filter: IssueFilter, $first: Int, $after: String) {
+    issues(filter: $filter, first: $first, after: $after) {
+      nodes {
+        id
+        identifier
+        title
+        priority
+        state { id name type }
+        assignee { id name }
+        labels { nodes { id name } }
+        project { id name }
+        projectMilestone { id name }
+      }
+      pageInfo { hasNextPage endCursor }
+    }
+  }
+`;
+
+interface RawBulkUpdateIssue extends Omit<
+  BulkUpdateIssue,
+  "labels" | "milestone"
+> {
+  labels: { nodes: NamedRef[] };
+  projectMilestone: NamedRef | null;
+}
+
+/**
+ * Fetch every issue matching the filter. Throws if it matches more than
+ * BULK_UPDATE_MAX_ISSUES, so a broad filter can't touch half a team.
+ */
+export async function fetchBulkUpdateIssues(
+  client: GraphQLRequester,
+  filter: Record<string, unknown>,
+): Promise<BulkUpdateIssue[]> {
+  const result = await fetchPaginated(
+    async (page): Promise<ConnectionLike<BulkUpdateIssue>> => {
+      const data = await client.request<
+        {
+          issues: {
+            nodes: RawBulkUpdateIssue[];
+            pageInfo: { hasNextPage: boolean; endCursor?: string | null };
+          };
+        },
+        Record<string, unknown>
+      >(BULK_UPDATE_ISSUES_QUERY, { filter, ...page });
+
+      return {
+        nodes: data.issues.nodes.map(
+          ({ labels, projectMilestone, ...issue }) => ({
+            ...issue,
+            labels: labels.nodes,
+            milestone: projectMilestone,
+          }),
+        ),
+        pageInfo: data.issues.pageInfo,
+      };
+    },
+    { fetchAll: true, maxResults: BULK_UPDATE_MAX_ISSUES },
+    BULK_UPDATE_MAX_ISSUES,
+  );
+
+  if (result.truncated) {
+    throw new Error(
+      `Filter matches more than ${BULK_UPDATE_MAX_ISSUES} issues. Narrow it and preview again.`,
+    );
+  }
+  return result.nodes;
+}
+
+/**
+ * Check a patch before resolving it against Linear
+ */
+export function validateBulkPatch(patch: BulkIssuePatch): void {
+  const fields = Object.entries(patch).filter(
+    ([, value]) =>
+      value !== undefined && !(Array.isArray(value) && value.length === 0),
+  );
+  if (fields.length === 0) {
+    throw new Error("Patch is empty - nothing to update");
+  }
+
+  if (
+    patch.priority !== undefined &&
+    (!Number.isInteger(patch.priority) ||
+      patch.priority < 0 ||
+      patch.priority > 4)
+  ) {
+    throw new Error(
+      `Invalid priority ${patch.priority}: use 0 (none) to 4 (low)`,
+    );
+  }
+
+  const removing = new Set(
+    (patch.removeLabels ?? []).map((name) => name.toLowerCase()),
+  );
+  const both = (patch.addLabels ?? []).filter((name) =>
+    removing.has(name.toLowerCase()),
+  );
+  if (both.length > 0) {
+    throw new Error(
+      `Labels can't be both added and removed: ${both.join(", ")}`,
+    );
+  }
+}
+
+function findLabels(labels: NamedRef[], names: string[]): NamedRef[] {
+  const missing: string[] = [];
+  const found = names.flatMap((name) => {
+    const label = labels.find(
+      (l) => l.name.toLowerCase() === name.trim().toLowerCase(),
+    );
+    if (!label) missing.push(name);
+    return label ? [label] : [];
+  });
+
+  if (missing.length > 0) {
+    throw new Error(
+      `Unknown label(s): ${missing.join(", ")}. Create them first with add_labels_to_issue.`,
+    );
+  }
+  return found;
+}
+
+/**
+ * Resolve state, assignee, label, project and milestone references in a
+ * patch to Linear objects. Nothing is created or changed.
+ */
+export async function resolveBulkPatch(
+  linear: LinearClient,
+  teamId: string,
+  patch: BulkIssuePatch,
+): Promise<ResolvedPatch> {
+  validateBulkPatch(patch);
+
+  const resolved: ResolvedPatch = {
+    addLabels: [],
+    removeLabels: [],
+    priority: patch.priority,
+  };
+
+  if (patch.state) {
+    const state = await resolveTeamState(linear, teamId, patch.state);
+    resolved.state = { id: state.id, name: state.name, type: state.type };
+  }
+
+  if (patch.assigneeId !== undefined) {
+    resolved.assignee = null;
+    if (patch.assigneeId) {
+      const user = await linear.user(patch.assigneeId);
+      resolved.assignee = { id: user.id, name: user.name };
+    }
+  }
+
+  if (patch.addLabels?.length || patch.removeLabels?.length) {
+    const team = await linear.team(teamId);
+    const labels = await team.labels({ first: 250 });
+    const teamLabels = labels.nodes.map(({ id, name }) => ({ id, name }));
+    resolved.addLabels = findLabels(teamLabels, patch.addLabels ?? []);
+    resolved.removeLabels = findLabels(teamLabels, patch.removeLabels ?? []);
+  }
+
+  if (patch.milestoneId) {
+    // A milestone implies its project
+    const milestone = await linear.projectMilestone(patch.milestoneId);
+    if (
+      patch.projectId !== undefined &&
+      patch.projectId !== milestone.projectId
+    ) {
+      throw new Error(
+        `Milestone "${milestone.name}" belongs to another project than ${patch.projectId}`,
+      );
+    }
+    const project = await milestone.project;
+    if (!project) {
+      throw new Error(`Milestone "${milestone.name}" has no project`);
+    }
+    resolved.milestone = { id: milestone.id, name: milestone.name };
+    resolved.project = { id: project.id, name: project.name };
+  } else {
+    if (patch.milestoneId === null) {
+      resolved.milestone = null;
+    }
+    if (patch.projectId !== undefined) {
+      resolved.project = null;
+      if (patch.projectId) {
+        const project = await linear.project(patch.projectId);
+        resolved.project = { id: project.id, name: project.name };
+      }
+    }
+  }
+
+  return resolved;
+}
+
+/**
+ * Work out the changes the patch makes to each issue. Issues the patch
+ * wouldn't change are left out.
+ */
+export function planBulkUpdate(
+  issues: BulkUpdateIssue[],
+  patch: ResolvedPatch,
+): PlannedUpdate[] {
+  const plans: PlannedUpdate[] = [];
+
+  for (const issue of issues) {
+    const changes: Record<string, FieldChange> = {};
+    const input: Record<string, unknown> = {};
+
+    if (patch.state && patch.state.id !== issue.state.id) {
+      changes.state = { from: issue.state.name, to: patch.state.name };
+      input.stateId = patch.state.id;
+    }
+
+    if (
+      patch.assignee !== undefined &&
+      (patch.assignee?.id ?? null) !== (issue.assignee?.id ?? null)
+    ) {
+      changes.assignee = {
+        from: issue.assignee?.name ?? null,
+        to: patch.assignee?.name ?? null,
+      };
+      input.assigneeId = patch.assignee?.id ?? null;
+    }
+
+    if (patch.priority !== undefined && patch.priority !== issue.priority) {
+      changes.priority = { from: issue.priority, to: patch.priority };
+      input.priority = patch.priority;
+    }
+
+    const current = new Set(issue.labels.map((label) => label.id));
+    const added = patch.addLabels.filter((label) => !current.has(label.id));
+    const removed = patch.removeLabels.filter((label) => current.has(label.id));
+    if (added.length > 0 || removed.length > 0) {
+      const removedIds = new Set(removed.map((label) => label.id));
+      changes.labels = {
+        from: issue.labels.map((label) => label.name),
+        to: [
+          ...issue.labels.filter((label) => !removedIds.has(label.id)),
+          ...added,
+        ].map((label) => label.name),
+      };
+      if (added.length > 0) {
+        input.addedLabelIds = added.map((label) => label.id);
+      }
+      if (removed.length > 0) {
+        input.removedLabelIds = removed.map((label) => label.id);
+      }
+    }
+
+    const projectChanges =
+      patch.project !== undefined &&
+      (patch.project?.id ?? null) !== (issue.project?.id ?? null);
+    if (projectChanges) {
+      changes.project = {
+        from: issue.project?.name ?? null,
+        to: patch.project?.name ?? null,
+      };
+      input.projectId = patch.project?.id ?? null;
+    }
+
+    // Moving to another project drops the old project's milestone
+    const milestone =
+      patch.milestone !== undefined
+        ? patch.milestone
+        : projectChanges
+          ? null
+          : issue.milestone;
+    if ((milestone?.id ?? null) !== (issue.milestone?.id ?? null)) {
+      changes.milestone = {
+        from: issue.milestone?.name ?? null,
+        to: milestone?.name ?? null,
+      };
+      input.projectMilestoneId = milestone?.id ?? null;
+    }
+
+    if (Object.keys(input).length > 0) {
+      plans.push({
+        issueId: issue.id,
+        identifier: issue.identifier,
+        title: issue.title,
+        changes,
+        input,
+      });
+    }
+  }
+
+  return plans;
+}
+
+/**
+ * Key confirmation tokens are signed with. It only lives as long as the
+ * process, so callers can't mint tokens without a preview, and tokens from a
+ * previous run stop working.
+ */
+const TOKEN_SECRET = randomBytes(32);
+
+function fingerprint(
+  issuedAt: number,
+  filter: IssueSearchFilter,
+  plans: PlannedUpdate[],
+): string {
+  const canonical = JSON.stringify({
+    issuedAt,
+    filter: [
+      filter.teamId,
+      filter.query ?? null,
+      [...(filter.labelNames ?? [])].sort(),
+      filter.projectId ?? null,
+      filter.stateType ?? null,
+    ],
+    plans: plans.map((plan) => [
+      plan.issueId,
+      Object.keys(plan.input)
+        .sort()
+        .map((key) => [key, plan.input[key]]),
+    ]),
+  });
+  return createHmac("sha256", TOKEN_SECRET)
+    .update(canonical)
+    .digest("hex")
+    .slice(0, 32);
+}
+
+/**
+ * Token handed out with a preview. It signs the filter and the exact
+ * planned changes, so it only confirms the update that was previewed.
+ */
+export function createConfirmationToken(
+  filter: IssueSearchFilter,
+  plans: PlannedUpdate[],
+  now: number = Date.now(),
+): string {
+  return `${now.toString(36)}.${fingerprint(now, filter, plans)}`;
+}
+
+/**
+ * Check a confirmation token against the update about to be applied.
+ * Returns the reason it can't be used, or null if it matches.
+ */
+export function checkConfirmationToken(
+  token: string,
+  filter: IssueSearchFilter,
+  plans: PlannedUpdate[],
+  now: number = Date.now(),
+): string | null {
+  const [issuedPart, hash] = token.split(".");
+  const issuedAt = parseInt(issuedPart, 36);
+  if (!hash || !Number.isFinite(issuedAt)) {
+    return "Confirmation token is malformed";
+  }
+  if (now - issuedAt > CONFIRMATION_TTL_MS || issuedAt > now) {
+    return "Confirmation token has expired";
+  }
+  const expected = Buffer.from(fingerprint(issuedAt, filter, plans));
+  const given = Buffer.from(hash);
+  if (given.length !== expected.length || !timingSafeEqual(given, expected)) {
+    return "The matching issues or their planned changes differ from the preview";
+  }
+  return null;
+}
@@ -0,0 +1,27 @@
+import { LinearClient } from "@linear/sdk";
+
+/**
+ * The Cursor agent among a team's users: the first whose name or email
+ * mentions "cursor"
+ */
+export function findCursorAgent<T extends { name: string; email?: string }>(
+  users: T[],
+): T | undefined {
+  return users.find(
+    (user) =>
+      user.name.toLowerCase().includes("cursor") ||
+      user.email?.toLowerCase().includes("cursor"),
+  );
+}
+
+/**
+ * Look up the Cursor agent of a team
+ */
+export async function findTeamCursorAgent(
+  linear: LinearClient,
+  teamId: string,
+) {
+  const team = await linear.team(teamId);
+  const members = await team.members();
+  return findCursorAgent(members.nodes);
+}
@@ -0,0 +1,108 @@
+/**
+ * Which cycles to list
+ */
+export const CYCLE_STATUSES = ["all", "active", "upcoming", "past"] as const;
+
+export type CycleStatus = (typeof CYCLE_STATUSES)[number];
+
+/**
+ * Cycle fields read from the Linear SDK
+ */
+export interface CycleLike {
+  id: string;
+  number: number;
+  name?: string | null;
+  description?: string | null;
+  startsAt: Date;
+  endsAt: Date;
+  completedAt?: Date | null;
+  progress: number;
+  isActive: boolean;
+  isNext: boolean;
+  isFuture: boolean;
+  isPast: boolean;
+}
+
+/**
+ * Cycle as returned by the MCP tools
+ */
+export interface CycleSummary {
+  id: string;
+  number: number;
+  name: string;
+  description: string | null;
+  startsAt: string;
+  endsAt: string;
+  completedAt: string | null;
+  status: "active" | "next" | "upcoming" | "past";
+  /** Linear's own progress figure, as a percentage */
+  progress: number;
+  /** Whole days until the cycle ends (0 once it has ended) */
+  daysRemaining: number;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Build the Linear cycle filter for a team and status
+ */
+export function buildCycleFilter(
+  teamId: string,
+  status: CycleStatus = "all",
+): Record<string, unknown> {
+  const filter: Record<string, unknown> = { team: { id: { eq: teamId } } };
+  if (status === "active") filter.isActive = { eq: true };
+  if (status === "upcoming") filter.isFuture = { eq: true };
+  if (status === "past") filter.isPast = { eq: true };
+  return filter;
+}
+
+/**
+ * Parse and check cycle start/end dates (ISO 8601, e.g. "2025-03-03")
+ */
+export function parseCycleDates(
+  startsAt: string,
+  endsAt: string,
+): { startsAt: Date; endsAt: Date } {
+  const start = new Date(startsAt);
+  const end = new Date(endsAt);
+  if (isNaN(start.getTime())) {
+    throw new Error(`Invalid startsAt date: ${startsAt}`);
+  }
+  if (isNaN(end.getTime())) {
+    throw new Error(`Invalid endsAt date: ${endsAt}`);
+  }
+  if (end <= start) {
+    throw new Error("endsAt must be after startsAt");
+  }
+  return { startsAt: start, endsAt: end };
+}
+
+export function toCycleSummary(
+  cycle: CycleLike,
+  now: Date = new Date(),
+): CycleSummary {
+  const status = cycle.isActive
+    ? "active"
+    : cycle.isNext
+      ? "next"
+      : cycle.isFuture
+        ? "upcoming"
+        : "past";
+
+  return {
+    id: cycle.id,
+    number: cycle.number,
+    name: cycle.name || `Cycle ${cycle.number}`,
+    description: cycle.description ?? null,
+    startsAt: cycle.startsAt.toISOString(),
+    endsAt: cycle.endsAt.toISOString(),
+    completedAt: cycle.completedAt ? cycle.completedAt.toISOString() : null,
+    status,
+    progress: Math.round(cycle.progress * 100),
+    daysRemaining: Math.max(
+      0,
+      Math.ceil((cycle.endsAt.getTime() - now.getTime()) / DAY_MS),
+    ),
+  };
+}
@@ -0,0 +1,290 @@
+import {
+  DependencyResolver,
+  IssueSummary,
+  IssueWithRelations,
+} from "../modules/DependencyResolver";
+
+/**
+ * Output formats supported by the graph renderers
+ */
+export const GRAPH_FORMATS = ["mermaid", "dot", "json"] as const;
+
+export type GraphFormat = (typeof GRAPH_FORMATS)[number];
+
+/**
+ * A node in the dependency graph
+ */
+export interface GraphNode {
+  id: string;
+  label: string;
+  title: string;
+  url: string;
+  state: string;
+  stateType: string;
+  color: string;
+  /** True when the issue is outside the requested team/project */
+  external: boolean;
+}
+
+/**
+ * A "blocks" edge: `from` must be completed before `to` can start
+ */
+export interface GraphEdge {
+  from: string;
+  to: string;
+}
+
+/**
+ * Blocks/blocked-by graph of a set of issues
+ */
+export interface DependencyGraph {
+  nodes: GraphNode[];
+  edges: GraphEdge[];
+}
+
+/**
+ * Which issues to include in a graph
+ */
+export interface GraphScope {
+  teamId?: string;
+  projectId?: string;
+  /** Include completed issues (default: true) */
+  includeCompleted?: boolean;
+  /** Include canceled issues (default: false) */
+  includeCanceled?: boolean;
+  /** Upper bound on issues loaded (see FETCH_ALL_HARD_LIMIT) */
+  maxResults?: number;
+  /**
+   * Issues to leave out of the graph, blockers included, e.g. those of
+   * teams outside the tool policy
+   */
+  hidden?: (issue: IssueSummary) => boolean;
+}
+
+/**
+ * Fallback colors by workflow state type, used when Linear doesn't
+ * return a state color
+ */
+const STATE_TYPE_COLORS: Record<string, string> = {
+  triage: "#fc7840",
+  backlog: "#bec2c8",
+  unstarted: "#e2e2e2",
+  started: "#f2c94c",
+  completed: "#5e6ad2",
+  canceled: "#95a2b3",
+};
+
+const UNKNOWN_STATE_COLOR = "#ffffff";
+
+function toNode(issue: IssueSummary, external: boolean): GraphNode {
+  const stateType = issue.state?.type ?? "unknown";
+  return {
+    id: issue.id,
+    label: issue.identifier ?? `#${issue.number}`,
+    title: issue.title,
+    url: issue.url,
+    state: issue.state?.name ?? "Unknown",
+    stateType,
+    color:
+      issue.state?.color ?? STATE_TYPE_COLORS[stateType] ?? UNKNOWN_STATE_COLOR,
+    external,
+  };
+}
+
+/**
+ * Build the blocks graph from issues whose relations are already loaded.
+ * Blockers outside the given set are kept as external nodes so the graph
+ * shows every dependency that affects the set.
+ */
+export function buildDependencyGraph(
+  issues: IssueWithRelations[],
+  hidden: (issue: IssueSummary) => boolean = () => false,
+): DependencyGraph {
+  const nodes = new Map<string, GraphNode>();
+  const edges = new Map<string, GraphEdge>();
+  const shown = issues.filter((issue) => !hidden(issue));
+
+  for (const issue of shown) {
+    nodes.set(issue.id, toNode(issue, false));
+  }
+
+  for (const issue of shown) {
+    for (const relation of issue.relations) {
+      if (relation.type !== "blocks" || !relation.relatedIssue) continue;
+
+      const blocker = relation.relatedIssue;
+      if (blocker.id === issue.id || hidden(blocker)) continue;
+
+      if (!nodes.has(blocker.id)) {
+        nodes.set(blocker.id, toNode(blocker, true));
+      }
+      edges.set(`${blocker.id}->${issue.id}`, {
+        from: blocker.id,
+        to: issue.id,
+      });
+    }
+  }
+
+  return {
+    nodes: Array.from(nodes.values()),
+    edges: Array.from(edges.values()),
+  };
+}
+
+/**
+ * Build the Linear issue filter for a graph scope
+ */
+export function buildScopeFilter(scope: GraphScope): Record<string, unknown> {
+  if (!scope.teamId && !scope.projectId) {
+    throw new Error("Either teamId or projectId is required");
+  }
+
+  const filter: Record<string, unknown> = {};
+  if (scope.teamId) {
+    filter.team = { id: { eq: scope.teamId } };
+  }
+  if (scope.projectId) {
+    filter.project = { id: { eq: scope.projectId } };
+  }
+
+  const excludedStates: string[] = [];
+  if (scope.includeCompleted === false) excludedStates.push("completed");
+  if (!scope.includeCanceled) excludedStates.push("canceled");
+  if (excludedStates.length > 0) {
+    filter.state = { type: { nin: excludedStates } };
+  }
+
+  return filter;
+}
+
+/**
+ * Load every issue in scope (with relations) and build its graph
+ */
+export async function loadDependencyGraph(
+  resolver: DependencyResolver,
+  scope: GraphScope,
+): Promise<{ graph: DependencyGraph; truncated: boolean }> {
+  const issues = await resolver.fetchAllIssuesWithRelations(
+    buildScopeFilter(scope),
+    scope.maxResults,
+  );
+  return {
+    graph: buildDependencyGraph(issues.nodes, scope.hidden),
+    truncated: issues.truncated,
+  };
+}
+
+/**
+ * Drop nodes with no edges, for a graph that only shows dependencies
+ */
+export function withoutIsolatedNodes(graph: DependencyGraph): DependencyGraph {
+  const connected = new Set<string>();
+  for (const edge of graph.edges) {
+    connected.add(edge.from);
+    connected.add(edge.to);
+  }
+  return {
+    nodes: graph.nodes.filter((node) => connected.has(node.id)),
+    edges: graph.edges,
+  };
+}
+
+/**
+ * Short, stable node identifiers that are safe in Mermaid and DOT
+ */
+function nodeAliases(graph: DependencyGraph): Map<string, string> {
+  return new Map(graph.nodes.map((node, index) => [node.id, `n${index}`]));
+}
+
+function stateClassName(state: string): string {
+  return `state_${state.toLowerCase().replace(/[^a-z0-9]+/g, "_")}`;
+}
+
+function escapeMermaid(text: string): string {
+  return text.replace(/"/g, "#quot;").replace(/[<>]/g, "");
+}
+
+function escapeDot(text: string): string {
+  return text.replace(/\\/g, "\\\\").replace(/"/g, '\\"');
+}
+
+/**
+ * Render the graph as a Mermaid flowchart
+ */
+export function renderMermaid(graph: DependencyGraph): string {
+  const alias = nodeAliases(graph);
+  const lines = ["graph TD"];
+
+  for (const node of graph.nodes) {
+    const text = escapeMermaid(`${node.label}: ${node.title}`);
+    const suffix = node.external ? " (external)" : "";
+    const state = escapeMermaid(node.state);
+    lines.push(`  ${alias.get(node.id)}["${text}<br/>${state}${suffix}"]`);
+  }
+
+  for (const edge of graph.edges) {
+    lines.push(`  ${alias.get(edge.from)} --> ${alias.get(edge.to)}`);
+  }
+
+  // One class per workflow state so the legend stays readable
+  const classes = new Map<string, { color: string; ids: string[] }>();
+  for (const node of graph.nodes) {
+    const name = stateClassName(node.state);
+    const entry = classes.get(name) ?? { color: node.color, ids: [] };
+    entry.ids.push(alias.get(node.id)!);
+    classes.set(name, entry);
+  }
+
+  for (const [name, { color, ids }] of classes) {
+    lines.push(`  classDef ${name} fill:${color},stroke:#333,color:#000`);
+    lines.push(`  class ${ids.join(",")} ${name}`);
+  }
+
+  return lines.join("\n");
+}
+
+/**
+ * Render the graph as Graphviz DOT
+ */
+export function renderDot(graph: DependencyGraph): string {
+  const alias = nodeAliases(graph);
+  const lines = [
+    "digraph dependencies {",
+    "  rankdir=LR;",
+    '  node [shape=box, style="rounded,filled", fontname="Helvetica"];',
+  ];
+
+  for (const node of graph.nodes) {
+    const label = `${escapeDot(`${node.label}: ${node.title}`)}\\n${escapeDot(node.state)}`;
+    const extra = node.external ? ', style="rounded,filled,dashed"' : "";
+    lines.push(
+      `  ${alias.get(node.id)} [label="${label}", fillcolor="${node.color}", URL="${escapeDot(node.url)}"${extra}];`,
+    );
+  }
+
+  for (const edge of graph.edges) {
+    lines.push(`  ${alias.get(edge.from)} -> ${alias.get(edge.to)};`);
+  }
+
+  lines.push("}");
+  return lines.join("\n");
+}
+
+/**
+ * Render the graph in the requested format
+ */
+export function renderDependencyGraph(
+  graph: DependencyGraph,
+  format: GraphFormat,
+): string {
+  switch (format) {
+    case "mermaid":
+      return renderMermaid(graph);
+    case "dot":
+      return renderDot(graph);
+    case "json":
+      return JSON.stringify(graph, null, 2);
+    default:
+      throw new Error(`Unsupported graph format: ${format}`);
+  }
+}
@@ -0,0 +1,250 @@
+/**
+ * Validation for "blocks" dependencies before they are written to Linear.
+ *
+ * AI-inferred dependency chains regularly contain cycles (A → B → A),
+ * self-references and references to issues that don't exist. A cycle
+ * leaves no issue in the chain available to start, so every place that
+ * creates relations runs its dependencies through these helpers first.
+ */
+
+/**
+ * Kind of problem found in a dependency list
+ */
+export type DependencyProblemKind =
+  "self_reference" | "out_of_range" | "unknown_reference" | "cycle";
+
+/**
+ * A single problem, with a human-readable explanation
+ */
+export interface DependencyProblem {
+  kind: DependencyProblemKind;
+  message: string;
+  /** Issue (id, title or index) the problem was found on */
+  node: string;
+  /** For cycles: the full path, starting and ending at the same issue */
+  cycle?: string[];
+}
+
+/**
+ * A dependency edge: `blocker` must be completed before `blocked`
+ */
+export interface DependencyEdge {
+  blocker: string;
+  blocked: string;
+}
+
+/**
+ * Result of validating a set of dependencies
+ */
+export interface DependencyValidationResult {
+  valid: boolean;
+  problems: DependencyProblem[];
+  /** Edges that are safe to create (acyclic, no self-references) */
+  acceptedEdges: DependencyEdge[];
+  /** Edges left out because of a problem */
+  rejectedEdges: DependencyEdge[];
+}
+
+/**
+ * Find a path from `from` to `to` following blocker → blocked edges
+ */
+function findPath(
+  adjacency: Map<string, string[]>,
+  from: string,
+  to: string,
+): string[] | null {
+  const previous = new Map<string, string>();
+  const queue = [from];
+  const seen = new Set([from]);
+
+  while (queue.length > 0) {
+    const current = queue.shift()!;
+    if (current === to) {
+      const path = [to];
+      let step = to;
+      while (step !== from) {
+        step = previous.get(step)!;
+        path.unshift(step);
+      }
+      return path;
+    }
+    for (const next of adjacency.get(current) ?? []) {
+      if (!seen.has(next)) {
+        seen.add(next);
+        previous.set(next, current);
+        queue.push(next);
+      }
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Validate edges between known nodes. Edges are accepted in order; an
+ * edge that would close a cycle with the edges accepted before it is
+ * rejected and reported with the cycle it would create.
+ *
+ * @param edges - Candidate edges, in the order they should be considered
+ * @param label - Turns a node key into text for messages
+ * @param existingEdges - Edges already present (e.g. relations in Linear)
+ */
+export function validateDependencyEdges(
+  edges: DependencyEdge[],
+  label: (node: string) => string = (node) => node,
+  existingEdges: DependencyEdge[] = [],
+): DependencyValidationResult {
+  const problems: DependencyProblem[] = [];
+  const acceptedEdges: DependencyEdge[] = [];
+  const rejectedEdges: DependencyEdge[] = [];
+  const adjacency = new Map<string, string[]>();
+  const seenEdges = new Set<string>();
+
+  const addEdge = (edge: DependencyEdge) => {
+    const targets = adjacency.get(edge.blocker) ?? [];
+    targets.push(edge.blocked);
+    adjacency.set(edge.blocker, targets);
+    seenEdges.add(`${edge.blocker}\u0000${edge.blocked}`);
+  };
+
+  existingEdges.forEach(addEdge);
+
+  for (const edge of edges) {
+    if (edge.blocker === edge.blocked) {
+      problems.push({
+        kind: "self_reference",
+        node: edge.blocked,
+        message: `"${label(edge.blocked)}" cannot block itself`,
+      });
+      rejectedEdges.push(edge);
+      continue;
+    }
+
+    if (seenEdges.has(`${edge.blocker}\u0000${edge.blocked}`)) {
+      continue;
+    }
+
+    // Adding blocker → blocked closes a cycle if blocked already
+    // (transitively) blocks the blocker
+    const path = findPath(adjacency, edge.blocked, edge.blocker);
+    if (path) {
+      const cycle = [...path, edge.blocked];
+      problems.push({
+        kind: "cycle",
+        node: edge.blocked,
+        cycle,
+        message: `"${label(edge.blocker)}" blocking "${label(edge.blocked)}" would create a cycle: ${cycle
+          .map(label)
+          .join(" → ")}`,
+      });
+      rejectedEdges.push(edge);
+      continue;
+    }
+
+    addEdge(edge);
+    acceptedEdges.push(edge);
+  }
+
+  return {
+    valid: problems.length === 0,
+    problems,
+    acceptedEdges,
+    rejectedEdges,
+  };
+}
+
+/**
+ * Validate dependencies that reference other items by array index, as
+ * in the `blockedBy` field of create_issues_with_dependencies
+ */
+export function validateIndexedDependencies(
+  items: Array<{ title: string; blockedBy?: unknown }>,
+): DependencyValidationResult {
+  const problems: DependencyProblem[] = [];
+  const edges: DependencyEdge[] = [];
+  const label = (node: string) => `#${node} ${items[Number(node)]?.title}`;
+
+  items.forEach((item, index) => {
+    if (item.blockedBy === undefined) return;
+
+    if (!Array.isArray(item.blockedBy)) {
+      problems.push({
+        kind: "out_of_range",
+        node: String(index),
+        message: `${label(String(index))}: blockedBy must be an array of indexes`,
+      });
+      return;
+    }
+
+    for (const blocker of item.blockedBy) {
+      if (
+        typeof blocker !== "number" ||
+        !Number.isInteger(blocker) ||
+        blocker < 0 ||
+        blocker >= items.length
+      ) {
+        problems.push({
+          kind: "out_of_range",
+          node: String(index),
+          message: `${label(String(index))}: blockedBy index ${JSON.stringify(
+            blocker,
+          )} is out of range (0-${items.length - 1})`,
+        });
+        continue;
+      }
+      edges.push({ blocker: String(blocker), blocked: String(index) });
+    }
+  });
+
+  const result = validateDependencyEdges(edges, label);
+  return {
+    ...result,
+    valid: problems.length === 0 && result.valid,
+    problems: [...problems, ...result.problems],
+  };
+}
+
+/**
+ * Validate a map of node → blocker keys (ids or titles). Blockers that
+ * aren't in `knownNodes` are reported as unknown references.
+ *
+ * @param existingEdges - Edges already present, keyed like `dependencies`
+ */
+export function validateDependencyMap(
+  dependencies: Record<string, string[]>,
+  knownNodes: Iterable<string>,
+  label: (node: string) => string = (node) => node,
+  existingEdges: DependencyEdge[] = [],
+): DependencyValidationResult {
+  const known = new Set(knownNodes);
+  const problems: DependencyProblem[] = [];
+  const edges: DependencyEdge[] = [];
+
+  for (const [blocked, blockers] of Object.entries(dependencies)) {
+    for (const blocker of blockers) {
+      if (!known.has(blocker)) {
+        problems.push({
+          kind: "unknown_reference",
+          node: blocked,
+          message: `"${label(blocked)}" depends on unknown issue "${blocker}"`,
+        });
+        continue;
+      }
+      edges.push({ blocker, blocked });
+    }
+  }
+
+  const result = validateDependencyEdges(edges, label, existingEdges);
+  return {
+    ...result,
+    valid: problems.length === 0 && result.valid,
+    problems: [...problems, ...result.problems],
+  };
+}
+
+/**
+ * Bullet list of problem messages for logs and error messages
+ */
+export function describeProblems(problems: DependencyProblem[]): string {
+  return problems.map((problem) => `- ${problem.message}`).join("\n");
+}
@@ -0,0 +1,582 @@
+import { AxiosInstance } from "axios";
+import { GraphQLRequester } from "../modules/DependencyResolver";
+import {
+  ConnectionLike,
+  FETCH_ALL_PAGE_SIZE,
+  PageResult,
+  fetchPaginated,
+} from "./linear-pagination";
+import { resilientAxios } from "./resilient-client";
+
+/** Token similarity at which an existing issue counts as a likely duplicate */
+export const DEFAULT_DUPLICATE_THRESHOLD = 0.5;
+
+/**
+ * Embedding similarity at which an existing issue counts as a likely
+ * duplicate. Embeddings of unrelated issues in one product still score
+ * around 0.3-0.5, so this sits well above the token threshold.
+ */
+export const DEFAULT_EMBEDDING_THRESHOLD = 0.85;
+
+/** Likely duplicates reported per candidate */
+export const DEFAULT_DUPLICATE_LIMIT = 5;
+
+export const DEFAULT_EMBEDDING_MODEL = "text-embedding-3-small";
+
+/** Share of the token score taken from titles when both sides have a body */
+const TITLE_WEIGHT = 0.7;
+
+/** Characters of an issue sent for embedding */
+const EMBEDDING_TEXT_LIMIT = 2000;
+
+/** Texts per embeddings request */
+const EMBEDDING_BATCH_SIZE = 100;
+
+/**
+ * What the issue creators do with a likely duplicate: create it and log the
+ * match (report), create it without checking (off), skip it, add it as a
+ * comment on the existing issue (merge), or create it and relate the two
+ * (link)
+ */
+export const DUPLICATE_ACTIONS = [
+  "report",
+  "off",
+  "skip",
+  "merge",
+  "link",
+] as const;
+
+export type DuplicateAction = (typeof DUPLICATE_ACTIONS)[number];
+
+/**
+ * An issue about to be created
+ */
+export interface DuplicateCandidate {
+  title: string;
+  description?: string | null;
+}
+
+/**
+ * An existing team issue to compare candidates against
+ */
+export interface ExistingIssue {
+  id: string;
+  identifier: string;
+  title: string;
+  description: string | null;
+  url: string;
+  state: { name: string; type: string } | null;
+}
+
+/**
+ * An existing issue that a candidate likely duplicates
+ */
+export interface DuplicateMatch {
+  issue: ExistingIssue;
+  /** The higher of the token and embedding scores */
+  score: number;
+  tokenScore: number;
+  /** Cosine similarity of the embeddings, when embeddings are used */
+  embeddingScore?: number;
+}
+
+/**
+ * Embeds texts, returning one vector per text in the same order
+ */
+export type Embedder = (texts: string[]) => Promise<number[][]>;
+
+export interface DuplicateSearchOptions {
+  /** Token score at or above which an issue matches */
+  threshold?: number;
+  /** Embedding score at or above which an issue matches */
+  embeddingThreshold?: number;
+  /** Matches returned per candidate, best first */
+  limit?: number;
+  embed?: Embedder;
+  /** Issues never reported as duplicates, e.g. a sub-issue's parent */
+  excludeIds?: string[];
+}
+
+const STOP_WORDS = new Set(
+  (
+    "a an and are as at be but by can could did do does done for from had " +
+    "has have if in into is it its of on or our should so that the their " +
+    "them then there these they this to was we were when which will with " +
+    "would you your issue issues"
+  ).split(" "),
+);
+
+/**
+ * Strip common English suffixes so "logins", "logging" and "logged"
+ * compare equal to "login" and "log"
+ */
+function stem(word: string): string {
+  if (word.length > 4 && word.endsWith("ies")) return word.slice(0, -3) + "y";
+  if (word.length > 5 && word.endsWith("ing")) return word.slice(0, -3);
+  if (word.length > 4 && word.endsWith("ed")) return word.slice(0, -2);
+  if (word.length > 3 && word.endsWith("s") && !word.endsWith("ss")) {
+    return word.slice(0, -1);
+  }
+  return word;
+}
+
+/**
+ * Lowercased, stemmed words of a text without stop words, markdown or
+ * one-letter tokens
+ */
+export function tokenizeIssueText(text: string | null | undefined): string[] {
+  return (text ?? "")
+    .toLowerCase()
+    .replace(/https?:\/\/\S+/g, " ")
+    .split(/[^a-z0-9]+/)
+    .filter((word) => word.length > 1 && !STOP_WORDS.has(word))
+    .map(stem);
+}
+
+/**
+ * Overlap of two word sets (Dice coefficient), 0 when either is empty
+ */
+function setSimilarity(a: string[], b: string[]): number {
+  const left = new Set(a);
+  const right = new Set(b);
+  if (left.size === 0 || right.size === 0) return 0;
+
+  let shared = 0;
+  for (const word of left) if (right.has(word)) shared++;
+  return (2 * shared) / (left.size + right.size);
+}
+
+function counts(words: string[]): Map<string, number> {
+  const result = new Map<string, number>();
+  for (const word of words) result.set(word, (result.get(word) ?? 0) + 1);
+  return result;
+}
+
+/**
+ * Cosine similarity of two vectors, 0 when either is all zeros
+ */
+export function cosineSimilarity(a: number[], b: number[]): number {
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let i = 0; i < Math.min(a.length, b.length); i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+  return normA && normB ? dot / Math.sqrt(normA * normB) : 0;
+}
+
+/**
+ * Cosine similarity of two texts' word counts
+ */
+function textSimilarity(a: string[], b: string[]): number {
+  const left = counts(a);
+  const right = counts(b);
+  const words = [...new Set([...left.keys(), ...right.keys()])];
+  return cosineSimilarity(
+    words.map((word) => left.get(word) ?? 0),
+    words.map((word) => right.get(word) ?? 0),
+  );
+}
+
+interface IssueTokens {
+  title: string[];
+  body: string[];
+}
+
+const tokensOf = (issue: DuplicateCandidate): IssueTokens => ({
+  title: tokenizeIssueText(issue.title),
+  body: tokenizeIssueText(issue.description),
+});
+
+function tokenScore(a: IssueTokens, b: IssueTokens): number {
+  const title = setSimilarity(a.title, b.title);
+  if (a.body.length === 0 || b.body.length === 0) return title;
+  return (
+    TITLE_WEIGHT * title + (1 - TITLE_WEIGHT) * textSimilarity(a.body, b.body)
+  );
+}
+
+/**
+ * Token similarity of two issues from 0 to 1: word overlap of the titles,
+ * blended with the word frequencies of the descriptions when both have one
+ */
+export function scoreIssueSimilarity(
+  a: DuplicateCandidate,
+  b: DuplicateCandidate,
+): number {
+  return tokenScore(tokensOf(a), tokensOf(b));
+}
+
+const embeddingText = (issue: DuplicateCandidate) =>
+  `${issue.title}\n\n${issue.description ?? ""}`
+    .trim()
+    .slice(0, EMBEDDING_TEXT_LIMIT);
+
+const round = (score: number) => Math.round(score * 1000) / 1000;
+
+/**
+ * Existing issues prepared for matching. Tokens are computed once and
+ * embeddings fetched on first use, so one index can check many candidates.
+ */
+export class DuplicateIndex {
+  private entries: Array<{
+    issue: ExistingIssue;
+    tokens: IssueTokens;
+    embedding?: number[];
+  }> = [];
+
+  constructor(issues: ExistingIssue[] = []) {
+    issues.forEach((issue) => this.add(issue));
+  }
+
+  get size(): number {
+    return this.entries.length;
+  }
+
+  /**
+   * Add an issue, e.g. one created earlier in the same run
+   */
+  add(issue: ExistingIssue): void {
+    this.entries.push({ issue, tokens: tokensOf(issue) });
+  }
+
+  /**
+   * Existing issues each candidate likely duplicates, best first, aligned
+   * with `candidates`
+   */
+  async find(
+    candidates: DuplicateCandidate[],
+    options: DuplicateSearchOptions = {},
+  ): Promise<DuplicateMatch[][]> {
+    const threshold = options.threshold ?? DEFAULT_DUPLICATE_THRESHOLD;
+    const embeddingThreshold =
+      options.embeddingThreshold ?? DEFAULT_EMBEDDING_THRESHOLD;
+    const limit = options.limit ?? DEFAULT_DUPLICATE_LIMIT;
+    const excluded = new Set(options.excludeIds ?? []);
+
+    let candidateEmbeddings: number[][] | undefined;
+    if (options.embed) {
+      await this.embedMissing(options.embed);
+      candidateEmbeddings = await embedAll(
+        options.embed,
+        candidates.map(embeddingText),
+      );
+    }
+
+    return candidates.map((candidate, index) => {
+      const tokens = tokensOf(candidate);
+      const matches: DuplicateMatch[] = [];
+
+      for (const entry of this.entries) {
+        if (excluded.has(entry.issue.id)) continue;
+
+        const byTokens = tokenScore(tokens, entry.tokens);
+        const byEmbedding =
+          candidateEmbeddings && entry.embedding
+            ? cosineSimilarity(candidateEmbeddings[index], entry.embedding)
+            : undefined;
+        if (
+          byTokens < threshold &&
+          (byEmbedding === undefined || byEmbedding < embeddingThreshold)
+        ) {
+          continue;
+        }
+
+        matches.push({
+          issue: entry.issue,
+          score: round(Math.max(byTokens, byEmbedding ?? 0)),
+          tokenScore: round(byTokens),
+          ...(byEmbedding !== undefined && {
+            embeddingScore: round(byEmbedding),
+          }),
+        });
+      }
+
+      return matches.sort((a, b) => b.score - a.score).slice(0, limit);
+    });
+  }
+
+  private async embedMissing(embed: Embedder): Promise<void> {
+    const missing = this.entries.filter((entry) => !entry.embedding);
+    if (missing.length === 0) return;
+
+    const vectors = await embedAll(
+      embed,
+      missing.map((entry) => embeddingText(entry.issue)),
+    );
+    missing.forEach((entry, i) => (entry.embedding = vectors[i]));
+  }
+}
+
+async function embedAll(embed: Embedder, texts: string[]) {
+  const vectors: number[][] = [];
+  for (let i = 0; i < texts.length; i += EMBEDDING_BATCH_SIZE) {
+    vectors.push(...(await embed(texts.slice(i, i + EMBEDDING_BATCH_SIZE))));
+  }
+  return vectors;
+}
+
+/**
+ * Existing issues each candidate likely duplicates, best first, aligned
+ * with `candidates`
+ */
+export function findDuplicateIssues(
+  candidates: DuplicateCandidate[],
+  existing: ExistingIssue[],
+  options: DuplicateSearchOptions = {},
+): Promise<DuplicateMatch[][]> {
+  return new DuplicateIndex(existing).find(candidates, options);
+}
+
+/**
+ * An Embedder backed by the OpenAI embeddings API
+ */
+export function openAiEmbedder(
+  apiKey: string,
+  http: AxiosInstance = resilientAxios(),
+  model = DEFAULT_EMBEDDING_MODEL,
+): Embedder {
+  return async (texts) => {
+    if (texts.length === 0) return [];
+    const response = await http.post(
+      "https://api.openai.com/v1/embeddings",
+      { model, input: texts },
+      {
+        headers: {
+          Authorization: `Bearer ${apiKey}`,
+          "Content-Type": "application/json",
+        },
+      },
+    );
+    return [...response.data.data]
+      .sort((a: any, b: any) => a.index - b.index)
+      .map((item: any) => item.embedding);
+  };
+}
+
+const TEAM_ISSUES_QUERY = `
+  query DuplicateCandidates($filter: IssueFilter, $first: Int, $after: String) {
+    issues(filter: $filter, first: $first, after: $after) {
+      nodes {
+        id
+        identifier
+        title
+        description
+        url
+        state { name type }
+      }
+      pageInfo { hasNextPage endCursor }
+    }
+  }
+`;
+
+/**
+ * Fetch a team's issues to check candidates against. Canceled issues are
+ * left out, and completed ones unless `includeCompleted` is set.
+ */
+export async function fetchTeamIssuesForMatching(
+  client: GraphQLRequester,
+  teamId: string,
+  includeCompleted = false,
+  maxResults?: number,
+): Promise<PageResult<ExistingIssue>> {
+  const filter = {
+    team: { id: { eq: teamId } },
+    state: {
+      type: {
+        nin: includeCompleted ? ["canceled"] : ["completed", "canceled"],
+      },
+    },
+  };
+
+  return fetchPaginated(
+    async (page): Promise<ConnectionLike<ExistingIssue>> => {
+      const data = await client.request<
+        { issues: ConnectionLike<ExistingIssue> },
+        Record<string, unknown>
+      >(TEAM_ISSUES_QUERY, { filter, ...page });
+      return data.issues;
+    },
+    { fetchAll: true, maxResults },
+    FETCH_ALL_PAGE_SIZE,
+  );
+}
+
+/**
+ * Duplicate check settings of the issue creators
+ */
+export interface DuplicateCheckOptions extends DuplicateSearchOptions {
+  action: DuplicateAction;
+}
+
+/**
+ * Settings from DUPLICATE_ACTION (default: report), DUPLICATE_THRESHOLD and
+ * DUPLICATE_EMBEDDINGS, which compares OpenAI embeddings as well
+ */
+export function readDuplicateCheckOptions(
+  env: NodeJS.ProcessEnv = process.env,
+): DuplicateCheckOptions {
+  const action = (env.DUPLICATE_ACTION?.trim().toLowerCase() ||
+    "report") as DuplicateAction;
+  if (!DUPLICATE_ACTIONS.includes(action)) {
+    throw new Error(
+      `DUPLICATE_ACTION must be one of: ${DUPLICATE_ACTIONS.join(", ")}`,
+    );
+  }
+
+  const threshold = env.DUPLICATE_THRESHOLD
+    ? Number(env.DUPLICATE_THRESHOLD)
+    : DEFAULT_DUPLICATE_THRESHOLD;
+  if (!(threshold > 0 && threshold <= 1)) {
+    throw new Error("DUPLICATE_THRESHOLD must be a number between 0 and 1");
+  }
+
+  let embed: Embedder | undefined;
+  if (env.DUPLICATE_EMBEDDINGS === "true") {
+    const apiKey = env.OPENAI_API_KEY?.trim();
+    if (!apiKey) {
+      throw new Error("DUPLICATE_EMBEDDINGS requires OPENAI_API_KEY");
+    }
+    embed = openAiEmbedder(apiKey);
+  }
+
+  return { action, threshold, embed };
+}
+
+/**
+ * The result of checking a candidate before creating it
+ */
+export interface DuplicateDecision {
+  create: boolean;
+  /** The best match, if the candidate is a likely duplicate */
+  duplicate: DuplicateMatch | null;
+}
+
+/**
+ * Checks issues against the team before the creation scripts create them
+ * and acts on likely duplicates as configured
+ */
+export class DuplicateGuard {
+  private client: GraphQLRequester;
+  private index: DuplicateIndex;
+  private options: DuplicateCheckOptions;
+
+  constructor(
+    client: GraphQLRequester,
+    index: DuplicateIndex,
+    options: DuplicateCheckOptions,
+  ) {
+    this.client = client;
+    this.index = index;
+    this.options = options;
+  }
+
+  /**
+   * A guard over the team's open issues. The team isn't fetched when the
+   * check is off.
+   */
+  static async load(
+    client: GraphQLRequester,
+    teamId: string,
+    options: DuplicateCheckOptions = readDuplicateCheckOptions(),
+  ): Promise<DuplicateGuard> {
+    const index = new DuplicateIndex();
+    if (options.action !== "off") {
+      const existing = await fetchTeamIssuesForMatching(client, teamId);
+      existing.nodes.forEach((issue) => index.add(issue));
+      console.log(
+        `🔍 Checking for duplicates among ${index.size} open issues (action: ${options.action})`,
+      );
+    }
+    return new DuplicateGuard(client, index, options);
+  }
+
+  /**
+   * Decide whether to create a candidate. A reported or skipped duplicate
+   * is logged; a merged one is added as a comment on the issue it
+   * duplicates.
+   *
+   * @param excludeIds - Issues the candidate may resemble on purpose,
+   *   such as its parent
+   */
+  async beforeCreate(
+    candidate: DuplicateCandidate,
+    excludeIds: string[] = [],
+  ): Promise<DuplicateDecision> {
+    if (this.options.action === "off") {
+      return { create: true, duplicate: null };
+    }
+
+    const [[duplicate = null]] = await this.index.find([candidate], {
+      ...this.options,
+      limit: 1,
+      excludeIds,
+    });
+    if (!duplicate) return { create: true, duplicate };
+
+    const existing = `${duplicate.issue.identifier} "${duplicate.issue.title}" (score ${duplicate.score})`;
+    switch (this.options.action) {
+      case "report":
+        console.log(`  ⚠️ Creating likely duplicate of ${existing}`);
+        return { create: true, duplicate };
+      case "skip":
+        console.log(`  ⏭️ Skipping likely duplicate of ${existing}`);
+        return { create: false, duplicate };
+      case "merge":
+        await this.client.request(
+          `mutation($input: CommentCreateInput!) {
+            commentCreate(input: $input) { success }
+          }`,
+          {
+            input: {
+              issueId: duplicate.issue.id,
+              body: `## Possible duplicate report: ${candidate.title}\n\n${candidate.description ?? ""}`.trim(),
+            },
+          },
+        );
+        console.log(`  🔀 Merged into likely duplicate ${existing}`);
+        return { create: false, duplicate };
+      default:
+        console.log(`  🔗 Will link to likely duplicate ${existing}`);
+        return { create: true, duplicate };
+    }
+  }
+
+  /**
+   * Record a created issue so later candidates are checked against it,
+   * and relate it to its likely duplicate in link mode
+   */
+  async afterCreate(
+    issue: { id: string; identifier?: string; title: string; url?: string },
+    candidate: DuplicateCandidate,
+    decision: DuplicateDecision,
+  ): Promise<void> {
+    if (this.options.action === "off") return;
+
+    this.index.add({
+      id: issue.id,
+      identifier: issue.identifier ?? issue.id,
+      title: issue.title,
+      description: candidate.description ?? null,
+      url: issue.url ?? "",
+      state: null,
+    });
+
+    if (this.options.action === "link" && decision.duplicate) {
+      await this.client.request(
+        `mutation($input: IssueRelationCreateInput!) {
+          issueRelationCreate(input: $input) { success }
+        }`,
+        {
+          input: {
+            issueId: issue.id,
+            relatedIssueId: decision.duplicate.issue.id,
+            type: "related",
+          },
+        },
+      );
+    }
+  }
+}
@@ -0,0 +1,315 @@
+import axios, {
+  AxiosAdapter,
+  AxiosError,
+  AxiosHeaders,
+  AxiosResponse,
+  InternalAxiosRequestConfig,
+} from "axios";
+import * as crypto from "crypto";
+import * as fs from "fs";
+import * as path from "path";
+
+/** Where fixtures are kept unless HTTP_FIXTURES_DIR says otherwise */
+export const DEFAULT_FIXTURES_DIR = path.join(
+  process.cwd(),
+  "fixtures",
+  "http",
+);
+
+/** Stands in for secrets in recorded fixtures */
+export const REDACTED = "[REDACTED]";
+
+/** Body fields and query parameters whose values are never recorded */
+const SECRET_FIELD =
+  /^(authorization|api[-_]?key|(access|refresh)[-_]?token|token|(client[-_]?)?secret|password)$/i;
+
+/** Environment variables whose values are redacted wherever they appear */
+const SECRET_ENV = /(KEY|TOKEN|SECRET|PASSWORD)$/;
+
+/** Response headers replayed; the rest only vary between recordings */
+const RECORDED_HEADERS = [
+  "content-type",
+  "link",
+  "retry-after",
+  "x-ratelimit-remaining",
+  "x-ratelimit-reset",
+];
+
+export type HttpFixtureMode = "record" | "replay";
+
+export interface RecordedRequest {
+  method: string;
+  url: string;
+  body?: unknown;
+}
+
+export interface RecordedResponse {
+  status: number;
+  statusText: string;
+  headers: Record<string, string>;
+  data: unknown;
+}
+
+/**
+ * One request and every response it got while recording, replayed in order
+ */
+export interface HttpFixture {
+  request: RecordedRequest;
+  responses: RecordedResponse[];
+}
+
+/**
+ * Records real HTTP responses to fixture files, or serves them back without
+ * touching the network. Requests are matched on method, URL and body, so
+ * the same call replays the same responses; repeated calls (polling, retries)
+ * get the recorded responses in order, then the last one again. Request
+ * headers are never recorded, and secrets in URLs, bodies and responses are
+ * redacted.
+ */
+export class HttpFixtures {
+  private readonly recorded = new Set<string>();
+  private readonly replayed = new Map<string, number>();
+  private readonly secrets: string[];
+
+  constructor(
+    readonly mode: HttpFixtureMode,
+    readonly dir: string,
+    secrets: string[] = [],
+  ) {
+    // Longest first, so a secret containing another is redacted whole
+    this.secrets = secrets
+      .filter((secret) => secret.length >= 8)
+      .sort((a, b) => b.length - a.length);
+  }
+
+  /**
+   * Wrap the adapter that sends requests: recording passes them on and
+   * saves what comes back, replaying answers from the fixtures
+   */
+  adapter(send: AxiosAdapter): AxiosAdapter {
+    return async (request) => {
+      const recorded = this.describe(request);
+      const file = this.fileFor(recorded);
+      if (this.mode === "replay") return this.replay(request, recorded, file);
+
+      try {
+        const response = await send(request);
+        this.record(file, recorded, response);
+        return response;
+      } catch (error: any) {
+        if (error?.response) this.record(file, recorded, error.response);
+        throw error;
+      }
+    };
+  }
+
+  /**
+   * A request as it is recorded and matched: absolute URL, parsed body,
+   * secrets redacted
+   */
+  describe(request: InternalAxiosRequestConfig): RecordedRequest {
+    const url = new URL(axios.getUri(request));
+    for (const name of [...url.searchParams.keys()]) {
+      if (SECRET_FIELD.test(name)) url.searchParams.set(name, REDACTED);
+    }
+
+    const body = requestBody(request.data);
+    return this.redact({
+      method: (request.method ?? "get").toUpperCase(),
+      url: url.toString(),
+      ...(body === undefined ? {} : { body }),
+    }) as RecordedRequest;
+  }
+
+  /**
+   * The fixture file of a request: one folder per host, named after the
+   * method and path plus a hash of the whole request
+   */
+  fileFor(request: RecordedRequest): string {
+    const url = new URL(request.url);
+    const slug = url.pathname
+      .replace(/[^a-zA-Z0-9]+/g, "-")
+      .replace(/^-|-$/g, "")
+      .slice(0, 60);
+    const hash = crypto
+      .createHash("sha256")
+      .update(
+        `${request.method} ${request.url}\n${canonicalJson(request.body)}`,
+      )
+      .digest("hex")
+      .slice(0, 12);
+
+    return path.join(
+      this.dir,
+      url.host,
+      `${request.method}-${slug || "root"}-${hash}.json`,
+    );
+  }
+
+  private record(
+    file: string,
+    request: RecordedRequest,
+    response: AxiosResponse,
+  ): void {
+    // A fresh recording replaces the file; later calls in it append
+    const fixture: HttpFixture = this.recorded.has(file)
+      ? JSON.parse(fs.readFileSync(file, "utf8"))
+      : { request, responses: [] };
+    this.recorded.add(file);
+
+    const headers = AxiosHeaders.from(response.headers as any);
+    fixture.responses.push(
+      this.redact({
+        status: response.status,
+        statusText: response.statusText,
+        headers: Object.fromEntries(
+          RECORDED_HEADERS.filter((name) => headers.has(name)).map((name) => [
+            name,
+            String(headers.get(name)),
+          ]),
+        ),
+        data: responseData(response.data),
+      }) as RecordedResponse,
+    );
+
+    fs.mkdirSync(path.dirname(file), { recursive: true });
+    fs.writeFileSync(file, JSON.stringify(fixture, null, 2) + "\n");
+  }
+
+  private async replay(
+    request: InternalAxiosRequestConfig,
+    recorded: RecordedRequest,
+    file: string,
+  ): Promise<AxiosResponse> {
+    if (!fs.existsSync(file)) {
+      throw new Error(
+        `No HTTP fixture for ${recorded.method} ${recorded.url}: record one with HTTP_FIXTURES=record (expected ${path.relative(process.cwd(), file)})`,
+      );
+    }
+
+    const { responses }: HttpFixture = JSON.parse(
+      fs.readFileSync(file, "utf8"),
+    );
+    const index = this.replayed.get(file) ?? 0;
+    this.replayed.set(file, index + 1);
+    const { status, statusText, headers, data } =
+      responses[Math.min(index, responses.length - 1)];
+
+    const response: AxiosResponse = {
+      status,
+      statusText,
+      headers: AxiosHeaders.from(headers),
+      data,
+      config: request,
+      request: {},
+    };
+    if (!request.validateStatus || request.validateStatus(status)) {
+      return response;
+    }
+    // Fail like axios does, so callers and retries see the usual error
+    throw new AxiosError(
+      `Request failed with status code ${status}`,
+      status >= 500 ? AxiosError.ERR_BAD_RESPONSE : AxiosError.ERR_BAD_REQUEST,
+      request,
+      {},
+      response,
+    );
+  }
+
+  /**
+   * A copy of a value with secret fields and known secret values replaced
+   */
+  redact(value: unknown): unknown {
+    if (typeof value === "string") {
+      return this.secrets.reduce(
+        (text, secret) => text.split(secret).join(REDACTED),
+        value,
+      );
+    }
+    if (Array.isArray(value)) return value.map((item) => this.redact(item));
+    if (value && typeof value === "object") {
+      return Object.fromEntries(
+        Object.entries(value).map(([key, field]) => [
+          key,
+          SECRET_FIELD.test(key) && field != null
+            ? REDACTED
+            : this.redact(field),
+        ]),
+      );
+    }
+    return value;
+  }
+}
+
+/**
+ * Request bodies arrive serialized; JSON is recorded parsed, binary and
+ * streamed bodies only as a placeholder
+ */
+function requestBody(data: unknown): unknown {
+  if (data == null || data === "") return undefined;
+  if (typeof data === "string") {
+    try {
+      return JSON.parse(data);
+    } catch {
+      return data;
+    }
+  }
+  if (data instanceof URLSearchParams) return data.toString();
+  return "[binary body]";
+}
+
+/**
+ * Responses arrive before axios parses them; JSON is recorded parsed so
+ * fixtures stay readable
+ */
+function responseData(data: unknown): unknown {
+  const text = Buffer.isBuffer(data) ? data.toString("utf8") : data;
+  if (typeof text !== "string") return text;
+  try {
+    return JSON.parse(text);
+  } catch {
+    return text;
+  }
+}
+
+/**
+ * JSON with object keys sorted, so equal bodies hash the same
+ */
+function canonicalJson(value: unknown): string {
+  return JSON.stringify(value ?? null, (_key, field) =>
+    field && typeof field === "object" && !Array.isArray(field)
+      ? Object.fromEntries(
+          Object.keys(field)
+            .sort()
+            .map((key) => [key, field[key]]),
+        )
+      : field,
+  );
+}
+
+const shared = new Map<string, HttpFixtures>();
+
+/**
+ * Fixture settings from HTTP_FIXTURES (record, replay or off) and
+ * HTTP_FIXTURES_DIR. Clients reading the same settings share one recorder,
+ * so calls from different clients land in the same recording. Null when off.
+ */
+export function readHttpFixtures(
+  env: NodeJS.ProcessEnv = process.env,
+): HttpFixtures | null {
+  const mode = env.HTTP_FIXTURES?.trim() || "off";
+  if (mode === "off") return null;
+  if (mode !== "record" && mode !== "replay") {
+    throw new Error("HTTP_FIXTURES must be record, replay or off");
+  }
+
+  const dir = path.resolve(env.HTTP_FIXTURES_DIR || DEFAULT_FIXTURES_DIR);
+  const key = `${mode}:${dir}`;
+  if (!shared.has(key)) {
+    const secrets = Object.entries(env)
+      .filter(([name, value]) => SECRET_ENV.test(name) && value?.trim())
+      .map(([, value]) => value!.trim());
+    shared.set(key, new HttpFixtures(mode, dir, secrets));
+  }
+  return shared.get(key)!;
+}
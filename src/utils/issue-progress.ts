@@ -0,0 +1,151 @@
+import { GraphQLRequester } from "../modules/DependencyResolver";
+import {
+  ConnectionLike,
+  FETCH_ALL_PAGE_SIZE,
+  PageResult,
+  fetchPaginated,
+} from "./linear-pagination";
+
+/**
+ * Issue fields needed to report progress on a cycle or milestone
+ */
+export interface ProgressIssue {
+  id: string;
+  identifier: string;
+  title: string;
+  priority: number;
+  estimate: number | null;
+  url: string;
+  state: { name: string; type: string };
+  assignee: string | null;
+  milestoneId: string | null;
+  parentId: string | null;
+}
+
+/**
+ * Issue count and estimate total for one bucket of issues
+ */
+export interface ProgressBucket {
+  issues: number;
+  points: number;
+}
+
+/**
+ * Progress of a set of issues, bucketed by workflow state type.
+ * Canceled issues are reported separately and left out of the scope.
+ */
+export interface ProgressSummary {
+  scope: ProgressBucket;
+  completed: ProgressBucket;
+  started: ProgressBucket;
+  /** Everything in scope that isn't completed (includes started) */
+  remaining: ProgressBucket;
+  canceled: ProgressBucket;
+  /** Completed share of the scope, by points when estimated, else by count */
+  percentComplete: number;
+  unestimated: number;
+}
+
+const PROGRESS_ISSUES_QUERY = `
+  query ProgressIssues($filter: IssueFilter, $first: Int, $after: String) {
+    issues(filter: $filter, first: $first, after: $after) {
+      nodes {
+        id
+        identifier
+        title
+        priority
+        estimate
+        url
+        state { name type }
+        assignee { name }
+        projectMilestone { id }
+        parent { id }
+      }
+      pageInfo { hasNextPage endCursor }
+    }
+  }
+`;
+
+interface RawProgressIssue extends Omit<
+  ProgressIssue,
+  "assignee" | "milestoneId" | "parentId"
+> {
+  assignee: { name: string } | null;
+  projectMilestone: { id: string } | null;
+  parent: { id: string } | null;
+}
+
+/**
+ * Fetch every issue matching the filter with the fields progress needs,
+ * one request per page instead of lazy-loading each issue's state
+ */
+export async function fetchProgressIssues(
+  client: GraphQLRequester,
+  filter: Record<string, unknown>,
+  maxResults?: number,
+): Promise<PageResult<ProgressIssue>> {
+  return fetchPaginated(
+    async (page): Promise<ConnectionLike<ProgressIssue>> => {
+      const data = await client.request<
+        {
+          issues: {
+            nodes: RawProgressIssue[];
+            pageInfo: { hasNextPage: boolean; endCursor?: string | null };
+          };
+        },
+        Record<string, unknown>
+      >(PROGRESS_ISSUES_QUERY, { filter, ...page });
+
+      return {
+        nodes: data.issues.nodes.map(
+          ({ projectMilestone, parent, ...issue }) => ({
+            ...issue,
+            estimate: issue.estimate ?? null,
+            assignee: issue.assignee?.name ?? null,
+            milestoneId: projectMilestone?.id ?? null,
+            parentId: parent?.id ?? null,
+          }),
+        ),
+        pageInfo: data.issues.pageInfo,
+      };
+    },
+    { fetchAll: true, maxResults },
+    FETCH_ALL_PAGE_SIZE,
+  );
+}
+
+function bucket(issues: ProgressIssue[]): ProgressBucket {
+  return {
+    issues: issues.length,
+    points: issues.reduce((sum, issue) => sum + (issue.estimate ?? 0), 0),
+  };
+}
+
+/**
+ * Summarize scope, completed and remaining work for a set of issues
+ */
+export function summarizeProgress(issues: ProgressIssue[]): ProgressSummary {
+  const inScope = issues.filter((issue) => issue.state.type !== "canceled");
+  const completed = inScope.filter((issue) => issue.state.type === "completed");
+  const scope = bucket(inScope);
+  const done = bucket(completed);
+
+  const percentComplete =
+    scope.points > 0
+      ? (done.points / scope.points) * 100
+      : scope.issues > 0
+        ? (done.issues / scope.issues) * 100
+        : 0;
+
+  return {
+    scope,
+    completed: done,
+    started: bucket(inScope.filter((issue) => issue.state.type === "started")),
+    remaining: bucket(
+      inScope.filter((issue) => issue.state.type !== "completed"),
+    ),
+    canceled: bucket(issues.filter((issue) => issue.state.type === "canceled")),
+    percentComplete: Math.round(percentComplete),
+    unestimated: inScope.filter((issue) => issue.estimate === null).length,
+  };
+}
@@ -0,0 +1,879 @@
+import { AxiosInstance } from "axios";
+import { z } from "zod";
+import { GraphQLRequester } from "../modules/DependencyResolver";
+import {
+  ConnectionLike,
+  PageRequest,
+  PageResult,
+  fetchPaginated,
+} from "./linear-pagination";
+import { resilientAxios } from "./resilient-client";
+
+export const ISSUE_QUERY_PARSERS = ["auto", "deterministic", "llm"] as const;
+
+/**
+ * How a question is turned into a filter: the deterministic parser, the
+ * LLM, or the parser with the LLM as fallback for words it didn't
+ * understand (auto)
+ */
+export type IssueQueryParser = (typeof ISSUE_QUERY_PARSERS)[number];
+
+/** Model used by the LLM fallback */
+export const DEFAULT_QUERY_MODEL = "gpt-4o-mini";
+
+/** Open issues not updated for this many days are stale */
+const STALE_DAYS = 30;
+
+/**
+ * Team vocabulary the parser recognizes besides its fixed phrases
+ */
+export interface IssueQueryContext {
+  labels: string[];
+  states: Array<{ name: string; type: string }>;
+}
+
+/**
+ * A question turned into an IssueFilter (without the team)
+ */
+export interface ParsedIssueQuery {
+  filter: Record<string, any>;
+  /** What each part of the question was taken to mean */
+  interpretation: string[];
+  /** Words no rule understood, searched for in titles and descriptions */
+  keywords: string[];
+}
+
+export interface IssueQueryResult extends ParsedIssueQuery {
+  parser: "deterministic" | "llm";
+  /** Set when the LLM fallback failed and the parser's result was used */
+  warning?: string;
+}
+
+interface Clause {
+  filter: Record<string, any>;
+  description: string;
+}
+
+/* ---------------- Dates ---------------- */
+
+const NUMBER_WORDS: Record<string, number> = {
+  a: 1,
+  an: 1,
+  one: 1,
+  two: 2,
+  three: 3,
+  four: 4,
+  five: 5,
+  six: 6,
+  seven: 7,
+  eight: 8,
+  nine: 9,
+  ten: 10,
+  twelve: 12,
+  "couple of": 2,
+  few: 3,
+};
+
+const N = `(?:\\d+|${Object.keys(NUMBER_WORDS).join("|")})`;
+const UNIT = "(?:hour|day|week|month|year)";
+const ISO_DATE = "\\d{4}-\\d{2}-\\d{2}";
+
+/** Time spans such as "in the last 2 weeks", "today" or "since 2024-05-01" */
+const PERIOD = [
+  `(?:(?:in|within|during|over|from) )?(?:the )?(?:last|past) (?:${N} )?${UNIT}s?`,
+  "today",
+  "(?:since )?yesterday",
+  "this (?:week|month|year)",
+  `since ${ISO_DATE}`,
+  `(?:more than|over) (?:${N} )?${UNIT}s? ago`,
+  `before ${ISO_DATE}`,
+].join("|");
+
+const DATE_FIELDS: Array<{ field: string; words: string }> = [
+  { field: "updatedAt", words: "updated|modified|changed|touched|edited" },
+  { field: "createdAt", words: "created|opened|filed|reported|added" },
+  { field: "completedAt", words: "completed|closed|finished|resolved|done" },
+];
+
+const dateFieldOf = (word: string) =>
+  DATE_FIELDS.find((f) => new RegExp(`^(?:${f.words})$`).test(word))!.field;
+
+const startOfDay = (date: Date) =>
+  new Date(
+    Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()),
+  );
+
+const isoDay = (date: Date) => date.toISOString().slice(0, 10);
+
+function subtract(now: Date, amount: number, unit: string): Date {
+  const date = new Date(now);
+  if (unit === "hour") date.setUTCHours(date.getUTCHours() - amount);
+  if (unit === "day") date.setUTCDate(date.getUTCDate() - amount);
+  if (unit === "week") date.setUTCDate(date.getUTCDate() - 7 * amount);
+  if (unit === "month") date.setUTCMonth(date.getUTCMonth() - amount);
+  if (unit === "year") date.setUTCFullYear(date.getUTCFullYear() - amount);
+  return date;
+}
+
+const amountOf = (word: string | undefined) =>
+  word === undefined ? 1 : (NUMBER_WORDS[word] ?? Number(word));
+
+/**
+ * The comparison a period stands for, e.g. "in the last week" is
+ * `gte` one week ago
+ */
+function parsePeriod(
+  period: string,
+  now: Date,
+): { op: "gte" | "lt"; date: Date } {
+  const span = period.match(
+    new RegExp(`(?:last|past|than|over) (?:(${N}) )?(${UNIT})s?( ago)?$`),
+  );
+  if (span) {
+    const date = subtract(now, amountOf(span[1]), span[2]);
+    return { op: span[3] ? "lt" : "gte", date };
+  }
+
+  const iso = period.match(new RegExp(`(since|before) (${ISO_DATE})`));
+  if (iso) {
+    return { op: iso[1] === "since" ? "gte" : "lt", date: new Date(iso[2]) };
+  }
+
+  const today = startOfDay(now);
+  if (period === "today") return { op: "gte", date: today };
+  if (period.endsWith("yesterday")) {
+    return { op: "gte", date: subtract(today, 1, "day") };
+  }
+
+  // this week (from Monday), this month or this year
+  const unit = period.split(" ")[1];
+  const start = new Date(today);
+  if (unit === "week") {
+    start.setUTCDate(start.getUTCDate() - ((start.getUTCDay() + 6) % 7));
+  } else {
+    start.setUTCDate(1);
+    if (unit === "year") start.setUTCMonth(0);
+  }
+  return { op: "gte", date: start };
+}
+
+function dateClause(field: string, period: string, now: Date): Clause {
+  const { op, date } = parsePeriod(period, now);
+  return {
+    filter: { [field]: { [op]: date.toISOString() } },
+    description: `${field} ${op === "gte" ? "on or after" : "before"} ${date.toISOString()}`,
+  };
+}
+
+/* ---------------- Rules ---------------- */
+
+const OPEN_STATES: Clause = {
+  filter: { state: { type: { nin: ["completed", "canceled"] } } },
+  description: "state: open (not completed or canceled)",
+};
+
+const stateType = (type: string): Clause => ({
+  filter: { state: { type: { eq: type } } },
+  description: `state: ${type}`,
+});
+
+const priority = (values: number[], label: string): Clause => ({
+  filter: {
+    priority: values.length === 1 ? { eq: values[0] } : { in: values },
+  },
+  description: `priority: ${label}`,
+});
+
+/**
+ * Phrases the parser understands, tried in order. Each match is cut out
+ * of the question so later rules don't see it again.
+ */
+const RULES: Array<{
+  pattern: RegExp;
+  clauses: (match: string[], now: Date) => Clause[];
+}> = [
+  {
+    pattern: new RegExp(
+      `\\bnot (${DATE_FIELDS[0].words}) (?:in|for|within) (?:the )?(?:last |past )?(?:(${N}) )?(${UNIT})s?\\b`,
+      "g",
+    ),
+    clauses: ([, , amount, unit], now) => [
+      dateClause("updatedAt", `more than ${amount ?? 1} ${unit}s ago`, now),
+    ],
+  },
+  {
+    pattern: /\bstale\b/g,
+    clauses: (_, now) => [
+      dateClause("updatedAt", `more than ${STALE_DAYS} days ago`, now),
+      OPEN_STATES,
+    ],
+  },
+  {
+    pattern: new RegExp(
+      `\\b(${DATE_FIELDS.map((f) => f.words).join("|")}) (${PERIOD})\\b`,
+      "g",
+    ),
+    clauses: ([, word, period], now) => {
+      const field = dateFieldOf(word);
+      const clauses = [dateClause(field, period, now)];
+      if (field === "completedAt") clauses.push(stateType("completed"));
+      return clauses;
+    },
+  },
+  {
+    pattern: /\boverdue\b/g,
+    clauses: (_, now) => [
+      {
+        filter: { dueDate: { lt: isoDay(now) } },
+        description: `dueDate before ${isoDay(now)}`,
+      },
+      OPEN_STATES,
+    ],
+  },
+  {
+    pattern: new RegExp(
+      `\\bdue (?:today|(tomorrow)|this (week|month)|(?:in|within) (?:the next )?(${N}) (day|week)s?)\\b`,
+      "g",
+    ),
+    clauses: ([, tomorrow, thisUnit, amount, unit], now) => {
+      const due = startOfDay(now);
+      if (tomorrow) due.setUTCDate(due.getUTCDate() + 1);
+      if (thisUnit === "week") {
+        due.setUTCDate(due.getUTCDate() + ((7 - due.getUTCDay()) % 7));
+      }
+      if (thisUnit === "month") {
+        due.setUTCMonth(due.getUTCMonth() + 1, 0);
+      }
+      if (amount) {
+        due.setUTCDate(
+          due.getUTCDate() + amountOf(amount) * (unit === "week" ? 7 : 1),
+        );
+      }
+      return [
+        {
+          filter: { dueDate: { lte: isoDay(due) } },
+          description: `dueDate on or before ${isoDay(due)}`,
+        },
+      ];
+    },
+  },
+  {
+    pattern: /\b(?:(?:with )?no|without(?: a)?) due date\b/g,
+    clauses: () => [
+      { filter: { dueDate: { null: true } }, description: "no due date" },
+    ],
+  },
+  {
+    pattern: new RegExp(`\\b(${PERIOD})\\b`, "g"),
+    clauses: ([, period], now) => [dateClause("updatedAt", period, now)],
+  },
+  {
+    pattern: /\brecent(?:ly)?(?: (?:updated|changed|modified))?\b/g,
+    clauses: (_, now) => [dateClause("updatedAt", "in the last week", now)],
+  },
+  {
+    pattern: /\bhigh(?:est)?[- ]priority\b/g,
+    clauses: () => [priority([1, 2], "urgent or high")],
+  },
+  {
+    pattern: /\b(?:medium|normal)[- ]priority\b/g,
+    clauses: () => [priority([3], "medium")],
+  },
+  {
+    pattern: /\blow(?:est)?[- ]priority\b/g,
+    clauses: () => [priority([4], "low")],
+  },
+  {
+    pattern: /\b(?:(?:with )?no|without(?: a)?)[- ]priority\b/g,
+    clauses: () => [priority([0], "none")],
+  },
+  {
+    pattern: /\burgent\b/g,
+    clauses: () => [priority([1], "urgent")],
+  },
+  {
+    pattern:
+      /\b(?:unassigned|(?:with )?no assignee|without (?:an )?assignee|not assigned(?: to anyone)?)\b/g,
+    clauses: () => [
+      { filter: { assignee: { null: true } }, description: "no assignee" },
+    ],
+  },
+  {
+    pattern: /\b(?:assigned to me|my|mine)\b/g,
+    clauses: () => [
+      {
+        filter: { assignee: { isMe: { eq: true } } },
+        description: "assignee: me",
+      },
+    ],
+  },
+  {
+    pattern: /\bassigned to ([a-z][\w.'-]*)/g,
+    clauses: ([, name]) => [
+      {
+        filter: { assignee: { name: { containsIgnoreCase: name } } },
+        description: `assignee name contains "${name}"`,
+      },
+    ],
+  },
+  {
+    pattern:
+      /\b(?:unestimated|(?:with )?no estimate|without (?:an )?estimate|not estimated)\b/g,
+    clauses: () => [
+      { filter: { estimate: { null: true } }, description: "no estimate" },
+    ],
+  },
+  {
+    pattern:
+      /\b(?:(?:with )?no project|without (?:a )?project|not in (?:a|any) project)\b/g,
+    clauses: () => [
+      { filter: { project: { null: true } }, description: "no project" },
+    ],
+  },
+  {
+    pattern: /\bblocked\b/g,
+    clauses: () => [
+      {
+        filter: { hasBlockedByRelations: { eq: true } },
+        description: "blocked by another issue",
+      },
+    ],
+  },
+  {
+    pattern: /\bblocking\b/g,
+    clauses: () => [
+      {
+        filter: { hasBlockingRelations: { eq: true } },
+        description: "blocking another issue",
+      },
+    ],
+  },
+  {
+    pattern: /\b(?:todo|to[- ]do|unstarted|not started)\b/g,
+    clauses: () => [stateType("unstarted")],
+  },
+  {
+    pattern:
+      /\b(?:open|active|unresolved|outstanding|remaining|incomplete|not done)\b/g,
+    clauses: () => [OPEN_STATES],
+  },
+  {
+    pattern: /\b(?:in progress|started|ongoing|being worked on)\b/g,
+    clauses: () => [stateType("started")],
+  },
+  {
+    pattern: /\b(?:in (?:the )?)?backlog\b/g,
+    clauses: () => [stateType("backlog")],
+  },
+  {
+    pattern: /\b(?:in )?triage\b/g,
+    clauses: () => [stateType("triage")],
+  },
+  {
+    pattern: /\b(?:done|completed|closed|finished|resolved)\b/g,
+    clauses: () => [stateType("completed")],
+  },
+  {
+    pattern: /\bcancell?ed\b/g,
+    clauses: () => [stateType("canceled")],
+  },
+];
+
+/** Words that carry no meaning for a filter */
+const FILLER_WORDS = new Set(
+  (
+    "a all an and any are as at be been by can do find for from get give " +
+    "has have having in is issue issues it item items list me of on or " +
+    "please show some task tasks that the there ticket tickets to what " +
+    "where which who with without priority assigned " +
+    "updated modified changed created opened reported filed " +
+    "label labels labelled labeled tagged state status about regarding " +
+    "mention mentions mentioning containing called named titled"
+  ).split(" "),
+);
+
+const escapeRegExp = (text: string) =>
+  text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+
+/** Matches a name, allowing a plural "s" (e.g. "bugs" for "Bug") */
+const namePattern = (name: string) =>
+  new RegExp(`\\b${escapeRegExp(name.toLowerCase())}s?\\b`, "g");
+
+function singular(word: string): string {
+  if (word.length <= 3 || !word.endsWith("s") || word.endsWith("ss")) {
+    return word;
+  }
+  return /(?:sh|ch|x|ss)es$/.test(word) ? word.slice(0, -2) : word.slice(0, -1);
+}
+
+/**
+ * Combine clauses into one filter. A field constrained twice, e.g. two
+ * labels, goes into `and` instead of overwriting the first.
+ */
+function mergeClauses(clauses: Clause[]): Record<string, any> {
+  const filter: Record<string, any> = {};
+  const and: Record<string, any>[] = [];
+  for (const clause of clauses) {
+    for (const [key, value] of Object.entries(clause.filter)) {
+      if (key in filter) and.push({ [key]: value });
+      else filter[key] = value;
+    }
+  }
+  if (and.length > 0) filter.and = and;
+  return filter;
+}
+
+/**
+ * Turn a question into an IssueFilter with fixed rules: priority,
+ * assignee, state, date, due date, estimate, project and blocking
+ * phrases, plus the team's state and label names. Quoted phrases and
+ * words no rule understood become text searches.
+ */
+export function parseIssueQuery(
+  question: string,
+  context: IssueQueryContext,
+  now: Date = new Date(),
+): ParsedIssueQuery {
+  const clauses: Clause[] = [];
+  const searches: string[] = [];
+
+  let text = question
+    .toLowerCase()
+    .replace(/["“”]([^"“”]+)["“”]/g, (_, phrase: string) => {
+      searches.push(phrase.trim());
+      return " ";
+    })
+    .replace(/[?!,;:]+/g, " ")
+    .replace(/\s+/g, " ");
+
+  for (const rule of RULES) {
+    text = text.replace(rule.pattern, (...match) => {
+      clauses.push(...rule.clauses(match.slice(0, -2), now));
+      return " ";
+    });
+  }
+
+  // Longer names first, so "In Review" wins over a "Review" label
+  const names = [
+    ...context.states.map((state) => ({ kind: "state", name: state.name })),
+    ...context.labels.map((label) => ({ kind: "label", name: label })),
+  ].sort((a, b) => b.name.length - a.name.length);
+
+  for (const { kind, name } of names) {
+    text = text.replace(namePattern(name), () => {
+      clauses.push(
+        kind === "state"
+          ? {
+              filter: { state: { name: { eqIgnoreCase: name } } },
+              description: `state: ${name}`,
+            }
+          : {
+              filter: { labels: { some: { name: { eqIgnoreCase: name } } } },
+              description: `label: ${name}`,
+            },
+      );
+      return " ";
+    });
+  }
+
+  const keywords = text
+    .split(/[^\w'-]+/)
+    .filter((word) => word.length > 1 && !FILLER_WORDS.has(word))
+    .map(singular);
+  for (const search of [...searches, ...keywords]) {
+    clauses.push({
+      filter: {
+        or: [
+          { title: { containsIgnoreCase: search } },
+          { description: { containsIgnoreCase: search } },
+        ],
+      },
+      description: `title or description contains "${search}"`,
+    });
+  }
+
+  const unique = clauses.filter(
+    (clause, index) =>
+      clauses.findIndex(
+        (other) => JSON.stringify(other) === JSON.stringify(clause),
+      ) === index,
+  );
+
+  return {
+    filter: mergeClauses(unique),
+    interpretation: unique.map((clause) => clause.description),
+    keywords,
+  };
+}
+
+/* ---------------- Validation ---------------- */
+
+const stringComparator = z
+  .object({
+    eq: z.string(),
+    neq: z.string(),
+    in: z.array(z.string()),
+    nin: z.array(z.string()),
+    eqIgnoreCase: z.string(),
+    containsIgnoreCase: z.string(),
+    notContainsIgnoreCase: z.string(),
+    startsWith: z.string(),
+  })
+  .partial()
+  .strict();
+
+const numberComparator = z
+  .object({
+    eq: z.number(),
+    neq: z.number(),
+    in: z.array(z.number()),
+    nin: z.array(z.number()),
+    gt: z.number(),
+    gte: z.number(),
+    lt: z.number(),
+    lte: z.number(),
+    null: z.boolean(),
+  })
+  .partial()
+  .strict();
+
+/** An ISO 8601 date or a duration relative to now, e.g. "-P2W" */
+const dateValue = z
+  .string()
+  .refine(
+    (value) => /^-?P/.test(value) || !Number.isNaN(Date.parse(value)),
+    "must be an ISO 8601 date or duration",
+  );
+
+const dateComparator = z
+  .object({
+    eq: dateValue,
+    gt: dateValue,
+    gte: dateValue,
+    lt: dateValue,
+    lte: dateValue,
+    null: z.boolean(),
+  })
+  .partial()
+  .strict();
+
+const booleanComparator = z.object({ eq: z.boolean() }).strict();
+
+const userFilter = z
+  .object({
+    null: z.boolean(),
+    isMe: booleanComparator,
+    name: stringComparator,
+    displayName: stringComparator,
+    email: stringComparator,
+  })
+  .partial()
+  .strict();
+
+const labelFilter = z.object({ name: stringComparator }).strict();
+
+const namedFilter = z
+  .object({
+    null: z.boolean(),
+    id: z
+      .object({ eq: z.string(), in: z.array(z.string()) })
+      .partial()
+      .strict(),
+    name: stringComparator,
+  })
+  .partial()
+  .strict();
+
+/**
+ * The part of Linear's IssueFilter that queries may use. Team scoping is
+ * added by the caller, so `team` is deliberately not accepted.
+ */
+export const issueQueryFilterSchema: z.ZodType<Record<string, any>> = z.lazy(
+  () =>
+    z
+      .object({
+        and: z.array(issueQueryFilterSchema),
+        or: z.array(issueQueryFilterSchema),
+        title: stringComparator,
+        description: stringComparator,
+        number: numberComparator,
+        priority: numberComparator,
+        estimate: numberComparator,
+        state: z
+          .object({ type: stringComparator, name: stringComparator })
+          .partial()
+          .strict(),
+        assignee: userFilter,
+        creator: userFilter,
+        labels: z
+          .object({ some: labelFilter, every: labelFilter })
+          .partial()
+          .strict(),
+        project: namedFilter,
+        cycle: namedFilter,
+        parent: z.object({ null: z.boolean() }).strict(),
+        createdAt: dateComparator,
+        updatedAt: dateComparator,
+        startedAt: dateComparator,
+        completedAt: dateComparator,
+        canceledAt: dateComparator,
+        dueDate: dateComparator,
+        hasBlockedByRelations: booleanComparator,
+        hasBlockingRelations: booleanComparator,
+      })
+      .partial()
+      .strict(),
+);
+
+/**
+ * Check a filter against the fields queries may use, throwing an error
+ * that lists every problem
+ */
+export function validateIssueFilter(filter: unknown): Record<string, any> {
+  const parsed = issueQueryFilterSchema.safeParse(filter);
+  if (parsed.success) return parsed.data;
+
+  throw new Error(
+    `Invalid issue filter: ${parsed.error.issues
+      .map((issue) => `${issue.path.join(".") || "(filter)"}: ${issue.message}`)
+      .join("; ")}`,
+  );
+}
+
+/* ---------------- LLM fallback ---------------- */
+
+/**
+ * Answers a system and user prompt with the model's text reply
+ */
+export type FilterModel = (system: string, user: string) => Promise<string>;
+
+/**
+ * A FilterModel backed by OpenAI chat completions in JSON mode
+ */
+export function openAiFilterModel(
+  apiKey: string,
+  http: AxiosInstance = resilientAxios(),
+  model = DEFAULT_QUERY_MODEL,
+): FilterModel {
+  return async (system, user) => {
+    const response = await http.post(
+      "https://api.openai.com/v1/chat/completions",
+      {
+        model,
+        messages: [
+          { role: "system", content: system },
+          { role: "user", content: user },
+        ],
+        temperature: 0,
+        response_format: { type: "json_object" },
+      },
+      {
+        headers: {
+          Authorization: `Bearer ${apiKey}`,
+          "Content-Type": "application/json",
+        },
+      },
+    );
+    return response.data.choices?.[0]?.message?.content ?? "";
+  };
+}
+
+function filterPrompt(context: IssueQueryContext, now: Date): string {
+  return `You translate questions about Linear issues into a Linear GraphQL IssueFilter.
+Reply with a JSON object {"filter": IssueFilter} and nothing else.
+
+Allowed IssueFilter fields:
+- and, or: arrays of IssueFilter
+- title, description: string comparators (eq, neq, in, nin, eqIgnoreCase, containsIgnoreCase, notContainsIgnoreCase, startsWith)
+- number, priority, estimate: number comparators (eq, neq, in, nin, gt, gte, lt, lte, null). Priority: 0 none, 1 urgent, 2 high, 3 medium, 4 low.
+- state: { type, name } string comparators. State types: triage, backlog, unstarted, started, completed, canceled.
+- assignee, creator: { null, isMe: { eq }, name, displayName, email }
+- labels: { some: { name }, every: { name } }
+- project, cycle: { null, id: { eq, in }, name }
+- parent: { null }
+- createdAt, updatedAt, startedAt, completedAt, canceledAt, dueDate: { eq, gt, gte, lt, lte, null } with ISO 8601 dates or durations such as "-P2W"
+- hasBlockedByRelations, hasBlockingRelations: { eq: boolean }
+Don't filter by team; that is added separately.
+
+Now: ${now.toISOString()}
+Team workflow states: ${context.states.map((s) => `${s.name} (${s.type})`).join(", ") || "unknown"}
+Labels: ${context.labels.join(", ") || "none"}`;
+}
+
+/**
+ * Ask an LLM for the filter, validating what it returns
+ */
+export async function llmIssueFilter(
+  question: string,
+  context: IssueQueryContext,
+  model: FilterModel,
+  now: Date = new Date(),
+): Promise<Record<string, any>> {
+  const reply = await model(filterPrompt(context, now), question);
+  const json = reply.replace(/^```(?:json)?\s*|\s*```$/g, "");
+
+  let parsed: any;
+  try {
+    parsed = JSON.parse(json);
+  } catch {
+    throw new Error("The LLM did not return JSON");
+  }
+  return validateIssueFilter(parsed?.filter ?? parsed);
+}
+
+/**
+ * Turn a question into a validated filter with the chosen parser. In
+ * auto mode the LLM only sees questions the parser left words over from,
+ * and a failed LLM call falls back to the parser's result.
+ */
+export async function interpretIssueQuery(
+  question: string,
+  context: IssueQueryContext,
+  options: { parser?: IssueQueryParser; model?: FilterModel; now?: Date } = {},
+): Promise<IssueQueryResult> {
+  const { parser = "auto", model, now = new Date() } = options;
+  const llm = async (): Promise<IssueQueryResult> => ({
+    parser: "llm",
+    filter: await llmIssueFilter(question, context, model!, now),
+    interpretation: ["filter written by the LLM"],
+    keywords: [],
+  });
+
+  if (parser === "llm") {
+    if (!model) throw new Error("The LLM parser is not configured");
+    return llm();
+  }
+
+  const parsed: IssueQueryResult = {
+    parser: "deterministic",
+    ...parseIssueQuery(question, context, now),
+  };
+  validateIssueFilter(parsed.filter);
+  if (parser === "deterministic" || !model || parsed.keywords.length === 0) {
+    return parsed;
+  }
+
+  try {
+    return await llm();
+  } catch (error: any) {
+    return {
+      ...parsed,
+      warning: `LLM fallback failed (${error.message}); searched titles and descriptions for the unrecognized words instead`,
+    };
+  }
+}
+
+/* ---------------- Linear ---------------- */
+
+const QUERY_CONTEXT_QUERY = `
+  query IssueQueryContext($teamId: String!) {
+    team(id: $teamId) {
+      labels(first: 250) { nodes { name } }
+      states { nodes { name type } }
+    }
+    issueLabels(first: 250, filter: { team: { null: true } }) {
+      nodes { name }
+    }
+  }
+`;
+
+/**
+ * The team's workflow states and its own and workspace labels
+ */
+export async function fetchIssueQueryContext(
+  client: GraphQLRequester,
+  teamId: string,
+): Promise<IssueQueryContext> {
+  const data = await client.request<
+    {
+      team: {
+        labels: { nodes: Array<{ name: string }> };
+        states: { nodes: Array<{ name: string; type: string }> };
+      };
+      issueLabels: { nodes: Array<{ name: string }> };
+    },
+    Record<string, unknown>
+  >(QUERY_CONTEXT_QUERY, { teamId });
+
+  return {
+    labels: [
+      ...new Set(
+        [...data.team.labels.nodes, ...data.issueLabels.nodes].map(
+          (label) => label.name,
+        ),
+      ),
+    ],
+    states: data.team.states.nodes,
+  };
+}
+
+/**
+ * An issue returned by query_issues
+ */
+export interface QueriedIssue {
+  id: string;
+  identifier: string;
+  title: string;
+  priority: number;
+  estimate: number | null;
+  dueDate: string | null;
+  updatedAt: string;
+  url: string;
+  state: string;
+  assignee: string | null;
+  labels: string[];
+}
+
+const QUERIED_ISSUES_QUERY = `
+  query QueriedIssues($filter: IssueFilter, $first: Int, $after: String) {
+    issues(filter: $filter, first: $first, after: $after) {
+      nodes {
+        id
+        identifier
+        title
+        priority
+        estimate
+        dueDate
+        updatedAt
+        url
+        state { name }
+        assignee { name }
+        labels { nodes { name } }
+      }
+      pageInfo { hasNextPage endCursor }
+    }
+  }
+`;
+
+/**
+ * Fetch the issues matching a filter, one request per page
+ */
+export async function fetchQueriedIssues(
+  client: GraphQLRequester,
+  filter: Record<string, unknown>,
+  request: PageRequest,
+  defaultLimit: number,
+): Promise<PageResult<QueriedIssue>> {
+  return fetchPaginated(
+    async (page): Promise<ConnectionLike<QueriedIssue>> => {
+      const data = await client.request<
+        { issues: ConnectionLike<any> },
+        Record<string, unknown>
+      >(QUERIED_ISSUES_QUERY, { filter, ...page });
+
+      return {
+        nodes: data.issues.nodes.map((issue) => ({
+          ...issue,
+          estimate: issue.estimate ?? null,
+          dueDate: issue.dueDate ?? null,
+          state: issue.state?.name,
+          assignee: issue.assignee?.name ?? null,
+          labels: issue.labels.nodes.map((label: any) => label.name),
+        })),
+        pageInfo: data.issues.pageInfo,
+      };
+    },
+    request,
+    defaultLimit,
+  );
+}
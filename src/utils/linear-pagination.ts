@@ -0,0 +1,286 @@
+/**
+ * Cursor-based pagination helpers for Linear connections.
+ *
+ * Linear caps every connection at `first: 250`, so any tool that lists
+ * issues has to walk `pageInfo.endCursor` to see more than one page. These
+ * helpers keep that logic in one place for the MCP server and CLI scripts.
+ */
+
+/** Largest page size Linear accepts for `first` */
+export const MAX_PAGE_SIZE = 250;
+
+/** Page size used when walking every page in "fetch all" mode */
+export const FETCH_ALL_PAGE_SIZE = 100;
+
+/** Hard upper bound on items collected by a single "fetch all" request */
+export const FETCH_ALL_HARD_LIMIT = 2000;
+
+/**
+ * Pagination options accepted by list-style tools
+ */
+export interface PageRequest {
+  /** Cursor returned as `pageInfo.endCursor` by a previous call */
+  after?: string;
+  /** Page size (ignored in fetch-all mode) */
+  limit?: number;
+  /** Walk every page server-side, up to `maxResults` */
+  fetchAll?: boolean;
+  /** Upper bound for fetch-all mode (capped at FETCH_ALL_HARD_LIMIT) */
+  maxResults?: number;
+}
+
+/**
+ * Pagination info returned to callers
+ */
+export interface PageInfoResult {
+  hasNextPage: boolean;
+  endCursor: string | null;
+}
+
+/**
+ * One or more pages of results
+ */
+export interface PageResult<T> {
+  nodes: T[];
+  pageInfo: PageInfoResult;
+  /** True when fetch-all mode stopped at its upper bound with pages left */
+  truncated: boolean;
+}
+
+/**
+ * Minimal shape of a Linear connection (e.g. IssueConnection)
+ */
+export interface ConnectionLike<T> {
+  nodes: T[];
+  pageInfo: { hasNextPage: boolean; endCursor?: string | null };
+}
+
+/**
+ * Fetches a single page given Relay-style variables
+ */
+export type PageFetcher<T> = (variables: {
+  first: number;
+  after?: string;
+}) => Promise<ConnectionLike<T>>;
+
+/**
+ * Clamp a requested page size into Linear's accepted range
+ */
+export function clampPageSize(
+  limit: number | undefined,
+  defaultLimit: number,
+): number {
+  const requested = Math.floor(limit ?? defaultLimit);
+  if (!Number.isFinite(requested) || requested < 1) {
+    return defaultLimit;
+  }
+  return Math.min(requested, MAX_PAGE_SIZE);
+}
+
+/**
+ * Resolve the effective bound for fetch-all mode
+ */
+export function resolveFetchAllBound(maxResults?: number): number {
+  if (!maxResults || maxResults < 1) {
+    return FETCH_ALL_HARD_LIMIT;
+  }
+  return Math.min(Math.floor(maxResults), FETCH_ALL_HARD_LIMIT);
+}
+
+/**
+ * Fetch one page, or walk all pages when `fetchAll` is set
+ *
+ * @param fetcher - Function that loads a page from Linear
+ * @param request - Pagination options from the tool call
+ * @param defaultLimit - Page size to use when none is given
+ */
+export async function fetchPaginated<T>(
+  fetcher: PageFetcher<T>,
+  request: PageRequest,
+  defaultLimit: number,
+): Promise<PageResult<T>> {
+  if (!request.fetchAll) {
+    const page = await fetcher({
+      first: clampPageSize(request.limit, defaultLimit),
+      after: request.after,
+    });
+
+    return {
+      nodes: page.nodes,
+      pageInfo: {
+        hasNextPage: page.pageInfo.hasNextPage,
+        endCursor: page.pageInfo.endCursor ?? null,
+      },
+      truncated: false,
+    };
+  }
+
+  const bound = resolveFetchAllBound(request.maxResults);
+  const nodes: T[] = [];
+  let after = request.after;
+  let hasNextPage = true;
+  let endCursor: string | null = after ?? null;
+
+  while (hasNextPage && nodes.length < bound) {
+    const page = await fetcher({
+      first: Math.min(FETCH_ALL_PAGE_SIZE, bound - nodes.length),
+      after,
+    });
+
+    nodes.push(...page.nodes);
+    hasNextPage = page.pageInfo.hasNextPage;
+    endCursor = page.pageInfo.endCursor ?? endCursor;
+    after = page.pageInfo.endCursor ?? undefined;
+
+    if (!after) break;
+  }
+
+  return {
+    nodes,
+    pageInfo: { hasNextPage, endCursor },
+    truncated: hasNextPage && nodes.length >= bound,
+  };
+}
+
+/**
+ * Page through records already in memory (e.g. a local team mirror) the
+ * way fetchPaginated pages through Linear. Cursors are offsets.
+ */
+export function arrayPageFetcher<T>(items: T[]): PageFetcher<T> {
+  return async ({ first, after }) => {
+    const start = after ? Math.max(0, parseInt(after, 10) || 0) : 0;
+    const end = Math.min(start + first, items.length);
+    return {
+      nodes: items.slice(start, end),
+      pageInfo: { hasNextPage: end < items.length, endCursor: String(end) },
+    };
+  };
+}
+
+/**
+ * Position inside a scan: the Linear cursor of the page plus how many of
+ * that page's nodes were already consumed
+ */
+interface ScanPosition {
+  after?: string;
+  skip: number;
+}
+
+/**
+ * Encode a scan position as an opaque cursor
+ */
+export function encodeScanCursor(position: ScanPosition): string {
+  return Buffer.from(JSON.stringify(position), "utf8").toString("base64url");
+}
+
+/**
+ * Decode a cursor produced by encodeScanCursor. Raw Linear cursors are
+ * accepted too and resume at the start of the following page.
+ */
+export function decodeScanCursor(cursor?: string): ScanPosition {
+  if (!cursor) {
+    return { skip: 0 };
+  }
+
+  try {
+    const decoded = JSON.parse(
+      Buffer.from(cursor, "base64url").toString("utf8"),
+    );
+    if (decoded && typeof decoded.skip === "number") {
+      return {
+        after: typeof decoded.after === "string" ? decoded.after : undefined,
+        skip: Math.max(0, Math.floor(decoded.skip)),
+      };
+    }
+  } catch {
+    // Not one of ours - treat it as a plain Linear cursor
+  }
+
+  return { after: cursor, skip: 0 };
+}
+
+/**
+ * Walk pages and keep only the nodes a selector accepts, stopping once
+ * `limit` matches are found. Because a page can be cut part-way through,
+ * the returned cursor is an opaque scan cursor (see encodeScanCursor).
+ *
+ * @param fetcher - Function that loads a page from Linear
+ * @param request - Pagination options; `limit` counts accepted nodes
+ * @param select - Returns one boolean per node, in order; called with
+ *   chunks no larger than the number of matches still wanted
+ * @param defaultLimit - Number of matches to return when none is given
+ * @param pageSize - Nodes fetched per request; keep it constant for a given
+ *   tool, since scan cursors count skipped nodes within a page
+ */
+export async function scanPaginated<T>(
+  fetcher: PageFetcher<T>,
+  request: PageRequest,
+  select: (nodes: T[]) => Promise<boolean[]>,
+  defaultLimit: number,
+  pageSize: number = FETCH_ALL_PAGE_SIZE,
+): Promise<PageResult<T>> {
+  const scanBound = resolveFetchAllBound(request.maxResults);
+  const wanted = request.fetchAll
+    ? Number.POSITIVE_INFINITY
+    : clampPageSize(request.limit, defaultLimit);
+
+  const matches: T[] = [];
+  let position = decodeScanCursor(request.after);
+  let scanned = 0;
+  let hasNextPage = true;
+
+  while (matches.length < wanted && scanned < scanBound) {
+    const page = await fetcher({
+      first: pageSize,
+      after: position.after,
+    });
+
+    let consumed = position.skip;
+
+    // Evaluate only as many candidates as could still be needed, so an
+    // expensive selector never runs over the rest of a page for nothing
+    while (
+      consumed < page.nodes.length &&
+      matches.length < wanted &&
+      scanned < scanBound
+    ) {
+      const chunkSize = Math.min(
+        wanted - matches.length,
+        scanBound - scanned,
+        page.nodes.length - consumed,
+      );
+      const chunk = page.nodes.slice(consumed, consumed + chunkSize);
+      const accepted = await select(chunk);
+
+      chunk.forEach((node, i) => {
+        if (accepted[i]) matches.push(node);
+      });
+      consumed += chunk.length;
+      scanned += chunk.length;
+    }
+
+    if (consumed < page.nodes.length) {
+      // Stopped part-way through this page: resume inside it next time
+      position = { after: position.after, skip: consumed };
+      hasNextPage = true;
+      break;
+    }
+
+    hasNextPage = page.pageInfo.hasNextPage;
+    if (!hasNextPage || !page.pageInfo.endCursor) {
+      hasNextPage = false;
+      position = { after: page.pageInfo.endCursor ?? position.after, skip: 0 };
+      break;
+    }
+    position = { after: page.pageInfo.endCursor, skip: 0 };
+  }
+
+  return {
+    nodes: matches,
+    pageInfo: {
+      hasNextPage,
+      endCursor: hasNextPage ? encodeScanCursor(position) : null,
+    },
+    truncated: hasNextPage && scanned >= scanBound,
+  };
+}
@@ -0,0 +1,604 @@
+import { GraphQLRequester } from "../modules/DependencyResolver";
+import {
+  ResourceContent,
+  ResourceListing,
+  ResourceProvider,
+  ResourceTemplate,
+  resourceNotFound,
+} from "./mcp-resources";
+
+/** Open issues rendered in a team's issue list */
+export const TEAM_ISSUES_RESOURCE_LIMIT = 250;
+
+/** Issues rendered in a project resource */
+export const PROJECT_ISSUES_RESOURCE_LIMIT = 250;
+
+/** Comments rendered in an issue resource, oldest first */
+export const ISSUE_COMMENTS_RESOURCE_LIMIT = 50;
+
+export const LINEAR_RESOURCE_TEMPLATES: ResourceTemplate[] = [
+  {
+    uriTemplate: "linear://team/{key}/issues",
+    name: "Team issues",
+    description:
+      "Open issues of a team (e.g. linear://team/ENG/issues), grouped by state",
+    mimeType: "text/markdown",
+  },
+  {
+    uriTemplate: "linear://issue/{identifier}",
+    name: "Issue",
+    description:
+      "An issue (e.g. linear://issue/ENG-123) with its description, acceptance criteria, blockers, sub-issues and comments",
+    mimeType: "text/markdown",
+  },
+  {
+    uriTemplate: "linear://project/{id}",
+    name: "Project",
+    description:
+      "A project with its description, milestones, progress and issues",
+    mimeType: "text/markdown",
+  },
+];
+
+/**
+ * What a `linear://` URI points at
+ */
+export type LinearResourceRef =
+  | { kind: "team_issues"; teamKey: string }
+  | { kind: "issue"; identifier: string }
+  | { kind: "project"; projectId: string };
+
+/**
+ * Parse a `linear://` resource URI, or null when it isn't one
+ */
+export function parseLinearResourceUri(uri: string): LinearResourceRef | null {
+  const match =
+    /^linear:\/\/(?:team\/([^/]+)\/issues|issue\/([^/]+)|project\/([^/]+))\/?$/.exec(
+      uri,
+    );
+  if (!match) return null;
+
+  const [, teamKey, identifier, projectId] = match.map((part) =>
+    part === undefined ? part : decodeURIComponent(part),
+  );
+  if (teamKey) return { kind: "team_issues", teamKey };
+  if (identifier) return { kind: "issue", identifier };
+  return { kind: "project", projectId };
+}
+
+export const issueResourceUri = (identifier: string) =>
+  `linear://issue/${identifier}`;
+
+export const teamIssuesResourceUri = (teamKey: string) =>
+  `linear://team/${teamKey}/issues`;
+
+interface StateRef {
+  name: string;
+  type: string;
+}
+
+interface RelatedIssueRef {
+  identifier: string;
+  title: string;
+  state: StateRef | null;
+}
+
+/**
+ * Issue fields rendered in an issue resource
+ */
+export interface IssueResourceData {
+  id: string;
+  identifier: string;
+  title: string;
+  description: string | null;
+  url: string;
+  priorityLabel: string;
+  estimate: number | null;
+  state: StateRef | null;
+  team: { id: string; key: string; name: string };
+  assignee: { name: string } | null;
+  project: { id: string; name: string } | null;
+  projectMilestone: { name: string } | null;
+  cycle: { number: number; name: string | null } | null;
+  parent: { identifier: string; title: string } | null;
+  labels: { nodes: Array<{ name: string }> };
+  relations: {
+    nodes: Array<{ type: string; relatedIssue: RelatedIssueRef | null }>;
+  };
+  inverseRelations: {
+    nodes: Array<{ type: string; issue: RelatedIssueRef | null }>;
+  };
+  children: { nodes: RelatedIssueRef[] };
+  comments: {
+    nodes: Array<{
+      body: string;
+      createdAt: string;
+      user: { name: string } | null;
+    }>;
+  };
+}
+
+interface ListedIssue extends RelatedIssueRef {
+  priority: number;
+  priorityLabel: string;
+  assignee: { name: string } | null;
+}
+
+/**
+ * A team's open issues as rendered in its issue list
+ */
+export interface TeamIssuesResourceData {
+  id: string;
+  key: string;
+  name: string;
+  issues: { nodes: ListedIssue[]; pageInfo: { hasNextPage: boolean } };
+}
+
+/**
+ * Project fields rendered in a project resource
+ */
+export interface ProjectResourceData {
+  id: string;
+  name: string;
+  description: string | null;
+  content: string | null;
+  url: string;
+  state: string;
+  progress: number;
+  targetDate: string | null;
+  lead: { name: string } | null;
+  teams: { nodes: Array<{ id: string; key: string }> };
+  projectMilestones: {
+    nodes: Array<{ name: string; targetDate: string | null }>;
+  };
+  issues: {
+    nodes: Array<RelatedIssueRef & { assignee: { name: string } | null }>;
+    pageInfo: { hasNextPage: boolean };
+  };
+}
+
+const RELATED_ISSUE_FIELDS = `identifier title state { name type }`;
+
+const ISSUE_RESOURCE_QUERY = `
+  query IssueResource($id: String!) {
+    issue(id: $id) {
+      id identifier title description url priorityLabel estimate
+      state { name type }
+      team { id key name }
+      assignee { name }
+      project { id name }
+      projectMilestone { name }
+      cycle { number name }
+      parent { identifier title }
+      labels { nodes { name } }
+      relations(first: 50) { nodes { type relatedIssue { ${RELATED_ISSUE_FIELDS} } } }
+      inverseRelations(first: 50) { nodes { type issue { ${RELATED_ISSUE_FIELDS} } } }
+      children(first: 100) { nodes { ${RELATED_ISSUE_FIELDS} } }
+      comments(first: ${ISSUE_COMMENTS_RESOURCE_LIMIT}) {
+        nodes { body createdAt user { name } }
+      }
+    }
+  }
+`;
+
+const TEAM_ISSUES_RESOURCE_QUERY = `
+  query TeamIssuesResource($key: String!, $first: Int!) {
+    teams(filter: { key: { eq: $key } }) {
+      nodes {
+        id key name
+        issues(
+          first: $first
+          orderBy: updatedAt
+          filter: { state: { type: { nin: ["completed", "canceled"] } } }
+        ) {
+          nodes {
+            ${RELATED_ISSUE_FIELDS} priority priorityLabel assignee { name }
+          }
+          pageInfo { hasNextPage }
+        }
+      }
+    }
+  }
+`;
+
+const PROJECT_RESOURCE_QUERY = `
+  query ProjectResource($id: String!, $first: Int!) {
+    project(id: $id) {
+      id name description content url state progress targetDate
+      lead { name }
+      teams { nodes { id key } }
+      projectMilestones { nodes { name targetDate } }
+      issues(first: $first) {
+        nodes { ${RELATED_ISSUE_FIELDS} assignee { name } }
+        pageInfo { hasNextPage }
+      }
+    }
+  }
+`;
+
+const TEAMS_QUERY = `
+  query ResourceTeams {
+    teams(first: 250) { nodes { id key name } }
+  }
+`;
+
+const PIN_QUERY = `
+  query PinIssue($id: String!) {
+    issue(id: $id) { id identifier title team { id key } }
+  }
+`;
+
+/**
+ * Split the "Acceptance Criteria" section out of an issue description, up
+ * to the next heading of the same or a higher level
+ */
+export function splitAcceptanceCriteria(description: string): {
+  description: string;
+  acceptanceCriteria: string | null;
+} {
+  const lines = description.split("\n");
+  const start = lines.findIndex((line) =>
+    /^#{1,6}\s*acceptance criteria\s*:?\s*$/i.test(line.trim()),
+  );
+  if (start === -1)
+    return { description: description.trim(), acceptanceCriteria: null };
+
+  const level = /^#+/.exec(lines[start].trim())![0].length;
+  let end = lines.findIndex(
+    (line, i) =>
+      i > start && /^#+\s/.test(line) && /^#+/.exec(line)![0].length <= level,
+  );
+  if (end === -1) end = lines.length;
+
+  return {
+    description: [...lines.slice(0, start), ...lines.slice(end)]
+      .join("\n")
+      .trim(),
+    acceptanceCriteria:
+      lines
+        .slice(start + 1, end)
+        .join("\n")
+        .trim() || null,
+  };
+}
+
+const isDone = (state: StateRef | null) =>
+  state?.type === "completed" || state?.type === "canceled";
+
+const issueLine = (issue: RelatedIssueRef) =>
+  `${issue.identifier}: ${issue.title}${issue.state ? ` (${issue.state.name})` : ""}`;
+
+function propertyList(properties: Array<[string, unknown]>): string {
+  return properties
+    .filter(
+      ([, value]) => value !== null && value !== undefined && value !== "",
+    )
+    .map(([name, value]) => `- **${name}:** ${value}`)
+    .join("\n");
+}
+
+/**
+ * Render an issue as markdown. Blocked-by follows the repo's relation
+ * convention: a `blocks` relation owned by this issue names its blocker.
+ */
+export function renderIssueMarkdown(issue: IssueResourceData): string {
+  const { description, acceptanceCriteria } = splitAcceptanceCriteria(
+    issue.description ?? "",
+  );
+  const blockedBy = issue.relations.nodes
+    .filter((relation) => relation.type === "blocks" && relation.relatedIssue)
+    .map((relation) => relation.relatedIssue!);
+  const blocks = issue.inverseRelations.nodes
+    .filter((relation) => relation.type === "blocks" && relation.issue)
+    .map((relation) => relation.issue!);
+
+  const sections = [
+    `# ${issue.identifier}: ${issue.title}`,
+    propertyList([
+      ["State", issue.state?.name],
+      ["Priority", issue.priorityLabel],
+      ["Assignee", issue.assignee?.name ?? "Unassigned"],
+      ["Team", `${issue.team.name} (${issue.team.key})`],
+      ["Project", issue.project?.name],
+      ["Milestone", issue.projectMilestone?.name],
+      [
+        "Cycle",
+        issue.cycle &&
+          (issue.cycle.name
+            ? `${issue.cycle.name} (#${issue.cycle.number})`
+            : `#${issue.cycle.number}`),
+      ],
+      [
+        "Parent",
+        issue.parent && `${issue.parent.identifier}: ${issue.parent.title}`,
+      ],
+      ["Labels", issue.labels.nodes.map((label) => label.name).join(", ")],
+      ["Estimate", issue.estimate],
+      ["URL", issue.url],
+    ]),
+    `## Description\n\n${description || "_No description_"}`,
+  ];
+
+  if (acceptanceCriteria) {
+    sections.push(`## Acceptance Criteria\n\n${acceptanceCriteria}`);
+  }
+  if (blockedBy.length > 0) {
+    sections.push(
+      `## Blocked By\n\n${blockedBy
+        .map(
+          (blocker) =>
+            `- ${isDone(blocker.state) ? "✅" : "⛔"} ${issueLine(blocker)}`,
+        )
+        .join("\n")}`,
+    );
+  }
+  if (blocks.length > 0) {
+    sections.push(
+      `## Blocks\n\n${blocks.map((blocked) => `- ${issueLine(blocked)}`).join("\n")}`,
+    );
+  }
+  if (issue.children.nodes.length > 0) {
+    sections.push(
+      `## Sub-issues\n\n${issue.children.nodes
+        .map(
+          (child) =>
+            `- [${isDone(child.state) ? "x" : " "}] ${issueLine(child)}`,
+        )
+        .join("\n")}`,
+    );
+  }
+
+  const comments = [...issue.comments.nodes].sort((a, b) =>
+    a.createdAt.localeCompare(b.createdAt),
+  );
+  if (comments.length > 0) {
+    sections.push(
+      `## Comments (${comments.length})\n\n${comments
+        .map(
+          (comment) =>
+            `### ${comment.user?.name ?? "Unknown"} · ${comment.createdAt.slice(0, 10)}\n\n${comment.body.trim()}`,
+        )
+        .join("\n\n")}`,
+    );
+  }
+
+  return sections.join("\n\n") + "\n";
+}
+
+const STATE_TYPE_ORDER = ["started", "unstarted", "backlog", "triage"];
+
+/**
+ * Render a team's open issues as markdown, grouped by workflow state and
+ * sorted by priority (urgent first, no priority last)
+ */
+export function renderTeamIssuesMarkdown(team: TeamIssuesResourceData): string {
+  const issues = team.issues.nodes;
+  const groups = new Map<string, ListedIssue[]>();
+  const rank = (issue: ListedIssue) =>
+    STATE_TYPE_ORDER.indexOf(issue.state?.type ?? "") >>> 0;
+
+  for (const issue of [...issues].sort((a, b) => rank(a) - rank(b))) {
+    const name = issue.state?.name ?? "No state";
+    groups.set(name, [...(groups.get(name) ?? []), issue]);
+  }
+
+  const byPriority = (a: ListedIssue, b: ListedIssue) =>
+    (a.priority || 5) - (b.priority || 5);
+  const sections = [
+    `# ${team.name} (${team.key}): open issues`,
+    `${issues.length}${team.issues.pageInfo.hasNextPage ? "+" : ""} open issue(s)${
+      team.issues.pageInfo.hasNextPage
+        ? `; showing the ${issues.length} most recently updated`
+        : ""
+    }`,
+    ...[...groups].map(
+      ([state, stateIssues]) =>
+        `## ${state} (${stateIssues.length})\n\n${stateIssues
+          .sort(byPriority)
+          .map(
+            (issue) =>
+              `- ${issue.identifier}: ${issue.title} · ${issue.priorityLabel} · ${issue.assignee?.name ?? "Unassigned"}`,
+          )
+          .join("\n")}`,
+    ),
+  ];
+  return sections.join("\n\n") + "\n";
+}
+
+/**
+ * Render a project as markdown
+ */
+export function renderProjectMarkdown(project: ProjectResourceData): string {
+  const issues = project.issues.nodes;
+  const done = issues.filter((issue) => isDone(issue.state)).length;
+
+  const sections = [
+    `# ${project.name}`,
+    propertyList([
+      ["State", project.state],
+      ["Progress", `${Math.round(project.progress * 100)}%`],
+      ["Target date", project.targetDate],
+      ["Lead", project.lead?.name],
+      ["Teams", project.teams.nodes.map((team) => team.key).join(", ")],
+      ["URL", project.url],
+    ]),
+    `## Description\n\n${(project.content || project.description || "").trim() || "_No description_"}`,
+  ];
+
+  if (project.projectMilestones.nodes.length > 0) {
+    sections.push(
+      `## Milestones\n\n${project.projectMilestones.nodes
+        .map(
+          (milestone) =>
+            `- ${milestone.name}${milestone.targetDate ? ` (target ${milestone.targetDate})` : ""}`,
+        )
+        .join("\n")}`,
+    );
+  }
+
+  sections.push(
+    `## Issues (${done}/${issues.length} done${project.issues.pageInfo.hasNextPage ? `, first ${issues.length} shown` : ""})\n\n${
+      issues
+        .map(
+          (issue) =>
+            `- [${isDone(issue.state) ? "x" : " "}] ${issueLine(issue)}${issue.assignee ? ` · ${issue.assignee.name}` : ""}`,
+        )
+        .join("\n") || "_No issues_"
+    }`,
+  );
+  return sections.join("\n\n") + "\n";
+}
+
+/**
+ * Linear teams, issues and projects as MCP resources, plus the issues
+ * pinned as context. Pins live for the lifetime of the server process.
+ */
+export class LinearResources implements ResourceProvider {
+  readonly templates = LINEAR_RESOURCE_TEMPLATES;
+  private client: GraphQLRequester;
+  private pins = new Map<string, ResourceListing & { issueId: string }>();
+  private listeners = new Set<() => void>();
+
+  constructor(client: GraphQLRequester) {
+    this.client = client;
+  }
+
+  async list(): Promise<ResourceListing[]> {
+    const data = await this.client.request<
+      { teams: { nodes: Array<{ id: string; key: string; name: string }> } },
+      Record<string, unknown>
+    >(TEAMS_QUERY, {});
+
+    return [
+      ...this.pinned(),
+      ...data.teams.nodes.map((team) => ({
+        uri: teamIssuesResourceUri(team.key),
+        name: `${team.key} open issues`,
+        description: `Open issues of ${team.name}`,
+        mimeType: "text/markdown",
+        teams: [{ id: team.id, key: team.key }],
+      })),
+    ];
+  }
+
+  async read(uri: string): Promise<ResourceContent> {
+    const ref = parseLinearResourceUri(uri);
+    if (!ref) throw resourceNotFound(uri);
+
+    try {
+      switch (ref.kind) {
+        case "issue": {
+          const { issue } = await this.client.request<
+            { issue: IssueResourceData | null },
+            Record<string, unknown>
+          >(ISSUE_RESOURCE_QUERY, { id: ref.identifier });
+          if (!issue) throw resourceNotFound(uri);
+          return {
+            uri,
+            mimeType: "text/markdown",
+            text: renderIssueMarkdown(issue),
+            teams: [{ id: issue.team.id, key: issue.team.key }],
+          };
+        }
+        case "team_issues": {
+          const { teams } = await this.client.request<
+            { teams: { nodes: TeamIssuesResourceData[] } },
+            Record<string, unknown>
+          >(TEAM_ISSUES_RESOURCE_QUERY, {
+            key: ref.teamKey.toUpperCase(),
+            first: TEAM_ISSUES_RESOURCE_LIMIT,
+          });
+          const [team] = teams.nodes;
+          if (!team) throw resourceNotFound(uri, "no team with that key");
+          return {
+            uri,
+            mimeType: "text/markdown",
+            text: renderTeamIssuesMarkdown(team),
+            teams: [{ id: team.id, key: team.key }],
+          };
+        }
+        case "project": {
+          const { project } = await this.client.request<
+            { project: ProjectResourceData | null },
+            Record<string, unknown>
+          >(PROJECT_RESOURCE_QUERY, {
+            id: ref.projectId,
+            first: PROJECT_ISSUES_RESOURCE_LIMIT,
+          });
+          if (!project) throw resourceNotFound(uri);
+          return {
+            uri,
+            mimeType: "text/markdown",
+            text: renderProjectMarkdown(project),
+            teams: project.teams.nodes,
+          };
+        }
+      }
+    } catch (error: any) {
+      // Linear reports unknown IDs as "Entity not found"
+      if (/not found/i.test(error.message)) {
+        throw resourceNotFound(uri, error.message);
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Pin an issue (ID or identifier) so it is listed as a resource
+   */
+  async pin(issueId: string): Promise<ResourceListing> {
+    const { issue } = await this.client.request<
+      {
+        issue: {
+          id: string;
+          identifier: string;
+          title: string;
+          team: { id: string; key: string };
+        } | null;
+      },
+      Record<string, unknown>
+    >(PIN_QUERY, { id: issueId });
+    if (!issue) throw new Error(`Issue not found: ${issueId}`);
+
+    const listing = {
+      uri: issueResourceUri(issue.identifier),
+      name: `📌 ${issue.identifier}: ${issue.title}`,
+      description: "Pinned issue",
+      mimeType: "text/markdown",
+      teams: [issue.team],
+      issueId: issue.id,
+    };
+    this.pins.set(issue.identifier, listing);
+    this.notifyListChanged();
+    return listing;
+  }
+
+  /**
+   * Unpin an issue by ID or identifier. Returns false when it wasn't pinned.
+   */
+  unpin(issueId: string): boolean {
+    const key = [...this.pins].find(
+      ([identifier, pin]) =>
+        identifier.toLowerCase() === issueId.toLowerCase() ||
+        pin.issueId === issueId,
+    )?.[0];
+    if (!key) return false;
+
+    this.pins.delete(key);
+    this.notifyListChanged();
+    return true;
+  }
+
+  pinned(): ResourceListing[] {
+    return [...this.pins.values()].map(({ issueId, ...listing }) => listing);
+  }
+
+  onListChanged(listener: () => void): () => void {
+    this.listeners.add(listener);
+    return () => this.listeners.delete(listener);
+  }
+
+  private notifyListChanged() {
+    for (const listener of this.listeners) listener();
+  }
+}
@@ -0,0 +1,207 @@
+import { createHmac, timingSafeEqual } from "crypto";
+import * as fs from "fs";
+import * as path from "path";
+// express has no default export without esModuleInterop, which Jest lacks
+import express = require("express");
+
+/** Header carrying the HMAC-SHA256 signature of the raw body */
+export const LINEAR_SIGNATURE_HEADER = "linear-signature";
+
+/**
+ * How old a delivery may be. Linear signs `webhookTimestamp` into the
+ * body, so an old but validly signed payload is a replay.
+ */
+export const MAX_WEBHOOK_AGE_MS = 60_000;
+
+/**
+ * A webhook delivery from Linear. `updatedFrom` holds the previous values
+ * of the fields an update changed.
+ */
+export interface LinearWebhookPayload {
+  action: "create" | "update" | "remove" | string;
+  type: string;
+  data: Record<string, any>;
+  updatedFrom?: Record<string, any>;
+  actor?: { id: string; name?: string; type?: string };
+  url?: string;
+  createdAt?: string;
+  organizationId?: string;
+  webhookId?: string;
+  webhookTimestamp?: number;
+}
+
+/**
+ * Reacts to verified (or replayed) webhook payloads
+ */
+export type WebhookHandler = (payload: LinearWebhookPayload) => Promise<void>;
+
+/**
+ * A rejected delivery and the HTTP status to answer it with
+ */
+export class WebhookError extends Error {
+  constructor(
+    readonly status: number,
+    message: string,
+  ) {
+    super(message);
+    this.name = "WebhookError";
+  }
+}
+
+/**
+ * `<type>.<action>` of a payload, e.g. "issue.update"
+ */
+export const webhookEvent = (payload: LinearWebhookPayload) =>
+  `${payload.type.toLowerCase()}.${payload.action}`;
+
+/**
+ * Whether `signature` is the hex HMAC-SHA256 of the body under `secret`
+ */
+export function verifyLinearSignature(
+  rawBody: Buffer | string,
+  signature: string | undefined,
+  secret: string,
+): boolean {
+  if (!signature) return false;
+  const expected = createHmac("sha256", secret).update(rawBody).digest();
+  const given = Buffer.from(signature, "hex");
+  return given.length === expected.length && timingSafeEqual(given, expected);
+}
+
+/**
+ * Verify and parse a delivery, throwing a WebhookError for a bad
+ * signature, malformed body or stale timestamp
+ */
+export function parseLinearWebhook(
+  rawBody: Buffer | string,
+  signature: string | undefined,
+  secret: string,
+  now = Date.now(),
+): LinearWebhookPayload {
+  if (!verifyLinearSignature(rawBody, signature, secret)) {
+    throw new WebhookError(401, "Invalid webhook signature");
+  }
+
+  let payload: LinearWebhookPayload;
+  try {
+    payload = JSON.parse(rawBody.toString());
+  } catch {
+    throw new WebhookError(400, "Webhook body is not JSON");
+  }
+  if (!payload?.type || !payload.action || !payload.data) {
+    throw new WebhookError(400, "Webhook body is not a Linear payload");
+  }
+
+  const age = now - Number(payload.webhookTimestamp);
+  if (!(Math.abs(age) <= MAX_WEBHOOK_AGE_MS)) {
+    throw new WebhookError(401, "Webhook timestamp is too old");
+  }
+  return payload;
+}
+
+/**
+ * Run every handler on a payload. A failing handler is logged and doesn't
+ * stop the others.
+ */
+export async function dispatchWebhook(
+  payload: LinearWebhookPayload,
+  handlers: WebhookHandler[],
+): Promise<void> {
+  for (const handler of handlers) {
+    try {
+      await handler(payload);
+    } catch (error: any) {
+      console.error(
+        `❌ Webhook handler failed for ${webhookEvent(payload)}: ${error.message}`,
+      );
+    }
+  }
+}
+
+export interface WebhookAppOptions {
+  /** Signing secret shown when the webhook was created in Linear */
+  secret: string;
+  handlers: WebhookHandler[];
+  /** Save each verified payload here, to replay it later */
+  recordDir?: string;
+}
+
+/**
+ * Save a payload as `<timestamp>-<type>-<action>.json`
+ */
+export function recordWebhookPayload(
+  dir: string,
+  payload: LinearWebhookPayload,
+): string {
+  fs.mkdirSync(dir, { recursive: true });
+  const file = path.join(
+    dir,
+    `${payload.webhookTimestamp ?? Date.now()}-${webhookEvent(payload).replace(".", "-")}.json`,
+  );
+  fs.writeFileSync(file, JSON.stringify(payload, null, 2));
+  return file;
+}
+
+/**
+ * An express app receiving Linear webhooks on POST /webhooks/linear.
+ * Deliveries are acknowledged once verified and handled afterwards, so
+ * slow handlers don't make Linear retry.
+ */
+export function createWebhookApp(options: WebhookAppOptions) {
+  const app = express();
+
+  app.get("/health", (_req, res) => {
+    res.json({ status: "ok" });
+  });
+
+  app.post(
+    "/webhooks/linear",
+    express.raw({ type: "*/*", limit: "1mb" }),
+    (req, res) => {
+      let payload: LinearWebhookPayload;
+      try {
+        payload = parseLinearWebhook(
+          Buffer.isBuffer(req.body) ? req.body : Buffer.alloc(0),
+          req.get(LINEAR_SIGNATURE_HEADER),
+          options.secret,
+        );
+      } catch (error: any) {
+        const status = error instanceof WebhookError ? error.status : 400;
+        res.status(status).json({ error: error.message });
+        return;
+      }
+
+      if (options.recordDir) {
+        recordWebhookPayload(options.recordDir, payload);
+      }
+      res.json({ received: true });
+      void dispatchWebhook(payload, options.handlers);
+    },
+  );
+
+  return app;
+}
+
+/**
+ * Load recorded payloads from JSON files, or every .json file in a
+ * directory, in file name order
+ */
+export function readRecordedPayloads(paths: string[]): Array<{
+  file: string;
+  payload: LinearWebhookPayload;
+}> {
+  const files = paths.flatMap((p) =>
+    fs.statSync(p).isDirectory()
+      ? fs
+          .readdirSync(p)
+          .filter((name) => name.endsWith(".json"))
+          .sort()
+          .map((name) => path.join(p, name))
+      : [p],
+  );
+
+  return files.map((file) => ({
+    file,
+    payload: JSON.parse(fs.readFileSync(file, "utf8")),
+  }));
+}
@@ -0,0 +1,165 @@
+import { Server } from "@modelcontextprotocol/sdk/server/index.js";
+import {
+  ErrorCode,
+  GetPromptRequestSchema,
+  GetPromptResult,
+  ListPromptsRequestSchema,
+  McpError,
+} from "@modelcontextprotocol/sdk/types.js";
+import { z } from "zod";
+import {
+  McpToolset,
+  ServeToolsOptions,
+  ToolDefinition,
+  argumentIssues,
+  callTool,
+} from "./mcp-tools";
+
+/**
+ * Runs one of the server's tools and returns its parsed JSON result.
+ * Calls go through the same policy, scope checks and journal as calls
+ * from the client.
+ */
+export type ToolCaller = (
+  name: string,
+  args?: Record<string, unknown>,
+) => Promise<any>;
+
+/**
+ * A prompt template. MCP passes prompt arguments as strings, so the schema
+ * should only use (optional) string fields.
+ */
+export interface PromptDefinition<S extends z.AnyZodObject = z.AnyZodObject> {
+  name: string;
+  description: string;
+  schema: S;
+  /** Builds the prompt text from data gathered with the server's tools */
+  handler: (args: z.infer<S>, callTool: ToolCaller) => Promise<string>;
+}
+
+/**
+ * Define a prompt, inferring the handler's argument type from its schema
+ */
+export function definePrompt<S extends z.AnyZodObject>(
+  prompt: PromptDefinition<S>,
+): PromptDefinition {
+  return prompt as unknown as PromptDefinition;
+}
+
+/**
+ * Prompts as advertised in ListPrompts
+ */
+export function listPrompts(prompts: PromptDefinition[]) {
+  return prompts.map((prompt) => ({
+    name: prompt.name,
+    description: prompt.description,
+    arguments: Object.entries(
+      prompt.schema.shape as Record<string, z.ZodTypeAny>,
+    ).map(([name, field]) => ({
+      name,
+      description: field.description,
+      required: !field.isOptional(),
+    })),
+  }));
+}
+
+/**
+ * A ToolCaller over a set of tools. Error results are thrown, so a prompt
+ * is never built from a failed call.
+ */
+export function toolCaller(
+  tools: ToolDefinition[],
+  options: ServeToolsOptions,
+): ToolCaller {
+  return async (name, args = {}) => {
+    const result = await callTool(tools, name, args, options);
+    const text = result.content[0]?.text ?? "";
+    const data = JSON.parse(text);
+    if (result.isError || data?.success === false) {
+      throw new Error(`${name} failed: ${data?.error ?? text}`);
+    }
+    return data;
+  };
+}
+
+/**
+ * Build a prompt by name. Unknown prompts and invalid arguments are
+ * reported as InvalidParams errors.
+ */
+export async function getPrompt(
+  prompts: PromptDefinition[],
+  name: string,
+  args: unknown,
+  call: ToolCaller,
+): Promise<GetPromptResult> {
+  const prompt = prompts.find((p) => p.name === name);
+  if (!prompt) {
+    throw new McpError(ErrorCode.InvalidParams, `Unknown prompt: ${name}`);
+  }
+
+  const parsed = prompt.schema.safeParse(args ?? {});
+  if (!parsed.success) {
+    const issues = argumentIssues(parsed.error);
+    throw new McpError(
+      ErrorCode.InvalidParams,
+      `Invalid arguments for prompt ${name}: ${issues
+        .map((issue) => `${issue.path}: ${issue.message}`)
+        .join("; ")}`,
+      { prompt: name, issues },
+    );
+  }
+
+  return {
+    description: prompt.description,
+    messages: [
+      {
+        role: "user",
+        content: {
+          type: "text",
+          text: await prompt.handler(parsed.data, call),
+        },
+      },
+    ],
+  };
+}
+
+/**
+ * Register ListPrompts and GetPrompt handlers
+ */
+export function servePrompts(
+  server: Server,
+  prompts: PromptDefinition[],
+  call: ToolCaller,
+): void {
+  server.setRequestHandler(ListPromptsRequestSchema, async () => ({
+    prompts: listPrompts(prompts),
+  }));
+
+  server.setRequestHandler(GetPromptRequestSchema, async (request) =>
+    getPrompt(prompts, request.params.name, request.params.arguments, call),
+  );
+}
+
+/**
+ * A toolset's prompts renamed to `<namespace>.<prompt>`, gathering their
+ * data through the toolset's own tools and options
+ */
+export function mountPrompts(
+  namespace: string,
+  toolset: McpToolset,
+  options: Pick<ServeToolsOptions, "policy">,
+): PromptDefinition[] {
+  const call = toolCaller(toolset.tools, { ...toolset.options, ...options });
+
+  return (toolset.prompts ?? []).map((prompt) => ({
+    ...prompt,
+    name: `${namespace}.${prompt.name}`,
+    handler: (args) => prompt.handler(args, call),
+  }));
+}
+
+/**
+ * JSON for embedding tool results in a prompt
+ */
+export const promptJson = (value: unknown) =>
+  "```json\n" + JSON.stringify(value, null, 2) + "\n```";
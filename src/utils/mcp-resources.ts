@@ -0,0 +1,207 @@
+import { createHash } from "crypto";
+import { Server } from "@modelcontextprotocol/sdk/server/index.js";
+import {
+  ErrorCode,
+  ListResourceTemplatesRequestSchema,
+  ListResourcesRequestSchema,
+  McpError,
+  ReadResourceRequestSchema,
+  SubscribeRequestSchema,
+  UnsubscribeRequestSchema,
+} from "@modelcontextprotocol/sdk/types.js";
+import { ScopeTeam, ToolPolicy, inAllowedTeams } from "./tool-policy";
+
+/** How often subscribed resources are re-read to detect changes */
+export const DEFAULT_RESOURCE_POLL_MS = 60_000;
+
+/** JSON-RPC error code the MCP spec uses for unknown resources */
+export const RESOURCE_NOT_FOUND = -32002;
+
+/**
+ * A resource URI pattern advertised to clients, e.g. `linear://issue/{identifier}`
+ */
+export interface ResourceTemplate {
+  uriTemplate: string;
+  name: string;
+  description: string;
+  mimeType: string;
+}
+
+/**
+ * A concrete resource in the resource list
+ */
+export interface ResourceListing {
+  uri: string;
+  name: string;
+  description?: string;
+  mimeType: string;
+  /** Teams the resource belongs to, for team scoping */
+  teams: ScopeTeam[];
+}
+
+/**
+ * A resource as read, rendered for the client
+ */
+export interface ResourceContent {
+  uri: string;
+  mimeType: string;
+  text: string;
+  teams: ScopeTeam[];
+}
+
+/**
+ * Source of readable resources for an MCP server
+ */
+export interface ResourceProvider {
+  templates: ResourceTemplate[];
+  list(): Promise<ResourceListing[]>;
+  /** Throws `resourceNotFound` for URIs it doesn't serve */
+  read(uri: string): Promise<ResourceContent>;
+  /** Called when `list()` would return something different */
+  onListChanged?(listener: () => void): () => void;
+}
+
+/**
+ * Error for a URI that doesn't name a resource
+ */
+export function resourceNotFound(uri: string, reason?: string): McpError {
+  return new McpError(
+    RESOURCE_NOT_FOUND,
+    `Resource not found: ${uri}${reason ? ` (${reason})` : ""}`,
+    { uri },
+  );
+}
+
+/**
+ * Only the resources of the policy's teams: others are left out of the
+ * list and refused when read
+ */
+export function scopeResources(
+  provider: ResourceProvider,
+  policy: ToolPolicy,
+): ResourceProvider {
+  if (!policy.teams) return provider;
+
+  return {
+    templates: provider.templates,
+    list: async () =>
+      (await provider.list()).filter((resource) =>
+        inAllowedTeams(policy, resource.teams),
+      ),
+    read: async (uri) => {
+      const content = await provider.read(uri);
+      if (!inAllowedTeams(policy, content.teams)) {
+        throw new McpError(
+          ErrorCode.InvalidRequest,
+          `Resource ${uri} is outside the allowed teams (${policy.teams!.join(", ")})`,
+          { uri },
+        );
+      }
+      return content;
+    },
+    onListChanged: provider.onListChanged?.bind(provider),
+  };
+}
+
+/**
+ * Several providers as one. Reads go to the first provider that serves
+ * the URI.
+ */
+export function combineResources(
+  providers: ResourceProvider[],
+): ResourceProvider {
+  return {
+    templates: providers.flatMap((provider) => provider.templates),
+    list: async () =>
+      (await Promise.all(providers.map((provider) => provider.list()))).flat(),
+    read: async (uri) => {
+      for (const provider of providers) {
+        try {
+          return await provider.read(uri);
+        } catch (error: any) {
+          if (error.code !== RESOURCE_NOT_FOUND) throw error;
+        }
+      }
+      throw resourceNotFound(uri);
+    },
+    onListChanged: (listener) => {
+      const stops = providers.map((provider) =>
+        provider.onListChanged?.(listener),
+      );
+      return () => stops.forEach((stop) => stop?.());
+    },
+  };
+}
+
+const digest = (text: string) =>
+  createHash("sha256").update(text).digest("hex");
+
+/**
+ * Register resource handlers. Subscribed resources are re-read every
+ * `pollIntervalMs` and clients are notified when their content changes.
+ */
+export function serveResources(
+  server: Server,
+  provider: ResourceProvider,
+  pollIntervalMs = DEFAULT_RESOURCE_POLL_MS,
+): void {
+  const subscriptions = new Map<string, string>();
+
+  server.setRequestHandler(ListResourceTemplatesRequestSchema, async () => ({
+    resourceTemplates: provider.templates,
+  }));
+
+  server.setRequestHandler(ListResourcesRequestSchema, async () => ({
+    resources: (await provider.list()).map(
+      ({ teams, ...resource }) => resource,
+    ),
+  }));
+
+  server.setRequestHandler(ReadResourceRequestSchema, async (request) => {
+    const { uri, mimeType, text } = await provider.read(request.params.uri);
+    return { contents: [{ uri, mimeType, text }] };
+  });
+
+  server.setRequestHandler(SubscribeRequestSchema, async (request) => {
+    const { uri } = request.params;
+    subscriptions.set(uri, digest((await provider.read(uri)).text));
+    return {};
+  });
+
+  server.setRequestHandler(UnsubscribeRequestSchema, async (request) => {
+    subscriptions.delete(request.params.uri);
+    return {};
+  });
+
+  const poll = async () => {
+    for (const [uri, previous] of subscriptions) {
+      try {
+        const current = digest((await provider.read(uri)).text);
+        if (current !== previous && subscriptions.has(uri)) {
+          subscriptions.set(uri, current);
+          await server.sendResourceUpdated({ uri });
+        }
+      } catch (error: any) {
+        console.error(`Could not refresh resource ${uri}: ${error.message}`);
+      }
+    }
+  };
+  let polling = false;
+  const timer = setInterval(async () => {
+    if (polling || subscriptions.size === 0) return;
+    polling = true;
+    await poll().finally(() => (polling = false));
+  }, pollIntervalMs);
+  timer.unref();
+
+  const stopListening = provider.onListChanged?.(() => {
+    server.sendResourceListChanged().catch(() => undefined);
+  });
+
+  const previousOnClose = server.onclose;
+  server.onclose = () => {
+    clearInterval(timer);
+    stopListening?.();
+    previousOnClose?.();
+  };
+}
@@ -0,0 +1,113 @@
+import { Server } from "@modelcontextprotocol/sdk/server/index.js";
+import { LogLevel, Logger } from "./logger";
+import { servePrompts, toolCaller } from "./mcp-prompts";
+import {
+  DEFAULT_RESOURCE_POLL_MS,
+  scopeResources,
+  serveResources,
+} from "./mcp-resources";
+import { McpToolset, ServeToolsOptions, serveTools } from "./mcp-tools";
+import { readTransportOptions, startMcpServer } from "./mcp-transport";
+import { describeToolPolicy, loadToolPolicy } from "./tool-policy";
+
+/**
+ * Settings every MCP server shares, whether standalone or in the gateway
+ */
+export interface McpRuntimeConfig {
+  logger?: Logger;
+  /** How often subscribed resources are checked for changes */
+  resourcePollMs: number;
+}
+
+/**
+ * Read the resource poll interval (MCP_RESOURCE_POLL_MS) and the tool call
+ * log. Calls are logged to MCP_LOG_FILE at MCP_LOG_LEVEL (default: info)
+ * when it is set; never to stdout, which carries the stdio transport.
+ * Retries happen per API request, in each server's resilient client.
+ */
+export function readRuntimeConfig(
+  env: NodeJS.ProcessEnv = process.env,
+): McpRuntimeConfig {
+  const levelName = (env.MCP_LOG_LEVEL || "info").toUpperCase();
+  const level = LogLevel[levelName as keyof typeof LogLevel];
+  if (level === undefined) {
+    throw new Error("MCP_LOG_LEVEL must be one of debug, info, warn, error");
+  }
+  const resourcePollMs = Number(
+    env.MCP_RESOURCE_POLL_MS ?? DEFAULT_RESOURCE_POLL_MS,
+  );
+  if (!Number.isInteger(resourcePollMs) || resourcePollMs < 1000) {
+    throw new Error("MCP_RESOURCE_POLL_MS must be an integer of at least 1000");
+  }
+
+  return {
+    logger: env.MCP_LOG_FILE
+      ? new Logger(level, env.MCP_LOG_FILE, false)
+      : undefined,
+    resourcePollMs,
+  };
+}
+
+/**
+ * A fresh MCP server for a toolset. HTTP sessions each get their own.
+ */
+export function createToolsetServer(
+  toolset: McpToolset,
+  options: Partial<ServeToolsOptions> & { resourcePollMs?: number } = {},
+): Server {
+  const server = new Server(
+    {
+      name: toolset.name,
+      version: "1.0.0",
+    },
+    {
+      capabilities: {
+        tools: {},
+        ...(toolset.resources && {
+          resources: { subscribe: true, listChanged: true },
+        }),
+        ...(toolset.prompts && { prompts: {} }),
+      },
+    },
+  );
+
+  const { resourcePollMs, ...serveOptions } = options;
+  const toolOptions = { ...toolset.options, ...serveOptions };
+  serveTools(server, toolset.tools, toolOptions);
+  if (toolset.prompts) {
+    servePrompts(
+      server,
+      toolset.prompts,
+      toolCaller(toolset.tools, toolOptions),
+    );
+  }
+  if (toolset.resources) {
+    serveResources(
+      server,
+      options.policy
+        ? scopeResources(toolset.resources, options.policy)
+        : toolset.resources,
+      resourcePollMs,
+    );
+  }
+  return server;
+}
+
+/**
+ * Run a toolset as its own MCP server, over stdio or HTTP
+ */
+export async function serveToolset(
+  toolset: McpToolset,
+  defaultPort: number,
+): Promise<void> {
+  const policy = loadToolPolicy(toolset.name);
+  const runtime = readRuntimeConfig();
+
+  await startMcpServer(
+    toolset.label,
+    () => createToolsetServer(toolset, { policy, ...runtime }),
+    readTransportOptions(defaultPort),
+  );
+  const policySummary = describeToolPolicy(policy, toolset.tools);
+  if (policySummary) console.error(policySummary);
+}
@@ -0,0 +1,285 @@
+import { Server } from "@modelcontextprotocol/sdk/server/index.js";
+import {
+  CallToolRequestSchema,
+  ErrorCode,
+  ListToolsRequestSchema,
+  McpError,
+} from "@modelcontextprotocol/sdk/types.js";
+import { z } from "zod";
+import { zodToJsonSchema } from "zod-to-json-schema";
+import { Logger } from "./logger";
+import { PromptDefinition } from "./mcp-prompts";
+import { ResourceProvider } from "./mcp-resources";
+import {
+  ToolPolicy,
+  permittedTools,
+  policyViolation,
+  toolDenialReason,
+} from "./tool-policy";
+
+/**
+ * What a tool handler returns to the MCP client
+ */
+export type ToolResult = {
+  content: Array<{ type: "text"; text: string }>;
+  isError?: boolean;
+};
+
+/**
+ * What a handler knows about a call besides its arguments
+ */
+export interface ToolContext {
+  /** Policy the call was checked against, for scoping what it returns */
+  policy?: ToolPolicy;
+  /** MCP transport session the call came in on; unset over stdio */
+  sessionId?: string;
+}
+
+/**
+ * A tool defined once: its zod input schema drives both the JSON schema
+ * advertised in ListTools and the validation of incoming arguments
+ */
+export interface ToolDefinition<S extends z.ZodTypeAny = z.ZodTypeAny> {
+  name: string;
+  description: string;
+  /** Only reads data; the tools left in read-only mode */
+  readOnly?: boolean;
+  /** Set on mounted tools that their toolset's policy refuses */
+  deniedReason?: string;
+  schema: S;
+  handler: (args: z.infer<S>, context: ToolContext) => Promise<ToolResult>;
+}
+
+/**
+ * Define a tool, inferring the handler's argument type from its schema.
+ * The result is widened so tools with different schemas fit in one list.
+ */
+export function defineTool<S extends z.ZodTypeAny>(
+  tool: ToolDefinition<S>,
+): ToolDefinition {
+  return tool as unknown as ToolDefinition;
+}
+
+/**
+ * One problem with a tool's arguments, as returned to the client
+ */
+export interface ArgumentIssue {
+  /** Dotted path to the argument, e.g. "issues.2.title" */
+  path: string;
+  message: string;
+  code: string;
+}
+
+/**
+ * JSON schema for a tool's input, as MCP clients expect it
+ */
+export function toInputSchema(schema: z.ZodTypeAny) {
+  const { $schema, ...jsonSchema } = zodToJsonSchema(schema, {
+    $refStrategy: "none",
+  }) as Record<string, unknown>;
+  return jsonSchema as { type: "object"; [key: string]: unknown };
+}
+
+/**
+ * Tool listing for a ListTools response
+ */
+export function listTools(tools: ToolDefinition[]) {
+  return tools.map((tool) => ({
+    name: tool.name,
+    description: tool.description,
+    inputSchema: toInputSchema(tool.schema),
+    ...(tool.readOnly && { annotations: { readOnlyHint: true } }),
+  }));
+}
+
+/**
+ * Flatten a zod error into one issue per invalid argument
+ */
+export function argumentIssues(error: z.ZodError): ArgumentIssue[] {
+  return error.issues.map((issue) => ({
+    path: issue.path.join(".") || "(arguments)",
+    message: issue.message,
+    code: issue.code,
+  }));
+}
+
+/**
+ * Validate a tool's arguments against its schema. Throws an MCP
+ * InvalidParams error listing every invalid argument.
+ */
+export function parseToolArgs<S extends z.ZodTypeAny>(
+  tool: ToolDefinition<S>,
+  args: unknown,
+): z.infer<S> {
+  const parsed = tool.schema.safeParse(args ?? {});
+  if (parsed.success) return parsed.data;
+
+  const issues = argumentIssues(parsed.error);
+  throw new McpError(
+    ErrorCode.InvalidParams,
+    `Invalid arguments for ${tool.name}: ${issues
+      .map((issue) => `${issue.path}: ${issue.message}`)
+      .join("; ")}`,
+    { tool: tool.name, issues },
+  );
+}
+
+/**
+ * Options for serving a set of tools
+ */
+export interface ServeToolsOptions {
+  /** Turns an error thrown by a handler into the server's error result */
+  errorResult: (error: any) => ToolResult;
+  /** Wraps every call, e.g. to journal it */
+  around?: (
+    name: string,
+    args: unknown,
+    run: () => Promise<ToolResult>,
+    context: ToolContext,
+  ) => Promise<ToolResult>;
+  /** Limits which tools are advertised and callable */
+  policy?: ToolPolicy;
+  /**
+   * Checks a permitted call's arguments against the policy's team or repo
+   * scope, returning why it is refused or null
+   */
+  checkScope?: (
+    tool: ToolDefinition,
+    args: any,
+    policy: ToolPolicy,
+  ) => Promise<string | null>;
+  /** Records every call with its outcome and duration */
+  logger?: Logger;
+}
+
+async function runTool(
+  tools: ToolDefinition[],
+  name: string,
+  args: unknown,
+  options: ServeToolsOptions,
+  sessionId: string | undefined,
+): Promise<ToolResult> {
+  const tool = tools.find((t) => t.name === name);
+  if (!tool) {
+    throw new McpError(ErrorCode.MethodNotFound, `Unknown tool: ${name}`);
+  }
+
+  const { policy } = options;
+  const denied =
+    tool.deniedReason ?? (policy && toolDenialReason(policy, tool));
+  if (denied) throw policyViolation(name, denied);
+
+  const input = parseToolArgs(tool, args);
+  const outOfScope =
+    policy && (await options.checkScope?.(tool, input, policy));
+  if (outOfScope) throw policyViolation(name, outOfScope);
+
+  const context: ToolContext = { policy, sessionId };
+  const run = async () => {
+    try {
+      return await tool.handler(input, context);
+    } catch (error: any) {
+      if (error instanceof McpError) throw error;
+      return options.errorResult(error);
+    }
+  };
+  return options.around ? options.around(name, input, run, context) : run();
+}
+
+/**
+ * Validate arguments and run a tool by name. Unknown tools, calls outside
+ * the policy and invalid arguments are reported as MCP errors; other
+ * handler errors go through `errorResult`. `sessionId` is the MCP
+ * transport session the call came in on.
+ */
+export async function callTool(
+  tools: ToolDefinition[],
+  name: string,
+  args: unknown,
+  options: ServeToolsOptions,
+  sessionId?: string,
+): Promise<ToolResult> {
+  const started = Date.now();
+  try {
+    const result = await runTool(tools, name, args, options, sessionId);
+    options.logger?.info(
+      `Tool ${name} ${result.isError ? "failed" : "succeeded"}`,
+      { tool: name, durationMs: Date.now() - started },
+    );
+    return result;
+  } catch (error: any) {
+    options.logger?.warn(`Tool ${name} rejected: ${error.message}`, {
+      tool: name,
+      durationMs: Date.now() - started,
+    });
+    throw error;
+  }
+}
+
+/**
+ * Register ListTools and CallTool handlers for a set of tools. Only tools
+ * the policy permits are listed.
+ */
+export function serveTools(
+  server: Server,
+  tools: ToolDefinition[],
+  options: ServeToolsOptions,
+): void {
+  server.setRequestHandler(ListToolsRequestSchema, async () => ({
+    tools: listTools(
+      (options.policy ? permittedTools(tools, options.policy) : tools).filter(
+        (tool) => !tool.deniedReason,
+      ),
+    ),
+  }));
+
+  server.setRequestHandler(CallToolRequestSchema, async (request, extra) =>
+    callTool(
+      tools,
+      request.params.name,
+      request.params.arguments,
+      options,
+      extra.sessionId,
+    ),
+  );
+}
+
+/**
+ * A server's tools and how to serve them, so they can run on their own or
+ * be mounted in the gateway
+ */
+export interface McpToolset {
+  /** Server name, also the section of the policy file that applies */
+  name: string;
+  /** Human-readable name for startup logs */
+  label: string;
+  tools: ToolDefinition[];
+  options: ServeToolsOptions;
+  /** Resources served alongside the tools */
+  resources?: ResourceProvider;
+  /** Prompt templates built from the toolset's tools */
+  prompts?: PromptDefinition[];
+}
+
+/**
+ * A toolset's tools renamed to `<namespace>.<tool>`. Tools its policy
+ * refuses stay mounted but unlisted, so calling one still explains why.
+ * Each call runs through the toolset's own validation, scope checks,
+ * journaling and error results.
+ */
+export function mountToolset(
+  namespace: string,
+  toolset: McpToolset,
+  options: Pick<ServeToolsOptions, "policy">,
+): ToolDefinition[] {
+  const serveOptions = { ...toolset.options, ...options };
+
+  return toolset.tools.map((tool) => ({
+    ...tool,
+    name: `${namespace}.${tool.name}`,
+    deniedReason:
+      (options.policy && toolDenialReason(options.policy, tool)) || undefined,
+    handler: (args, { sessionId }) =>
+      callTool(toolset.tools, tool.name, args, serveOptions, sessionId),
+  }));
+}
@@ -0,0 +1,184 @@
+import { createHash, randomUUID, timingSafeEqual } from "crypto";
+import * as http from "http";
+import { Server } from "@modelcontextprotocol/sdk/server/index.js";
+import { SSEServerTransport } from "@modelcontextprotocol/sdk/server/sse.js";
+import { StdioServerTransport } from "@modelcontextprotocol/sdk/server/stdio.js";
+import { StreamableHTTPServerTransport } from "@modelcontextprotocol/sdk/server/streamableHttp.js";
+
+/**
+ * How an MCP server is exposed: stdio for a single editor, or HTTP so one
+ * long-running process can serve several clients
+ */
+export interface TransportOptions {
+  http: boolean;
+  host: string;
+  port: number;
+  /** Bearer token every HTTP request must carry */
+  authToken?: string;
+}
+
+/**
+ * Read `--http`, `--host` and `--port` flags, falling back to the
+ * MCP_TRANSPORT, MCP_HTTP_HOST and MCP_HTTP_PORT environment variables.
+ * HTTP requires MCP_AUTH_TOKEN.
+ */
+export function readTransportOptions(
+  defaultPort: number,
+  argv: string[] = process.argv.slice(2),
+  env: NodeJS.ProcessEnv = process.env,
+): TransportOptions {
+  const options: TransportOptions = {
+    http: env.MCP_TRANSPORT?.toLowerCase() === "http",
+    host: env.MCP_HTTP_HOST || "127.0.0.1",
+    port: env.MCP_HTTP_PORT ? Number(env.MCP_HTTP_PORT) : defaultPort,
+    authToken: env.MCP_AUTH_TOKEN || undefined,
+  };
+  for (let i = 0; i < argv.length; i++) {
+    const a = argv[i];
+    if (a === "--http") options.http = true;
+    else if (a === "--stdio") options.http = false;
+    else if (a === "--host") options.host = argv[++i];
+    else if (a === "--port") options.port = Number(argv[++i]);
+  }
+
+  if (options.http) {
+    if (!Number.isInteger(options.port) || options.port < 0) {
+      throw new Error("--port must be a port number");
+    }
+    if (!options.authToken) {
+      throw new Error("MCP_AUTH_TOKEN is required for the HTTP transport");
+    }
+  }
+  return options;
+}
+
+/**
+ * Whether an Authorization header carries the expected bearer token
+ */
+export function hasBearerToken(
+  header: string | undefined,
+  token: string,
+): boolean {
+  const match = /^Bearer\s+(.+)$/i.exec(header?.trim() ?? "");
+  if (!match) return false;
+  // Compare digests so the check takes the same time whatever the length
+  const digest = (value: string) => createHash("sha256").update(value).digest();
+  return timingSafeEqual(digest(match[1]), digest(token));
+}
+
+function sendError(
+  res: http.ServerResponse,
+  status: number,
+  message: string,
+  headers: Record<string, string> = {},
+) {
+  res.writeHead(status, { "Content-Type": "application/json", ...headers });
+  res.end(
+    JSON.stringify({
+      jsonrpc: "2.0",
+      error: { code: -32000, message },
+      id: null,
+    }),
+  );
+}
+
+/**
+ * HTTP server for MCP clients. Streamable HTTP is served at `/mcp`, and the
+ * older SSE transport at `/sse` with messages posted to `/messages`. Every
+ * session gets its own MCP server from `createServer`.
+ */
+export function createMcpHttpServer(
+  createServer: () => Server,
+  authToken: string,
+): http.Server {
+  const sessions = new Map<string, StreamableHTTPServerTransport>();
+  const sseSessions = new Map<string, SSEServerTransport>();
+
+  const handleStreamable = async (
+    req: http.IncomingMessage,
+    res: http.ServerResponse,
+  ) => {
+    const sessionId = req.headers["mcp-session-id"];
+    if (typeof sessionId === "string") {
+      const transport = sessions.get(sessionId);
+      if (!transport) return sendError(res, 404, "Session not found");
+      return transport.handleRequest(req, res);
+    }
+    if (req.method !== "POST") {
+      return sendError(res, 400, "Bad Request: missing mcp-session-id header");
+    }
+
+    // No session yet: the transport accepts only an initialize request here
+    const transport: StreamableHTTPServerTransport =
+      new StreamableHTTPServerTransport({
+        sessionIdGenerator: () => randomUUID(),
+        onsessioninitialized: (id) => {
+          sessions.set(id, transport);
+        },
+      });
+    transport.onclose = () => {
+      if (transport.sessionId) sessions.delete(transport.sessionId);
+    };
+    await createServer().connect(transport);
+    await transport.handleRequest(req, res);
+  };
+
+  const handleSse = async (res: http.ServerResponse) => {
+    const transport = new SSEServerTransport("/messages", res);
+    sseSessions.set(transport.sessionId, transport);
+    res.on("close", () => sseSessions.delete(transport.sessionId));
+    await createServer().connect(transport);
+  };
+
+  return http.createServer(async (req, res) => {
+    try {
+      if (!hasBearerToken(req.headers.authorization, authToken)) {
+        return sendError(res, 401, "Unauthorized", {
+          "WWW-Authenticate": "Bearer",
+        });
+      }
+
+      const url = new URL(req.url ?? "/", "http://localhost");
+      if (url.pathname === "/mcp") return await handleStreamable(req, res);
+      if (url.pathname === "/sse" && req.method === "GET") {
+        return await handleSse(res);
+      }
+      if (url.pathname === "/messages" && req.method === "POST") {
+        const transport = sseSessions.get(
+          url.searchParams.get("sessionId") ?? "",
+        );
+        if (!transport) return sendError(res, 404, "Session not found");
+        return await transport.handlePostMessage(req, res);
+      }
+      sendError(res, 404, "Not found");
+    } catch (error: any) {
+      console.error("MCP HTTP request failed:", error);
+      if (!res.headersSent) sendError(res, 500, "Internal server error");
+    }
+  });
+}
+
+/**
+ * Connect an MCP server over stdio, or serve it over HTTP
+ */
+export async function startMcpServer(
+  label: string,
+  createServer: () => Server,
+  options: TransportOptions,
+): Promise<void> {
+  if (!options.http) {
+    await createServer().connect(new StdioServerTransport());
+    console.error(`${label} MCP Server running on stdio`);
+    return;
+  }
+
+  const httpServer = createMcpHttpServer(createServer, options.authToken!);
+  await new Promise<void>((resolve, reject) => {
+    httpServer.once("error", reject);
+    httpServer.listen(options.port, options.host, resolve);
+  });
+  const base = `http://${options.host}:${options.port}`;
+  console.error(
+    `${label} MCP Server running on ${base}/mcp (SSE: ${base}/sse)`,
+  );
+}
@@ -0,0 +1,104 @@
+import {
+  ProgressIssue,
+  ProgressSummary,
+  summarizeProgress,
+} from "./issue-progress";
+
+/**
+ * Project milestone fields read from the Linear SDK
+ */
+export interface MilestoneLike {
+  id: string;
+  name: string;
+  description?: string | null;
+  targetDate?: string | null;
+  sortOrder: number;
+  status?: string;
+}
+
+/**
+ * Milestone as returned by the MCP tools
+ */
+export interface MilestoneSummary {
+  id: string;
+  name: string;
+  description: string | null;
+  targetDate: string | null;
+  sortOrder: number;
+  /** Linear's milestone status: unstarted, next, overdue or done */
+  status: string | null;
+}
+
+/**
+ * A milestone together with the progress of its issues
+ */
+export interface MilestoneProgress extends MilestoneSummary {
+  progress: ProgressSummary;
+}
+
+export function toMilestoneSummary(milestone: MilestoneLike): MilestoneSummary {
+  return {
+    id: milestone.id,
+    name: milestone.name,
+    description: milestone.description ?? null,
+    targetDate: milestone.targetDate ?? null,
+    sortOrder: milestone.sortOrder,
+    status: milestone.status ?? null,
+  };
+}
+
+/**
+ * Check a milestone target date. Linear stores these without a time,
+ * so only YYYY-MM-DD is accepted.
+ */
+export function parseTargetDate(value: string): string {
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(value) || isNaN(new Date(value).getTime())) {
+    throw new Error(`Invalid targetDate: ${value} (expected YYYY-MM-DD)`);
+  }
+  return value;
+}
+
+/**
+ * Milestones in display order: by sort order, then by name so
+ * version-numbered milestones ("1.1 Setup", "1.2 Database") line up
+ */
+export function sortMilestones<T extends MilestoneSummary>(
+  milestones: T[],
+): T[] {
+  return [...milestones].sort(
+    (a, b) =>
+      a.sortOrder - b.sortOrder ||
+      a.name.localeCompare(b.name, undefined, { numeric: true }),
+  );
+}
+
+/**
+ * Group a project's issues by milestone and summarize each group.
+ * Issues without a milestone are summarized under `unassigned`.
+ */
+export function summarizeMilestones(
+  milestones: MilestoneLike[],
+  issues: ProgressIssue[],
+): { milestones: MilestoneProgress[]; unassigned: ProgressSummary } {
+  const byMilestone = new Map<string, ProgressIssue[]>(
+    milestones.map((milestone) => [milestone.id, []]),
+  );
+  const unassigned: ProgressIssue[] = [];
+
+  for (const issue of issues) {
+    const group = issue.milestoneId
+      ? byMilestone.get(issue.milestoneId)
+      : undefined;
+    (group ?? unassigned).push(issue);
+  }
+
+  return {
+    milestones: sortMilestones(
+      milestones.map((milestone) => ({
+        ...toMilestoneSummary(milestone),
+        progress: summarizeProgress(byMilestone.get(milestone.id)!),
+      })),
+    ),
+    unassigned: summarizeProgress(unassigned),
+  };
+}
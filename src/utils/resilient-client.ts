@@ -0,0 +1,208 @@
+import { LinearClient } from "@linear/sdk";
+import axios, {
+  AxiosInstance,
+  CreateAxiosDefaults,
+  InternalAxiosRequestConfig,
+} from "axios";
+import { HttpFixtures, readHttpFixtures } from "./http-fixtures";
+import {
+  RetryOptions,
+  isTransientError,
+  readRetryOptions,
+  wasNotProcessed,
+  withRetry,
+} from "./retry";
+
+/** Requests in flight per client */
+export const DEFAULT_MAX_CONCURRENCY = 4;
+
+/** Linear's GraphQL endpoint */
+export const LINEAR_API_URL = "https://api.linear.app/graphql";
+
+/**
+ * Where Linear requests go: LINEAR_API_URL when set (e.g. a fake Linear in
+ * tests), the real API otherwise
+ */
+export function linearApiUrl(env: NodeJS.ProcessEnv = process.env): string {
+  return env.LINEAR_API_URL?.trim() || LINEAR_API_URL;
+}
+
+/**
+ * Retry and concurrency settings of an API client
+ */
+export interface ClientOptions {
+  retry: RetryOptions;
+  /** Requests in flight at once; the rest wait their turn */
+  maxConcurrency: number;
+  /** Records or replays responses, per HTTP_FIXTURES */
+  fixtures?: HttpFixtures | null;
+}
+
+/**
+ * Client settings from <prefix>_RETRY_ATTEMPTS, <prefix>_RETRY_DELAY_MS and
+ * <prefix>_MAX_CONCURRENCY. Scripts use the API_ prefix, MCP servers MCP_.
+ * HTTP_FIXTURES applies to every client alike.
+ */
+export function readClientOptions(
+  env: NodeJS.ProcessEnv = process.env,
+  prefix = "API",
+): ClientOptions {
+  const name = `${prefix}_MAX_CONCURRENCY`;
+  const maxConcurrency = env[name]
+    ? Number(env[name])
+    : DEFAULT_MAX_CONCURRENCY;
+
+  if (!Number.isInteger(maxConcurrency) || maxConcurrency < 1) {
+    throw new Error(`${name} must be a positive integer`);
+  }
+  return {
+    retry: readRetryOptions(env, prefix),
+    maxConcurrency,
+    fixtures: readHttpFixtures(env),
+  };
+}
+
+/**
+ * Runs tasks with at most a fixed number in flight, in arrival order
+ */
+export type Limiter = <T>(task: () => Promise<T>) => Promise<T>;
+
+export function createLimiter(maxConcurrency: number): Limiter {
+  let active = 0;
+  const queue: Array<() => void> = [];
+
+  const next = () => {
+    if (active >= maxConcurrency || queue.length === 0) return;
+    active++;
+    queue.shift()!();
+  };
+
+  return (task) =>
+    new Promise((resolve, reject) => {
+      queue.push(() =>
+        Promise.resolve()
+          .then(task)
+          .then(resolve, reject)
+          .finally(() => {
+            active--;
+            next();
+          }),
+      );
+      next();
+    });
+}
+
+const describeFailure = (error: any) =>
+  error?.response?.status
+    ? `HTTP ${error.response.status}`
+    : (error?.code ?? error?.type ?? error?.message);
+
+/**
+ * Log a retry to stderr; stdout carries the MCP stdio transport
+ */
+const logRetry =
+  (label: string, attempts: number) =>
+  (error: any, attempt: number, delayMs: number) =>
+    console.error(
+      `⚠️  ${label} request failed (${describeFailure(error)}), retrying in ${(delayMs / 1000).toFixed(1)}s (attempt ${attempt + 1}/${attempts})`,
+    );
+
+const GRAPHQL_MUTATION = /^\s*mutation\b/m;
+
+/**
+ * Whether sending a request twice is harmless: reads, PUT/DELETE, and
+ * GraphQL queries sent by POST
+ */
+function isIdempotent(request: InternalAxiosRequestConfig): boolean {
+  const method = (request.method ?? "get").toLowerCase();
+  if (["get", "head", "options", "put", "delete"].includes(method)) {
+    return true;
+  }
+  try {
+    const body =
+      typeof request.data === "string" ? JSON.parse(request.data) : null;
+    return (
+      typeof body?.query === "string" && !GRAPHQL_MUTATION.test(body.query)
+    );
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * An axios instance whose requests share a concurrency limit and are
+ * retried on rate limits, server errors and dropped connections. Requests
+ * that may change data are only retried when the server didn't process
+ * them; streamed bodies are never resent. With fixtures, every attempt is
+ * recorded or replayed.
+ */
+export function resilientAxios(
+  config: CreateAxiosDefaults = {},
+  options: ClientOptions = readClientOptions(),
+): AxiosInstance {
+  const limit = createLimiter(options.maxConcurrency);
+  const adapter = axios.getAdapter(config.adapter ?? axios.defaults.adapter);
+  const send = options.fixtures ? options.fixtures.adapter(adapter) : adapter;
+
+  return axios.create({
+    ...config,
+    adapter: (request) => {
+      const resendable = typeof request.data?.pipe !== "function";
+      const label = new URL(request.url ?? "", request.baseURL).host;
+
+      return withRetry(() => limit(() => send(request)), {
+        ...options.retry,
+        shouldRetry: (error) =>
+          resendable &&
+          (isIdempotent(request)
+            ? isTransientError(error)
+            : wasNotProcessed(error)),
+        onRetry: logRetry(label, options.retry.attempts),
+      });
+    },
+  });
+}
+
+/**
+ * Route every request of a Linear client, from SDK models as well as raw
+ * `client.request` queries, through a concurrency limit and retries.
+ * Mutations are only retried when Linear didn't process them.
+ */
+export function resilientLinearClient(
+  linear: LinearClient,
+  options: ClientOptions = readClientOptions(),
+): LinearClient {
+  const limit = createLimiter(options.maxConcurrency);
+  const graphql = linear.client;
+  const request = graphql.request.bind(graphql);
+
+  graphql.request = ((document: any, variables?: any, headers?: any) => {
+    const isMutation =
+      typeof document === "string"
+        ? GRAPHQL_MUTATION.test(document)
+        : document.definitions.some(
+            (definition: any) => definition.operation === "mutation",
+          );
+
+    return withRetry(() => limit(() => request(document, variables, headers)), {
+      ...options.retry,
+      shouldRetry: isMutation ? wasNotProcessed : isTransientError,
+      onRetry: logRetry("Linear", options.retry.attempts),
+    });
+  }) as typeof graphql.request;
+
+  return linear;
+}
+
+/**
+ * A Linear client with retries and a concurrency limit
+ */
+export function createLinearClient(
+  apiKey: string | undefined,
+  options: ClientOptions = readClientOptions(),
+): LinearClient {
+  return resilientLinearClient(
+    new LinearClient({ apiKey, apiUrl: linearApiUrl() }),
+    options,
+  );
+}
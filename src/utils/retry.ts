@@ -0,0 +1,237 @@
+/**
+ * How often to retry a call that failed with a transient error
+ */
+export interface RetryOptions {
+  /** Total attempts, including the first */
+  attempts: number;
+  /** Delay before the first retry; doubled for each later one */
+  delayMs: number;
+  /**
+   * Longest single wait. A rate limit that resets later than this fails
+   * right away instead of blocking.
+   */
+  maxDelayMs?: number;
+  /**
+   * Wait a random 50-100% of each backoff delay, so clients that failed
+   * together don't retry together
+   */
+  jitter?: boolean;
+}
+
+/**
+ * Retry options plus hooks deciding what to retry and reporting retries
+ */
+export interface RetryPolicy extends RetryOptions {
+  /** Which errors to retry (default: isTransientError) */
+  shouldRetry?: (error: any) => boolean;
+  /** Called before waiting `delayMs` for attempt `attempt + 1` */
+  onRetry?: (error: any, attempt: number, delayMs: number) => void;
+}
+
+export const DEFAULT_RETRY_OPTIONS: RetryOptions = {
+  attempts: 3,
+  delayMs: 500,
+  maxDelayMs: 60_000,
+  jitter: true,
+};
+
+/**
+ * Retry settings from <prefix>_RETRY_ATTEMPTS and <prefix>_RETRY_DELAY_MS
+ */
+export function readRetryOptions(
+  env: NodeJS.ProcessEnv = process.env,
+  prefix = "MCP",
+): RetryOptions {
+  const attemptsName = `${prefix}_RETRY_ATTEMPTS`;
+  const delayName = `${prefix}_RETRY_DELAY_MS`;
+  const attempts = env[attemptsName]
+    ? Number(env[attemptsName])
+    : DEFAULT_RETRY_OPTIONS.attempts;
+  const delayMs = env[delayName]
+    ? Number(env[delayName])
+    : DEFAULT_RETRY_OPTIONS.delayMs;
+
+  if (!Number.isInteger(attempts) || attempts < 1) {
+    throw new Error(`${attemptsName} must be a positive integer`);
+  }
+  if (!(delayMs >= 0)) {
+    throw new Error(`${delayName} must be a non-negative number`);
+  }
+  return { ...DEFAULT_RETRY_OPTIONS, attempts, delayMs };
+}
+
+const TRANSIENT_NETWORK_CODES = [
+  "ECONNRESET",
+  "ECONNREFUSED",
+  "ETIMEDOUT",
+  "EAI_AGAIN",
+  "ECONNABORTED",
+];
+
+/** Failures that happen before the request reaches the server */
+const UNSENT_NETWORK_CODES = ["ECONNREFUSED", "EAI_AGAIN"];
+
+const TRANSIENT_LINEAR_TYPES = ["Ratelimited", "NetworkError", "InternalError"];
+
+/**
+ * The HTTP response of an error from axios, the Linear SDK or its GraphQL
+ * client
+ */
+const responseOf = (error: any) => error?.response ?? error?.raw?.response;
+
+/**
+ * Read a header from fetch `Headers`, `AxiosHeaders` or a plain object
+ */
+function header(headers: any, name: string): string | undefined {
+  if (!headers) return undefined;
+  if (typeof headers.get === "function") {
+    return headers.get(name) ?? undefined;
+  }
+  const key = Object.keys(headers).find(
+    (candidate) => candidate.toLowerCase() === name,
+  );
+  return key === undefined ? undefined : String(headers[key]);
+}
+
+/**
+ * A response body, which is still unparsed JSON inside an axios adapter
+ */
+function parseBody(data: unknown): any {
+  if (typeof data !== "string") return data;
+  try {
+    return JSON.parse(data);
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Whether the server refused a request because of a rate limit
+ */
+export function isRateLimited(error: any): boolean {
+  const response = responseOf(error);
+  const status = response?.status ?? error?.status;
+  if (status === 429 || error?.type === "Ratelimited") return true;
+
+  // Linear answers rate-limited GraphQL requests with a RATELIMITED error
+  const errors = response?.errors ?? parseBody(response?.data)?.errors;
+  if (
+    Array.isArray(errors) &&
+    errors.some((e) =>
+      /^ratelimited$/i.test(e?.extensions?.code ?? e?.extensions?.type ?? ""),
+    )
+  ) {
+    return true;
+  }
+
+  // GitHub uses 403 for secondary and exhausted primary rate limits
+  return (
+    status === 403 &&
+    (header(response?.headers, "retry-after") !== undefined ||
+      header(response?.headers, "x-ratelimit-remaining") === "0")
+  );
+}
+
+/**
+ * How long the server asked us to wait, from `Retry-After` or the
+ * rate-limit reset headers of Linear (epoch ms) and GitHub (epoch s)
+ */
+export function retryAfterMs(error: any, now = Date.now()): number | undefined {
+  const headers = responseOf(error)?.headers;
+
+  const retryAfter =
+    header(headers, "retry-after") ??
+    (error?.retryAfter === undefined ? undefined : String(error.retryAfter));
+  if (retryAfter) {
+    const seconds = Number(retryAfter);
+    if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000);
+    const date = Date.parse(retryAfter);
+    if (!Number.isNaN(date)) return Math.max(0, date - now);
+  }
+
+  for (const kind of ["requests", "complexity"]) {
+    if (header(headers, `x-ratelimit-${kind}-remaining`) === "0") {
+      const reset = Number(header(headers, `x-ratelimit-${kind}-reset`));
+      if (reset) return Math.max(0, reset - now);
+    }
+  }
+
+  if (header(headers, "x-ratelimit-remaining") === "0") {
+    const reset = Number(header(headers, "x-ratelimit-reset"));
+    if (reset) return Math.max(0, reset * 1000 - now);
+  }
+  return undefined;
+}
+
+/**
+ * Whether an error from axios or the Linear SDK is worth retrying: rate
+ * limits, server errors and dropped connections
+ */
+export function isTransientError(error: any): boolean {
+  if (isRateLimited(error)) return true;
+
+  const status = responseOf(error)?.status ?? error?.status;
+  if (typeof status === "number" && status >= 500) return true;
+  return (
+    TRANSIENT_NETWORK_CODES.includes(error?.code) ||
+    TRANSIENT_LINEAR_TYPES.includes(error?.type)
+  );
+}
+
+/**
+ * Whether a failed request certainly wasn't carried out, so even a request
+ * that changes data can be sent again
+ */
+export function wasNotProcessed(error: any): boolean {
+  return isRateLimited(error) || UNSENT_NETWORK_CODES.includes(error?.code);
+}
+
+/**
+ * The wait before retry number `attempt`: exponential backoff, jittered
+ * when enabled and capped at `maxDelayMs`, or longer if the server asked
+ * for it. Null when the server asked for more than `maxDelayMs`.
+ */
+export function retryDelayMs(
+  error: any,
+  attempt: number,
+  options: RetryOptions,
+  random: () => number = Math.random,
+): number | null {
+  const maxDelayMs = options.maxDelayMs ?? Infinity;
+  let backoff = options.delayMs * 2 ** (attempt - 1);
+  if (options.jitter) backoff = backoff / 2 + (random() * backoff) / 2;
+  backoff = Math.min(backoff, maxDelayMs);
+
+  const requested = retryAfterMs(error);
+  if (requested === undefined) return Math.round(backoff);
+  if (requested > maxDelayMs) return null;
+  return Math.round(Math.max(backoff, requested));
+}
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+/**
+ * Run `call`, retrying transient errors with exponential backoff and
+ * honoring the waits rate-limited responses ask for
+ */
+export async function withRetry<T>(
+  call: () => Promise<T>,
+  options: RetryPolicy,
+  wait: (ms: number) => Promise<unknown> = sleep,
+  random: () => number = Math.random,
+): Promise<T> {
+  const shouldRetry = options.shouldRetry ?? isTransientError;
+
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await call();
+    } catch (error) {
+      if (attempt >= options.attempts || !shouldRetry(error)) throw error;
+
+      const delayMs = retryDelayMs(error, attempt, options, random);
+      if (delayMs === null) throw error;
+      options.onRetry?.(error, attempt, delayMs);
+      await wait(delayMs);
+    }
+  }
+}
@@ -0,0 +1,163 @@
+import { GraphQLRequester } from "../modules/DependencyResolver";
+import { DependencyProblem } from "./dependency-validation";
+import {
+  ProgressIssue,
+  ProgressSummary,
+  fetchProgressIssues,
+  summarizeProgress,
+} from "./issue-progress";
+import { FETCH_ALL_HARD_LIMIT } from "./linear-pagination";
+
+/** How many levels of sub-issues are followed in recursive mode */
+export const MAX_SUB_ISSUE_DEPTH = 5;
+
+/**
+ * A sub-issue with its own children. Issues that have children also
+ * carry a rollup over everything below them.
+ */
+export interface SubIssueNode extends ProgressIssue {
+  depth: number;
+  subIssues: SubIssueNode[];
+  rollup?: ProgressSummary;
+}
+
+/**
+ * Fetch the children of an issue, and optionally their descendants,
+ * one query per level
+ */
+export async function fetchSubIssues(
+  client: GraphQLRequester,
+  parentId: string,
+  recursive: boolean,
+): Promise<{ issues: ProgressIssue[]; truncated: boolean }> {
+  const issues: ProgressIssue[] = [];
+  let truncated = false;
+  let level = [parentId];
+
+  for (let depth = 1; level.length > 0; depth++) {
+    const children = await fetchProgressIssues(
+      client,
+      { parent: { id: { in: level } } },
+      FETCH_ALL_HARD_LIMIT - issues.length,
+    );
+    issues.push(...children.nodes);
+    truncated = children.truncated;
+
+    if (!recursive || truncated || issues.length >= FETCH_ALL_HARD_LIMIT) {
+      break;
+    }
+    if (depth >= MAX_SUB_ISSUE_DEPTH) {
+      truncated = children.nodes.length > 0;
+      break;
+    }
+    level = children.nodes.map((child) => child.id);
+  }
+
+  return { issues, truncated };
+}
+
+/**
+ * Arrange fetched sub-issues under their parents and roll completion up
+ * from the leaves. The rollup for the root covers every descendant.
+ */
+export function buildSubIssueTree(
+  rootId: string,
+  issues: ProgressIssue[],
+): { subIssues: SubIssueNode[]; rollup: ProgressSummary } {
+  const childrenOf = new Map<string, ProgressIssue[]>();
+  for (const issue of issues) {
+    if (!issue.parentId) continue;
+    const siblings = childrenOf.get(issue.parentId) ?? [];
+    siblings.push(issue);
+    childrenOf.set(issue.parentId, siblings);
+  }
+
+  const build = (parentId: string, depth: number): SubIssueNode[] =>
+    (childrenOf.get(parentId) ?? []).map((issue) => {
+      const subIssues = build(issue.id, depth + 1);
+      const node: SubIssueNode = { ...issue, depth, subIssues };
+      if (subIssues.length > 0) {
+        node.rollup = summarizeProgress(descendants(subIssues));
+      }
+      return node;
+    });
+
+  const descendants = (nodes: SubIssueNode[]): ProgressIssue[] =>
+    nodes.flatMap((node) => [node, ...descendants(node.subIssues)]);
+
+  const subIssues = build(rootId, 1);
+  return { subIssues, rollup: summarizeProgress(descendants(subIssues)) };
+}
+
+/**
+ * Validate `parentIndex` references in a batch of issues to create.
+ * A parent must appear earlier in the batch so it exists by the time
+ * its children are created.
+ */
+export function validateParentIndexes(
+  items: Array<{ title: string; parentIndex?: unknown; parentId?: unknown }>,
+): DependencyProblem[] {
+  const problems: DependencyProblem[] = [];
+
+  items.forEach((item, index) => {
+    if (item.parentIndex === undefined) return;
+    const label = `#${index} ${item.title}`;
+    const parentIndex = item.parentIndex;
+
+    if (item.parentId !== undefined) {
+      problems.push({
+        kind: "out_of_range",
+        node: String(index),
+        message: `${label}: pass either parentIndex or parentId, not both`,
+      });
+    } else if (parentIndex === index) {
+      problems.push({
+        kind: "self_reference",
+        node: String(index),
+        message: `${label}: an issue cannot be its own parent`,
+      });
+    } else if (
+      typeof parentIndex !== "number" ||
+      !Number.isInteger(parentIndex) ||
+      parentIndex < 0 ||
+      parentIndex >= index
+    ) {
+      problems.push({
+        kind: "out_of_range",
+        node: String(index),
+        message: `${label}: parentIndex ${JSON.stringify(
+          parentIndex,
+        )} must reference an earlier issue (0-${index - 1})`,
+      });
+    }
+  });
+
+  return problems;
+}
+
+/**
+ * Find which parent a generated sub-issue belongs to, by its
+ * Parent_Index or, failing that, its Parent_Title. Returns -1 if neither
+ * matches.
+ */
+export function resolveParentIndex(
+  subIssue: any,
+  parents: Array<{ title?: string; Title?: string }>,
+): number {
+  const index = subIssue?.Parent_Index ?? subIssue?.parent_index;
+  if (Number.isInteger(index) && index >= 0 && index < parents.length) {
+    return index;
+  }
+
+  const title = String(subIssue?.Parent_Title ?? subIssue?.parent_title ?? "")
+    .trim()
+    .toLowerCase();
+  if (!title) return -1;
+
+  return parents.findIndex(
+    (parent) =>
+      String(parent.Title ?? parent.title ?? "")
+        .trim()
+        .toLowerCase() === title,
+  );
+}
@@ -0,0 +1,736 @@
+import * as fs from "fs";
+import * as path from "path";
+import { GraphQLRequester } from "../modules/DependencyResolver";
+import { ConnectionLike } from "./linear-pagination";
+
+/** Where team mirrors are stored, one JSON file per team */
+export const DEFAULT_MIRROR_DIR = path.join(process.cwd(), ".linear-mirror");
+
+/** Bumped when the file layout changes; older files are re-synced in full */
+export const MIRROR_VERSION = 1;
+
+/** How stale a mirror may get before the MCP server refreshes it */
+export const DEFAULT_MIRROR_MAX_AGE_MS = 60_000;
+
+/** Records fetched per page while syncing */
+const SYNC_PAGE_SIZE = 100;
+
+/** Ids fetched per page while looking for removed records */
+const ID_PAGE_SIZE = 250;
+
+/** Relations stored per issue */
+const RELATIONS_PER_ISSUE = 50;
+
+export const MIRROR_COLLECTIONS = [
+  "states",
+  "users",
+  "labels",
+  "projects",
+  "issues",
+] as const;
+
+export type MirrorCollection = (typeof MIRROR_COLLECTIONS)[number];
+
+export interface MirrorState {
+  id: string;
+  name: string;
+  type: string;
+  color: string;
+  position: number;
+}
+
+export interface MirrorUser {
+  id: string;
+  name: string;
+  displayName: string;
+  email: string | null;
+  active: boolean;
+}
+
+export interface MirrorLabel {
+  id: string;
+  name: string;
+  color: string;
+  parentId: string | null;
+  /** Null for workspace labels */
+  teamId: string | null;
+}
+
+export interface MirrorProject {
+  id: string;
+  name: string;
+  description: string;
+  state: string;
+  url: string;
+  startDate: string | null;
+  targetDate: string | null;
+}
+
+/**
+ * A relation owned by an issue. For `blocks`, the related issue blocks the
+ * owner (see DependencyResolver).
+ */
+export interface MirrorRelation {
+  id: string;
+  type: string;
+  relatedIssueId: string;
+}
+
+export interface MirrorIssue {
+  id: string;
+  identifier: string;
+  number: number;
+  title: string;
+  description: string | null;
+  priority: number;
+  estimate: number | null;
+  url: string;
+  createdAt: string;
+  updatedAt: string;
+  completedAt: string | null;
+  canceledAt: string | null;
+  dueDate: string | null;
+  stateId: string | null;
+  projectId: string | null;
+  cycleId: string | null;
+  assigneeId: string | null;
+  parentId: string | null;
+  labelIds: string[];
+  relations: MirrorRelation[];
+}
+
+/**
+ * Contents of a team's mirror file
+ */
+export interface TeamMirrorData {
+  version: number;
+  team: { id: string; key: string; name: string };
+  /** When the last sync finished */
+  syncedAt: string | null;
+  /** Latest `updatedAt` seen per collection; the next sync resumes there */
+  cursors: Partial<Record<MirrorCollection, string>>;
+  states: Record<string, MirrorState>;
+  users: Record<string, MirrorUser>;
+  labels: Record<string, MirrorLabel>;
+  projects: Record<string, MirrorProject>;
+  issues: Record<string, MirrorIssue>;
+}
+
+/* ---------------- Queries ---------------- */
+
+const PAGE_INFO = "pageInfo { hasNextPage endCursor }";
+
+const TEAM_QUERY = `
+  query MirrorTeam($id: String!) {
+    team(id: $id) { id key name }
+  }
+`;
+
+const STATES_QUERY = `
+  query MirrorStates($filter: WorkflowStateFilter, $first: Int, $after: String) {
+    workflowStates(filter: $filter, first: $first, after: $after, includeArchived: true) {
+      nodes { id name type color position updatedAt archivedAt }
+      ${PAGE_INFO}
+    }
+  }
+`;
+
+const USERS_QUERY = `
+  query MirrorUsers($teamId: String!, $filter: UserFilter, $first: Int, $after: String) {
+    team(id: $teamId) {
+      members(filter: $filter, first: $first, after: $after, includeArchived: true, includeDisabled: true) {
+        nodes { id name displayName email active updatedAt archivedAt }
+        ${PAGE_INFO}
+      }
+    }
+  }
+`;
+
+const LABELS_QUERY = `
+  query MirrorLabels($filter: IssueLabelFilter, $first: Int, $after: String) {
+    issueLabels(filter: $filter, first: $first, after: $after, includeArchived: true) {
+      nodes { id name color parent { id } team { id } updatedAt archivedAt }
+      ${PAGE_INFO}
+    }
+  }
+`;
+
+const PROJECTS_QUERY = `
+  query MirrorProjects($filter: ProjectFilter, $first: Int, $after: String) {
+    projects(filter: $filter, first: $first, after: $after, includeArchived: true) {
+      nodes {
+        id name description state url startDate targetDate
+        updatedAt archivedAt
+      }
+      ${PAGE_INFO}
+    }
+  }
+`;
+
+const ISSUES_QUERY = `
+  query MirrorIssues($filter: IssueFilter, $first: Int, $after: String) {
+    issues(filter: $filter, first: $first, after: $after, includeArchived: true) {
+      nodes {
+        id identifier number title description priority estimate url
+        createdAt updatedAt completedAt canceledAt archivedAt dueDate
+        state { id }
+        project { id }
+        cycle { id }
+        assignee { id }
+        parent { id }
+        labels { nodes { id } }
+        relations(first: ${RELATIONS_PER_ISSUE}) {
+          nodes { id type relatedIssue { id } }
+        }
+      }
+      ${PAGE_INFO}
+    }
+  }
+`;
+
+// Ids of every record still in a collection's scope. Archived records are
+// left out, so anything missing was archived, deleted or moved away.
+
+const STATE_IDS_QUERY = `
+  query MirrorStateIds($filter: WorkflowStateFilter, $first: Int, $after: String) {
+    workflowStates(filter: $filter, first: $first, after: $after) {
+      nodes { id }
+      ${PAGE_INFO}
+    }
+  }
+`;
+
+const USER_IDS_QUERY = `
+  query MirrorUserIds($teamId: String!, $filter: UserFilter, $first: Int, $after: String) {
+    team(id: $teamId) {
+      members(filter: $filter, first: $first, after: $after, includeDisabled: true) {
+        nodes { id }
+        ${PAGE_INFO}
+      }
+    }
+  }
+`;
+
+const LABEL_IDS_QUERY = `
+  query MirrorLabelIds($filter: IssueLabelFilter, $first: Int, $after: String) {
+    issueLabels(filter: $filter, first: $first, after: $after) {
+      nodes { id }
+      ${PAGE_INFO}
+    }
+  }
+`;
+
+const PROJECT_IDS_QUERY = `
+  query MirrorProjectIds($filter: ProjectFilter, $first: Int, $after: String) {
+    projects(filter: $filter, first: $first, after: $after) {
+      nodes { id }
+      ${PAGE_INFO}
+    }
+  }
+`;
+
+const ISSUE_IDS_QUERY = `
+  query MirrorIssueIds($filter: IssueFilter, $first: Int, $after: String) {
+    issues(filter: $filter, first: $first, after: $after) {
+      nodes { id }
+      ${PAGE_INFO}
+    }
+  }
+`;
+
+interface RawRecord {
+  id: string;
+  updatedAt: string;
+  archivedAt?: string | null;
+  [field: string]: any;
+}
+
+/**
+ * How one collection is fetched and stored
+ */
+interface CollectionSpec {
+  query: string;
+  /** Lists the ids in scope, answered in the same shape as `query` */
+  idsQuery: string;
+  variables: (
+    teamId: string,
+  ) => { filter: Record<string, unknown> } & Record<string, unknown>;
+  connection: (data: any) => ConnectionLike<RawRecord>;
+  toRecord: (raw: RawRecord) => any;
+}
+
+const idOf = (value?: { id: string } | null) => value?.id ?? null;
+
+const COLLECTIONS: Record<MirrorCollection, CollectionSpec> = {
+  states: {
+    query: STATES_QUERY,
+    idsQuery: STATE_IDS_QUERY,
+    variables: (teamId) => ({ filter: { team: { id: { eq: teamId } } } }),
+    connection: (data) => data.workflowStates,
+    toRecord: (raw): MirrorState => ({
+      id: raw.id,
+      name: raw.name,
+      type: raw.type,
+      color: raw.color,
+      position: raw.position,
+    }),
+  },
+  users: {
+    query: USERS_QUERY,
+    idsQuery: USER_IDS_QUERY,
+    variables: (teamId) => ({ teamId, filter: {} }),
+    connection: (data) => data.team.members,
+    toRecord: (raw): MirrorUser => ({
+      id: raw.id,
+      name: raw.name,
+      displayName: raw.displayName,
+      email: raw.email ?? null,
+      active: raw.active,
+    }),
+  },
+  labels: {
+    query: LABELS_QUERY,
+    idsQuery: LABEL_IDS_QUERY,
+    variables: (teamId) => ({
+      filter: {
+        or: [{ team: { id: { eq: teamId } } }, { team: { null: true } }],
+      },
+    }),
+    connection: (data) => data.issueLabels,
+    toRecord: (raw): MirrorLabel => ({
+      id: raw.id,
+      name: raw.name,
+      color: raw.color,
+      parentId: idOf(raw.parent),
+      teamId: idOf(raw.team),
+    }),
+  },
+  projects: {
+    query: PROJECTS_QUERY,
+    idsQuery: PROJECT_IDS_QUERY,
+    variables: (teamId) => ({
+      filter: { accessibleTeams: { id: { eq: teamId } } },
+    }),
+    connection: (data) => data.projects,
+    toRecord: (raw): MirrorProject => ({
+      id: raw.id,
+      name: raw.name,
+      description: raw.description ?? "",
+      state: raw.state,
+      url: raw.url,
+      startDate: raw.startDate ?? null,
+      targetDate: raw.targetDate ?? null,
+    }),
+  },
+  issues: {
+    query: ISSUES_QUERY,
+    idsQuery: ISSUE_IDS_QUERY,
+    variables: (teamId) => ({ filter: { team: { id: { eq: teamId } } } }),
+    connection: (data) => data.issues,
+    toRecord: (raw): MirrorIssue => ({
+      id: raw.id,
+      identifier: raw.identifier,
+      number: raw.number,
+      title: raw.title,
+      description: raw.description ?? null,
+      priority: raw.priority ?? 0,
+      estimate: raw.estimate ?? null,
+      url: raw.url,
+      createdAt: raw.createdAt,
+      updatedAt: raw.updatedAt,
+      completedAt: raw.completedAt ?? null,
+      canceledAt: raw.canceledAt ?? null,
+      dueDate: raw.dueDate ?? null,
+      stateId: idOf(raw.state),
+      projectId: idOf(raw.project),
+      cycleId: idOf(raw.cycle),
+      assigneeId: idOf(raw.assignee),
+      parentId: idOf(raw.parent),
+      labelIds: (raw.labels?.nodes ?? []).map((label: any) => label.id),
+      relations: (raw.relations?.nodes ?? [])
+        .filter((relation: any) => relation.relatedIssue)
+        .map((relation: any) => ({
+          id: relation.id,
+          type: relation.type,
+          relatedIssueId: relation.relatedIssue.id,
+        })),
+    }),
+  },
+};
+
+/* ---------------- Mirror ---------------- */
+
+const mirrorFile = (dir: string, teamId: string) =>
+  path.join(dir, `${teamId}.json`);
+
+/**
+ * A team mirrored to disk, with lookups for the scripts and tools that
+ * read it instead of the API
+ */
+export class TeamMirror {
+  constructor(
+    readonly data: TeamMirrorData,
+    readonly dir: string = DEFAULT_MIRROR_DIR,
+  ) {}
+
+  /**
+   * An empty mirror, filled by its first sync
+   */
+  static empty(
+    team: TeamMirrorData["team"],
+    dir: string = DEFAULT_MIRROR_DIR,
+  ): TeamMirror {
+    return new TeamMirror(
+      {
+        version: MIRROR_VERSION,
+        team,
+        syncedAt: null,
+        cursors: {},
+        states: {},
+        users: {},
+        labels: {},
+        projects: {},
+        issues: {},
+      },
+      dir,
+    );
+  }
+
+  /**
+   * Load a team's mirror by team id, key or name. Returns null when the
+   * team hasn't been mirrored (or was mirrored by an older version).
+   */
+  static load(
+    team: string,
+    dir: string = DEFAULT_MIRROR_DIR,
+  ): TeamMirror | null {
+    const byId = mirrorFile(dir, team);
+    const match = fs.existsSync(byId)
+      ? TeamMirror.read(byId, dir)
+      : listTeamMirrors(dir).find(
+          (mirror) =>
+            mirror.team.key.toLowerCase() === team.toLowerCase() ||
+            mirror.team.name.toLowerCase() === team.toLowerCase(),
+        );
+    return match && match.data.version === MIRROR_VERSION ? match : null;
+  }
+
+  static read(file: string, dir: string = path.dirname(file)): TeamMirror {
+    return new TeamMirror(JSON.parse(fs.readFileSync(file, "utf8")), dir);
+  }
+
+  get team() {
+    return this.data.team;
+  }
+
+  get filePath() {
+    return mirrorFile(this.dir, this.team.id);
+  }
+
+  /**
+   * Write the mirror atomically, so readers never see half a file
+   */
+  save(): void {
+    fs.mkdirSync(this.dir, { recursive: true });
+    const tmp = `${this.filePath}.${process.pid}.tmp`;
+    fs.writeFileSync(tmp, JSON.stringify(this.data));
+    fs.renameSync(tmp, this.filePath);
+  }
+
+  /**
+   * Milliseconds since the last sync, Infinity if never synced
+   */
+  age(now = Date.now()): number {
+    return this.data.syncedAt
+      ? now - new Date(this.data.syncedAt).getTime()
+      : Infinity;
+  }
+
+  get issues(): MirrorIssue[] {
+    return Object.values(this.data.issues);
+  }
+
+  get projects(): MirrorProject[] {
+    return Object.values(this.data.projects);
+  }
+
+  get labels(): MirrorLabel[] {
+    return Object.values(this.data.labels);
+  }
+
+  get states(): MirrorState[] {
+    return Object.values(this.data.states).sort(
+      (a, b) => a.position - b.position,
+    );
+  }
+
+  get users(): MirrorUser[] {
+    return Object.values(this.data.users);
+  }
+
+  state(issue: MirrorIssue): MirrorState | null {
+    return (issue.stateId && this.data.states[issue.stateId]) || null;
+  }
+
+  project(issue: MirrorIssue): MirrorProject | null {
+    return (issue.projectId && this.data.projects[issue.projectId]) || null;
+  }
+
+  assignee(issue: MirrorIssue): MirrorUser | null {
+    return (issue.assigneeId && this.data.users[issue.assigneeId]) || null;
+  }
+
+  labelNames(issue: MirrorIssue): string[] {
+    return issue.labelIds
+      .map((id) => this.data.labels[id]?.name)
+      .filter((name): name is string => !!name);
+  }
+
+  /**
+   * Issues of a project, or those in no project when `projectId` is null
+   */
+  projectIssues(projectId: string | null): MirrorIssue[] {
+    return this.issues.filter((issue) => issue.projectId === projectId);
+  }
+}
+
+/**
+ * Every team mirror in a directory
+ */
+export function listTeamMirrors(
+  dir: string = DEFAULT_MIRROR_DIR,
+): TeamMirror[] {
+  if (!fs.existsSync(dir)) return [];
+  return fs
+    .readdirSync(dir)
+    .filter((name) => name.endsWith(".json"))
+    .map((name) => TeamMirror.read(path.join(dir, name), dir));
+}
+
+/* ---------------- Sync ---------------- */
+
+export interface MirrorSyncOptions {
+  dir?: string;
+  /** Re-fetch everything instead of only what changed since the last sync */
+  full?: boolean;
+}
+
+export interface MirrorSyncResult {
+  mirror: TeamMirror;
+  full: boolean;
+  /**
+   * Records written and removed (archived, deleted or no longer the
+   * team's) per collection
+   */
+  changes: Record<MirrorCollection, { updated: number; removed: number }>;
+}
+
+/**
+ * Bring a team's mirror up to date. After the first sync only records
+ * whose `updatedAt` moved past the last sync are fetched, and the ids
+ * still in scope are listed so records that were archived, deleted or
+ * moved to another team are dropped.
+ */
+export async function syncTeamMirror(
+  client: GraphQLRequester,
+  teamId: string,
+  options: MirrorSyncOptions = {},
+): Promise<MirrorSyncResult> {
+  const dir = options.dir ?? DEFAULT_MIRROR_DIR;
+  const { team } = await client.request<
+    { team: TeamMirrorData["team"] | null },
+    Record<string, unknown>
+  >(TEAM_QUERY, { id: teamId });
+  if (!team) throw new Error(`Team not found: ${teamId}`);
+
+  const existing = options.full ? null : TeamMirror.load(team.id, dir);
+  const mirror = existing ?? TeamMirror.empty(team, dir);
+  mirror.data.team = team;
+
+  const changes = {} as MirrorSyncResult["changes"];
+  for (const name of MIRROR_COLLECTIONS) {
+    changes[name] = await syncCollection(client, mirror, name);
+  }
+
+  mirror.data.syncedAt = new Date().toISOString();
+  mirror.save();
+  return { mirror, full: !existing, changes };
+}
+
+async function syncCollection(
+  client: GraphQLRequester,
+  mirror: TeamMirror,
+  name: MirrorCollection,
+) {
+  const spec = COLLECTIONS[name];
+  const since = mirror.data.cursors[name];
+  const { filter, ...variables } = spec.variables(mirror.team.id);
+
+  const records = mirror.data[name] as Record<string, unknown>;
+  let updated = 0;
+  let removed = 0;
+  let cursor = since;
+  let after: string | undefined;
+  let page: ConnectionLike<RawRecord>;
+
+  // Walk every page: unlike the list tools, a sync has no upper bound.
+  // gte rather than gt, so records sharing the cursor's timestamp are
+  // re-fetched instead of missed.
+  do {
+    page = spec.connection(
+      await client.request<any, Record<string, unknown>>(spec.query, {
+        ...variables,
+        filter: since ? { ...filter, updatedAt: { gte: since } } : filter,
+        first: SYNC_PAGE_SIZE,
+        after,
+      }),
+    );
+
+    for (const raw of page.nodes) {
+      if (raw.archivedAt) {
+        if (raw.id in records) removed++;
+        delete records[raw.id];
+      } else {
+        records[raw.id] = spec.toRecord(raw);
+        updated++;
+      }
+      if (!cursor || raw.updatedAt > cursor) cursor = raw.updatedAt;
+    }
+    after = page.pageInfo.endCursor ?? undefined;
+  } while (page.pageInfo.hasNextPage && after);
+
+  if (cursor) mirror.data.cursors[name] = cursor;
+  if (since) removed += await dropMissingRecords(client, mirror, name);
+  return { updated, removed };
+}
+
+/**
+ * Drop mirrored records that are no longer in the collection's scope.
+ * Changed records are only fetched while they're in scope, so an issue
+ * moved to another team, a deleted label or a member who left the team
+ * never shows up in an incremental sync.
+ */
+async function dropMissingRecords(
+  client: GraphQLRequester,
+  mirror: TeamMirror,
+  name: MirrorCollection,
+): Promise<number> {
+  const spec = COLLECTIONS[name];
+  const current = new Set<string>();
+  let after: string | undefined;
+  let page: ConnectionLike<{ id: string }>;
+
+  do {
+    page = spec.connection(
+      await client.request<any, Record<string, unknown>>(spec.idsQuery, {
+        ...spec.variables(mirror.team.id),
+        first: ID_PAGE_SIZE,
+        after,
+      }),
+    );
+    page.nodes.forEach((node) => current.add(node.id));
+    after = page.pageInfo.endCursor ?? undefined;
+  } while (page.pageInfo.hasNextPage && after);
+
+  const records = mirror.data[name] as Record<string, unknown>;
+  let removed = 0;
+  for (const id of Object.keys(records)) {
+    if (!current.has(id)) {
+      delete records[id];
+      removed++;
+    }
+  }
+  return removed;
+}
+
+/* ---------------- Reading ---------------- */
+
+export interface MirrorReadOptions {
+  dir?: string;
+  /** Use the mirror as is, without syncing first */
+  offline?: boolean;
+}
+
+/**
+ * A team's mirror for a read-only report: synced first unless offline
+ */
+export async function openTeamMirror(
+  client: GraphQLRequester | null,
+  team: string,
+  options: MirrorReadOptions = {},
+): Promise<TeamMirror> {
+  if (options.offline || !client) {
+    const mirror = TeamMirror.load(team, options.dir);
+    if (!mirror) {
+      throw new Error(
+        `No mirror of team ${team}. Run: npm run mirror -- --team ${team}`,
+      );
+    }
+    return mirror;
+  }
+  return (await syncTeamMirror(client, team, { dir: options.dir })).mirror;
+}
+
+export interface MirrorCacheOptions {
+  dir?: string;
+  /** Re-sync a mirror once it's older than this */
+  maxAgeMs?: number;
+}
+
+/**
+ * Team mirrors kept in memory for a long-running process, refreshed
+ * incrementally once they're older than `maxAgeMs`
+ */
+export class TeamMirrorCache {
+  private mirrors = new Map<string, TeamMirror>();
+  private syncing = new Map<string, Promise<TeamMirror>>();
+
+  constructor(
+    private client: GraphQLRequester,
+    private options: MirrorCacheOptions = {},
+  ) {}
+
+  async get(teamId: string): Promise<TeamMirror> {
+    const maxAge = this.options.maxAgeMs ?? DEFAULT_MIRROR_MAX_AGE_MS;
+    const mirror =
+      this.mirrors.get(teamId) ?? TeamMirror.load(teamId, this.options.dir);
+    if (mirror && mirror.age() <= maxAge) {
+      this.mirrors.set(teamId, mirror);
+      return mirror;
+    }
+
+    // Concurrent calls share one sync
+    let pending = this.syncing.get(teamId);
+    if (!pending) {
+      pending = syncTeamMirror(this.client, teamId, { dir: this.options.dir })
+        .then(({ mirror }) => {
+          this.mirrors.set(teamId, mirror);
+          return mirror;
+        })
+        .finally(() => this.syncing.delete(teamId));
+      this.syncing.set(teamId, pending);
+    }
+    return pending;
+  }
+}
+
+/**
+ * Mirror settings for the MCP server: LINEAR_MIRROR turns it on
+ */
+export function readMirrorOptions(
+  env: NodeJS.ProcessEnv = process.env,
+): MirrorCacheOptions & { enabled: boolean } {
+  const maxAgeMs = Number(
+    env.LINEAR_MIRROR_MAX_AGE_MS ?? DEFAULT_MIRROR_MAX_AGE_MS,
+  );
+  if (!(maxAgeMs >= 0)) {
+    throw new Error(
+      "LINEAR_MIRROR_MAX_AGE_MS must be a number of milliseconds",
+    );
+  }
+  return {
+    enabled: env.LINEAR_MIRROR === "true",
+    dir: env.LINEAR_MIRROR_DIR || DEFAULT_MIRROR_DIR,
+    maxAgeMs,
+  };
+}
@@ -0,0 +1,359 @@
+import * as fs from "fs";
+import { LinearClient } from "@linear/sdk";
+import { ErrorCode, McpError } from "@modelcontextprotocol/sdk/types.js";
+import { z } from "zod";
+import { ToolDefinition } from "./mcp-tools";
+
+/**
+ * What an MCP server may do. Tool and repository patterns accept `*`
+ * wildcards, e.g. `get_*` or `acme/*`.
+ */
+export interface ToolPolicy {
+  /** Only advertise and run tools marked read-only */
+  readOnly: boolean;
+  /** Tools to permit; every tool when unset */
+  allow?: string[];
+  /** Tools to refuse, even when allowed */
+  deny: string[];
+  /** Linear team keys or IDs that tools may touch; every team when unset */
+  teams?: string[];
+  /** GitHub `owner/repo` patterns that tools may touch; every repo when unset */
+  repos?: string[];
+}
+
+const policyShape = {
+  readOnly: z.boolean().optional(),
+  allow: z.array(z.string()).optional(),
+  deny: z.array(z.string()).optional(),
+  teams: z.array(z.string()).optional(),
+  repos: z.array(z.string()).optional(),
+};
+
+/**
+ * Policy file: top-level settings apply to every server, and `servers`
+ * overrides them per server name (deny lists are combined)
+ */
+const policyFileSchema = z
+  .object({
+    ...policyShape,
+    servers: z.record(z.object(policyShape).strict()).optional(),
+  })
+  .strict();
+
+function envList(value: string | undefined): string[] | undefined {
+  if (value === undefined) return undefined;
+  return value
+    .split(",")
+    .map((item) => item.trim())
+    .filter(Boolean);
+}
+
+function readPolicyFile(filePath: string) {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(fs.readFileSync(filePath, "utf8"));
+  } catch (error: any) {
+    throw new Error(
+      `Could not read MCP policy file ${filePath}: ${error.message}`,
+    );
+  }
+
+  const parsed = policyFileSchema.safeParse(raw);
+  if (!parsed.success) {
+    throw new Error(
+      `Invalid MCP policy file ${filePath}: ${parsed.error.issues
+        .map((issue) => `${issue.path.join(".") || "(root)"}: ${issue.message}`)
+        .join("; ")}`,
+    );
+  }
+  return parsed.data;
+}
+
+/**
+ * Load the policy for one server from MCP_POLICY_FILE, then apply the
+ * MCP_READ_ONLY, MCP_ALLOW_TOOLS, MCP_DENY_TOOLS, MCP_ALLOWED_TEAMS and
+ * MCP_ALLOWED_REPOS environment variables on top
+ */
+export function loadToolPolicy(
+  serverName: string,
+  env: NodeJS.ProcessEnv = process.env,
+): ToolPolicy {
+  const file = env.MCP_POLICY_FILE ? readPolicyFile(env.MCP_POLICY_FILE) : {};
+  const section = file.servers?.[serverName] ?? {};
+
+  const readOnlyEnv = env.MCP_READ_ONLY?.trim().toLowerCase();
+  return {
+    readOnly: readOnlyEnv
+      ? ["1", "true", "yes"].includes(readOnlyEnv)
+      : (section.readOnly ?? file.readOnly ?? false),
+    allow: envList(env.MCP_ALLOW_TOOLS) ?? section.allow ?? file.allow,
+    deny: [
+      ...(file.deny ?? []),
+      ...(section.deny ?? []),
+      ...(envList(env.MCP_DENY_TOOLS) ?? []),
+    ],
+    teams: envList(env.MCP_ALLOWED_TEAMS) ?? section.teams ?? file.teams,
+    repos: envList(env.MCP_ALLOWED_REPOS) ?? section.repos ?? file.repos,
+  };
+}
+
+/**
+ * Case-insensitive match with `*` wildcards
+ */
+export function matchesPattern(value: string, pattern: string): boolean {
+  const regex = pattern
+    .split("*")
+    .map((part) => part.replace(/[.+?^${}()|[\]\\/]/g, "\\$&"))
+    .join(".*");
+  return new RegExp(`^${regex}$`, "i").test(value);
+}
+
+/**
+ * Why the policy refuses a tool outright, or null when it is permitted
+ */
+export function toolDenialReason(
+  policy: ToolPolicy,
+  tool: ToolDefinition,
+): string | null {
+  if (policy.readOnly && !tool.readOnly) {
+    return "the server is in read-only mode";
+  }
+  if (policy.deny.some((pattern) => matchesPattern(tool.name, pattern))) {
+    return "it is on the deny list";
+  }
+  if (
+    policy.allow &&
+    !policy.allow.some((pattern) => matchesPattern(tool.name, pattern))
+  ) {
+    return "it is not on the allow list";
+  }
+  return null;
+}
+
+/**
+ * The tools a policy permits, for ListTools
+ */
+export function permittedTools(
+  tools: ToolDefinition[],
+  policy: ToolPolicy,
+): ToolDefinition[] {
+  return tools.filter((tool) => toolDenialReason(policy, tool) === null);
+}
+
+/**
+ * Error returned to the client for a call outside the policy
+ */
+export function policyViolation(toolName: string, reason: string): McpError {
+  return new McpError(
+    ErrorCode.InvalidRequest,
+    `Tool ${toolName} is not permitted by the MCP tool policy: ${reason}`,
+    { tool: toolName, reason },
+  );
+}
+
+/**
+ * One-line summary of a restrictive policy for the server log, or null
+ * when everything is permitted
+ */
+export function describeToolPolicy(
+  policy: ToolPolicy,
+  tools: ToolDefinition[],
+): string | null {
+  const permitted = permittedTools(tools, policy).length;
+  const scopes = [
+    policy.teams && `teams: ${policy.teams.join(", ")}`,
+    policy.repos && `repos: ${policy.repos.join(", ")}`,
+  ].filter(Boolean);
+  if (permitted === tools.length && scopes.length === 0) return null;
+
+  return [
+    `🔒 Tool policy: ${permitted} of ${tools.length} tools permitted`,
+    policy.readOnly && "read-only",
+    ...scopes,
+  ]
+    .filter(Boolean)
+    .join(", ");
+}
+
+/**
+ * Check a GitHub call's `owner`/`repo` arguments against the allowed repos.
+ * Write tools that don't name a repository are refused while scoped, since
+ * what they touch can't be checked.
+ */
+export function repoScopeViolation(
+  policy: ToolPolicy,
+  tool: ToolDefinition,
+  args: Record<string, unknown>,
+): string | null {
+  if (!policy.repos) return null;
+
+  if (typeof args.owner !== "string" || typeof args.repo !== "string") {
+    return tool.readOnly
+      ? null
+      : "it does not name a repository, so it can't be checked against the allowed repos";
+  }
+
+  const fullName = `${args.owner}/${args.repo}`;
+  return policy.repos.some((pattern) => matchesPattern(fullName, pattern))
+    ? null
+    : `repository ${fullName} is outside the allowed repos (${policy.repos.join(", ")})`;
+}
+
+/**
+ * A Linear object named in a tool's arguments that belongs to teams
+ */
+export interface TeamScopedRef {
+  kind: "team" | "issue" | "project" | "cycle" | "milestone";
+  id: string;
+}
+
+const TEAM_SCOPED_ARGS: Record<string, TeamScopedRef["kind"]> = {
+  teamId: "team",
+  teamIds: "team",
+  issueId: "issue",
+  issueIds: "issue",
+  relatedIssueId: "issue",
+  parentId: "issue",
+  projectId: "project",
+  cycleId: "cycle",
+  milestoneId: "milestone",
+};
+
+/**
+ * Every team-scoped ID in a tool's arguments, including nested ones such
+ * as a bulk filter's teamId or the parentId of each issue in a batch
+ */
+export function collectTeamScopedRefs(args: unknown): TeamScopedRef[] {
+  const refs: TeamScopedRef[] = [];
+  const seen = new Set<string>();
+
+  const visit = (value: unknown) => {
+    if (Array.isArray(value)) {
+      value.forEach(visit);
+      return;
+    }
+    if (!value || typeof value !== "object") return;
+
+    for (const [key, child] of Object.entries(value)) {
+      const kind = TEAM_SCOPED_ARGS[key];
+      const ids = !kind
+        ? []
+        : typeof child === "string"
+          ? [child]
+          : Array.isArray(child)
+            ? child.filter((id): id is string => typeof id === "string")
+            : [];
+
+      for (const id of ids) {
+        if (seen.has(`${kind}:${id}`)) continue;
+        seen.add(`${kind}:${id}`);
+        refs.push({ kind, id });
+      }
+      if (ids.length === 0) visit(child);
+    }
+  };
+
+  visit(args);
+  return refs;
+}
+
+/**
+ * A team as far as scoping is concerned
+ */
+export interface ScopeTeam {
+  id: string;
+  key: string;
+}
+
+/**
+ * Looks up the teams an object belongs to
+ */
+export type TeamResolver = (ref: TeamScopedRef) => Promise<ScopeTeam[]>;
+
+/**
+ * Resolve team-scoped references through the Linear API. A project, or a
+ * milestone through its project, can belong to several teams.
+ */
+export function linearTeamResolver(linear: LinearClient): TeamResolver {
+  const teamsOf = (team: { id: string; key: string } | undefined) =>
+    team ? [{ id: team.id, key: team.key }] : [];
+
+  const projectTeams = async (
+    project: Awaited<ReturnType<LinearClient["project"]>> | undefined,
+  ) =>
+    project
+      ? (await project.teams()).nodes.map(({ id, key }) => ({ id, key }))
+      : [];
+
+  return async (ref) => {
+    switch (ref.kind) {
+      case "team":
+        return teamsOf(await linear.team(ref.id));
+      case "issue":
+        return teamsOf(await (await linear.issue(ref.id)).team);
+      case "project":
+        return projectTeams(await linear.project(ref.id));
+      case "cycle":
+        return teamsOf(await (await linear.cycle(ref.id)).team);
+      case "milestone":
+        return projectTeams(
+          await (
+            await linear.projectMilestone(ref.id)
+          ).project,
+        );
+    }
+  };
+}
+
+/**
+ * Whether any of an object's teams is allowed by the policy
+ */
+export function inAllowedTeams(
+  policy: ToolPolicy,
+  teams: ScopeTeam[],
+): boolean {
+  if (!policy.teams) return true;
+  const allowed = policy.teams.map((team) => team.toLowerCase());
+  return teams.some(
+    (team) =>
+      allowed.includes(team.key.toLowerCase()) ||
+      allowed.includes(team.id.toLowerCase()),
+  );
+}
+
+/**
+ * Check every Linear object a call names against the allowed teams. An
+ * object is in scope when at least one of its teams is allowed; write tools
+ * that name no team-scoped object are refused while scoped.
+ */
+export async function teamScopeViolation(
+  policy: ToolPolicy,
+  tool: ToolDefinition,
+  args: unknown,
+  resolveTeams: TeamResolver,
+): Promise<string | null> {
+  if (!policy.teams) return null;
+  const allowedList = policy.teams.join(", ");
+
+  const refs = collectTeamScopedRefs(args);
+  if (refs.length === 0) {
+    return tool.readOnly
+      ? null
+      : `it does not name a team, so it can't be checked against the allowed teams (${allowedList})`;
+  }
+
+  for (const ref of refs) {
+    let teams: ScopeTeam[];
+    try {
+      teams = await resolveTeams(ref);
+    } catch (error: any) {
+      return `could not check the team of ${ref.kind} ${ref.id}: ${error.message}`;
+    }
+
+    if (!inAllowedTeams(policy, teams)) {
+      const owners = teams.map((team) => team.key).join(", ") || "none";
+      return `${ref.kind} ${ref.id} (team ${owners}) is outside the allowed teams (${allowedList})`;
+    }
+  }
+  return null;
+}
@@ -0,0 +1,198 @@
+import { LinearClient } from "@linear/sdk";
+import { AuditJournal } from "./audit-journal";
+import {
+  DependencyResolver,
+  IssueSummary,
+  IssueWithRelations,
+} from "../modules/DependencyResolver";
+import { findTeamCursorAgent } from "./cursor-agent";
+import { LinearWebhookPayload, WebhookHandler } from "./linear-webhooks";
+import { moveIssueToState } from "./workflow-states";
+
+export interface UnblockOptions {
+  /** Also assign advanced issues to the team's Cursor agent */
+  assignAgent?: boolean;
+  /** Report what would happen without changing anything */
+  dryRun?: boolean;
+}
+
+export interface UnblockHandlerOptions extends UnblockOptions {
+  /** Journal the changes so `npm run undo` can revert them */
+  journal?: AuditJournal;
+}
+
+/**
+ * What happened to one issue that a completed issue was blocking
+ */
+export interface UnblockResult {
+  issue: IssueSummary;
+  advanced: boolean;
+  /** Why the issue was left alone */
+  reason?: string;
+  assignedTo?: string;
+}
+
+/** Cursor agent lookups by team id, shared across one run */
+type AgentCache = Map<string, ReturnType<typeof findTeamCursorAgent>>;
+
+const label = (issue: IssueSummary) => issue.identifier ?? `#${issue.number}`;
+
+/**
+ * Comment left on an issue its blockers no longer hold back
+ */
+export function unblockedComment(blockers: IssueSummary[]): string {
+  const list = blockers
+    .map((blocker) => `- [${label(blocker)}](${blocker.url}) ${blocker.title}`)
+    .join("\n");
+  return `🔓 **Unblocked** - moved from Backlog to Todo because ${
+    blockers.length === 1 ? "its blocker is" : "all its blockers are"
+  } completed:\n\n${list}`;
+}
+
+/**
+ * Move a blocked issue from Backlog to Todo once none of its blockers is
+ * incomplete, commenting with the blockers that held it back
+ */
+async function advanceIfUnblocked(
+  linear: LinearClient,
+  issue: IssueWithRelations,
+  options: UnblockOptions,
+  agents: AgentCache,
+): Promise<UnblockResult> {
+  const remaining = DependencyResolver.incompleteBlockers(issue);
+  if (remaining.length > 0) {
+    return {
+      issue,
+      advanced: false,
+      reason: `still blocked by ${remaining.map(label).join(", ")}`,
+    };
+  }
+  if (issue.state?.type !== "backlog") {
+    return {
+      issue,
+      advanced: false,
+      reason: `not in Backlog (${issue.state?.name ?? "no state"})`,
+    };
+  }
+
+  const blockers = issue.relations
+    .filter((relation) => relation.type === "blocks" && relation.relatedIssue)
+    .map((relation) => relation.relatedIssue!);
+  if (options.dryRun) return { issue, advanced: true };
+
+  await moveIssueToState(linear, issue.id, "Todo");
+  await linear.createComment({
+    issueId: issue.id,
+    body: unblockedComment(blockers),
+  });
+
+  const result: UnblockResult = { issue, advanced: true };
+  if (options.assignAgent) {
+    const teamId = (await (await linear.issue(issue.id)).team)?.id;
+    if (teamId) {
+      if (!agents.has(teamId)) {
+        agents.set(teamId, findTeamCursorAgent(linear, teamId));
+      }
+      const agent = await agents.get(teamId);
+      if (agent) {
+        await linear.updateIssue(issue.id, { assigneeId: agent.id });
+        result.assignedTo = agent.name;
+      }
+    }
+  }
+  return result;
+}
+
+/**
+ * Advance the issues a completed issue was blocking. Does nothing while
+ * the issue itself isn't completed.
+ */
+export async function advanceIssuesBlockedBy(
+  linear: LinearClient,
+  issueId: string,
+  options: UnblockOptions = {},
+): Promise<{ blocker: IssueSummary; results: UnblockResult[] }> {
+  const resolver = new DependencyResolver(linear.client);
+  const { blocker, blocked } = await resolver.fetchIssuesBlockedBy(issueId);
+  if (blocker.state?.type !== "completed") {
+    return { blocker, results: [] };
+  }
+
+  const agents: AgentCache = new Map();
+  const results: UnblockResult[] = [];
+  for (const issue of blocked) {
+    results.push(await advanceIfUnblocked(linear, issue, options, agents));
+  }
+  return { blocker, results };
+}
+
+/**
+ * Sweep a team's Backlog for blocked issues whose blockers are all
+ * completed, e.g. to catch up on completions the webhook missed
+ */
+export async function advanceUnblockedBacklog(
+  linear: LinearClient,
+  teamId: string,
+  options: UnblockOptions & { maxResults?: number } = {},
+): Promise<UnblockResult[]> {
+  const resolver = new DependencyResolver(linear.client);
+  const backlog = await resolver.fetchAllIssuesWithRelations(
+    {
+      team: { id: { eq: teamId } },
+      state: { type: { eq: "backlog" } },
+    },
+    options.maxResults,
+  );
+
+  const agents: AgentCache = new Map();
+  const results: UnblockResult[] = [];
+  for (const issue of backlog.nodes) {
+    const hasBlockers = issue.relations.some(
+      (relation) => relation.type === "blocks",
+    );
+    if (hasBlockers) {
+      results.push(await advanceIfUnblocked(linear, issue, options, agents));
+    }
+  }
+  return results;
+}
+
+/**
+ * Whether a payload is an issue moving into a completed state
+ */
+export function isCompletion(payload: LinearWebhookPayload): boolean {
+  return (
+    payload.type === "Issue" &&
+    payload.action === "update" &&
+    payload.data.state?.type === "completed" &&
+    payload.updatedFrom?.stateId !== undefined &&
+    payload.updatedFrom.stateId !== payload.data.stateId
+  );
+}
+
+/**
+ * A webhook handler advancing the issues each newly completed issue was
+ * blocking
+ */
+export function createUnblockHandler(
+  linear: LinearClient,
+  options: UnblockHandlerOptions = {},
+): WebhookHandler {
+  return async (payload) => {
+    if (!isCompletion(payload)) return;
+
+    const run = () => advanceIssuesBlockedBy(linear, payload.data.id, options);
+    const { blocker, results } = options.journal
+      ? await options.journal.track(
+          "auto-unblock",
+          { issueId: payload.data.id },
+          run,
+        )
+      : await run();
+    for (const result of results.filter((r) => r.advanced)) {
+      console.log(
+        `🔓 ${label(result.issue)} unblocked by ${label(blocker)}${options.dryRun ? " (dry run)" : ""}${result.assignedTo ? `, assigned to ${result.assignedTo}` : ""}`,
+      );
+    }
+  };
+}
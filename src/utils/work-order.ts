@@ -0,0 +1,365 @@
+import {
+  DependencyResolver,
+  IssueWithRelations,
+} from "../modules/DependencyResolver";
+import {
+  DependencyEdge,
+  DependencyProblem,
+  validateDependencyEdges,
+} from "./dependency-validation";
+
+/**
+ * Options for planning a work order
+ */
+export interface WorkOrderOptions {
+  /** Duration used for issues without an estimate (default: 1) */
+  defaultEstimate?: number;
+  /** Cap on parallel lanes, e.g. the number of people (default: unlimited) */
+  maxLanes?: number;
+}
+
+/**
+ * An issue in the work order, with its schedule
+ */
+export interface WorkOrderItem {
+  id: string;
+  identifier: string;
+  title: string;
+  url: string;
+  state: string;
+  priority: number;
+  /** Duration used for scheduling */
+  estimate: number;
+  /** False when `estimate` is the default because the issue has none */
+  estimated: boolean;
+  /** Ids of open issues in the same project that block this one */
+  blockedBy: string[];
+  /** Earliest start if there were enough people to work in parallel */
+  earliestStart: number;
+  earliestFinish: number;
+  /** How long the issue can slip without delaying the project */
+  slack: number;
+  critical: boolean;
+  /** Lane (1-based) the issue is scheduled in */
+  lane: number;
+  /** Start and finish in the lane schedule */
+  start: number;
+  finish: number;
+}
+
+/**
+ * A sequence of issues that one person (or agent) can work through
+ */
+export interface WorkOrderLane {
+  lane: number;
+  finish: number;
+  issues: Array<{
+    id: string;
+    identifier: string;
+    title: string;
+    start: number;
+    finish: number;
+    critical: boolean;
+  }>;
+}
+
+/**
+ * An open issue blocked by something outside the planned set
+ */
+export interface ExternalBlocker {
+  issueId: string;
+  identifier: string;
+  blocker: { id: string; identifier: string; title: string; state: string };
+}
+
+/**
+ * Topological work order with critical path and parallel lanes
+ */
+export interface WorkOrder {
+  /** Issues in dependency order (blockers before the issues they block) */
+  order: WorkOrderItem[];
+  criticalPath: {
+    /** Issue ids, first to last */
+    issues: string[];
+    /** Sum of the estimates along the path */
+    length: number;
+  };
+  lanes: WorkOrderLane[];
+  /** When the last lane finishes (equals the critical path length unless maxLanes delays work) */
+  scheduledFinish: number;
+  externalBlockers: ExternalBlocker[];
+  /** Dependency cycles; the edge that closes each cycle is ignored */
+  cycles: DependencyProblem[];
+  /** Issues that have no estimate and were scheduled with the default */
+  unestimated: string[];
+}
+
+const CLOSED_STATE_TYPES = ["completed", "canceled"];
+
+/** Linear priority 0 means "no priority"; sort it after Low (4) */
+function priorityRank(priority?: number): number {
+  return priority && priority > 0 ? priority : 5;
+}
+
+function identifierOf(issue: { identifier?: string; number: number }): string {
+  return issue.identifier ?? `#${issue.number}`;
+}
+
+function isClosed(issue: { state: { type: string } | null }): boolean {
+  return CLOSED_STATE_TYPES.includes(issue.state?.type ?? "");
+}
+
+/**
+ * Plan the open issues of a set over their blocks relations.
+ *
+ * Issues are sorted topologically (ties broken by priority, then issue
+ * number), durations come from estimates, and the critical path is the
+ * longest chain of estimates through the graph. Lanes are filled by list
+ * scheduling: each issue starts as soon as its blockers are done and a
+ * lane is free, preferring the lane that just finished one of its
+ * blockers so related work stays with the same person.
+ */
+export function computeWorkOrder(
+  issues: IssueWithRelations[],
+  options: WorkOrderOptions = {},
+): WorkOrder {
+  const defaultEstimate = options.defaultEstimate ?? 1;
+  const maxLanes =
+    options.maxLanes && options.maxLanes > 0 ? options.maxLanes : Infinity;
+
+  const open = issues.filter((issue) => !isClosed(issue));
+  const byId = new Map(open.map((issue) => [issue.id, issue]));
+  const label = (id: string) => {
+    const issue = byId.get(id);
+    return issue ? `${identifierOf(issue)} ${issue.title}` : id;
+  };
+
+  // Blocks edges between open issues; open blockers elsewhere are reported
+  const edges: DependencyEdge[] = [];
+  const externalBlockers: ExternalBlocker[] = [];
+  for (const issue of open) {
+    for (const relation of issue.relations) {
+      const blocker = relation.relatedIssue;
+      if (relation.type !== "blocks" || !blocker) continue;
+
+      if (byId.has(blocker.id)) {
+        edges.push({ blocker: blocker.id, blocked: issue.id });
+      } else if (blocker.state?.type !== "completed") {
+        externalBlockers.push({
+          issueId: issue.id,
+          identifier: identifierOf(issue),
+          blocker: {
+            id: blocker.id,
+            identifier: identifierOf(blocker),
+            title: blocker.title,
+            state: blocker.state?.name ?? "Unknown",
+          },
+        });
+      }
+    }
+  }
+
+  // Break cycles so every issue can be ordered
+  const validation = validateDependencyEdges(edges, label);
+  const blockersOf = new Map<string, string[]>();
+  const dependentsOf = new Map<string, string[]>();
+  for (const issue of open) {
+    blockersOf.set(issue.id, []);
+    dependentsOf.set(issue.id, []);
+  }
+  for (const edge of validation.acceptedEdges) {
+    blockersOf.get(edge.blocked)!.push(edge.blocker);
+    dependentsOf.get(edge.blocker)!.push(edge.blocked);
+  }
+
+  const byPriority = (a: string, b: string) => {
+    const x = byId.get(a)!;
+    const y = byId.get(b)!;
+    return (
+      priorityRank(x.priority) - priorityRank(y.priority) || x.number - y.number
+    );
+  };
+
+  // Kahn's algorithm
+  const remaining = new Map(
+    open.map((issue) => [issue.id, blockersOf.get(issue.id)!.length]),
+  );
+  const ready = open
+    .filter((issue) => remaining.get(issue.id) === 0)
+    .map((issue) => issue.id);
+  const topo: string[] = [];
+  while (ready.length > 0) {
+    ready.sort(byPriority);
+    const id = ready.shift()!;
+    topo.push(id);
+    for (const dependent of dependentsOf.get(id)!) {
+      const left = remaining.get(dependent)! - 1;
+      remaining.set(dependent, left);
+      if (left === 0) ready.push(dependent);
+    }
+  }
+
+  const duration = new Map(
+    open.map((issue) => [issue.id, issue.estimate ?? defaultEstimate]),
+  );
+
+  // Forward pass: earliest start/finish with unlimited people
+  const earliestStart = new Map<string, number>();
+  const earliestFinish = new Map<string, number>();
+  for (const id of topo) {
+    const start = Math.max(
+      0,
+      ...blockersOf.get(id)!.map((blocker) => earliestFinish.get(blocker)!),
+    );
+    earliestStart.set(id, start);
+    earliestFinish.set(id, start + duration.get(id)!);
+  }
+  const projectLength = Math.max(0, ...earliestFinish.values());
+
+  // Backward pass: latest start that doesn't delay the project
+  const latestStart = new Map<string, number>();
+  for (const id of [...topo].reverse()) {
+    const latestFinish = Math.min(
+      projectLength,
+      ...dependentsOf.get(id)!.map((dependent) => latestStart.get(dependent)!),
+    );
+    latestStart.set(id, latestFinish - duration.get(id)!);
+  }
+  const slack = (id: string) => latestStart.get(id)! - earliestStart.get(id)!;
+  const isCritical = (id: string) => Math.abs(slack(id)) < 1e-9;
+
+  // Walk the critical path back from the issue that finishes last
+  const criticalPath: string[] = [];
+  let current = topo
+    .filter(isCritical)
+    .find((id) => earliestFinish.get(id) === projectLength);
+  while (current) {
+    criticalPath.unshift(current);
+    const start = earliestStart.get(current)!;
+    current = blockersOf
+      .get(current)!
+      .find((id) => isCritical(id) && earliestFinish.get(id) === start);
+  }
+
+  // List scheduling into lanes
+  const laneFree: number[] = [];
+  const laneLast: Array<string | undefined> = [];
+  const laneOf = new Map<string, number>();
+  const start = new Map<string, number>();
+  const finish = new Map<string, number>();
+  const waiting = new Map(topo.map((id) => [id, blockersOf.get(id)!.length]));
+  const schedulable = topo.filter((id) => waiting.get(id) === 0);
+  const readyAt = (id: string) =>
+    Math.max(0, ...blockersOf.get(id)!.map((blocker) => finish.get(blocker)!));
+
+  while (schedulable.length > 0) {
+    schedulable.sort(
+      (a, b) =>
+        readyAt(a) - readyAt(b) || slack(a) - slack(b) || byPriority(a, b),
+    );
+    const id = schedulable.shift()!;
+    const readyTime = readyAt(id);
+    const blockers = blockersOf.get(id)!;
+
+    const free = laneFree
+      .map((time, lane) => ({ time, lane }))
+      .filter(({ time }) => time <= readyTime);
+    let lane: number;
+    if (free.length > 0) {
+      // Continue a blocker's lane if possible, else the best-fitting lane
+      const continuing = free.find(({ lane }) =>
+        blockers.includes(laneLast[lane] ?? ""),
+      );
+      lane = (
+        continuing ?? free.reduce((best, x) => (x.time > best.time ? x : best))
+      ).lane;
+    } else if (laneFree.length < maxLanes) {
+      lane = laneFree.length;
+      laneFree.push(0);
+    } else {
+      lane = laneFree.indexOf(Math.min(...laneFree));
+    }
+
+    const begin = Math.max(readyTime, laneFree[lane]);
+    start.set(id, begin);
+    finish.set(id, begin + duration.get(id)!);
+    laneFree[lane] = finish.get(id)!;
+    laneLast[lane] = id;
+    laneOf.set(id, lane);
+
+    for (const dependent of dependentsOf.get(id)!) {
+      const left = waiting.get(dependent)! - 1;
+      waiting.set(dependent, left);
+      if (left === 0) schedulable.push(dependent);
+    }
+  }
+
+  const order: WorkOrderItem[] = topo.map((id) => {
+    const issue = byId.get(id)!;
+    return {
+      id,
+      identifier: identifierOf(issue),
+      title: issue.title,
+      url: issue.url,
+      state: issue.state?.name ?? "Unknown",
+      priority: issue.priority ?? 0,
+      estimate: duration.get(id)!,
+      estimated: issue.estimate !== null && issue.estimate !== undefined,
+      blockedBy: blockersOf.get(id)!,
+      earliestStart: earliestStart.get(id)!,
+      earliestFinish: earliestFinish.get(id)!,
+      slack: slack(id),
+      critical: isCritical(id),
+      lane: laneOf.get(id)! + 1,
+      start: start.get(id)!,
+      finish: finish.get(id)!,
+    };
+  });
+
+  const lanes: WorkOrderLane[] = laneFree.map((time, index) => ({
+    lane: index + 1,
+    finish: time,
+    issues: order
+      .filter((item) => item.lane === index + 1)
+      .sort((a, b) => a.start - b.start)
+      .map((item) => ({
+        id: item.id,
+        identifier: item.identifier,
+        title: item.title,
+        start: item.start,
+        finish: item.finish,
+        critical: item.critical,
+      })),
+  }));
+
+  return {
+    order,
+    criticalPath: { issues: criticalPath, length: projectLength },
+    lanes,
+    scheduledFinish: Math.max(0, ...laneFree),
+    externalBlockers,
+    cycles: validation.problems,
+    unestimated: order.filter((item) => !item.estimated).map((item) => item.id),
+  };
+}
+
+/**
+ * Load a project's open issues (with relations) and plan their work order
+ */
+export async function loadProjectWorkOrder(
+  resolver: DependencyResolver,
+  projectId: string,
+  options: WorkOrderOptions & { maxResults?: number } = {},
+): Promise<{ workOrder: WorkOrder; truncated: boolean }> {
+  const issues = await resolver.fetchAllIssuesWithRelations(
+    {
+      project: { id: { eq: projectId } },
+      state: { type: { nin: CLOSED_STATE_TYPES } },
+    },
+    options.maxResults,
+  );
+  return {
+    workOrder: computeWorkOrder(issues.nodes, options),
+    truncated: issues.truncated,
+  };
+}
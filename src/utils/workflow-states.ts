@@ -0,0 +1,143 @@
+import { LinearClient } from "@linear/sdk";
+
+/**
+ * Workflow state types Linear uses across all teams
+ */
+export const WORKFLOW_STATE_TYPES = [
+  "triage",
+  "backlog",
+  "unstarted",
+  "started",
+  "completed",
+  "canceled",
+];
+
+/**
+ * Common ways of naming a state type that aren't Linear's own type names
+ */
+const STATE_TYPE_ALIASES: Record<string, string> = {
+  todo: "unstarted",
+  inprogress: "started",
+  done: "completed",
+  cancelled: "canceled",
+};
+
+/**
+ * Workflow state fields read from the Linear SDK
+ */
+export interface WorkflowStateLike {
+  id: string;
+  name: string;
+  type: string;
+  position: number;
+}
+
+/**
+ * State as reported before/after a transition
+ */
+export interface WorkflowStateSummary {
+  id: string;
+  name: string;
+  type: string;
+}
+
+/**
+ * Result of moving an issue to another state
+ */
+export interface StateTransition {
+  issueId: string;
+  identifier: string;
+  before: WorkflowStateSummary | null;
+  after: WorkflowStateSummary;
+  /** False when the issue was already in the target state */
+  changed: boolean;
+}
+
+function normalize(value: string): string {
+  return value.toLowerCase().replace(/[\s_-]+/g, "");
+}
+
+function toStateSummary(state: WorkflowStateLike): WorkflowStateSummary {
+  return { id: state.id, name: state.name, type: state.type };
+}
+
+/**
+ * Resolve a state by name or type against a team's workflow states.
+ *
+ * Names win over types and are matched case- and spacing-insensitively
+ * ("in review", "InReview"). A type ("started") or a common alias
+ * ("in progress", "done") resolves to the first state of that type in
+ * the workflow. Throws, listing the available states, if nothing matches.
+ */
+export function resolveWorkflowState<T extends WorkflowStateLike>(
+  states: T[],
+  nameOrType: string,
+): T {
+  const wanted = normalize(nameOrType);
+
+  const byName = states.find((state) => normalize(state.name) === wanted);
+  if (byName) return byName;
+
+  const type = WORKFLOW_STATE_TYPES.includes(wanted)
+    ? wanted
+    : STATE_TYPE_ALIASES[wanted];
+  if (type) {
+    const [first] = states
+      .filter((state) => state.type === type)
+      .sort((a, b) => a.position - b.position);
+    if (first) return first;
+  }
+
+  const available = [...states]
+    .sort((a, b) => a.position - b.position)
+    .map((state) => `${state.name} (${state.type})`)
+    .join(", ");
+  throw new Error(
+    `Unknown workflow state "${nameOrType}". Available states: ${available}`,
+  );
+}
+
+/**
+ * Look up a state by name or type in a team's workflow
+ */
+export async function resolveTeamState(
+  linear: LinearClient,
+  teamId: string,
+  nameOrType: string,
+): Promise<WorkflowStateLike> {
+  const team = await linear.team(teamId);
+  const states = await team.states();
+  return resolveWorkflowState(states.nodes, nameOrType);
+}
+
+/**
+ * Move an issue to a state (by name or type) of its own team's workflow.
+ * Issues already in the target state are left untouched.
+ */
+export async function moveIssueToState(
+  linear: LinearClient,
+  issueId: string,
+  nameOrType: string,
+): Promise<StateTransition> {
+  const issue = await linear.issue(issueId);
+  const [team, current] = await Promise.all([issue.team, issue.state]);
+  if (!team) {
+    throw new Error(`Issue ${issue.identifier} has no team`);
+  }
+
+  const states = await team.states();
+  const target = resolveWorkflowState(states.nodes, nameOrType);
+  const changed = current?.id !== target.id;
+
+  if (changed) {
+    await linear.updateIssue(issue.id, { stateId: target.id });
+  }
+
+  return {
+    issueId: issue.id,
+    identifier: issue.identifier,
+    before: current ? toStateSummary(current) : null,
+    after: toStateSummary(target),
+    changed,
+  };
+}
@@ -0,0 +1,183 @@
+import * as dotenv from "dotenv";
+import * as fs from "fs";
+import { AuditJournal } from "./utils/audit-journal";
+import {
+  createRulesHandler,
+  describeRuleActions,
+  loadAutomationRules,
+  matchAutomationRules,
+} from "./utils/automation-rules";
+import {
+  createWebhookApp,
+  dispatchWebhook,
+  readRecordedPayloads,
+  WebhookHandler,
+  webhookEvent,
+} from "./utils/linear-webhooks";
+import { createLinearClient } from "./utils/resilient-client";
+import { createUnblockHandler, isCompletion } from "./utils/unblock-issues";
+
+dotenv.config();
+
+interface WebhookArgs {
+  rulesFile: string;
+  port: number;
+  recordDir?: string;
+  replay: string[];
+  apply: boolean;
+  dryRun: boolean;
+  unblock: boolean;
+  assignAgent: boolean;
+}
+
+function readArgs(): WebhookArgs {
+  const argv = process.argv.slice(2);
+  const args: WebhookArgs = {
+    rulesFile: process.env.WEBHOOK_RULES_FILE || "automation-rules.yaml",
+    port: Number(process.env.WEBHOOK_PORT || 3030),
+    recordDir: process.env.WEBHOOK_RECORD_DIR || undefined,
+    replay: [],
+    apply: false,
+    dryRun: false,
+    unblock: process.env.WEBHOOK_AUTO_UNBLOCK === "true",
+    assignAgent: false,
+  };
+  for (let i = 0; i < argv.length; i++) {
+    const a = argv[i];
+    if (a === "--rules") args.rulesFile = argv[++i];
+    else if (a === "--port") args.port = Number(argv[++i]);
+    else if (a === "--record") args.recordDir = argv[++i];
+    else if (a === "--replay") {
+      while (argv[i + 1] && !argv[i + 1].startsWith("--")) {
+        args.replay.push(argv[++i]);
+      }
+    } else if (a === "--apply") args.apply = true;
+    else if (a === "--dry-run") args.dryRun = true;
+    else if (a === "--unblock") args.unblock = true;
+    else if (a === "--assign-agent") args.assignAgent = true;
+  }
+  if (!Number.isInteger(args.port) || args.port < 0) {
+    throw new Error("--port must be a port number");
+  }
+  if (args.replay.length === 0 && !process.env.LINEAR_WEBHOOK_SECRET) {
+    throw new Error("LINEAR_WEBHOOK_SECRET is required in env");
+  }
+  if ((args.apply || args.replay.length === 0) && !process.env.LINEAR_API_KEY) {
+    throw new Error("LINEAR_API_KEY is required in env");
+  }
+  return args;
+}
+
+/**
+ * The rules to apply. With --unblock the server is useful without any.
+ */
+function loadRules(args: WebhookArgs) {
+  return args.unblock && !fs.existsSync(args.rulesFile)
+    ? []
+    : loadAutomationRules(args.rulesFile);
+}
+
+/**
+ * Run recorded payloads through the rules. Without --apply nothing is
+ * sent to Linear, so rules can be tried out offline.
+ */
+async function replay(args: WebhookArgs) {
+  const rules = loadRules(args);
+  const recorded = readRecordedPayloads(args.replay);
+  const handlers: WebhookHandler[] = [];
+  if (args.apply) {
+    const journal = new AuditJournal();
+    const linear = journal.wrap(createLinearClient(process.env.LINEAR_API_KEY));
+    handlers.push(createRulesHandler(linear, rules, { journal }));
+    if (args.unblock) {
+      handlers.push(
+        createUnblockHandler(linear, {
+          assignAgent: args.assignAgent,
+          journal,
+        }),
+      );
+    }
+  }
+
+  console.log(
+    `🔁 Replaying ${recorded.length} payloads against ${rules.length} rules${args.apply ? "" : " (dry run)"}\n`,
+  );
+
+  let fired = 0;
+  for (const { file, payload } of recorded) {
+    const matches = matchAutomationRules(rules, payload);
+    console.log(
+      `📨 ${file}: ${webhookEvent(payload)} ${payload.data.identifier ?? payload.data.id}`,
+    );
+    fired += matches.length;
+    if (matches.length === 0) console.log("   (no rules fired)");
+    if (args.apply) {
+      await dispatchWebhook(payload, handlers);
+      continue;
+    }
+    if (args.unblock && isCompletion(payload)) {
+      console.log("   🔓 completed: would advance the issues it blocks");
+    }
+    for (const match of matches) {
+      console.log(
+        `   🔎 ${match.rule.name}: ${describeRuleActions(match.rule.then).join(", ")}`,
+      );
+    }
+  }
+
+  console.log(`\n✅ ${fired} rule matches in ${recorded.length} payloads`);
+}
+
+async function serve(args: WebhookArgs) {
+  const rules = loadRules(args);
+  const journal = new AuditJournal();
+  const linear = journal.wrap(createLinearClient(process.env.LINEAR_API_KEY));
+  const viewer = await linear.viewer;
+
+  const app = createWebhookApp({
+    secret: process.env.LINEAR_WEBHOOK_SECRET!,
+    recordDir: args.recordDir,
+    handlers: [
+      createRulesHandler(linear, rules, {
+        dryRun: args.dryRun,
+        ignoreActorId: viewer.id,
+        journal,
+      }),
+      ...(args.unblock
+        ? [
+            createUnblockHandler(linear, {
+              assignAgent: args.assignAgent,
+              dryRun: args.dryRun,
+              journal,
+            }),
+          ]
+        : []),
+    ],
+  });
+
+  app.listen(args.port, () => {
+    console.log(
+      `🪝 Linear webhooks on http://localhost:${args.port}/webhooks/linear`,
+    );
+    console.log(
+      `   ${rules.length} rules from ${args.rulesFile}, acting as ${viewer.name}${args.dryRun ? " (dry run)" : ""}`,
+    );
+    if (args.unblock) {
+      console.log("   Moving unblocked issues from Backlog to Todo");
+    }
+    if (args.recordDir) {
+      console.log(`   Recording payloads to ${args.recordDir}`);
+    }
+  });
+}
+
+async function main() {
+  const args = readArgs();
+  if (args.replay.length > 0) await replay(args);
+  else await serve(args);
+}
+
+main().catch((e) => {
+  console.error("❌ Webhook server failed:", e.message);
+  process.exit(1);
+});
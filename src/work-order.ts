@@ -0,0 +1,171 @@
+import { LinearClient } from "@linear/sdk";
+import inquirer from "inquirer";
+import * as dotenv from "dotenv";
+import { DependencyResolver } from "./modules/DependencyResolver";
+import { WorkOrder, loadProjectWorkOrder } from "./utils/work-order";
+import { createLinearClient } from "./utils/resilient-client";
+
+dotenv.config();
+
+interface WorkOrderArgs {
+  projectId?: string;
+  defaultEstimate?: number;
+  maxLanes?: number;
+  json: boolean;
+  useEnvTeam: boolean;
+}
+
+function readArgs(): WorkOrderArgs {
+  const argv = process.argv.slice(2);
+  const args: WorkOrderArgs = { json: false, useEnvTeam: false };
+  for (let i = 0; i < argv.length; i++) {
+    const a = argv[i];
+    if (a === "--project-id") args.projectId = argv[++i];
+    else if (a === "--default-estimate")
+      args.defaultEstimate = Number(argv[++i]);
+    else if (a === "--max-lanes") args.maxLanes = Number(argv[++i]);
+    else if (a === "--json") args.json = true;
+    else if (a === "--use-env-team") args.useEnvTeam = true;
+  }
+  if (args.defaultEstimate !== undefined && isNaN(args.defaultEstimate)) {
+    throw new Error("--default-estimate must be a number");
+  }
+  if (args.maxLanes !== undefined && !(args.maxLanes > 0)) {
+    throw new Error("--max-lanes must be a positive number");
+  }
+  if (!process.env.LINEAR_API_KEY) {
+    throw new Error("LINEAR_API_KEY is required in env");
+  }
+  return args;
+}
+
+/**
+ * Pick a project interactively when --project-id isn't given
+ */
+async function selectProject(
+  linear: LinearClient,
+  args: WorkOrderArgs,
+): Promise<string> {
+  if (args.projectId) return args.projectId;
+
+  const envTeam = process.env.LINEAR_TEAM_ID?.trim();
+  let teamId = args.useEnvTeam && envTeam ? envTeam : undefined;
+  if (!teamId) {
+    const teams = await linear.teams();
+    ({ teamId } = await inquirer.prompt([
+      {
+        type: "list",
+        name: "teamId",
+        message: "Select team:",
+        choices: teams.nodes.map((t) => ({
+          name: `${t.name} (${t.key})`,
+          value: t.id,
+        })),
+      },
+    ]));
+  }
+
+  const projects = await linear.projects({
+    filter: { accessibleTeams: { id: { eq: teamId } } },
+  });
+  if (projects.nodes.length === 0) {
+    throw new Error("No projects found for this team");
+  }
+  const { projectId } = await inquirer.prompt([
+    {
+      type: "list",
+      name: "projectId",
+      message: "Select project to plan:",
+      choices: projects.nodes.map((p) => ({ name: p.name, value: p.id })),
+    },
+  ]);
+  return projectId;
+}
+
+function printWorkOrder(workOrder: WorkOrder) {
+  const byId = new Map(workOrder.order.map((item) => [item.id, item]));
+  const name = (id: string) => {
+    const item = byId.get(id);
+    return item ? `${item.identifier} ${item.title}` : id;
+  };
+
+  console.log(`\n📋 Work order (${workOrder.order.length} open issues)\n`);
+  workOrder.order.forEach((item, index) => {
+    const marker = item.critical ? "🔴" : "  ";
+    const blockers = item.blockedBy.length
+      ? ` ← ${item.blockedBy.map((id) => byId.get(id)?.identifier ?? id).join(", ")}`
+      : "";
+    console.log(
+      `${String(index + 1).padStart(3)}. ${marker} ${item.identifier} ${item.title} [${item.estimate}${item.estimated ? "" : "?"}, slack ${item.slack}]${blockers}`,
+    );
+  });
+
+  console.log(`\n🔴 Critical path (length ${workOrder.criticalPath.length}):`);
+  for (const id of workOrder.criticalPath.issues) {
+    console.log(`   → ${name(id)}`);
+  }
+
+  console.log(
+    `\n🛤️  ${workOrder.lanes.length} lane(s), finishing at ${workOrder.scheduledFinish}:`,
+  );
+  for (const lane of workOrder.lanes) {
+    console.log(`\n   Lane ${lane.lane}:`);
+    for (const issue of lane.issues) {
+      console.log(
+        `     ${issue.start}-${issue.finish}  ${issue.identifier} ${issue.title}${issue.critical ? " 🔴" : ""}`,
+      );
+    }
+  }
+
+  if (workOrder.externalBlockers.length > 0) {
+    console.log("\n⛔ Blocked by issues outside the project:");
+    for (const external of workOrder.externalBlockers) {
+      console.log(
+        `   ${external.identifier} ← ${external.blocker.identifier} ${external.blocker.title} (${external.blocker.state})`,
+      );
+    }
+  }
+
+  if (workOrder.cycles.length > 0) {
+    console.log("\n⚠️  Dependency cycles (closing edge ignored):");
+    for (const cycle of workOrder.cycles) {
+      console.log(`   ${cycle.message}`);
+    }
+  }
+
+  if (workOrder.unestimated.length > 0) {
+    console.log(
+      `\n❔ ${workOrder.unestimated.length} issue(s) without an estimate used the default (marked ?)`,
+    );
+  }
+}
+
+async function main() {
+  const args = readArgs();
+  const linear = createLinearClient(process.env.LINEAR_API_KEY);
+  const resolver = new DependencyResolver(linear.client);
+
+  const projectId = await selectProject(linear, args);
+
+  console.error("📥 Loading issues and relations...");
+  const { workOrder, truncated } = await loadProjectWorkOrder(
+    resolver,
+    projectId,
+    { defaultEstimate: args.defaultEstimate, maxLanes: args.maxLanes },
+  );
+
+  if (truncated) {
+    console.error("⚠️  Issue limit reached - work order is incomplete");
+  }
+
+  if (args.json) {
+    console.log(JSON.stringify(workOrder, null, 2));
+  } else {
+    printWorkOrder(workOrder);
+  }
+}
+
+main().catch((e) => {
+  console.error("❌ Work order planning failed:", e.message);
+  process.exit(1);
+});